@@ -0,0 +1,97 @@
+// Writes supabase/seed.sql from the fixture generator. `supabase db reset`
+// applies the migrations and then this file, so a fresh local database comes
+// up with the same projects, POs, parts and shipments every time.
+//
+//   npm run db:seed -- --seed=7 --projects=20 --pos-per-project=5
+//   npm run db:seed -- --preset=crisis --delay-rate=0.6 --countries=China,Vietnam
+//
+// A preset (healthy, crisis or loadTest) sets the shape of the data, and any
+// other options given override it.
+//
+// The generator and mappers are TypeScript with "@/..." imports, so they're
+// loaded through Vite rather than compiled separately.
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { createServer } from "vite";
+
+const { values: args } = parseArgs({
+  options: {
+    preset: { type: "string" },
+    seed: { type: "string" },
+    clients: { type: "string" },
+    suppliers: { type: "string" },
+    projects: { type: "string" },
+    "pos-per-project": { type: "string" },
+    "delay-rate": { type: "string" },
+    countries: { type: "string" },
+    "reference-date": { type: "string" },
+    out: { type: "string", default: "supabase/seed.sql" },
+  },
+});
+
+const numberArg = (name) => {
+  if (args[name] === undefined) return undefined;
+  const value = Number(args[name]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`--${name} must be a whole number, got "${args[name]}"`);
+  }
+  return value;
+};
+
+const rateArg = (name) => {
+  if (args[name] === undefined) return undefined;
+  const value = Number(args[name]);
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error(`--${name} must be between 0 and 1, got "${args[name]}"`);
+  }
+  return value;
+};
+
+const overrides = Object.fromEntries(
+  Object.entries({
+    seed: numberArg("seed"),
+    clients: numberArg("clients"),
+    suppliers: numberArg("suppliers"),
+    projects: numberArg("projects"),
+    purchaseOrdersPerProject: numberArg("pos-per-project"),
+    delayRate: rateArg("delay-rate"),
+    countries: args.countries?.split(",").map(country => country.trim()).filter(Boolean),
+    referenceDate: args["reference-date"],
+  }).filter(([, value]) => value !== undefined)
+);
+
+const server = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: "custom",
+  logLevel: "error",
+});
+
+try {
+  const { createFixtures, DEFAULT_FIXTURE_OPTIONS, SCENARIO_PRESETS, SUPPLIER_COUNTRIES } =
+    await server.ssrLoadModule("/src/data/fixtures.ts");
+  const { fixturesToSql } = await server.ssrLoadModule("/src/integrations/supabase/seed.ts");
+
+  if (args.preset !== undefined && !Object.hasOwn(SCENARIO_PRESETS, args.preset)) {
+    throw new Error(`--preset must be one of ${Object.keys(SCENARIO_PRESETS).join(", ")}, got "${args.preset}"`);
+  }
+  const unknownCountry = overrides.countries?.find(country => !SUPPLIER_COUNTRIES.includes(country));
+  if (unknownCountry) {
+    throw new Error(`--countries must be from ${SUPPLIER_COUNTRIES.join(", ")}, got "${unknownCountry}"`);
+  }
+
+  const preset = args.preset ? SCENARIO_PRESETS[args.preset].options : {};
+  const options = { ...DEFAULT_FIXTURE_OPTIONS, ...preset, ...overrides };
+  const fixtures = createFixtures(options);
+  const sql = fixturesToSql(fixtures, [
+    "Generated by `npm run db:seed`. Do not edit by hand.",
+    `Options: ${JSON.stringify(options)}`,
+  ]);
+
+  await writeFile(args.out, sql);
+  console.log(
+    `Wrote ${args.out}: ${fixtures.clients.length} clients, ${fixtures.suppliers.length} suppliers, ` +
+    `${fixtures.projects.length} projects, ${fixtures.purchaseOrders.length} POs, ${fixtures.shipments.length} shipments`
+  );
+} finally {
+  await server.close();
+}
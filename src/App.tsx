@@ -2,11 +2,12 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { DataProvider } from "@/contexts/DataContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
 import React from "react";
 
 // Layout
@@ -31,14 +32,30 @@ import AdminProjects from "@/pages/admin/AdminProjects";
 import AdminClients from "@/pages/admin/AdminClients";
 import AdminSuppliers from "@/pages/admin/AdminSuppliers";
 import AdminPurchaseOrders from "@/pages/admin/AdminPurchaseOrders";
+import AdminApprovals from "@/pages/admin/AdminApprovals";
 import AdminExternalLinks from "@/pages/admin/AdminExternalLinks";
 import AdminSettings from "@/pages/admin/AdminSettings";
 import AdminShipments from "@/pages/admin/AdminShipments";
+import AdminAuditLog from "@/pages/admin/AdminAuditLog";
+import AdminSupplierUpdates from "@/pages/admin/AdminSupplierUpdates";
+import AdminTrash from "@/pages/admin/AdminTrash";
+import { RoleGuard } from "@/components/admin/RoleGuard";
+import { ADMIN_ROUTE_ROLES } from "@/lib/roles";
+
+// Client Portal Pages
+import PortalLayout from "@/pages/portal/PortalLayout";
+import PortalDashboard from "@/pages/portal/PortalDashboard";
+import PortalProject from "@/pages/portal/PortalProject";
+
+// Supplier Portal Pages
+import SupplierPortalLayout from "@/pages/supplier-portal/SupplierPortalLayout";
+import SupplierPortalDashboard from "@/pages/supplier-portal/SupplierPortalDashboard";
+import SupplierPortalOrder from "@/pages/supplier-portal/SupplierPortalOrder";
 
 // Not Found
 import NotFound from "@/pages/NotFound";
 
-const queryClient = new QueryClient();
+import { queryClient } from "@/lib/queryCache";
 
 const App = () => (
   <React.StrictMode>
@@ -47,40 +64,60 @@ const App = () => (
         <BrowserRouter>
           <ThemeProvider>
             <AuthProvider>
-              <DataProvider>
-                <Routes>
-                  {/* Main Routes */}
-                  <Route path="/" element={<MainLayout />}>
-                    <Route index element={<Dashboard />} />
-                    <Route path="projects" element={<Projects />} />
-                    <Route path="projects/:projectId" element={<ProjectDetails />} />
-                    <Route path="clients" element={<Clients />} />
-                    <Route path="suppliers" element={<Suppliers />} />
-                    <Route path="suppliers/:supplierId" element={<SupplierDetails />} />
-                    <Route path="timeline" element={<Timeline />} />
-                    <Route path="analytics" element={<Analytics />} />
-                    <Route path="external-links" element={<ExternalLinks />} />
-                  </Route>
-                  
-                  {/* Admin Routes */}
-                  <Route path="/admin/login" element={<AdminLogin />} />
-                  <Route path="/admin" element={<AdminLayout />}>
-                    <Route path="dashboard" element={<AdminDashboard />} />
-                    <Route path="projects" element={<AdminProjects />} />
-                    <Route path="clients" element={<AdminClients />} />
-                    <Route path="suppliers" element={<AdminSuppliers />} />
-                    <Route path="purchase-orders" element={<AdminPurchaseOrders />} />
-                    <Route path="external-links" element={<AdminExternalLinks />} />
-                    <Route path="settings" element={<AdminSettings />} />
-                    <Route path="shipments" element={<AdminShipments />} />
-                  </Route>
-                  
-                  {/* Not Found Route */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-                <Toaster />
-                <Sonner />
-              </DataProvider>
+              <CurrencyProvider>
+                <DataProvider>
+                  <Routes>
+                    {/* Main Routes */}
+                    <Route path="/" element={<MainLayout />}>
+                      <Route index element={<Dashboard />} />
+                      <Route path="projects" element={<Projects />} />
+                      <Route path="projects/:projectId" element={<ProjectDetails />} />
+                      <Route path="clients" element={<Clients />} />
+                      <Route path="suppliers" element={<Suppliers />} />
+                      <Route path="suppliers/:supplierId" element={<SupplierDetails />} />
+                      <Route path="timeline" element={<Timeline />} />
+                      <Route path="analytics" element={<Analytics />} />
+                      <Route path="external-links" element={<ExternalLinks />} />
+                    </Route>
+                    
+                    {/* Admin Routes */}
+                    <Route path="/admin/login" element={<AdminLogin />} />
+                    <Route path="/admin" element={<AdminLayout />}>
+                      <Route path="dashboard" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["dashboard"]}><AdminDashboard /></RoleGuard>} />
+                      <Route path="projects" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["projects"]}><AdminProjects /></RoleGuard>} />
+                      <Route path="clients" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["clients"]}><AdminClients /></RoleGuard>} />
+                      <Route path="suppliers" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["suppliers"]}><AdminSuppliers /></RoleGuard>} />
+                      <Route path="purchase-orders" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["purchase-orders"]}><AdminPurchaseOrders /></RoleGuard>} />
+                      <Route path="approvals" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["approvals"]}><AdminApprovals /></RoleGuard>} />
+                      <Route path="external-links" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["external-links"]}><AdminExternalLinks /></RoleGuard>} />
+                      <Route path="settings" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["settings"]}><AdminSettings /></RoleGuard>} />
+                      <Route path="shipments" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["shipments"]}><AdminShipments /></RoleGuard>} />
+                      <Route path="supplier-updates" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["supplier-updates"]}><AdminSupplierUpdates /></RoleGuard>} />
+                      <Route path="audit-log" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["audit-log"]}><AdminAuditLog /></RoleGuard>} />
+                      <Route path="trash" element={<RoleGuard roles={ADMIN_ROUTE_ROLES["trash"]}><AdminTrash /></RoleGuard>} />
+                    </Route>
+                    
+                    {/* Client Portal Routes */}
+                    <Route path="/portal/login" element={<AdminLogin variant="portal" />} />
+                    <Route path="/portal" element={<PortalLayout />}>
+                      <Route index element={<PortalDashboard />} />
+                      <Route path="projects/:projectId" element={<PortalProject />} />
+                    </Route>
+                    
+                    {/* Supplier Portal Routes */}
+                    <Route path="/supplier-portal/login" element={<AdminLogin variant="supplier" />} />
+                    <Route path="/supplier-portal" element={<SupplierPortalLayout />}>
+                      <Route index element={<SupplierPortalDashboard />} />
+                      <Route path="orders/:poId" element={<SupplierPortalOrder />} />
+                    </Route>
+                    
+                    {/* Not Found Route */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                  <Toaster />
+                  <Sonner />
+                </DataProvider>
+              </CurrencyProvider>
             </AuthProvider>
           </ThemeProvider>
         </BrowserRouter>
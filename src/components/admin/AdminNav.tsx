@@ -3,7 +3,8 @@ import { NavLink } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
-import { ChartBar, File, Users, Package, Calendar, Database, Settings, Ship } from "lucide-react";
+import { ChartBar, File, Users, Package, Calendar, ClipboardCheck, Database, Settings, Ship, History, Inbox, Trash2 } from "lucide-react";
+import { ADMIN_ROUTE_ROLES } from "@/lib/roles";
 
 const navItems = [
   {
@@ -31,6 +32,11 @@ const navItems = [
     href: "/admin/purchase-orders",
     icon: Calendar,
   },
+  {
+    title: "Approvals",
+    href: "/admin/approvals",
+    icon: ClipboardCheck,
+  },
   {
     title: "Shipments",
     href: "/admin/shipments",
@@ -41,6 +47,21 @@ const navItems = [
     href: "/admin/external-links",
     icon: Database,
   },
+  {
+    title: "Supplier Updates",
+    href: "/admin/supplier-updates",
+    icon: Inbox,
+  },
+  {
+    title: "Audit Log",
+    href: "/admin/audit-log",
+    icon: History,
+  },
+  {
+    title: "Trash",
+    href: "/admin/trash",
+    icon: Trash2,
+  },
   {
     title: "Settings",
     href: "/admin/settings",
@@ -49,14 +70,19 @@ const navItems = [
 ];
 
 export function AdminNav() {
-  const { logout } = useAuth();
+  const { logout, hasRole } = useAuth();
+  
+  // Only show the sections the signed-in role can open
+  const visibleItems = navItems.filter(item =>
+    hasRole(ADMIN_ROUTE_ROLES[item.href.replace("/admin/", "")])
+  );
   
   return (
     <nav className="space-y-4">
       <div className="px-4 py-2">
         <h2 className="mb-2 px-2 text-lg font-semibold">Admin Panel</h2>
         <div className="space-y-1">
-          {navItems.map((item) => (
+          {visibleItems.map((item) => (
             <NavLink
               key={item.href}
               to={item.href}
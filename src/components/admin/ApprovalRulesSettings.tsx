@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Save, Trash, X } from "lucide-react";
+import { toast } from "sonner";
+import { useData } from "@/contexts/DataContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { APPROVER_ROLES, ApprovalRule } from "@/lib/poApprovals";
+import { UserRole } from "@/lib/roles";
+import { fetchApprovalRules, saveApprovalRules } from "@/integrations/supabase/approvalRules";
+
+const ALL_PROJECTS = "all";
+
+// Who signs off a PO, by its amount and project. Changes apply to POs
+// submitted from then on; ones already submitted keep their chain.
+export function ApprovalRulesSettings() {
+  const { projects } = useData();
+  const { reportingCurrency, formatReporting } = useCurrency();
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newProjectId, setNewProjectId] = useState(ALL_PROJECTS);
+  const [newMinAmount, setNewMinAmount] = useState("");
+  const [newApprovers, setNewApprovers] = useState<UserRole[]>([]);
+  const [nextApprover, setNextApprover] = useState<UserRole>(APPROVER_ROLES[0]);
+
+  useEffect(() => {
+    fetchApprovalRules()
+      .then(setRules)
+      .catch(error => console.error("Error loading approval rules:", error));
+  }, []);
+
+  const sortedRules = [...rules].sort(
+    (a, b) => (a.projectId || "").localeCompare(b.projectId || "") || a.minAmount - b.minAmount
+  );
+
+  const getProjectName = (projectId?: string) =>
+    projectId ? projects.find(p => p.id === projectId)?.name || "Unknown Project" : "All projects";
+
+  const handleAddRule = () => {
+    const minAmount = parseFloat(newMinAmount || "0");
+    if (!newName.trim() || isNaN(minAmount) || minAmount < 0 || newApprovers.length === 0) {
+      toast.error("Enter a name, an amount of zero or more and at least one approver");
+      return;
+    }
+
+    setRules(prev => [...prev, {
+      id: crypto.randomUUID(),
+      name: newName.trim(),
+      minAmount,
+      projectId: newProjectId === ALL_PROJECTS ? undefined : newProjectId,
+      approvers: newApprovers,
+    }]);
+    setNewName("");
+    setNewMinAmount("");
+    setNewApprovers([]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveApprovalRules(rules);
+      toast.success("Approval rules saved");
+    } catch (error) {
+      console.error("Error saving approval rules:", error);
+      toast.error("Failed to save approval rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>PO Approval Chains</CardTitle>
+        <CardDescription>
+          A submitted PO goes to the approvers of the most specific rule it meets: its project's rules before
+          workspace-wide ones, then the highest amount it reaches. POs no rule covers are approved on submission.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Project</TableHead>
+              <TableHead>From ({reportingCurrency})</TableHead>
+              <TableHead>Approvers, in order</TableHead>
+              <TableHead className="w-[60px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedRules.length > 0 ? (
+              sortedRules.map(rule => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{getProjectName(rule.projectId)}</TableCell>
+                  <TableCell>{formatReporting(rule.minAmount)}</TableCell>
+                  <TableCell className="capitalize">{rule.approvers.join(" → ")}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRules(prev => prev.filter(item => item.id !== rule.id))}
+                    >
+                      <Trash className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="h-16 text-center text-muted-foreground">
+                  No rules, so every PO is approved as soon as it's submitted.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex flex-wrap items-end gap-2 pt-2">
+          <Input
+            className="w-[160px]"
+            placeholder="Rule name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            aria-label="Rule name"
+          />
+          <Select value={newProjectId} onValueChange={setNewProjectId}>
+            <SelectTrigger className="w-[180px]" aria-label="Project">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min="0"
+            className="w-[140px]"
+            placeholder={`From (${reportingCurrency})`}
+            value={newMinAmount}
+            onChange={(e) => setNewMinAmount(e.target.value)}
+            aria-label="Minimum amount"
+          />
+          <Select value={nextApprover} onValueChange={(value) => setNextApprover(value as UserRole)}>
+            <SelectTrigger className="w-[140px] capitalize" aria-label="Approver">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APPROVER_ROLES.map(role => (
+                <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setNewApprovers(prev => [...prev, nextApprover])}>
+            Add Step
+          </Button>
+          <Button onClick={handleAddRule}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+
+        {newApprovers.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">New chain:</span>
+            {newApprovers.map((role, index) => (
+              <Badge key={`${role}-${index}`} variant="outline" className="capitalize">
+                {index + 1}. {role}
+              </Badge>
+            ))}
+            <Button variant="ghost" size="sm" onClick={() => setNewApprovers([])}>
+              <X className="mr-1 h-4 w-4" />
+              Clear
+            </Button>
+          </div>
+        )}
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          Save Rules
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
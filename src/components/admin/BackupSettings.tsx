@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download, History, RefreshCw, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useData } from "@/contexts/DataContext";
+import { LocalBackup, listLocalBackups } from "@/lib/offlineStore";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  BackupCounts,
+  EXTRA_TABLES,
+  RestoreMode,
+  WorkspaceBackup,
+  countBackup,
+  countStoredRows,
+  createBackup,
+  downloadBackup,
+  isBackupError,
+  parseBackup,
+  restoreBackup,
+  snapshotBeforeDestructiveAction,
+} from "@/integrations/supabase/backup";
+
+const totalRows = (counts: BackupCounts) =>
+  Object.values(counts).reduce((sum, count) => sum + (count ?? 0), 0);
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "Unknown date" : format(date, "MMM d, yyyy HH:mm");
+};
+
+// Export the whole workspace to a JSON file, restore one, and get back to
+// the snapshots taken automatically each day and before destructive actions
+export function BackupSettings() {
+  const { user } = useAuth();
+  const { clients, suppliers, projects, purchaseOrders, shipments, externalLinks, loadFromSupabase } = useData();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [pending, setPending] = useState<{ backup: WorkspaceBackup; source: string } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [problems, setProblems] = useState<string[]>([]);
+  const [localBackups, setLocalBackups] = useState<LocalBackup[]>([]);
+  const [storedCounts, setStoredCounts] = useState<BackupCounts>({});
+
+  const loadLocalBackups = useCallback(() => {
+    listLocalBackups()
+      .then(setLocalBackups)
+      .catch(error => console.error("Error loading local backups:", error));
+  }, []);
+
+  useEffect(() => {
+    loadLocalBackups();
+  }, [loadLocalBackups]);
+
+  // The app doesn't load the extra tables, so they're counted for the preview
+  useEffect(() => {
+    if (!pending) return;
+    countStoredRows(EXTRA_TABLES)
+      .then(setStoredCounts)
+      .catch(error => console.error("Error counting rows:", error));
+  }, [pending]);
+
+  // What the app has loaded now, trashed rows aside
+  const currentCounts: BackupCounts = {
+    ...storedCounts,
+    clients: clients.length,
+    suppliers: suppliers.length,
+    projects: projects.length,
+    purchase_orders: purchaseOrders.length,
+    parts: purchaseOrders.reduce((sum, po) => sum + po.parts.length, 0),
+    shipments: shipments.length,
+    external_links: externalLinks.length,
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      downloadBackup(await createBackup(user));
+      toast.success("Backup downloaded");
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      toast.error("Failed to create backup");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setProblems([]);
+    try {
+      setPending({ backup: parseBackup(await file.text()), source: file.name });
+      setMode("merge");
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      toast.error(isBackupError(error) ? error.message : "Failed to read the backup file");
+      if (isBackupError(error)) setProblems(error.problems);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+
+    setIsRestoring(true);
+    try {
+      // Restoring overwrites rows, so keep what's there now first
+      await snapshotBeforeDestructiveAction(user, `Restore from ${pending.source}`);
+      await restoreBackup(pending.backup, mode);
+      await loadFromSupabase();
+      toast.success("Backup restored");
+      setPending(null);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      toast.error("Failed to restore backup. Nothing was changed.");
+    } finally {
+      setIsRestoring(false);
+      loadLocalBackups();
+    }
+  };
+
+  const pendingCounts = pending ? countBackup(pending.backup) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Backup & Restore</CardTitle>
+        <CardDescription>
+          Save every record, including parts, shipments and the trash, with the change requests, audit log and settings, to a JSON file
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Download Backup
+          </Button>
+
+          <div className="space-y-1">
+            <Label htmlFor="backup-file" className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Restore from file
+            </Label>
+            <Input id="backup-file" type="file" accept=".json,application/json" onChange={handleFileChange} />
+          </div>
+        </div>
+
+        {problems.length > 0 && (
+          <div className="rounded-md border border-destructive p-3 text-sm space-y-1">
+            <div className="font-medium text-destructive">The backup can't be restored</div>
+            {problems.map(problem => (
+              <div key={problem} className="text-muted-foreground">{problem}</div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Automatic Snapshots
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Taken in this browser once a day while an admin is signed in, and before data is cleared, restored or permanently deleted
+          </p>
+          {localBackups.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Taken</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Records</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {localBackups.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatTime(entry.backup.createdAt)}</TableCell>
+                    <TableCell>{entry.reason}</TableCell>
+                    <TableCell>{totalRows(countBackup(entry.backup))}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => downloadBackup(entry.backup)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setMode("replace");
+                            setPending({ backup: entry.backup, source: `snapshot from ${formatTime(entry.backup.createdAt)}` });
+                          }}
+                        >
+                          Restore
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">No snapshots yet.</p>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={!!pending} onOpenChange={(open) => !open && !isRestoring && setPending(null)}>
+        <AlertDialogContent className="sm:max-w-[560px]">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore {pending?.source}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pending && `Backup taken ${formatTime(pending.backup.createdAt)}${pending.backup.createdBy ? ` by ${pending.backup.createdBy}` : ""}. `}
+              A snapshot of the current data is saved first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {pendingCounts && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Table</TableHead>
+                  <TableHead className="text-right">In Backup</TableHead>
+                  <TableHead className="text-right">Current</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {BACKUP_TABLES.map(table => (
+                  <TableRow key={table}>
+                    <TableCell>{BACKUP_TABLE_LABELS[table]}</TableCell>
+                    <TableCell className="text-right">{pendingCounts[table] ?? "Not included"}</TableCell>
+                    <TableCell className="text-right">{currentCounts[table] ?? "..."}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="merge" id="restore-merge" />
+              <Label htmlFor="restore-merge">Merge: add and update records from the backup, keep everything else</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="replace" id="restore-replace" />
+              <Label htmlFor="restore-replace">Replace: also permanently delete records the backup doesn't have</Label>
+            </div>
+          </RadioGroup>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <Button
+              variant={mode === "replace" ? "destructive" : "default"}
+              disabled={isRestoring}
+              onClick={handleRestore}
+            >
+              {isRestoring ? "Restoring..." : mode === "replace" ? "Replace Data" : "Merge Data"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
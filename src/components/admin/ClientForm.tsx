@@ -5,6 +5,8 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
 
 interface ClientFormProps {
   clientId?: string;
@@ -52,13 +54,13 @@ export function ClientForm({ clientId, onSuccess, onCancel }: ClientFormProps) {
     
     try {
       if (clientId) {
-        updateClient(clientId, formData);
+        await updateClient(clientId, formData);
         toast({
           title: "Client updated",
           description: "The client has been updated successfully",
         });
       } else {
-        addClient(formData);
+        await addClient(formData);
         toast({
           title: "Client created",
           description: "A new client has been created successfully",
@@ -72,7 +74,7 @@ export function ClientForm({ clientId, onSuccess, onCancel }: ClientFormProps) {
       console.error("Error saving client:", error);
       toast({
         title: "Error",
-        description: "There was an error saving the client",
+        description: isForbiddenError(error) || isMappingError(error) ? error.message : "There was an error saving the client",
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Plus, Trash } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { BASE_CURRENCY, CURRENCIES, CurrencyCode } from "@/lib/currency";
+
+const RATE_CURRENCIES = CURRENCIES.filter(currency => currency !== BASE_CURRENCY);
+
+export function CurrencySettings() {
+  const {
+    reportingCurrency,
+    setReportingCurrency,
+    exchangeRates,
+    addExchangeRate,
+    removeExchangeRate,
+    missingRates,
+  } = useCurrency();
+  const [newCurrency, setNewCurrency] = useState<CurrencyCode>(RATE_CURRENCIES[0]);
+  const [newRate, setNewRate] = useState("");
+  const [newDate, setNewDate] = useState(new Date().toISOString().substring(0, 10));
+
+  const sortedRates = [...exchangeRates].sort(
+    (a, b) => a.currency.localeCompare(b.currency) || b.effectiveDate.localeCompare(a.effectiveDate)
+  );
+
+  const handleAddRate = async () => {
+    const rate = parseFloat(newRate);
+    if (isNaN(rate) || rate <= 0 || !newDate) {
+      toast.error("Enter a positive rate and an effective date");
+      return;
+    }
+
+    try {
+      await addExchangeRate({ currency: newCurrency, rate, effectiveDate: newDate });
+      setNewRate("");
+      toast.success(`${newCurrency} rate added`);
+    } catch (error) {
+      console.error("Error adding exchange rate:", error);
+      toast.error("Failed to save the exchange rate");
+    }
+  };
+
+  const handleReportingCurrencyChange = async (currency: CurrencyCode) => {
+    try {
+      await setReportingCurrency(currency);
+    } catch (error) {
+      console.error("Error changing the reporting currency:", error);
+      toast.error("Failed to change the reporting currency");
+    }
+  };
+
+  const handleRemoveRate = async (id: string) => {
+    try {
+      await removeExchangeRate(id);
+    } catch (error) {
+      console.error("Error removing exchange rate:", error);
+      toast.error("Failed to remove the exchange rate");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Currencies</CardTitle>
+        <CardDescription>
+          Totals and analytics are converted to the reporting currency using the rate in effect on each PO's issue date
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="reporting-currency">Reporting Currency</Label>
+            <p className="text-sm text-muted-foreground">
+              Project budgets are entered in this currency
+            </p>
+          </div>
+          <Select
+            value={reportingCurrency}
+            onValueChange={(value) => handleReportingCurrencyChange(value as CurrencyCode)}
+          >
+            <SelectTrigger id="reporting-currency" className="w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h3 className="text-lg font-medium">Exchange Rates</h3>
+          <p className="text-sm text-muted-foreground">
+            Value of one unit of each currency in {BASE_CURRENCY}
+          </p>
+
+          {missingRates.length > 0 && (
+            <p className="text-sm text-destructive">
+              No rate for {missingRates.join(", ")}. Amounts in these currencies are reported unconverted.
+            </p>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Currency</TableHead>
+                <TableHead>Rate ({BASE_CURRENCY})</TableHead>
+                <TableHead>Effective From</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedRates.map(rate => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">{rate.currency}</TableCell>
+                  <TableCell>{rate.rate}</TableCell>
+                  <TableCell>{format(new Date(rate.effectiveDate), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemoveRate(rate.id)}>
+                      <Trash className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex flex-wrap items-end gap-2 pt-2">
+            <Select value={newCurrency} onValueChange={(value) => setNewCurrency(value as CurrencyCode)}>
+              <SelectTrigger className="w-[100px]" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RATE_CURRENCIES.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              step="0.0001"
+              min="0"
+              className="w-[140px]"
+              placeholder="Rate"
+              value={newRate}
+              onChange={(e) => setNewRate(e.target.value)}
+              aria-label="Rate"
+            />
+            <Input
+              type="date"
+              className="w-[160px]"
+              value={newDate}
+              onChange={(e) => setNewDate(e.target.value)}
+              aria-label="Effective date"
+            />
+            <Button variant="outline" onClick={handleAddRate}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
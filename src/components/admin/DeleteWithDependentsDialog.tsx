@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useData } from "@/contexts/DataContext";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DependentResolution,
+  ParentEntity,
+  archivedDependents,
+  countDependents,
+  directDependents,
+} from "@/integrations/supabase/dependents";
+import { AUDIT_ENTITY_LABELS } from "@/integrations/supabase/auditLog";
+
+interface DeleteWithDependentsDialogProps {
+  entity: ParentEntity;
+  // The record being deleted; the dialog is open while this is set
+  recordId: string | null;
+  onClose: () => void;
+  onConfirm: (resolution: DependentResolution) => Promise<void>;
+}
+
+// How many names to list per group before summarising the rest
+const LISTED_NAMES = 5;
+
+export function DeleteWithDependentsDialog({ entity, recordId, onClose, onConfirm }: DeleteWithDependentsDialogProps) {
+  const { clients, suppliers, projects, purchaseOrders, shipments, externalLinks } = useData();
+  const [mode, setMode] = useState<DependentResolution["mode"]>("reassign");
+  const [targetId, setTargetId] = useState<string>("");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const records = { projects, purchaseOrders, shipments, externalLinks };
+  const candidates: { id: string; name: string }[] =
+    entity === "supplier" ? suppliers : entity === "client" ? clients : projects;
+  const record = candidates.find(candidate => candidate.id === recordId);
+  const label = AUDIT_ENTITY_LABELS[entity].toLowerCase();
+
+  const direct = recordId ? directDependents(entity, recordId, records) : null;
+  const archived = recordId ? archivedDependents(entity, recordId, records) : null;
+  const hasDependents = !!direct && countDependents(direct) > 0;
+
+  // Reassigning moves only the direct dependents; archiving takes everything below them too
+  const shown = mode === "archive" ? archived : direct;
+  const groups = shown
+    ? [
+        { title: "Projects", names: shown.projects.map(project => project.name) },
+        { title: "Purchase orders", names: shown.purchaseOrders.map(po => po.poNumber) },
+        { title: "Shipments", names: shown.shipments.map(shipment => shipment.trackingNumber || shipment.containerNumber || shipment.type) },
+        { title: "External links", names: shown.externalLinks.map(link => link.title) },
+      ].filter(group => group.names.length > 0)
+    : [];
+
+  const close = () => {
+    setMode("reassign");
+    setTargetId("");
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    const resolution: DependentResolution =
+      hasDependents && mode === "reassign" ? { mode: "reassign", targetId } : { mode: "archive" };
+
+    setIsDeleting(true);
+    try {
+      await onConfirm(resolution);
+      close();
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!recordId} onOpenChange={(open) => !open && close()}>
+      <AlertDialogContent className="sm:max-w-[560px]">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete {label} "{record?.name}"?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {hasDependents
+              ? `Other records depend on this ${label}. Move them to another ${label}, or move them to the trash along with it.`
+              : `The ${label} will be moved to the trash, where an admin can restore it.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {hasDependents && (
+          <div className="space-y-4">
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as DependentResolution["mode"])}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="reassign" id="resolution-reassign" />
+                <Label htmlFor="resolution-reassign">Reassign to another {label}</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="archive" id="resolution-archive" />
+                <Label htmlFor="resolution-archive">Move everything to the trash</Label>
+              </div>
+            </RadioGroup>
+
+            {mode === "reassign" && (
+              <Select value={targetId} onValueChange={setTargetId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select a ${label}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates
+                    .filter(candidate => candidate.id !== recordId)
+                    .map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="rounded-md border p-3 space-y-2 text-sm max-h-60 overflow-y-auto">
+              <div className="font-medium">
+                {mode === "archive" ? "Also moved to the trash" : "Will be reassigned"}
+              </div>
+              {groups.map(group => (
+                <div key={group.title}>
+                  <span className="text-muted-foreground">{group.title} ({group.names.length}): </span>
+                  {group.names.slice(0, LISTED_NAMES).join(", ")}
+                  {group.names.length > LISTED_NAMES && ` and ${group.names.length - LISTED_NAMES} more`}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            disabled={isDeleting || (hasDependents && mode === "reassign" && !targetId)}
+            onClick={handleConfirm}
+          >
+            {isDeleting ? "Deleting..." : hasDependents && mode === "reassign" ? "Reassign and Delete" : "Delete"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Save, Trash } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DocumentSettings as DocumentSettingsValues,
+  loadDocumentSettings,
+  saveDocumentSettings,
+} from "@/lib/poDocument";
+
+// Largest logo we keep in local storage
+const MAX_LOGO_BYTES = 200 * 1024;
+
+export function DocumentSettings() {
+  const [settings, setSettings] = useState<DocumentSettingsValues>(loadDocumentSettings);
+
+  const handleChange = (field: keyof DocumentSettingsValues, value: string | undefined) => {
+    setSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      toast.error("The logo must be a PNG or JPEG image");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      toast.error("The logo must be smaller than 200 KB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => handleChange("logo", reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const handleSave = () => {
+    saveDocumentSettings(settings);
+    toast.success("Document settings saved");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Purchase Order Documents</CardTitle>
+        <CardDescription>Letterhead and terms printed on generated PO documents</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="doc-company">Company Name</Label>
+            <Input
+              id="doc-company"
+              value={settings.companyName}
+              onChange={(e) => handleChange("companyName", e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="doc-logo">Logo</Label>
+            <div className="flex items-center gap-2">
+              {settings.logo && (
+                <img src={settings.logo} alt="Letterhead logo" className="h-10 w-10 object-contain border rounded" />
+              )}
+              <Input id="doc-logo" type="file" accept="image/png,image/jpeg" onChange={handleLogoChange} />
+              {settings.logo && (
+                <Button variant="ghost" size="icon" onClick={() => handleChange("logo", undefined)}>
+                  <Trash className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="doc-address">Address</Label>
+            <Textarea
+              id="doc-address"
+              rows={3}
+              value={settings.address}
+              onChange={(e) => handleChange("address", e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="doc-contact">Contact Details</Label>
+            <Textarea
+              id="doc-contact"
+              rows={3}
+              value={settings.contact}
+              onChange={(e) => handleChange("contact", e.target.value)}
+              placeholder="Phone, email, website"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="doc-terms">Terms and Conditions</Label>
+          <Textarea
+            id="doc-terms"
+            rows={5}
+            value={settings.terms}
+            onChange={(e) => handleChange("terms", e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="doc-footer">Footer</Label>
+          <Input
+            id="doc-footer"
+            value={settings.footer}
+            onChange={(e) => handleChange("footer", e.target.value)}
+          />
+        </div>
+
+        <Button onClick={handleSave}>
+          <Save className="mr-2 h-4 w-4" />
+          Save Document Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
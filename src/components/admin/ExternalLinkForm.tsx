@@ -19,6 +19,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { toast } from "sonner";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
 
 interface ExternalLinkFormProps {
   open: boolean;
@@ -84,7 +86,7 @@ export default function ExternalLinkForm({
     });
   };
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validation
@@ -98,11 +100,11 @@ export default function ExternalLinkForm({
     try {
       if (link) {
         // Update existing link
-        updateExternalLink(link.id, formData);
+        await updateExternalLink(link.id, formData);
         toast.success("External link updated successfully");
       } else {
         // Add new link
-        addExternalLink({
+        await addExternalLink({
           ...formData,
           date: formData.date || new Date().toISOString(),
         });
@@ -110,7 +112,7 @@ export default function ExternalLinkForm({
       }
       onClose();
     } catch (error) {
-      toast.error("An error occurred. Please try again.");
+      toast.error(isForbiddenError(error) || isMappingError(error) ? error.message : "An error occurred. Please try again.");
     } finally {
       setIsSubmitting(false);
     }
@@ -145,7 +147,7 @@ export default function ExternalLinkForm({
               <Label htmlFor="type">Type*</Label>
               <Select
                 value={formData.type}
-                onValueChange={(value: "Report" | "Photo" | "Tracking") => 
+                onValueChange={(value: "Report" | "Photo" | "Tracking" | "Document") => 
                   handleChange("type", value)
                 }
                 required
@@ -157,6 +159,7 @@ export default function ExternalLinkForm({
                   <SelectItem value="Report">Report</SelectItem>
                   <SelectItem value="Photo">Photo</SelectItem>
                   <SelectItem value="Tracking">Tracking</SelectItem>
+                  <SelectItem value="Document">Document</SelectItem>
                 </SelectContent>
               </Select>
             </div>
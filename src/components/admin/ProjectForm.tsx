@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { useData, Project } from "@/contexts/DataContext";
+import { useData, Project, BudgetCategory } from "@/contexts/DataContext";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,7 +14,10 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2 } from "lucide-react";
+import { Loader2, Plus, Trash } from "lucide-react";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
+import { useCurrency } from "@/contexts/CurrencyContext";
 
 interface ProjectFormProps {
   projectId?: string;
@@ -25,6 +28,7 @@ interface ProjectFormProps {
 export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps) {
   const { projects, clients, addProject, updateProject } = useData();
   const { toast } = useToast();
+  const { reportingCurrency } = useCurrency();
   const [isLoading, setIsLoading] = useState(false);
   
   const [formData, setFormData] = useState<Omit<Project, "id">>({
@@ -37,6 +41,8 @@ export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps
     endDate: new Date().toISOString().split("T")[0],
     projectManager: "",
     description: "",
+    budget: undefined,
+    budgetCategories: [],
   });
   
   // If editing, load the project data
@@ -54,6 +60,8 @@ export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps
           endDate: project.endDate,
           projectManager: project.projectManager || "",
           description: project.description || "",
+          budget: project.budget,
+          budgetCategories: project.budgetCategories || [],
         });
       }
     }
@@ -75,19 +83,57 @@ export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps
     }
   };
   
+  const handleCategoryChange = (index: number, field: keyof BudgetCategory, value: string) => {
+    setFormData(prev => {
+      const categories = [...(prev.budgetCategories || [])];
+      categories[index] = {
+        ...categories[index],
+        [field]: field === "amount" ? parseFloat(value) || 0 : value,
+      };
+      return { ...prev, budgetCategories: categories };
+    });
+  };
+  
+  const addCategory = () => {
+    setFormData(prev => ({
+      ...prev,
+      budgetCategories: [...(prev.budgetCategories || []), { name: "", amount: 0 }],
+    }));
+  };
+  
+  const removeCategory = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      budgetCategories: (prev.budgetCategories || []).filter((_, i) => i !== index),
+    }));
+  };
+  
+  const categoryTotal = (formData.budgetCategories || []).reduce((sum, category) => sum + category.amount, 0);
+  
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    
+    const categoryNames = (formData.budgetCategories || []).map(category => category.name.trim());
+    if (categoryNames.some(name => !name) || new Set(categoryNames).size !== categoryNames.length) {
+      toast({
+        title: "Invalid budget categories",
+        description: "Every cost category needs a unique name",
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsLoading(true);
     
     try {
       if (projectId) {
-        updateProject(projectId, formData);
+        await updateProject(projectId, formData);
         toast({
           title: "Project updated",
           description: "The project has been updated successfully",
         });
       } else {
-        addProject(formData);
+        await addProject(formData);
         toast({
           title: "Project created",
           description: "A new project has been created successfully",
@@ -101,7 +147,7 @@ export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps
       console.error("Error saving project:", error);
       toast({
         title: "Error",
-        description: "There was an error saving the project",
+        description: isForbiddenError(error) || isMappingError(error) ? error.message : "There was an error saving the project",
         variant: "destructive",
       });
     } finally {
@@ -225,6 +271,62 @@ export function ProjectForm({ projectId, onSuccess, onCancel }: ProjectFormProps
         </div>
       </div>
       
+      <div className="space-y-2">
+        <label htmlFor="budget" className="text-sm font-medium">Budget ({reportingCurrency})</label>
+        <Input
+          id="budget"
+          type="number"
+          min="0"
+          step="0.01"
+          value={formData.budget ?? ""}
+          onChange={(e) => setFormData(prev => ({
+            ...prev,
+            budget: e.target.value === "" ? undefined : parseFloat(e.target.value) || 0,
+          }))}
+          placeholder={categoryTotal > 0 ? `Sum of categories (${categoryTotal.toLocaleString()})` : "No budget set"}
+        />
+      </div>
+      
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Cost Categories</span>
+          <Button type="button" variant="outline" size="sm" onClick={addCategory}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        </div>
+        
+        {(formData.budgetCategories || []).map((category, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              aria-label="Category name"
+              value={category.name}
+              onChange={(e) => handleCategoryChange(index, "name", e.target.value)}
+              placeholder="e.g. Materials"
+              required
+            />
+            <Input
+              aria-label="Category budget"
+              type="number"
+              min="0"
+              step="0.01"
+              className="w-40"
+              value={category.amount}
+              onChange={(e) => handleCategoryChange(index, "amount", e.target.value)}
+            />
+            <Button type="button" variant="ghost" size="icon" onClick={() => removeCategory(index)}>
+              <Trash className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+        ))}
+        
+        {formData.budget !== undefined && categoryTotal > formData.budget && (
+          <p className="text-sm text-destructive">
+            Category budgets add up to {categoryTotal.toLocaleString()}, more than the project budget.
+          </p>
+        )}
+      </div>
+      
       <div className="space-y-2">
         <label htmlFor="description" className="text-sm font-medium">Description</label>
         <Textarea
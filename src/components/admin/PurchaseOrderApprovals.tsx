@@ -0,0 +1,81 @@
+import { format } from "date-fns";
+import { ApprovalStatus, PurchaseOrder } from "@/contexts/DataContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import {
+  APPROVAL_ACTION_LABELS,
+  approvalStatusOf,
+  describeApprovalDecision,
+  pendingApprover,
+} from "@/lib/poApprovals";
+
+const STATUS_COLORS: Record<ApprovalStatus, string> = {
+  Draft: "bg-slate-500",
+  Submitted: "bg-amber-500",
+  Approved: "bg-green-500",
+  Rejected: "bg-red-500",
+  Issued: "bg-blue-500",
+};
+
+export function ApprovalStatusBadge({ purchaseOrder }: { purchaseOrder: PurchaseOrder }) {
+  const status = approvalStatusOf(purchaseOrder);
+  return <Badge className={STATUS_COLORS[status]}>{status}</Badge>;
+}
+
+interface PurchaseOrderApprovalsProps {
+  purchaseOrder?: PurchaseOrder;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "Unknown date" : format(date, "MMM d, yyyy HH:mm");
+};
+
+// Every submission and decision on a PO, newest first
+export function PurchaseOrderApprovals({ purchaseOrder, onClose }: PurchaseOrderApprovalsProps) {
+  const decisions = [...(purchaseOrder?.approvals || [])].reverse();
+  const waitingOn = purchaseOrder && pendingApprover(purchaseOrder);
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Approval History: {purchaseOrder?.poNumber}</DialogTitle>
+          <DialogDescription>
+            {purchaseOrder && approvalStatusOf(purchaseOrder)}
+            {waitingOn && `, waiting for ${waitingOn} approval`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {decisions.length > 0 ? (
+          <div className="space-y-4">
+            {decisions.map(decision => (
+              <div key={`${decision.decidedAt}-${decision.action}`} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant="outline">{APPROVAL_ACTION_LABELS[decision.action]}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {formatTime(decision.decidedAt)}
+                    {decision.decidedBy && ` by ${decision.decidedBy}`}
+                  </span>
+                </div>
+                <p className="text-sm">{describeApprovalDecision(decision)}</p>
+                {decision.comment && (
+                  <p className="text-sm text-muted-foreground">"{decision.comment}"</p>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This purchase order hasn't been submitted for approval.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatCurrency } from "@/lib/currency";
+import { isForbiddenError } from "@/lib/permissions";
+import { isApprovalError } from "@/lib/poApprovals";
+import { useDecidePurchaseOrder, useSubmitPurchaseOrder } from "@/hooks/use-data-mutations";
+
+export type PurchaseOrderDecisionAction = "submit" | "approve" | "reject";
+
+const ACTION_COPY: Record<PurchaseOrderDecisionAction, { title: string; button: string; success: string }> = {
+  submit: { title: "Submit for Approval", button: "Submit", success: "Purchase order submitted for approval" },
+  approve: { title: "Approve", button: "Approve", success: "Purchase order approved" },
+  reject: { title: "Reject", button: "Reject", success: "Purchase order rejected and sent back" },
+};
+
+interface PurchaseOrderDecisionProps {
+  purchaseOrder?: PurchaseOrder;
+  action: PurchaseOrderDecisionAction;
+  onClose: () => void;
+}
+
+// Submitting, approving or rejecting a PO, with a comment kept in its approval
+// history. Rejections need one so the buyer knows what to change.
+export function PurchaseOrderDecision({ purchaseOrder, action, onClose }: PurchaseOrderDecisionProps) {
+  const { mutateAsync: submitPurchaseOrder } = useSubmitPurchaseOrder();
+  const { mutateAsync: decidePurchaseOrder } = useDecidePurchaseOrder();
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const copy = ACTION_COPY[action];
+
+  useEffect(() => {
+    setComment("");
+  }, [purchaseOrder, action]);
+
+  const handleConfirm = async () => {
+    if (!purchaseOrder) return;
+    if (action === "reject" && !comment.trim()) {
+      toast.error("Please give a reason for rejecting");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (action === "submit") {
+        await submitPurchaseOrder({ id: purchaseOrder.id, comment });
+      } else {
+        await decidePurchaseOrder({
+          id: purchaseOrder.id,
+          decision: action === "approve" ? "approved" : "rejected",
+          comment,
+        });
+      }
+      toast.success(copy.success);
+      onClose();
+    } catch (error) {
+      console.error(`Error during ${action} of purchase order:`, error);
+      toast.error(
+        isForbiddenError(error) || isApprovalError(error) ? error.message : "Failed to save the decision"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{copy.title}: {purchaseOrder?.poNumber}</DialogTitle>
+          <DialogDescription>
+            {purchaseOrder?.amount ? formatCurrency(purchaseOrder.amount, purchaseOrder.currency) : "No amount"}
+            {purchaseOrder?.description && ` · ${purchaseOrder.description}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="decisionComment">Comment{action === "reject" ? "*" : ""}</Label>
+          <Textarea
+            id="decisionComment"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={action === "reject" ? "What needs to change before it can be approved" : "Optional"}
+            rows={3}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === "reject" ? "destructive" : "default"}
+            onClick={handleConfirm}
+            disabled={isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {copy.button}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
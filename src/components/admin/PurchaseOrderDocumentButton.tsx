@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import { useAddExternalLink, useUpdateExternalLink } from "@/hooks/use-data-mutations";
+import { fetchClient, fetchExternalLinks, fetchProject, fetchSupplier } from "@/integrations/supabase/queries";
+import { Button } from "@/components/ui/button";
+import { FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { isForbiddenError } from "@/lib/permissions";
+import { uploadDocument } from "@/integrations/supabase/storage";
+import {
+  generatePurchaseOrderPdf,
+  loadDocumentSettings,
+  purchaseOrderFileName,
+} from "@/lib/poDocument";
+
+interface PurchaseOrderDocumentButtonProps {
+  purchaseOrder: PurchaseOrder;
+}
+
+// Generates the PO document, downloads it and attaches it to the PO as an external link.
+// It sits on every row of a page, so what the document needs is fetched on click.
+export function PurchaseOrderDocumentButton({ purchaseOrder }: PurchaseOrderDocumentButtonProps) {
+  const { mutateAsync: addExternalLink } = useAddExternalLink();
+  const { mutateAsync: updateExternalLink } = useUpdateExternalLink();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+
+    try {
+      const [supplier, project, externalLinks] = await Promise.all([
+        fetchSupplier(purchaseOrder.supplierId),
+        fetchProject(purchaseOrder.projectId),
+        fetchExternalLinks({ poId: purchaseOrder.id }),
+      ]);
+      const client = project?.clientId ? await fetchClient(project.clientId) : null;
+      const blob = generatePurchaseOrderPdf({
+        po: purchaseOrder,
+        supplier: supplier ?? undefined,
+        project: project ?? undefined,
+        client: client ?? undefined,
+        settings: loadDocumentSettings(),
+      });
+
+      const fileName = purchaseOrderFileName(purchaseOrder);
+      const url = await uploadDocument(`purchase-orders/${purchaseOrder.id}/${fileName}`, blob, "application/pdf");
+      const today = new Date().toISOString().substring(0, 10);
+
+      // Regenerating overwrites the stored file, so reuse the existing link
+      const existingLink = externalLinks.find(link => link.url === url);
+      if (existingLink) {
+        await updateExternalLink({ id: existingLink.id, update: { date: today } });
+      } else {
+        await addExternalLink({
+          title: `Purchase Order ${purchaseOrder.poNumber}`,
+          url,
+          type: "Document",
+          date: today,
+          supplierId: purchaseOrder.supplierId,
+          projectId: purchaseOrder.projectId,
+          poId: purchaseOrder.id,
+        });
+      }
+
+      const downloadUrl = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = downloadUrl;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(downloadUrl);
+
+      toast.success("PO document generated and attached");
+    } catch (error) {
+      console.error("Error generating PO document:", error);
+      toast.error(isForbiddenError(error) ? error.message : "Failed to generate PO document");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      onClick={handleGenerate}
+      disabled={isGenerating}
+      title="Generate PO document"
+    >
+      {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+    </Button>
+  );
+}
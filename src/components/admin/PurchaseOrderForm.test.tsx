@@ -0,0 +1,107 @@
+import "fake-indexeddb/auto";
+import { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import PurchaseOrderForm from "@/components/admin/PurchaseOrderForm";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
+import { DataProvider, PurchaseOrder } from "@/contexts/DataContext";
+import { createFixtures } from "@/data/fixtures";
+import { setDataBackend } from "@/integrations/supabase/backend";
+import { MemoryBackend, createMemoryBackend } from "@/integrations/supabase/memoryBackend";
+import { canEditField } from "@/lib/permissions";
+import type { UserRole } from "@/lib/roles";
+
+const auth = vi.hoisted(() => ({
+  user: { id: "user-1", email: "buyer@example.com", role: "admin" } as { id: string; email: string; role: UserRole },
+}));
+
+vi.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => ({
+    ...auth,
+    canEditField: (entity: Parameters<typeof canEditField>[1], field: string) => canEditField(auth.user.role, entity, field),
+  }),
+}));
+
+vi.mock("sonner", () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+// Radix sizes its sliders with ResizeObserver, which jsdom lacks
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+const fixtures = createFixtures({ clients: 1, suppliers: 1, projects: 1, purchaseOrdersPerProject: 1 });
+const [po] = fixtures.purchaseOrders;
+
+let backend: MemoryBackend;
+let onClose: ReturnType<typeof vi.fn>;
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+    <CurrencyProvider>
+      <DataProvider>{children}</DataProvider>
+    </CurrencyProvider>
+  </QueryClientProvider>
+);
+
+const renderForm = async (purchaseOrder?: PurchaseOrder) => {
+  render(<PurchaseOrderForm open onClose={onClose} purchaseOrder={purchaseOrder} />, { wrapper });
+  // The project picker fills in once the records have loaded
+  await screen.findAllByText(fixtures.projects[0].name);
+};
+
+const input = (id: string) => document.getElementById(id) as HTMLInputElement;
+const savedPo = () => backend.rows("purchase_orders").find(row => row.id === po.id);
+
+beforeEach(() => {
+  auth.user = { id: "user-1", email: "buyer@example.com", role: "admin" };
+  backend = createMemoryBackend(fixtures, { user: () => auth.user });
+  setDataBackend(backend);
+  onClose = vi.fn();
+});
+
+afterEach(() => {
+  cleanup();
+  setDataBackend();
+});
+
+describe("PurchaseOrderForm", () => {
+  it("saves an edit that leaves what the PO commits to alone in place", async () => {
+    await renderForm(po);
+
+    fireEvent.change(input("description"), { target: { value: "Deliver to the north gate" } });
+    expect(input("amendmentReason")).toBeNull();
+    fireEvent.click(screen.getByRole("button", { name: "Update" }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(savedPo()).toMatchObject({ description: "Deliver to the north gate", revision: po.revision ?? "A" });
+  });
+
+  it("saves a changed amount as the PO's next revision with its reason", async () => {
+    await renderForm(po);
+
+    fireEvent.change(input("amount"), { target: { value: String((po.amount || 0) + 1000) } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Revision" }));
+    expect(onClose).not.toHaveBeenCalled();
+
+    fireEvent.change(input("amendmentReason"), { target: { value: "Supplier revised the quote" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Revision" }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(savedPo()).toMatchObject({ amount: (po.amount || 0) + 1000, revision: "B" });
+    expect((savedPo().revisions as { reason: string }[]).at(-1)).toMatchObject({ reason: "Supplier revised the quote" });
+  });
+
+  it("keeps roles that can't amend a PO away from its commercial fields and parts", async () => {
+    auth.user = { id: "user-2", email: "logistics@example.com", role: "logistics" };
+    await renderForm(po);
+
+    expect(input("amount").disabled).toBe(true);
+    expect(input("deadline").disabled).toBe(true);
+    expect(input("part-name-0").disabled).toBe(true);
+    expect(input("part-quantity-0").disabled).toBe(true);
+    expect(input("description").disabled).toBe(false);
+  });
+});
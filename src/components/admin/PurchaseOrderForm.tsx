@@ -21,21 +21,47 @@ import {
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { Trash, Plus } from "lucide-react";
+import { BASE_CURRENCY, CURRENCIES, currencyForCountry } from "@/lib/currency";
 import { Slider } from "@/components/ui/slider";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
+import { changedFields } from "@/lib/diff";
+import { AMENDED_FIELDS, isDuplicatePoNumberError, needsAmendment, nextRevision } from "@/lib/poRevisions";
+import { approvalStatusOf } from "@/lib/poApprovals";
 
 interface PurchaseOrderFormProps {
   open: boolean;
   onClose: () => void;
   purchaseOrder?: PurchaseOrder;
+  // Save the changes as the PO's next revision, with a reason. Editing does
+  // the same once what the PO commits to changes.
+  amend?: boolean;
 }
 
 export default function PurchaseOrderForm({
   open,
   onClose,
   purchaseOrder,
+  amend = false,
 }: PurchaseOrderFormProps) {
-  const { suppliers, projects, addPurchaseOrder, updatePurchaseOrder } = useData();
+  const { suppliers, projects, addPurchaseOrder, updatePurchaseOrder, amendPurchaseOrder } = useData();
+  const { canEditField } = useAuth();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState("");
+  const isAmending = amend && !!purchaseOrder;
+  const canAmend = canEditField("purchaseOrder", "revision");
+  
+  // Some roles may update a PO but not its commercial fields, and those that
+  // can't amend it can't change what it commits to either. An amendment is a
+  // new revision of the same PO, so its number stays put.
+  const isLocked = (field: string) =>
+    !!purchaseOrder && (
+      !canEditField("purchaseOrder", field) ||
+      (isAmending && field === "poNumber") ||
+      (!canAmend && (AMENDED_FIELDS as readonly string[]).includes(field))
+    );
+  const partsLocked = !!purchaseOrder && !canAmend;
   
   const [formData, setFormData] = useState<Omit<PurchaseOrder, "id">>({
     poNumber: "",
@@ -46,13 +72,19 @@ export default function PurchaseOrderForm({
     issuedDate: new Date().toISOString().substring(0, 10),
     progress: 0,
     amount: 0,
+    currency: BASE_CURRENCY,
     description: "",
     parts: [{ id: `part-${Date.now()}`, name: "", quantity: 1, status: "Pending", progress: 0 }],
+    approvalStatus: "Draft",
   });
+  // The PO as the form first showed it, to tell what an edit changes
+  const [loadedData, setLoadedData] = useState<Omit<PurchaseOrder, "id"> | null>(null);
+  const savesAsAmendment = isAmending || (!!purchaseOrder && !!loadedData && needsAmendment(loadedData, formData));
   
   useEffect(() => {
+    setReason("");
     if (purchaseOrder) {
-      setFormData({
+      const loaded = {
         poNumber: purchaseOrder.poNumber,
         projectId: purchaseOrder.projectId,
         supplierId: purchaseOrder.supplierId,
@@ -61,13 +93,18 @@ export default function PurchaseOrderForm({
         issuedDate: purchaseOrder.issuedDate.substring(0, 10),
         progress: purchaseOrder.progress || 0, 
         amount: purchaseOrder.amount || 0,
+        currency: purchaseOrder.currency || BASE_CURRENCY,
+        costCategory: purchaseOrder.costCategory,
         description: purchaseOrder.description || "",
         parts: purchaseOrder.parts.map(part => ({
           ...part,
           progress: part.progress || 0
         })),
-      });
+      };
+      setFormData(loaded);
+      setLoadedData(loaded);
     } else {
+      setLoadedData(null);
       // Reset form for new PO
       setFormData({
         poNumber: "",
@@ -78,16 +115,34 @@ export default function PurchaseOrderForm({
         issuedDate: new Date().toISOString().substring(0, 10),
         progress: 0,
         amount: 0,
+        currency: BASE_CURRENCY,
         description: "",
         parts: [{ id: `part-${Date.now()}`, name: "", quantity: 1, status: "Pending", progress: 0 }],
+        approvalStatus: "Draft",
       });
     }
   }, [purchaseOrder, open]);
   
+  // Cost categories come from the budget of the selected project
+  const costCategories = projects.find(p => p.id === formData.projectId)?.budgetCategories || [];
+  
   const handleChange = (field: string, value: any) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
   
+  // New POs default to the currency the supplier invoices in. The selects
+  // report an empty value until their options have loaded, which is ignored.
+  const handleSupplierChange = (supplierId: string) => {
+    if (!supplierId) return;
+    setFormData((prev) => ({
+      ...prev,
+      supplierId,
+      currency: purchaseOrder
+        ? prev.currency
+        : currencyForCountry(suppliers.find(s => s.id === supplierId)?.country),
+    }));
+  };
+  
   const handlePartChange = (index: number, field: string, value: any) => {
     setFormData((prev) => {
       const newParts = [...prev.parts];
@@ -140,7 +195,7 @@ export default function PurchaseOrderForm({
     }
   }, [formData.parts]);
   
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     // Validation
@@ -154,21 +209,38 @@ export default function PurchaseOrderForm({
       return;
     }
     
+    if (savesAsAmendment && !reason.trim()) {
+      toast.error("Please give a reason for the amendment");
+      return;
+    }
+    
+    if (isAmending && changedFields(purchaseOrder, formData).length === 0) {
+      toast.error("Change the purchase order before saving an amendment");
+      return;
+    }
+    
     setIsSubmitting(true);
     
     try {
-      if (purchaseOrder) {
+      if (savesAsAmendment) {
+        await amendPurchaseOrder(purchaseOrder.id, formData, reason);
+        toast.success(`Purchase order amended to revision ${nextRevision(purchaseOrder.revision)}`);
+      } else if (purchaseOrder) {
         // Update existing PO
-        updatePurchaseOrder(purchaseOrder.id, formData);
+        await updatePurchaseOrder(purchaseOrder.id, formData);
         toast.success("Purchase order updated successfully");
       } else {
         // Add new PO
-        addPurchaseOrder(formData);
-        toast.success("Purchase order added successfully");
+        await addPurchaseOrder(formData);
+        toast.success("Purchase order saved as a draft. Submit it for approval when it's ready.");
       }
       onClose();
     } catch (error) {
-      toast.error("An error occurred. Please try again.");
+      toast.error(
+        isForbiddenError(error) || isMappingError(error) || isDuplicatePoNumberError(error)
+          ? error.message
+          : "An error occurred. Please try again."
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -179,11 +251,39 @@ export default function PurchaseOrderForm({
       <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>
-            {purchaseOrder ? "Edit Purchase Order" : "Create Purchase Order"}
+            {isAmending
+              ? `Amend ${purchaseOrder.poNumber} to Revision ${nextRevision(purchaseOrder.revision)}`
+              : purchaseOrder ? "Edit Purchase Order" : "Create Purchase Order"}
           </DialogTitle>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          {purchaseOrder && ["Submitted", "Approved", "Issued"].includes(approvalStatusOf(purchaseOrder)) && (
+            <p className="text-sm text-muted-foreground">
+              This PO is {approvalStatusOf(purchaseOrder).toLowerCase()}. Changing its amount, currency, supplier,
+              project or cost category sends it back to draft to be approved again.
+            </p>
+          )}
+          
+          {savesAsAmendment && (
+            <div className="space-y-2">
+              {!isAmending && (
+                <p className="text-sm text-muted-foreground">
+                  These changes are saved as revision {nextRevision(purchaseOrder.revision)} of the purchase order.
+                </p>
+              )}
+              <Label htmlFor="amendmentReason">Reason for Amendment*</Label>
+              <Textarea
+                id="amendmentReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Supplier revised the quote after a spec change"
+                rows={2}
+                required
+              />
+            </div>
+          )}
+          
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="poNumber">PO Number*</Label>
@@ -192,6 +292,7 @@ export default function PurchaseOrderForm({
                 value={formData.poNumber}
                 onChange={(e) => handleChange("poNumber", e.target.value)}
                 placeholder="PO-2025-001"
+                disabled={isLocked("poNumber")}
                 required
               />
             </div>
@@ -203,6 +304,7 @@ export default function PurchaseOrderForm({
                 type="date"
                 value={formData.issuedDate}
                 onChange={(e) => handleChange("issuedDate", e.target.value)}
+                disabled={isLocked("issuedDate")}
                 required
               />
             </div>
@@ -223,7 +325,8 @@ export default function PurchaseOrderForm({
               <Label htmlFor="project">Project*</Label>
               <Select
                 value={formData.projectId}
-                onValueChange={(value) => handleChange("projectId", value)}
+                onValueChange={(value) => value && handleChange("projectId", value)}
+                disabled={isLocked("projectId")}
                 required
               >
                 <SelectTrigger id="project">
@@ -243,7 +346,8 @@ export default function PurchaseOrderForm({
               <Label htmlFor="supplier">Supplier*</Label>
               <Select
                 value={formData.supplierId}
-                onValueChange={(value) => handleChange("supplierId", value)}
+                onValueChange={handleSupplierChange}
+                disabled={isLocked("supplierId")}
                 required
               >
                 <SelectTrigger id="supplier">
@@ -286,20 +390,63 @@ export default function PurchaseOrderForm({
                 type="date"
                 value={formData.deadline}
                 onChange={(e) => handleChange("deadline", e.target.value)}
+                disabled={isLocked("deadline")}
                 required
               />
             </div>
             
             <div className="space-y-2">
               <Label htmlFor="amount">PO Value</Label>
-              <Input
-                id="amount"
-                type="number"
-                step="0.01"
-                value={formData.amount || 0}
-                onChange={(e) => handleChange("amount", parseFloat(e.target.value) || 0)}
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  value={formData.amount || 0}
+                  onChange={(e) => handleChange("amount", parseFloat(e.target.value) || 0)}
+                  disabled={isLocked("amount")}
+                />
+                <Select
+                  value={formData.currency || BASE_CURRENCY}
+                  onValueChange={(value) => handleChange("currency", value)}
+                  disabled={isLocked("currency")}
+                >
+                  <SelectTrigger className="w-[100px]" aria-label="Currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
+            
+            {costCategories.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="costCategory">Cost Category</Label>
+                <Select
+                  value={formData.costCategory || "none"}
+                  onValueChange={(value) => handleChange("costCategory", value === "none" ? "" : value)}
+                  disabled={isLocked("costCategory")}
+                >
+                  <SelectTrigger id="costCategory">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Uncategorized</SelectItem>
+                    {costCategories.map((category) => (
+                      <SelectItem key={category.name} value={category.name}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
           </div>
           
           {/* Progress Section */}
@@ -328,7 +475,7 @@ export default function PurchaseOrderForm({
           <div>
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-medium">Parts</h3>
-              <Button type="button" variant="outline" size="sm" onClick={addPart}>
+              <Button type="button" variant="outline" size="sm" onClick={addPart} disabled={partsLocked}>
                 <Plus className="h-4 w-4 mr-2" />
                 Add Part
               </Button>
@@ -343,6 +490,7 @@ export default function PurchaseOrderForm({
                     value={part.name}
                     onChange={(e) => handlePartChange(index, "name", e.target.value)}
                     placeholder="Part name"
+                    disabled={partsLocked}
                     required
                   />
                 </div>
@@ -355,6 +503,7 @@ export default function PurchaseOrderForm({
                     min="1"
                     value={part.quantity}
                     onChange={(e) => handlePartChange(index, "quantity", e.target.value)}
+                    disabled={partsLocked}
                     required
                   />
                 </div>
@@ -397,6 +546,7 @@ export default function PurchaseOrderForm({
                     variant="destructive" 
                     size="icon"
                     onClick={() => removePart(index)}
+                    disabled={partsLocked}
                   >
                     <Trash className="h-4 w-4" />
                   </Button>
@@ -410,7 +560,7 @@ export default function PurchaseOrderForm({
               Cancel
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? "Saving..." : purchaseOrder ? "Update" : "Create"}
+              {isSubmitting ? "Saving..." : savesAsAmendment ? "Save Revision" : purchaseOrder ? "Update" : "Create"}
             </Button>
           </DialogFooter>
         </form>
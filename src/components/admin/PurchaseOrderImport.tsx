@@ -0,0 +1,302 @@
+import { useState } from "react";
+import { useData } from "@/contexts/DataContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { isForbiddenError } from "@/lib/permissions";
+import {
+  ColumnMapping,
+  DATE_ORDERS,
+  DateOrder,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportRow,
+  buildImportPlan,
+  guessColumnMapping,
+  guessDateOrder,
+  readSpreadsheet,
+} from "@/lib/poImport";
+
+interface PurchaseOrderImportProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function PurchaseOrderImport({ open, onClose }: PurchaseOrderImportProps) {
+  const { projects, suppliers, purchaseOrders, addPurchaseOrder, amendPurchaseOrder } = useData();
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateOrder, setDateOrder] = useState<DateOrder>("mdy");
+  const [reason, setReason] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+
+  const plan = rows.length > 0 ? buildImportPlan(rows, mapping, { projects, suppliers, purchaseOrders }, dateOrder) : [];
+  const validOrders = plan.filter(po => po.errors.length === 0 && !po.unchanged);
+  // Changes to existing POs are amendments, saved as their next revision
+  const amendments = validOrders.filter(po => po.existingId);
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && !mapping[field.key]);
+
+  const reset = () => {
+    setFileName("");
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setDateOrder("mdy");
+    setReason("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const sheet = await readSpreadsheet(file);
+      if (sheet.rows.length === 0) {
+        toast.error("The file has no data rows");
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(sheet.headers);
+      setRows(sheet.rows);
+      const guessed = guessColumnMapping(sheet.headers);
+      setMapping(guessed);
+      setDateOrder(guessDateOrder(sheet.rows, guessed));
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error("Could not read the file. Use a CSV or XLSX spreadsheet.");
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column === "none" ? undefined : column }));
+  };
+
+  const handleImport = async () => {
+    if (amendments.length > 0 && !reason.trim()) {
+      toast.error("Please give a reason for amending the existing purchase orders");
+      return;
+    }
+
+    setIsImporting(true);
+    let created = 0;
+    let amended = 0;
+    const failed: string[] = [];
+
+    // One PO at a time so a failure doesn't leave the others half-written
+    for (const po of validOrders) {
+      try {
+        if (po.existingId) {
+          await amendPurchaseOrder(po.existingId, po.data, reason);
+          amended++;
+        } else {
+          await addPurchaseOrder(po.data);
+          created++;
+        }
+      } catch (error) {
+        console.error(`Error importing purchase order ${po.poNumber}:`, error);
+        if (isForbiddenError(error)) {
+          toast.error(error.message);
+          break;
+        }
+        failed.push(po.poNumber);
+      }
+    }
+
+    setIsImporting(false);
+
+    if (created + amended > 0) {
+      toast.success(`Imported ${created} new and amended ${amended} existing purchase orders`);
+    }
+    if (failed.length > 0) {
+      toast.error(`Failed to import ${failed.join(", ")}`);
+      return;
+    }
+
+    handleClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Purchase Orders</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or XLSX file with one row per part. Rows that share a PO number become one purchase order;
+            PO numbers that already exist are amended, as their next revision, instead of duplicated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileChange}
+            />
+            {fileName && (
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {rows.length} rows
+              </p>
+            )}
+          </div>
+
+          {headers.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Column Mapping</h3>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`map-${field.key}`}>
+                      {field.label}{field.required && "*"}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] || "none"}
+                      onValueChange={(value) => handleMappingChange(field.key, value)}
+                    >
+                      <SelectTrigger id={`map-${field.key}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not mapped</SelectItem>
+                        {headers.filter(Boolean).map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label htmlFor="date-order">Dates</Label>
+                  <Select value={dateOrder} onValueChange={(value: DateOrder) => setDateOrder(value)}>
+                    <SelectTrigger id="date-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_ORDERS.map(order => (
+                        <SelectItem key={order.value} value={order.value}>{order.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Map the required columns: {missingRequired.map(field => field.label).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {plan.length > 0 && missingRequired.length === 0 && (
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">Preview</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>PO Number</TableHead>
+                    <TableHead>Rows</TableHead>
+                    <TableHead>Parts</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.map(po => (
+                    <TableRow key={`${po.poNumber}-${po.rowNumbers[0]}`}>
+                      <TableCell className="font-medium">{po.poNumber}</TableCell>
+                      <TableCell>{po.rowNumbers.join(", ")}</TableCell>
+                      <TableCell>{po.data.parts.length}</TableCell>
+                      <TableCell>
+                        {po.errors.length > 0 ? (
+                          <Badge className="bg-red-500">Skip</Badge>
+                        ) : po.unchanged ? (
+                          <Badge variant="outline">Unchanged</Badge>
+                        ) : po.existingId ? (
+                          <Badge className="bg-blue-500">Amend</Badge>
+                        ) : (
+                          <Badge className="bg-green-500">Create</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-destructive">
+                        {po.errors.map(error => (
+                          <div key={error}>{error}</div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {amendments.length > 0 && missingRequired.length === 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="import-reason">Reason for Amendment*</Label>
+              <Textarea
+                id="import-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Updated quantities from the supplier's order confirmation"
+                rows={2}
+                required
+              />
+              <p className="text-sm text-muted-foreground">
+                Recorded on each of the {amendments.length} existing purchase orders this import changes.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={isImporting || missingRequired.length > 0 || validOrders.length === 0}
+          >
+            {isImporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Import {validOrders.length} Purchase Orders
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { format } from "date-fns";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { FIRST_REVISION, describeRevisionDiff } from "@/lib/poRevisions";
+
+interface PurchaseOrderRevisionsProps {
+  purchaseOrder?: PurchaseOrder;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? "Unknown date" : format(date, "MMM d, yyyy HH:mm");
+};
+
+// Every amendment of a PO, newest first, with why it was made and what it changed
+export function PurchaseOrderRevisions({ purchaseOrder, onClose }: PurchaseOrderRevisionsProps) {
+  const revisions = [...(purchaseOrder?.revisions || [])].reverse();
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revision History: {purchaseOrder?.poNumber}</DialogTitle>
+          <DialogDescription>
+            Current revision {purchaseOrder?.revision || FIRST_REVISION}
+          </DialogDescription>
+        </DialogHeader>
+
+        {revisions.length > 0 ? (
+          <div className="space-y-4">
+            {revisions.map(entry => {
+              const changes = describeRevisionDiff(entry.changes, purchaseOrder?.currency);
+              return (
+                <div key={entry.revision} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline">Rev {entry.revision}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {formatTime(entry.createdAt)}
+                      {entry.createdBy && ` by ${entry.createdBy}`}
+                    </span>
+                  </div>
+                  <p className="text-sm">{entry.reason}</p>
+                  {changes.length > 0 ? (
+                    <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                      {changes.map(line => <li key={line}>{line}</li>)}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No change to parts, amount or deadline</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This purchase order hasn't been amended.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
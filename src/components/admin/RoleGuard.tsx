@@ -0,0 +1,24 @@
+import { ReactNode } from "react";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserRole } from "@/lib/roles";
+
+interface RoleGuardProps {
+  roles: UserRole[];
+  children: ReactNode;
+}
+
+// Renders an admin page only for the given roles; everyone else is sent back to the dashboard
+export function RoleGuard({ roles, children }: RoleGuardProps) {
+  const { hasRole, isLoading } = useAuth();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!hasRole(roles)) {
+    return <Navigate to="/admin/dashboard" replace />;
+  }
+
+  return <>{children}</>;
+}
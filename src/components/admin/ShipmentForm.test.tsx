@@ -0,0 +1,111 @@
+import "fake-indexeddb/auto";
+import { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { toast } from "sonner";
+import ShipmentForm from "@/components/admin/ShipmentForm";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
+import { DataProvider } from "@/contexts/DataContext";
+import { createFixtures } from "@/data/fixtures";
+import { setDataBackend } from "@/integrations/supabase/backend";
+import { MemoryBackend, createMemoryBackend } from "@/integrations/supabase/memoryBackend";
+import type { UserRole } from "@/lib/roles";
+
+const auth = vi.hoisted(() => ({
+  user: { id: "user-1", email: "logistics@example.com", role: "logistics" } as { id: string; email: string; role: UserRole },
+}));
+
+vi.mock("@/contexts/AuthContext", () => ({ useAuth: () => auth }));
+
+vi.mock("sonner", () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+// Radix sizes its popovers with ResizeObserver, which jsdom lacks
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+const fixtures = createFixtures({ clients: 2, suppliers: 2, projects: 2, purchaseOrdersPerProject: 2 });
+const [shipment] = fixtures.shipments;
+const po = fixtures.purchaseOrders.find(order => order.id === shipment.poId);
+const projectName = fixtures.projects.find(project => project.id === shipment.projectId).name;
+
+let backend: MemoryBackend;
+let onClose: ReturnType<typeof vi.fn>;
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+    <CurrencyProvider>
+      <DataProvider>{children}</DataProvider>
+    </CurrencyProvider>
+  </QueryClientProvider>
+);
+
+const renderForm = async (props: { shipmentId?: string; poId?: string }) => {
+  render(<ShipmentForm open onClose={onClose} {...props} />, { wrapper });
+  // The project picker fills in once the records have loaded
+  await screen.findAllByText(projectName);
+};
+
+const input = (id: string) => document.getElementById(id) as HTMLInputElement;
+const shipmentsFor = (poId: string) => backend.rows("shipments").filter(row => row.po_id === poId);
+
+beforeEach(() => {
+  auth.user = { id: "user-1", email: "logistics@example.com", role: "logistics" };
+  backend = createMemoryBackend(fixtures, { user: () => auth.user });
+  setDataBackend(backend);
+  onClose = vi.fn();
+  vi.mocked(toast.error).mockClear();
+});
+
+afterEach(() => {
+  cleanup();
+  setDataBackend();
+});
+
+describe("ShipmentForm", () => {
+  it("books another shipment for a PO under the PO's project and supplier", async () => {
+    await renderForm({ poId: po.id });
+
+    fireEvent.change(input("trackingNumber"), { target: { value: "MAEU123456" } });
+    fireEvent.click(screen.getByRole("button", { name: "Create" }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(shipmentsFor(po.id)).toEqual([
+      expect.objectContaining({ id: shipment.id }),
+      expect.objectContaining({
+        project_id: po.projectId,
+        supplier_id: po.supplierId,
+        tracking_number: "MAEU123456",
+        status: "In Transit",
+      }),
+    ]);
+  });
+
+  it("saves changes to an existing shipment in place, keeping its PO", async () => {
+    await renderForm({ shipmentId: shipment.id });
+    await waitFor(() => expect(input("etaDate").value).toBe(shipment.etaDate));
+
+    fireEvent.change(input("etaDate"), { target: { value: "2030-01-15" } });
+    fireEvent.change(input("notes"), { target: { value: "Rolled to the next vessel" } });
+    fireEvent.click(screen.getByRole("button", { name: "Update" }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(shipmentsFor(shipment.poId)).toEqual([
+      expect.objectContaining({ id: shipment.id, eta_date: "2030-01-15", notes: "Rolled to the next vessel" }),
+    ]);
+  });
+
+  it("tells a role that can't write shipments why the save failed", async () => {
+    auth.user = { id: "user-3", email: "viewer@example.com", role: "viewer" };
+    await renderForm({ shipmentId: shipment.id });
+    await waitFor(() => expect(input("etaDate").value).toBe(shipment.etaDate));
+
+    fireEvent.click(screen.getByRole("button", { name: "Update" }));
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith(expect.stringMatching(/shipment/i)));
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,6 @@
 
 import { useState, useEffect } from "react";
-import { useData } from "@/contexts/DataContext";
+import { useData, Shipment } from "@/contexts/DataContext";
 import {
   Dialog,
   DialogContent,
@@ -20,25 +20,10 @@ import {
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
 
-interface Shipment {
-  id?: string;
-  type: string;
-  projectId: string;
-  supplierId: string;
-  poId?: string;
-  partId?: string;
-  shippedDate: string;
-  etdDate: string;
-  etaDate: string;
-  trackingNumber?: string;
-  containerNumber?: string;
-  containerSize?: string;
-  containerType?: string;
-  status: string;
-  notes?: string;
-}
+type ShipmentFormData = Omit<Shipment, "id">;
 
 interface ShipmentFormProps {
   open: boolean;
@@ -47,153 +32,96 @@ interface ShipmentFormProps {
   poId?: string;
 }
 
+const createEmptyShipment = (): ShipmentFormData => ({
+  type: "Sea",
+  projectId: "",
+  supplierId: "",
+  shippedDate: new Date().toISOString().substring(0, 10),
+  etdDate: new Date().toISOString().substring(0, 10),
+  etaDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10),
+  status: "In Transit",
+  notes: "",
+});
+
 export default function ShipmentForm({
   open,
   onClose,
   shipmentId,
   poId,
 }: ShipmentFormProps) {
-  const { suppliers, projects, purchaseOrders } = useData();
+  const { suppliers, projects, purchaseOrders, shipments, loading, addShipment, updateShipment } = useData();
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [shipment, setShipment] = useState<Shipment | null>(null);
   
-  const [formData, setFormData] = useState<Shipment>({
-    type: "Sea",
-    projectId: "",
-    supplierId: "",
-    shippedDate: new Date().toISOString().substring(0, 10),
-    etdDate: new Date().toISOString().substring(0, 10),
-    etaDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10),
-    status: "In Transit",
-    notes: "",
-  });
+  const [formData, setFormData] = useState<ShipmentFormData>(createEmptyShipment());
   
-  // Load shipment data if editing
+  // Load shipment data if editing, once the records are in
   useEffect(() => {
-    const loadShipment = async () => {
-      if (shipmentId) {
-        try {
-          const { data, error } = await supabase
-            .from('shipments')
-            .select('*')
-            .eq('id', shipmentId)
-            .single();
-            
-          if (error) throw error;
-          
-          if (data) {
-            // Map database fields to Shipment interface fields
-            setFormData({
-              id: data.id,
-              type: data.type || "Sea",
-              projectId: data.project_id || "",
-              supplierId: data.supplier_id || "",
-              poId: data.po_id,
-              partId: data.part_id,
-              shippedDate: data.shipped_date,
-              etdDate: data.etd_date,
-              etaDate: data.eta_date,
-              trackingNumber: data.tracking_number,
-              containerNumber: data.container_number,
-              containerSize: data.container_size,
-              containerType: data.container_type,
-              status: data.status || "In Transit",
-              notes: data.notes,
-            });
-          }
-        } catch (error) {
-          console.error("Error loading shipment:", error);
-          toast.error("Failed to load shipment data");
-        }
-      } else if (poId) {
-        // Find the PO to pre-fill some data
-        const po = purchaseOrders.find(p => p.id === poId);
-        if (po) {
-          setFormData(prev => ({
-            ...prev,
-            projectId: po.projectId,
-            supplierId: po.supplierId,
-            poId
-          }));
-        }
-      }
-    };
+    if (!open || loading) return;
     
-    if (open) {
-      loadShipment();
+    if (shipmentId) {
+      const shipment = shipments.find(s => s.id === shipmentId);
+      if (shipment) {
+        const { id, ...shipmentData } = shipment;
+        setFormData({
+          ...shipmentData,
+          type: shipment.type || "Sea",
+          projectId: shipment.projectId || "",
+          supplierId: shipment.supplierId || "",
+          status: shipment.status || "In Transit",
+        });
+      } else {
+        toast.error("Failed to load shipment data");
+      }
+    } else if (poId) {
+      // Find the PO to pre-fill some data
+      const po = purchaseOrders.find(p => p.id === poId);
+      if (po) {
+        setFormData(prev => ({
+          ...prev,
+          projectId: po.projectId,
+          supplierId: po.supplierId,
+          poId
+        }));
+      }
     }
-  }, [shipmentId, poId, open, purchaseOrders]);
+  }, [shipmentId, poId, open, loading, purchaseOrders, shipments]);
   
   // Reset form when dialog closes
   useEffect(() => {
     if (!open) {
       if (!shipmentId) {
-        setFormData({
-          type: "Sea",
-          projectId: "",
-          supplierId: "",
-          shippedDate: new Date().toISOString().substring(0, 10),
-          etdDate: new Date().toISOString().substring(0, 10),
-          etaDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10),
-          status: "In Transit",
-          notes: "",
-        });
+        setFormData(createEmptyShipment());
       }
     }
   }, [open, shipmentId]);
   
-  const handleChange = (field: keyof Shipment, value: any) => {
+  const handleChange = <K extends keyof ShipmentFormData>(field: K, value: ShipmentFormData[K]) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
+
+  // The selects report an empty value until their options have loaded, which
+  // would otherwise unlink the shipment from its PO
+  const handleSelect = <K extends keyof ShipmentFormData>(field: K, value: string) => {
+    if (value) handleChange(field, (value === "none" ? undefined : value) as ShipmentFormData[K]);
+  };
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     
     try {
-      // Transform data for Supabase - map from interface to database field names
-      const shipmentData = {
-        type: formData.type,
-        project_id: formData.projectId,
-        supplier_id: formData.supplierId,
-        po_id: formData.poId,
-        part_id: formData.partId,
-        shipped_date: formData.shippedDate,
-        etd_date: formData.etdDate,
-        eta_date: formData.etaDate,
-        tracking_number: formData.trackingNumber,
-        container_number: formData.containerNumber,
-        container_size: formData.containerSize,
-        container_type: formData.containerType,
-        status: formData.status,
-        notes: formData.notes,
-      };
-      
       if (shipmentId) {
-        // Update existing shipment
-        const { error } = await supabase
-          .from('shipments')
-          .update(shipmentData)
-          .eq('id', shipmentId);
-          
-        if (error) throw error;
-        
+        await updateShipment(shipmentId, formData);
         toast.success("Shipment updated successfully");
       } else {
-        // Create new shipment
-        const { error } = await supabase
-          .from('shipments')
-          .insert([shipmentData]);
-          
-        if (error) throw error;
-        
+        await addShipment(formData);
         toast.success("Shipment created successfully");
       }
       
       onClose();
     } catch (error) {
       console.error("Error saving shipment:", error);
-      toast.error("Failed to save shipment");
+      toast.error(isForbiddenError(error) || isMappingError(error) ? error.message : "Failed to save shipment");
     } finally {
       setIsSubmitting(false);
     }
@@ -251,7 +179,7 @@ export default function ShipmentForm({
               <Label htmlFor="project">Project*</Label>
               <Select
                 value={formData.projectId}
-                onValueChange={(value) => handleChange("projectId", value)}
+                onValueChange={(value) => handleSelect("projectId", value)}
                 required
               >
                 <SelectTrigger id="project">
@@ -271,7 +199,7 @@ export default function ShipmentForm({
               <Label htmlFor="supplier">Supplier*</Label>
               <Select
                 value={formData.supplierId}
-                onValueChange={(value) => handleChange("supplierId", value)}
+                onValueChange={(value) => handleSelect("supplierId", value)}
                 required
               >
                 <SelectTrigger id="supplier">
@@ -290,14 +218,14 @@ export default function ShipmentForm({
             <div className="space-y-2">
               <Label htmlFor="po">Purchase Order</Label>
               <Select
-                value={formData.poId || ""}
-                onValueChange={(value) => handleChange("poId", value || undefined)}
+                value={formData.poId || "none"}
+                onValueChange={(value) => handleSelect("poId", value)}
               >
                 <SelectTrigger id="po">
                   <SelectValue placeholder="Select a PO (optional)" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="">None</SelectItem>
+                  <SelectItem value="none">None</SelectItem>
                   {purchaseOrders
                     .filter(po => po.supplierId === formData.supplierId)
                     .map((po) => (
@@ -369,14 +297,14 @@ export default function ShipmentForm({
               <div className="space-y-2">
                 <Label htmlFor="containerSize">Container Size</Label>
                 <Select
-                  value={formData.containerSize || ""}
-                  onValueChange={(value) => handleChange("containerSize", value)}
+                  value={formData.containerSize || "none"}
+                  onValueChange={(value) => handleChange("containerSize", value === "none" ? undefined : value)}
                 >
                   <SelectTrigger id="containerSize">
                     <SelectValue placeholder="Size (optional)" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">None</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
                     <SelectItem value="20ft">20ft</SelectItem>
                     <SelectItem value="40ft">40ft</SelectItem>
                     <SelectItem value="40ft HC">40ft High Cube</SelectItem>
@@ -387,14 +315,14 @@ export default function ShipmentForm({
               <div className="space-y-2">
                 <Label htmlFor="containerType">Container Type</Label>
                 <Select
-                  value={formData.containerType || ""}
-                  onValueChange={(value) => handleChange("containerType", value)}
+                  value={formData.containerType || "none"}
+                  onValueChange={(value) => handleChange("containerType", value === "none" ? undefined : value)}
                 >
                   <SelectTrigger id="containerType">
                     <SelectValue placeholder="Type (optional)" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="">None</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
                     <SelectItem value="Dry">Dry</SelectItem>
                     <SelectItem value="Reefer">Reefer</SelectItem>
                     <SelectItem value="Open Top">Open Top</SelectItem>
@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Loader2 } from "lucide-react";
+import { isForbiddenError } from "@/lib/permissions";
+import { isMappingError } from "@/integrations/supabase/mappers";
 
 interface SupplierFormProps {
   supplierId?: string;
@@ -88,13 +90,13 @@ export function SupplierForm({ supplierId, onSuccess, onCancel }: SupplierFormPr
       };
       
       if (supplierId) {
-        updateSupplier(supplierId, processedFormData);
+        await updateSupplier(supplierId, processedFormData);
         toast({
           title: "Supplier updated",
           description: "The supplier has been updated successfully",
         });
       } else {
-        addSupplier(processedFormData);
+        await addSupplier(processedFormData);
         toast({
           title: "Supplier created",
           description: "A new supplier has been created successfully",
@@ -108,7 +110,7 @@ export function SupplierForm({ supplierId, onSuccess, onCancel }: SupplierFormPr
       console.error("Error saving supplier:", error);
       toast({
         title: "Error",
-        description: "There was an error saving the supplier",
+        description: isForbiddenError(error) || isMappingError(error) ? error.message : "There was an error saving the supplier",
         variant: "destructive",
       });
     } finally {
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Save } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { STAFF_ROLES, UserRole } from "@/lib/roles";
+import { fetchMfaRequiredRoles, saveMfaRequiredRoles } from "@/integrations/supabase/mfa";
+
+// Roles listed here are sent to set up 2FA before they can use the admin panel
+export function TwoFactorPolicySettings() {
+  const { refreshMfaStatus } = useAuth();
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchMfaRequiredRoles()
+      .then(setRequiredRoles)
+      .catch(error => console.error("Error loading 2FA policy:", error));
+  }, []);
+
+  const toggleRole = (role: UserRole, checked: boolean) => {
+    setRequiredRoles(prev => (checked ? [...prev, role] : prev.filter(item => item !== role)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveMfaRequiredRoles(requiredRoles);
+      await refreshMfaStatus();
+      toast.success("2FA policy saved");
+    } catch (error) {
+      console.error("Error saving 2FA policy:", error);
+      toast.error("Failed to save 2FA policy");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>2FA Policy</CardTitle>
+        <CardDescription>Require two-factor authentication for these roles</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {STAFF_ROLES.map(role => (
+            <div key={role} className="flex items-center space-x-2">
+              <Checkbox
+                id={`mfa-role-${role}`}
+                checked={requiredRoles.includes(role)}
+                onCheckedChange={(checked) => toggleRole(role, checked === true)}
+              />
+              <Label htmlFor={`mfa-role-${role}`} className="capitalize">{role}</Label>
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={handleSave} disabled={isSaving}>
+          <Save className="mr-2 h-4 w-4" />
+          Save Policy
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  TotpEnrollment,
+  countRecoveryCodes,
+  enrollTotp,
+  fetchMfaRequiredRoles,
+  generateRecoveryCodes,
+  listTotpFactors,
+  unenrollTotp,
+  verifyTotp,
+} from "@/integrations/supabase/mfa";
+
+// TOTP enrollment for the signed-in user, plus their recovery codes
+export function TwoFactorSettings() {
+  const { user, refreshMfaStatus } = useAuth();
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [isRequired, setIsRequired] = useState(false);
+  const [remainingCodes, setRemainingCodes] = useState(0);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const userId = user?.id;
+  const role = user?.role;
+
+  const loadStatus = useCallback(async () => {
+    if (!userId || !role) return;
+
+    try {
+      const [factors, requiredRoles] = await Promise.all([listTotpFactors(), fetchMfaRequiredRoles()]);
+      setFactorId(factors[0]?.id ?? null);
+      setIsRequired(requiredRoles.includes(role));
+      setRemainingCodes(factors.length > 0 ? await countRecoveryCodes(userId) : 0);
+    } catch (error) {
+      console.error("Error loading 2FA status:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, role]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const handleStartEnrollment = async () => {
+    setIsWorking(true);
+    try {
+      setEnrollment(await enrollTotp());
+      setCode("");
+    } catch (error) {
+      console.error("Error starting 2FA enrollment:", error);
+      toast.error("Failed to start 2FA setup");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleConfirmEnrollment = async () => {
+    if (!enrollment || !userId) return;
+
+    setIsWorking(true);
+    try {
+      await verifyTotp(enrollment.factorId, code);
+      setRecoveryCodes(await generateRecoveryCodes());
+      setEnrollment(null);
+      await loadStatus();
+      toast.success("Two-factor authentication enabled");
+    } catch (error) {
+      console.error("Error confirming 2FA enrollment:", error);
+      toast.error("The code is invalid, try again");
+    } finally {
+      setCode("");
+      setIsWorking(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!userId) return;
+    if (!confirm("Generate new recovery codes? Your current codes will stop working.")) return;
+
+    setIsWorking(true);
+    try {
+      setRecoveryCodes(await generateRecoveryCodes());
+      await loadStatus();
+    } catch (error) {
+      console.error("Error generating recovery codes:", error);
+      toast.error("Failed to generate recovery codes");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!factorId) return;
+    if (!confirm("Turn off two-factor authentication for your account?")) return;
+
+    setIsWorking(true);
+    try {
+      await unenrollTotp(factorId);
+      setRecoveryCodes(null);
+      await loadStatus();
+      await refreshMfaStatus();
+      toast.success("Two-factor authentication turned off");
+    } catch (error) {
+      console.error("Error disabling 2FA:", error);
+      toast.error("Failed to turn off 2FA");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // Refreshing the policy status can close the enforced setup screen, so it
+  // waits until the new recovery codes have been seen
+  const handleCodesSaved = async () => {
+    setRecoveryCodes(null);
+    await refreshMfaStatus();
+  };
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast.success("Recovery codes copied");
+    } catch (error) {
+      console.error("Error copying recovery codes:", error);
+      toast.error("Copy failed, write the codes down instead");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {!isLoading && (
+            <Badge variant={factorId ? "default" : "outline"}>{factorId ? "On" : "Off"}</Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app each time you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <img src={enrollment.qrCode} alt="TOTP QR code" className="h-44 w-44 border rounded bg-white p-2" />
+            <p className="text-xs text-muted-foreground break-all">
+              Can't scan it? Enter this key instead: <span className="font-mono">{enrollment.secret}</span>
+            </p>
+            <InputOTP maxLength={6} value={code} onChange={setCode}>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <div className="flex gap-2">
+              <Button onClick={handleConfirmEnrollment} disabled={isWorking || code.length < 6}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Confirm
+              </Button>
+              <Button variant="outline" onClick={() => setEnrollment(null)} disabled={isWorking}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : factorId ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {remainingCodes} unused recovery code{remainingCodes === 1 ? "" : "s"} left.
+              {isRequired && " Your role requires 2FA, so it can't be turned off."}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleRegenerateCodes} disabled={isWorking}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                New Recovery Codes
+              </Button>
+              {!isRequired && (
+                <Button variant="destructive" onClick={handleDisable} disabled={isWorking}>
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                  Turn Off
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleStartEnrollment} disabled={isWorking}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            Set Up 2FA
+          </Button>
+        )}
+
+        {recoveryCodes && (
+          <div className="rounded-md border p-4 space-y-3">
+            <p className="text-sm font-medium">
+              Save these recovery codes somewhere safe. Each works once, and they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopyCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleCodesSaved}>
+                I've saved them
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
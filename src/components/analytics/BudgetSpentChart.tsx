@@ -10,22 +10,25 @@ import {
   Legend,
   ResponsiveContainer
 } from "recharts";
-import { Project, PurchaseOrder } from "@/contexts/DataContext";
-
+import { useCurrency } from "@/contexts/CurrencyContext";
 interface BudgetSpentChartProps {
   spentByProject: Array<{
     name: string;
     projectId: string;
+    budget: number;
     spent: number;
+    actual: number;
   }>;
   budgetColors: string[];
 }
 
 export function BudgetSpentChart({ spentByProject, budgetColors }: BudgetSpentChartProps) {
+  const { formatReporting, reportingCurrency } = useCurrency();
+  
   return (
     <Card className="card-hover">
       <CardHeader>
-        <CardTitle>Budget Spent Analysis by Project</CardTitle>
+        <CardTitle>Budget vs Spent by Project ({reportingCurrency})</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="h-[300px] w-full">
@@ -42,14 +45,26 @@ export function BudgetSpentChart({ spentByProject, budgetColors }: BudgetSpentCh
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="name" angle={-45} textAnchor="end" height={70} />
               <YAxis />
-              <Tooltip formatter={(value) => [`$${value.toLocaleString()}`, 'Amount Spent']} />
+              <Tooltip formatter={(value, name) => [formatReporting(Number(value)), name]} />
               <Legend />
+              <Bar 
+                dataKey="budget" 
+                name="Budget" 
+                fill={budgetColors[3]}
+                radius={[4, 4, 0, 0]} 
+              />
               <Bar 
                 dataKey="spent" 
-                name="Amount Spent" 
+                name="Committed" 
                 fill={budgetColors[0]}
                 radius={[4, 4, 0, 0]} 
               />
+              <Bar 
+                dataKey="actual" 
+                name="Actual" 
+                fill={budgetColors[5]}
+                radius={[4, 4, 0, 0]} 
+              />
             </BarChart>
           </ResponsiveContainer>
         </div>
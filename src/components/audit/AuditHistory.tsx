@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+import { AuditEntry, fetchAuditLog } from "@/integrations/supabase/auditLog";
+import { AuditLogTable } from "@/components/audit/AuditLogTable";
+
+interface AuditHistoryProps {
+  projectId?: string;
+  supplierId?: string;
+}
+
+// Change history for everything recorded against a project or a supplier
+export function AuditHistory({ projectId, supplierId }: AuditHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(false);
+      try {
+        setEntries(await fetchAuditLog({ projectId, supplierId }));
+      } catch (err) {
+        console.error("Error loading audit history:", err);
+        setError(true);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [projectId, supplierId]);
+
+  return (
+    <Card className="card-hover">
+      <CardHeader className="pb-2 flex flex-row items-center">
+        <History className="h-5 w-5 mr-2 text-primary" />
+        <CardTitle className="text-lg font-medium">Change History</CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {loading ? (
+          <div className="text-center py-6 text-muted-foreground">Loading history...</div>
+        ) : error ? (
+          <div className="text-center py-6 text-muted-foreground">Failed to load change history.</div>
+        ) : (
+          <AuditLogTable entries={entries} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AUDIT_ENTITY_LABELS, AuditAction, AuditEntry } from "@/integrations/supabase/auditLog";
+import type { Json } from "@/integrations/supabase/types";
+
+interface AuditLogTableProps {
+  entries: AuditEntry[];
+  emptyMessage?: string;
+}
+
+const getActionColor = (action: AuditAction) => {
+  switch (action) {
+    case "create":
+      return "bg-green-500";
+    case "update":
+      return "bg-blue-500";
+    case "delete":
+      return "bg-red-500";
+    case "restore":
+      return "bg-amber-500";
+    case "purge":
+      return "bg-red-700";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export function AuditLogTable({ entries, emptyMessage = "No changes recorded yet." }: AuditLogTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Who</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>Record</TableHead>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.length > 0 ? (
+          entries.map((entry) => (
+            <TableRow key={entry.id}>
+              <TableCell className="whitespace-nowrap">
+                {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}
+              </TableCell>
+              <TableCell>{entry.actorEmail || "Unknown"}</TableCell>
+              <TableCell>
+                <Badge className={getActionColor(entry.action)}>{entry.action}</Badge>
+              </TableCell>
+              <TableCell>{AUDIT_ENTITY_LABELS[entry.entity] || entry.entity}</TableCell>
+              <TableCell>{entry.field || "—"}</TableCell>
+              <TableCell className="max-w-[200px] truncate" title={formatValue(entry.oldValue)}>
+                {formatValue(entry.oldValue)}
+              </TableCell>
+              <TableCell className="max-w-[200px] truncate" title={formatValue(entry.newValue)}>
+                {formatValue(entry.newValue)}
+              </TableCell>
+            </TableRow>
+          ))
+        ) : (
+          <TableRow>
+            <TableCell colSpan={7} className="h-24 text-center">
+              {emptyMessage}
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
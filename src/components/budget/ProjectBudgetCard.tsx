@@ -0,0 +1,139 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Wallet } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { BudgetLine, ProjectBudgetSummary } from "@/lib/budget";
+import { useCurrency } from "@/contexts/CurrencyContext";
+
+interface ProjectBudgetCardProps {
+  summary: ProjectBudgetSummary;
+}
+
+const usedPercent = (line: BudgetLine) =>
+  line.budget > 0 ? Math.round((line.committed / line.budget) * 100) : 0;
+
+// Warnings for the project total and any cost category that has run over
+export function BudgetWarnings({ summary }: ProjectBudgetCardProps) {
+  const { formatReporting: formatAmount } = useCurrency();
+  const overCategories = summary.categories.filter(category => category.overBudget);
+
+  if (!summary.overBudget && !summary.nearLimit && overCategories.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert variant={summary.overBudget || overCategories.length > 0 ? "destructive" : "default"}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {summary.overBudget ? "Project is over budget" : summary.nearLimit ? "Project is close to its budget" : "Cost categories over budget"}
+      </AlertTitle>
+      <AlertDescription>
+        {summary.overBudget && (
+          <p>Committed spend exceeds the budget by {formatAmount(-summary.remaining)}.</p>
+        )}
+        {!summary.overBudget && summary.nearLimit && (
+          <p>{usedPercent(summary)}% of the budget is already committed.</p>
+        )}
+        {overCategories.map(category => (
+          <p key={category.name}>
+            {category.name} is over by {formatAmount(-category.remaining)}.
+          </p>
+        ))}
+      </AlertDescription>
+    </Alert>
+  );
+}
+
+export function ProjectBudgetCard({ summary }: ProjectBudgetCardProps) {
+  const { formatReporting: formatAmount, reportingCurrency } = useCurrency();
+
+  return (
+    <Card className="card-hover">
+      <CardHeader className="pb-2 flex flex-row items-center">
+        <Wallet className="h-5 w-5 mr-2 text-primary" />
+        <CardTitle className="text-lg font-medium">Budget ({reportingCurrency})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!summary.hasBudget ? (
+          <div className="text-center py-4 text-muted-foreground">
+            No budget set for this project. Committed so far: {formatAmount(summary.committed)}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="stat-card">
+                <div>
+                  <p className="text-sm text-muted-foreground">Budget</p>
+                  <p className="text-xl font-bold">{formatAmount(summary.budget)}</p>
+                </div>
+              </div>
+              <div className="stat-card">
+                <div>
+                  <p className="text-sm text-muted-foreground">Committed</p>
+                  <p className="text-xl font-bold">{formatAmount(summary.committed)}</p>
+                </div>
+              </div>
+              <div className="stat-card">
+                <div>
+                  <p className="text-sm text-muted-foreground">Actual</p>
+                  <p className="text-xl font-bold">{formatAmount(summary.actual)}</p>
+                </div>
+              </div>
+              <div className="stat-card">
+                <div>
+                  <p className="text-sm text-muted-foreground">Remaining</p>
+                  <p className={cn("text-xl font-bold", summary.overBudget && "text-destructive")}>
+                    {formatAmount(summary.remaining)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span>{usedPercent(summary)}% committed</span>
+              </div>
+              <Progress value={Math.min(usedPercent(summary), 100)} className="h-2" />
+            </div>
+          </>
+        )}
+
+        {summary.categories.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Committed</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {summary.categories.map(category => (
+                <TableRow key={category.name}>
+                  <TableCell className="font-medium">{category.name}</TableCell>
+                  <TableCell className="text-right">{formatAmount(category.budget)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(category.committed)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(category.actual)}</TableCell>
+                  <TableCell className={cn("text-right", category.overBudget && "text-destructive font-medium")}>
+                    {formatAmount(category.remaining)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 
-import { useData } from "@/contexts/DataContext";
+import { useClients, useProjects } from "@/hooks/use-data-queries";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -7,7 +7,8 @@ import { File } from "lucide-react";
 import { Link } from "react-router-dom";
 
 export function RecentProjects() {
-  const { projects, clients } = useData();
+  const { data: projects = [] } = useProjects();
+  const { data: clients = [] } = useClients();
   
   // Get 5 most recent projects based on start date
   const recentProjects = [...projects]
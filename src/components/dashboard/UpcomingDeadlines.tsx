@@ -1,11 +1,14 @@
-import { useData, PurchaseOrder } from "@/contexts/DataContext";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import { useProjects, usePurchaseOrders, useSuppliers } from "@/hooks/use-data-queries";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 
 export function UpcomingDeadlines() {
-  const { purchaseOrders, projects, suppliers } = useData();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
+  const { data: projects = [] } = useProjects();
+  const { data: suppliers = [] } = useSuppliers();
   
   // Get active purchase orders with upcoming deadlines
   const upcomingDeadlines = purchaseOrders
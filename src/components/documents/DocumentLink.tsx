@@ -0,0 +1,34 @@
+import { AnchorHTMLAttributes, MouseEvent } from "react";
+import { toast } from "sonner";
+import { isDocumentPath, openDocument } from "@/integrations/supabase/storage";
+
+interface DocumentLinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, "href"> {
+  // A web address, or the path of a file in the documents bucket
+  url: string;
+}
+
+// A link that opens in a new tab. Stored documents are private, so those are
+// signed when clicked rather than linked directly.
+export function DocumentLink({ url, children, ...props }: DocumentLinkProps) {
+  if (!isDocumentPath(url)) {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" {...props}>
+        {children}
+      </a>
+    );
+  }
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    event.preventDefault();
+    openDocument(url).catch(error => {
+      console.error("Error opening document:", error);
+      toast.error("Failed to open document");
+    });
+  };
+
+  return (
+    <a href="#" onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}
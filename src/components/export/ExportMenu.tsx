@@ -0,0 +1,69 @@
+import { RefObject, useState } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Download, FileSpreadsheet, FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { ExportFormat, ExportTable, exportData } from "@/lib/export";
+
+interface ExportMenuProps {
+  filename: string;
+  title: string;
+  tables: ExportTable[];
+  charts?: RefObject<HTMLElement>[];
+}
+
+// Exports exactly what the page is showing, so callers pass their filtered rows
+export function ExportMenu({ filename, title, tables, charts = [] }: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportData(exportFormat, {
+        filename,
+        title,
+        tables,
+        charts: charts.map(ref => ref.current).filter((el): el is HTMLElement => !!el),
+      });
+    } catch (error) {
+      console.error("Error exporting data:", error);
+      toast.error("Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("pdf")}>
+          <FileText className="mr-2 h-4 w-4" />
+          PDF Report
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,43 @@
+import { ReactNode, useState } from "react";
+import { useDataStatus } from "@/contexts/DataContext";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+// Stands in for the page when the data couldn't be loaded and there's no
+// cached copy to show, so an empty or partial dataset is never mistaken for
+// the real one
+export function DataLoadGate({ children }: { children: ReactNode }) {
+  const { error, isOffline, syncOfflineChanges } = useDataStatus();
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  // Offline with a cached copy, the offline indicator takes over
+  if (!error || isOffline) return <>{children}</>;
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await syncOfflineChanges();
+    } catch (retryError) {
+      console.error("Error reloading data:", retryError);
+      toast.error("Still unable to load the data");
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <Alert variant="destructive" className="max-w-xl mx-auto my-8">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>The data couldn't be loaded</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>Check your connection and try again.</p>
+        <Button variant="outline" size="sm" onClick={handleRetry} disabled={isRetrying}>
+          {isRetrying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Try again
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -6,6 +6,7 @@ import { useIsMobile } from "@/hooks/use-mobile";
 import { cn } from "@/lib/utils";
 import { Moon, Sun } from "lucide-react";
 import { useTheme } from "@/contexts/ThemeContext";
+import { OfflineIndicator } from "./OfflineIndicator";
 
 export function Header() {
   const location = useLocation();
@@ -44,6 +45,7 @@ export function Header() {
       </div>
       
       <div className="flex items-center">
+        <OfflineIndicator />
         <Button
           variant="ghost"
           size="icon"
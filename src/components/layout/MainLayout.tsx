@@ -1,13 +1,25 @@
 
-import { Outlet } from "react-router-dom";
+import { Outlet, useNavigate } from "react-router-dom";
 import { SidebarProvider } from "@/components/ui/sidebar";
 import { AppSidebar } from "./AppSidebar";
 import { Header } from "./Header";
+import { DataLoadGate } from "./DataLoadGate";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { homePathForRole } from "@/lib/roles";
 
 export default function MainLayout() {
   const [isLoaded, setIsLoaded] = useState(false);
+  const { user, isClient, isSupplier } = useAuth();
+  const navigate = useNavigate();
+
+  // Client and supplier users only get their portal, not the internal tracker views
+  useEffect(() => {
+    if (user && (isClient || isSupplier)) {
+      navigate(homePathForRole(user.role), { replace: true });
+    }
+  }, [user, isClient, isSupplier, navigate]);
 
   useEffect(() => {
     // Simulate data loading
@@ -28,7 +40,9 @@ export default function MainLayout() {
           <main className="flex-1 p-4 md:p-6 transition-all">
             {isLoaded ? (
               <div className="animate-fade-in">
-                <Outlet />
+                <DataLoadGate>
+                  <Outlet />
+                </DataLoadGate>
               </div>
             ) : (
               <div className="flex items-center justify-center h-full">
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useDataStatus } from "@/contexts/DataContext";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CloudOff, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+// Shows when cached data is on screen or offline changes are waiting to be saved
+export function OfflineIndicator() {
+  const { isOffline, staleSince, queuedWrites, syncOfflineChanges, resolveQueuedWrite } = useDataStatus();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (!isOffline && queuedWrites.length === 0) return null;
+
+  const conflicts = queuedWrites.filter(write => write.conflict).length;
+
+  const handleRetry = async () => {
+    setIsSyncing(true);
+    try {
+      await syncOfflineChanges();
+    } catch (error) {
+      console.error("Error reconnecting:", error);
+      toast.error("Still unable to reach the server");
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleResolve = async (id: number | undefined, resolution: "overwrite" | "discard") => {
+    if (id === undefined) return;
+
+    try {
+      await resolveQueuedWrite(id, resolution);
+      toast.success(resolution === "overwrite" ? "Your change was saved" : "Your change was discarded");
+    } catch (error) {
+      console.error("Error resolving offline change:", error);
+      toast.error("Failed to resolve the change");
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="mr-2 gap-2">
+          {isOffline ? (
+            <CloudOff className="h-4 w-4 text-amber-500" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+          )}
+          <span className="hidden sm:inline">
+            {isOffline ? "Offline" : `${conflicts} to review`}
+          </span>
+          {isOffline && queuedWrites.length > 0 && (
+            <span className="text-xs text-muted-foreground">({queuedWrites.length} queued)</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-3">
+          <div>
+            <h4 className="font-medium">{isOffline ? "Working offline" : "Offline changes"}</h4>
+            {isOffline && (
+              <p className="text-sm text-muted-foreground">
+                {staleSince
+                  ? `Showing data last synced ${formatDistanceToNow(new Date(staleSince), { addSuffix: true })}.`
+                  : "Showing cached data."}{" "}
+                Changes are saved when the connection returns.
+              </p>
+            )}
+          </div>
+
+          {queuedWrites.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto space-y-2">
+              {queuedWrites.map(write => (
+                <li key={write.id} className="rounded-md border p-2 text-sm">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-medium">{write.label}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(write.queuedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  {write.conflict && (
+                    <>
+                      <p className="text-xs text-destructive mt-1">{write.conflict}</p>
+                      {!isOffline && (
+                        <div className="flex gap-2 mt-2">
+                          <Button size="sm" variant="outline" onClick={() => handleResolve(write.id, "overwrite")}>
+                            Keep mine
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleResolve(write.id, "discard")}>
+                            Discard
+                          </Button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isOffline && (
+            <Button size="sm" className="w-full" onClick={handleRetry} disabled={isSyncing}>
+              {isSyncing ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Retry now
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,31 @@
+import { Input } from "@/components/ui/input";
+
+interface ListDateRangeProps {
+  from?: string;
+  to?: string;
+  onChange: (range: { from?: string; to?: string }) => void;
+  label: string;
+}
+
+export function ListDateRange({ from = "", to = "", onChange, label }: ListDateRangeProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="date"
+        className="w-[150px]"
+        value={from}
+        max={to || undefined}
+        onChange={(e) => onChange({ from: e.target.value, to })}
+        aria-label={`${label} from`}
+      />
+      <Input
+        type="date"
+        className="w-[150px]"
+        value={to}
+        min={from || undefined}
+        onChange={(e) => onChange({ from, to: e.target.value })}
+        aria-label={`${label} to`}
+      />
+    </div>
+  );
+}
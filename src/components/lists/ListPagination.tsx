@@ -0,0 +1,116 @@
+import { MouseEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PAGE_SIZES } from "@/hooks/use-list-params";
+
+interface ListPaginationProps {
+  page: number;
+  pageSize: number;
+  total: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+// Page numbers to show: the first, the last and two either side of the
+// current one, with null marking a gap
+const visiblePages = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+
+  for (let candidate = 1; candidate <= pageCount; candidate++) {
+    if (candidate === 1 || candidate === pageCount || Math.abs(candidate - page) <= 2) {
+      pages.push(candidate);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+
+  return pages;
+};
+
+export function ListPagination({ page, pageSize, total, onPageChange, onPageSizeChange }: ListPaginationProps) {
+  const [searchParams] = useSearchParams();
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const first = total === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, total);
+
+  // Real links, so pages can be opened in a new tab; a plain click stays in the app
+  const linkTo = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("page", String(target));
+
+    return {
+      href: `?${params.toString()}`,
+      onClick: (event: MouseEvent) => {
+        event.preventDefault();
+        if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+      },
+    };
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center justify-between gap-4 px-4 py-3 border-t">
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <span>
+          {first}–{last} of {total}
+        </span>
+        <Select value={String(pageSize)} onValueChange={(value) => onPageSizeChange(Number(value))}>
+          <SelectTrigger className="h-8 w-[110px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZES.map(size => (
+              <SelectItem key={size} value={String(size)}>
+                {size} / page
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Pagination className="mx-0 w-auto">
+        <PaginationContent>
+          <PaginationItem>
+            <PaginationPrevious
+              {...linkTo(page - 1)}
+              aria-disabled={page <= 1}
+              className={page <= 1 ? "pointer-events-none opacity-50" : undefined}
+            />
+          </PaginationItem>
+          {visiblePages(page, pageCount).map((target, index) => (
+            <PaginationItem key={target ?? `gap-${index}`}>
+              {target === null ? (
+                <PaginationEllipsis />
+              ) : (
+                <PaginationLink {...linkTo(target)} isActive={target === page}>
+                  {target}
+                </PaginationLink>
+              )}
+            </PaginationItem>
+          ))}
+          <PaginationItem>
+            <PaginationNext
+              {...linkTo(page + 1)}
+              aria-disabled={page >= pageCount}
+              className={page >= pageCount ? "pointer-events-none opacity-50" : undefined}
+            />
+          </PaginationItem>
+        </PaginationContent>
+      </Pagination>
+    </div>
+  );
+}
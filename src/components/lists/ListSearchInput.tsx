@@ -0,0 +1,43 @@
+import { useEffect, useRef, useState } from "react";
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface ListSearchInputProps {
+  value?: string;
+  onSearch: (value: string) => void;
+  placeholder: string;
+  className?: string;
+}
+
+// Search runs on the server, so typing is debounced before it reaches the URL
+export function ListSearchInput({ value = "", onSearch, placeholder, className }: ListSearchInputProps) {
+  const [text, setText] = useState(value);
+  const latestOnSearch = useRef(onSearch);
+  latestOnSearch.current = onSearch;
+
+  // Follow the URL when it changes underneath us (back button, cleared filters)
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (text.trim() === value) return;
+
+    const timer = window.setTimeout(() => latestOnSearch.current(text.trim()), 300);
+    return () => window.clearTimeout(timer);
+  }, [text, value]);
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder={placeholder}
+        className={cn("pl-8", className)}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { TableHead } from "@/components/ui/table";
+import { SortDirection } from "@/lib/queryCache";
+import { cn } from "@/lib/utils";
+
+interface SortableTableHeadProps {
+  label: string;
+  column: string;
+  sort: string;
+  direction: SortDirection;
+  onSort: (column: string) => void;
+  className?: string;
+}
+
+export function SortableTableHead({ label, column, sort, direction, onSort, className }: SortableTableHeadProps) {
+  const isSorted = sort === column;
+  const Icon = !isSorted ? ArrowUpDown : direction === "asc" ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={isSorted ? (direction === "asc" ? "ascending" : "descending") : undefined}
+    >
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => onSort(column)}
+      >
+        {label}
+        <Icon className={cn("h-3.5 w-3.5", !isSorted && "opacity-40")} />
+      </button>
+    </TableHead>
+  );
+}
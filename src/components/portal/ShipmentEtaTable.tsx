@@ -0,0 +1,83 @@
+import { Shipment, Project } from "@/contexts/DataContext";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Package } from "lucide-react";
+
+interface ShipmentEtaTableProps {
+  shipments: Shipment[];
+  // Pass the projects to add a project column (used on the portal dashboard)
+  projects?: Project[];
+}
+
+const calculateDaysRemaining = (date: string): number =>
+  Math.ceil((new Date(date).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+
+// Shipment ETAs as a client sees them: no supplier and no internal notes
+export function ShipmentEtaTable({ shipments, projects }: ShipmentEtaTableProps) {
+  const getProjectName = (projectId: string) =>
+    projects?.find(p => p.id === projectId)?.name || "Unknown Project";
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {projects && <TableHead>Project</TableHead>}
+          <TableHead>Type</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Tracking/Container</TableHead>
+          <TableHead>ETD</TableHead>
+          <TableHead>ETA</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {shipments.length > 0 ? (
+          shipments.map(shipment => (
+            <TableRow key={shipment.id}>
+              {projects && <TableCell className="font-medium">{getProjectName(shipment.projectId)}</TableCell>}
+              <TableCell>
+                <div className="flex items-center">
+                  <Package className="h-4 w-4 mr-2" />
+                  {shipment.type}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Badge className={shipment.status === "Delivered" ? "bg-green-500" : "bg-blue-500"}>
+                  {shipment.status}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                {shipment.type === "Sea"
+                  ? shipment.containerNumber || "N/A"
+                  : shipment.trackingNumber || "N/A"}
+              </TableCell>
+              <TableCell>{new Date(shipment.etdDate).toLocaleDateString()}</TableCell>
+              <TableCell>
+                <div className="flex flex-col">
+                  <span>{new Date(shipment.etaDate).toLocaleDateString()}</span>
+                  {shipment.status !== "Delivered" && (
+                    <span className="text-xs text-muted-foreground">
+                      {calculateDaysRemaining(shipment.etaDate)} days remaining
+                    </span>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))
+        ) : (
+          <TableRow>
+            <TableCell colSpan={projects ? 6 : 5} className="h-24 text-center">
+              No shipments to show.
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { submitSupplierUpdate, uploadSupplierDocument } from "@/integrations/supabase/supplierUpdates";
+
+interface DocumentUploadFormProps {
+  open: boolean;
+  onClose: () => void;
+  purchaseOrder: PurchaseOrder;
+  onSubmitted: () => void;
+}
+
+export function DocumentUploadForm({ open, onClose, purchaseOrder, onSubmitted }: DocumentUploadFormProps) {
+  const { user } = useAuth();
+  const [title, setTitle] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleClose = () => {
+    setTitle("");
+    setFile(null);
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.supplierId || !file) return;
+
+    setIsSubmitting(true);
+    try {
+      const path = await uploadSupplierDocument(user.supplierId, purchaseOrder.id, file);
+      await submitSupplierUpdate(user, user.supplierId, purchaseOrder.id, {
+        kind: "document",
+        title: title || file.name,
+        path,
+        type: "Document",
+      });
+      toast.success("Document sent for approval");
+      onSubmitted();
+      handleClose();
+    } catch (error) {
+      console.error("Error uploading document:", error);
+      toast.error("Failed to upload document");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Upload Document for {purchaseOrder.poNumber}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="document-title">Title</Label>
+            <Input
+              id="document-title"
+              value={title}
+              placeholder="e.g. Inspection report"
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="document-file">File*</Label>
+            <Input
+              id="document-file"
+              type="file"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !file}>
+              {isSubmitting ? "Uploading..." : "Submit for Approval"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
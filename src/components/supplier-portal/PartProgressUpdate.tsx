@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { PurchaseOrder } from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Send } from "lucide-react";
+import { toast } from "sonner";
+import { PartProgressChange, submitSupplierUpdate } from "@/integrations/supabase/supplierUpdates";
+
+interface PartProgressUpdateProps {
+  purchaseOrder: PurchaseOrder;
+  onSubmitted: () => void;
+}
+
+// Suppliers edit a draft of their part progress; only the parts they actually
+// changed are sent for approval
+export function PartProgressUpdate({ purchaseOrder, onSubmitted }: PartProgressUpdateProps) {
+  const { user } = useAuth();
+  const [draft, setDraft] = useState(() =>
+    purchaseOrder.parts.map(part => ({ ...part, progress: part.progress || 0 }))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const changes: PartProgressChange[] = draft
+    .filter(part => {
+      const current = purchaseOrder.parts.find(item => item.id === part.id);
+      return current && (current.status !== part.status || (current.progress || 0) !== part.progress);
+    })
+    .map(part => ({ partId: part.id, partName: part.name, status: part.status, progress: part.progress }));
+
+  const handlePartChange = (partId: string, field: "status" | "progress", value: string | number) => {
+    setDraft(prev => prev.map(part => part.id === partId ? { ...part, [field]: value } : part));
+  };
+
+  const handleSubmit = async () => {
+    if (!user?.supplierId || changes.length === 0) return;
+
+    setIsSubmitting(true);
+    try {
+      await submitSupplierUpdate(user, user.supplierId, purchaseOrder.id, { kind: "partProgress", parts: changes });
+      toast.success("Progress sent for approval");
+      onSubmitted();
+    } catch (error) {
+      console.error("Error submitting part progress:", error);
+      toast.error("Failed to submit progress");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (draft.length === 0) {
+    return <p className="text-sm text-muted-foreground">This purchase order has no parts.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {draft.map(part => (
+        <div key={part.id} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end border rounded-md p-3">
+          <div>
+            <p className="font-medium">{part.name}</p>
+            <p className="text-xs text-muted-foreground">Quantity: {part.quantity}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`part-status-${part.id}`}>Status</Label>
+            <Select value={part.status} onValueChange={(value) => handlePartChange(part.id, "status", value)}>
+              <SelectTrigger id={`part-status-${part.id}`}>
+                <SelectValue placeholder="Select status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Pending">Pending</SelectItem>
+                <SelectItem value="In Progress">In Progress</SelectItem>
+                <SelectItem value="Completed">Completed</SelectItem>
+                <SelectItem value="Delayed">Delayed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`part-progress-${part.id}`}>Progress: {part.progress}%</Label>
+            <Slider
+              id={`part-progress-${part.id}`}
+              value={[part.progress]}
+              min={0}
+              max={100}
+              step={1}
+              onValueChange={(values) => handlePartChange(part.id, "progress", values[0])}
+            />
+          </div>
+        </div>
+      ))}
+
+      <div className="flex justify-end">
+        <Button onClick={handleSubmit} disabled={isSubmitting || changes.length === 0}>
+          <Send className="mr-2 h-4 w-4" />
+          {isSubmitting ? "Submitting..." : "Submit for Approval"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { PurchaseOrder, Shipment } from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { submitSupplierUpdate } from "@/integrations/supabase/supplierUpdates";
+
+type ShipmentRequestData = Omit<Shipment, "id">;
+
+interface ShipmentRequestFormProps {
+  open: boolean;
+  onClose: () => void;
+  purchaseOrder: PurchaseOrder;
+  onSubmitted: () => void;
+}
+
+const createShipmentRequest = (po: PurchaseOrder): ShipmentRequestData => ({
+  type: "Sea",
+  projectId: po.projectId,
+  supplierId: po.supplierId,
+  poId: po.id,
+  shippedDate: new Date().toISOString().substring(0, 10),
+  etdDate: new Date().toISOString().substring(0, 10),
+  etaDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10),
+  status: "In Transit",
+  notes: "",
+});
+
+// A trimmed-down ShipmentForm for suppliers: project, supplier and PO come from
+// the order, and the result is a request for staff to approve
+export function ShipmentRequestForm({ open, onClose, purchaseOrder, onSubmitted }: ShipmentRequestFormProps) {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState<ShipmentRequestData>(() => createShipmentRequest(purchaseOrder));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleChange = (field: keyof ShipmentRequestData, value: string | undefined) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleClose = () => {
+    setFormData(createShipmentRequest(purchaseOrder));
+    onClose();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user?.supplierId) return;
+
+    setIsSubmitting(true);
+    try {
+      await submitSupplierUpdate(user, user.supplierId, purchaseOrder.id, { kind: "shipment", shipment: formData });
+      toast.success("Shipment sent for approval");
+      onSubmitted();
+      handleClose();
+    } catch (error) {
+      console.error("Error submitting shipment:", error);
+      toast.error("Failed to submit shipment");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Shipment for {purchaseOrder.poNumber}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="type">Shipment Type*</Label>
+              <Select value={formData.type} onValueChange={(value) => handleChange("type", value)}>
+                <SelectTrigger id="type">
+                  <SelectValue placeholder="Select type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Sea">Sea Freight</SelectItem>
+                  <SelectItem value="Air">Air Freight</SelectItem>
+                  <SelectItem value="Land">Land Transport</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="partId">Part</Label>
+              <Select
+                value={formData.partId || "none"}
+                onValueChange={(value) => handleChange("partId", value === "none" ? undefined : value)}
+              >
+                <SelectTrigger id="partId">
+                  <SelectValue placeholder="Whole order" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Whole order</SelectItem>
+                  {purchaseOrder.parts.map(part => (
+                    <SelectItem key={part.id} value={part.id}>{part.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trackingNumber">Tracking Number</Label>
+              <Input
+                id="trackingNumber"
+                value={formData.trackingNumber || ""}
+                onChange={(e) => handleChange("trackingNumber", e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="containerNumber">Container Number</Label>
+              <Input
+                id="containerNumber"
+                value={formData.containerNumber || ""}
+                onChange={(e) => handleChange("containerNumber", e.target.value)}
+                disabled={formData.type !== "Sea"}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="shippedDate">Shipped Date*</Label>
+              <Input
+                id="shippedDate"
+                type="date"
+                value={formData.shippedDate}
+                onChange={(e) => handleChange("shippedDate", e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="etdDate">ETD*</Label>
+              <Input
+                id="etdDate"
+                type="date"
+                value={formData.etdDate}
+                onChange={(e) => handleChange("etdDate", e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="etaDate">ETA*</Label>
+              <Input
+                id="etaDate"
+                type="date"
+                value={formData.etaDate}
+                onChange={(e) => handleChange("etaDate", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea
+              id="notes"
+              value={formData.notes || ""}
+              onChange={(e) => handleChange("notes", e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={handleClose} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Submitting..." : "Submit for Approval"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,66 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  SUPPLIER_UPDATE_LABELS,
+  SupplierUpdate,
+  SupplierUpdateStatus,
+  describeSupplierUpdate,
+} from "@/integrations/supabase/supplierUpdates";
+
+const STATUS_COLORS: Record<SupplierUpdateStatus, string> = {
+  pending: "bg-amber-500",
+  approved: "bg-green-500",
+  rejected: "bg-red-500",
+};
+
+interface SupplierUpdateListProps {
+  updates: SupplierUpdate[];
+}
+
+// What the supplier has submitted and what staff made of it
+export function SupplierUpdateList({ updates }: SupplierUpdateListProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Submitted</TableHead>
+          <TableHead>Type</TableHead>
+          <TableHead>Details</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {updates.length > 0 ? (
+          updates.map(update => (
+            <TableRow key={update.id}>
+              <TableCell className="whitespace-nowrap">{new Date(update.submittedAt).toLocaleString()}</TableCell>
+              <TableCell>{SUPPLIER_UPDATE_LABELS[update.payload.kind]}</TableCell>
+              <TableCell className="max-w-md">
+                <div className="truncate">{describeSupplierUpdate(update.payload)}</div>
+                {update.reviewNote && (
+                  <div className="text-xs text-muted-foreground">Note: {update.reviewNote}</div>
+                )}
+              </TableCell>
+              <TableCell>
+                <Badge className={STATUS_COLORS[update.status]}>{update.status}</Badge>
+              </TableCell>
+            </TableRow>
+          ))
+        ) : (
+          <TableRow>
+            <TableCell colSpan={4} className="h-24 text-center">
+              Nothing submitted yet.
+            </TableCell>
+          </TableRow>
+        )}
+      </TableBody>
+    </Table>
+  );
+}
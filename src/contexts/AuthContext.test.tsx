@@ -0,0 +1,255 @@
+import "fake-indexeddb/auto";
+import { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, render, renderHook, screen, waitFor } from "@testing-library/react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { RoleGuard } from "@/components/admin/RoleGuard";
+import { enqueueWrite, listQueuedWrites, loadSnapshot, saveSnapshot } from "@/lib/offlineStore";
+
+// A stand-in for the Supabase auth client: one password account, the
+// profiles table and the auth state events the provider follows
+const supabaseAuth = vi.hoisted(() => {
+  type Listener = (event: string, session: unknown) => void;
+
+  const state = {
+    password: "correct horse",
+    profile: null as Record<string, unknown> | null,
+    session: null as { user: { id: string; email: string } } | null,
+    listeners: [] as Listener[],
+  };
+
+  const emit = (event: string) => state.listeners.forEach(listener => listener(event, state.session));
+
+  const client = {
+    auth: {
+      onAuthStateChange: (listener: Listener) => {
+        state.listeners.push(listener);
+        return { data: { subscription: { unsubscribe: () => { state.listeners = state.listeners.filter(l => l !== listener); } } } };
+      },
+      getSession: async () => ({ data: { session: state.session }, error: null }),
+      signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+        if (password !== state.password) {
+          return { data: { user: null, session: null }, error: new Error("Invalid login credentials") };
+        }
+        state.session = { user: { id: "user-1", email } };
+        emit("SIGNED_IN");
+        return { data: { user: state.session.user, session: state.session }, error: null };
+      },
+      signOut: vi.fn(async () => {
+        state.session = null;
+        emit("SIGNED_OUT");
+        return { error: null };
+      }),
+      signInWithOtp: async () => ({ data: {}, error: null }),
+    },
+    from: (table: string) => {
+      if (table !== "profiles") throw new Error(`Unexpected table ${table}`);
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: state.profile, error: null }),
+      };
+      return query;
+    },
+  };
+
+  return { state, client };
+});
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: supabaseAuth.client }));
+
+const mfa = vi.hoisted(() => ({
+  fetchMfaRequiredRoles: vi.fn(async (): Promise<string[]> => []),
+  getPendingChallenge: async () => null,
+  listTotpFactors: vi.fn(async (): Promise<{ id: string }[]> => []),
+  redeemRecoveryCode: async () => false,
+  verifyTotp: async () => undefined,
+}));
+
+vi.mock("@/integrations/supabase/mfa", () => mfa);
+
+const profile = (role: string | null) => ({
+  id: "user-1",
+  email: "user@example.com",
+  role,
+  full_name: "Test User",
+  client_id: null,
+  supplier_id: null,
+});
+
+const withRouter = (initialPath = "/admin/login") =>
+  ({ children }: { children: ReactNode }) => (
+    <MemoryRouter initialEntries={[initialPath]}>
+      <AuthProvider>{children}</AuthProvider>
+    </MemoryRouter>
+  );
+
+const renderAuth = async () => {
+  const rendered = renderHook(() => ({ auth: useAuth(), location: useLocation() }), { wrapper: withRouter() });
+  await waitFor(() => expect(rendered.result.current.auth.isLoading).toBe(false));
+  return rendered;
+};
+
+beforeEach(() => {
+  localStorage.clear();
+  supabaseAuth.state.session = null;
+  supabaseAuth.state.profile = null;
+  supabaseAuth.state.listeners = [];
+  supabaseAuth.client.auth.signOut.mockClear();
+  mfa.fetchMfaRequiredRoles.mockReset().mockResolvedValue([]);
+  mfa.listTotpFactors.mockReset().mockResolvedValue([]);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+describe("AuthProvider", () => {
+  it("signs in with Supabase and takes the role from the profile", async () => {
+    supabaseAuth.state.profile = profile("procurement");
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.login("user@example.com", "correct horse"));
+
+    expect(result.current.auth.user).toMatchObject({ id: "user-1", role: "procurement" });
+    expect(result.current.auth.isStaff).toBe(true);
+    expect(result.current.auth.isAdmin).toBe(false);
+    expect(result.current.auth.hasRole(["admin", "procurement"])).toBe(true);
+    expect(result.current.location.pathname).toBe("/admin/dashboard");
+  });
+
+  it("stays signed out when the password is wrong", async () => {
+    supabaseAuth.state.profile = profile("admin");
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.login("user@example.com", "1234"));
+
+    expect(result.current.auth.user).toBeNull();
+    expect(result.current.auth.session).toBeNull();
+    expect(result.current.location.pathname).toBe("/admin/login");
+  });
+
+  it("ignores the user the old demo login left in localStorage", async () => {
+    localStorage.setItem("user", JSON.stringify({ email: "demo@example.com", role: "admin" }));
+    const { result } = await renderAuth();
+
+    expect(result.current.auth.user).toBeNull();
+    expect(localStorage.getItem("user")).toBeNull();
+  });
+
+  it("restores a persisted session", async () => {
+    supabaseAuth.state.profile = profile("logistics");
+    supabaseAuth.state.session = { user: { id: "user-1", email: "user@example.com" } };
+    const { result } = await renderAuth();
+
+    expect(result.current.auth.user?.role).toBe("logistics");
+    expect(result.current.auth.can("update", "shipment")).toBe(true);
+    expect(result.current.auth.can("delete", "purchaseOrder")).toBe(false);
+  });
+
+  it.each([
+    ["no profile row", null],
+    ["a profile without a role", profile(null)],
+    ["an unknown role", profile("superuser")],
+  ])("denies access to an account with %s", async (_case, row) => {
+    supabaseAuth.state.profile = row;
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.login("user@example.com", "correct horse"));
+
+    expect(result.current.auth.user).toBeNull();
+    expect(result.current.auth.isStaff).toBe(false);
+    expect(supabaseAuth.client.auth.signOut).toHaveBeenCalled();
+    expect(supabaseAuth.state.session).toBeNull();
+  });
+
+  it("ends a restored session whose account has no role", async () => {
+    supabaseAuth.state.profile = profile(null);
+    supabaseAuth.state.session = { user: { id: "user-1", email: "user@example.com" } };
+    const { result } = await renderAuth();
+
+    expect(result.current.auth.user).toBeNull();
+    expect(supabaseAuth.state.session).toBeNull();
+  });
+
+  it("asks for 2FA setup when the role requires it and no factor is enrolled", async () => {
+    supabaseAuth.state.profile = profile("admin");
+    mfa.fetchMfaRequiredRoles.mockResolvedValue(["admin"]);
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.login("user@example.com", "correct horse"));
+
+    expect(result.current.auth.mfaEnrollmentRequired).toBe(true);
+  });
+
+  it("asks for 2FA setup when the policy can't be checked", async () => {
+    supabaseAuth.state.profile = profile("admin");
+    mfa.fetchMfaRequiredRoles.mockRejectedValue(new Error("network down"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.login("user@example.com", "correct horse"));
+
+    expect(result.current.auth.user?.role).toBe("admin");
+    expect(result.current.auth.mfaEnrollmentRequired).toBe(true);
+  });
+
+  it("signs out and forgets the data kept for offline use", async () => {
+    supabaseAuth.state.profile = profile("admin");
+    supabaseAuth.state.session = { user: { id: "user-1", email: "user@example.com" } };
+    await saveSnapshot("user-1", {
+      clients: [{ id: "client-1", name: "Acme" }],
+      suppliers: [],
+      projects: [],
+      purchaseOrders: [],
+      externalLinks: [],
+      shipments: [],
+      versions: {},
+      syncedAt: "2025-01-01T00:00:00.000Z",
+    });
+    await enqueueWrite({ label: "Update client", operations: [], queuedAt: "2025-01-01T00:00:00.000Z" });
+    const { result } = await renderAuth();
+
+    await act(() => result.current.auth.logout());
+
+    expect(result.current.auth.user).toBeNull();
+    expect(supabaseAuth.state.session).toBeNull();
+    expect(await loadSnapshot("user-1")).toBeNull();
+    expect(await listQueuedWrites()).toEqual([]);
+  });
+});
+
+describe("RoleGuard", () => {
+  const renderSettingsRoute = () =>
+    render(
+      <Routes>
+        <Route
+          path="/admin/settings"
+          element={<RoleGuard roles={["admin"]}><p>Settings page</p></RoleGuard>}
+        />
+        <Route path="/admin/dashboard" element={<p>Dashboard page</p>} />
+      </Routes>,
+      { wrapper: withRouter("/admin/settings") }
+    );
+
+  it("renders the page for an allowed role", async () => {
+    supabaseAuth.state.profile = profile("admin");
+    supabaseAuth.state.session = { user: { id: "user-1", email: "user@example.com" } };
+
+    renderSettingsRoute();
+
+    expect(await screen.findByText("Settings page")).toBeDefined();
+  });
+
+  it("sends other staff back to the dashboard", async () => {
+    supabaseAuth.state.profile = profile("viewer");
+    supabaseAuth.state.session = { user: { id: "user-1", email: "user@example.com" } };
+
+    renderSettingsRoute();
+
+    expect(await screen.findByText("Dashboard page")).toBeDefined();
+    expect(screen.queryByText("Settings page")).toBeNull();
+  });
+});
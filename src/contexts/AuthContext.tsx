@@ -1,65 +1,235 @@
-
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
 import { useNavigate } from "react-router-dom";
+import type { Session, User as SupabaseUser } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { UserRole, STAFF_ROLES, hasRole as roleAllows, homePathForRole, isUserRole } from "@/lib/roles";
+import {
+  PermissionAction,
+  PermissionEntity,
+  can as roleCan,
+  canEditField as roleCanEditField,
+} from "@/lib/permissions";
+import {
+  fetchMfaRequiredRoles,
+  getPendingChallenge,
+  listTotpFactors,
+  redeemRecoveryCode,
+  verifyTotp,
+} from "@/integrations/supabase/mfa";
+import { clearOfflineData } from "@/lib/offlineStore";
 
 interface User {
   id: string;
   email: string;
-  role: string;
+  role: UserRole;
+  fullName?: string;
+  // Set for client portal users; everything they see is scoped to this client
+  clientId?: string;
+  // Set for supplier portal users; they only see and update this supplier's POs
+  supplierId?: string;
 }
 
 interface AuthContextType {
   user: User | null;
+  session: Session | null;
   isLoading: boolean;
   isAdmin: boolean;
+  isStaff: boolean;
+  isClient: boolean;
+  isSupplier: boolean;
+  hasRole: (roles: UserRole[]) => boolean;
+  can: (action: PermissionAction, entity: PermissionEntity) => boolean;
+  canEditField: (entity: PermissionEntity, field: string) => boolean;
   login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  sendMagicLink: (email: string, redirectPath: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  // Set after a password login when the account still has to enter a TOTP code
+  mfaChallengePending: boolean;
+  // The role policy requires 2FA and the user hasn't set it up yet
+  mfaEnrollmentRequired: boolean;
+  verifyMfaCode: (code: string) => Promise<void>;
+  signInWithRecoveryCode: (code: string) => Promise<void>;
+  cancelMfaChallenge: () => Promise<void>;
+  refreshMfaStatus: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Read the role for a signed-in user from the profiles table. Without a
+// profile row naming a known role the account gets no access at all, the
+// same as current_role_name() in the database.
+const loadProfile = async (authUser: SupabaseUser): Promise<User | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', authUser.id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading user profile:", error);
+    return null;
+  }
+  if (!isUserRole(data?.role)) return null;
+
+  return {
+    id: authUser.id,
+    email: data.email || authUser.email || "",
+    role: data.role,
+    fullName: data?.full_name || undefined,
+    clientId: data?.client_id || undefined,
+    supplierId: data?.supplier_id || undefined,
+  };
+};
+
+const welcomeMessage = (role: UserRole | undefined) => {
+  switch (role) {
+    case "client":
+      return "Welcome to your client portal";
+    case "supplier":
+      return "Welcome to your supplier portal";
+    default:
+      return "Welcome to the admin panel";
+  }
+};
+
+// Whether the user's role must use 2FA and no factor is set up yet. If either
+// can't be looked up the user is sent to set one up rather than let through.
+const needsMfaEnrollment = async (role: UserRole) => {
+  try {
+    const requiredRoles = await fetchMfaRequiredRoles();
+    if (!requiredRoles.includes(role)) return false;
+    return (await listTotpFactors()).length === 0;
+  } catch (error) {
+    console.error("Error checking the 2FA policy:", error);
+    return true;
+  }
+};
+
+interface SignInState {
+  user: User | null;
+  mfaFactorId: string | null;
+  mfaEnrollmentRequired: boolean;
+  // Signed in, but the account has no role yet
+  accessDenied?: boolean;
+}
+
+const SIGNED_OUT: SignInState = { user: null, mfaFactorId: null, mfaEnrollmentRequired: false };
+
+// A session that still owes a TOTP code is kept signed out until it's entered
+const resolveSignIn = async (authUser: SupabaseUser): Promise<SignInState> => {
+  const mfaFactorId = await getPendingChallenge().catch(error => {
+    console.error("Error checking 2FA status:", error);
+    return null;
+  });
+  if (mfaFactorId) {
+    return { user: null, mfaFactorId, mfaEnrollmentRequired: false };
+  }
+
+  const user = await loadProfile(authUser);
+  if (!user) {
+    return { ...SIGNED_OUT, accessDenied: true };
+  }
+  return { user, mfaFactorId: null, mfaEnrollmentRequired: await needsMfaEnrollment(user.role) };
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [mfaFactorId, setMfaFactorId] = useState<string | null>(null);
+  const [mfaEnrollmentRequired, setMfaEnrollmentRequired] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
-  useEffect(() => {
-    // Check if user is already logged in
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
+  const applySignIn = (state: SignInState) => {
+    setUser(state.user);
+    setMfaFactorId(state.mfaFactorId);
+    setMfaEnrollmentRequired(state.mfaEnrollmentRequired);
+  };
+
+  // An account without a role is signed straight back out
+  const denyAccess = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error("Error signing out:", error);
     }
-    setIsLoading(false);
+
+    setSession(null);
+    applySignIn(SIGNED_OUT);
+    toast({
+      title: "No access",
+      description: "Your account hasn't been given a role yet. Ask an administrator for access.",
+      variant: "destructive",
+    });
+  };
+
+  useEffect(() => {
+    // The old demo login kept a fake user here; make sure it can't linger
+    localStorage.removeItem("user");
+
+    const applySession = async (nextSession: Session | null) => {
+      setSession(nextSession);
+      const state = nextSession?.user ? await resolveSignIn(nextSession.user) : SIGNED_OUT;
+      // A restored session whose account has lost its role is ended quietly
+      if (state.accessDenied) {
+        await supabase.auth.signOut();
+      }
+      setUser(state.user);
+      setMfaFactorId(state.mfaFactorId);
+      setMfaEnrollmentRequired(state.mfaEnrollmentRequired);
+      setIsLoading(false);
+    };
+
+    // Supabase persists the session and refreshes the access token itself;
+    // we only need to follow the state changes it reports.
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (event === "INITIAL_SESSION") return;
+      // verifyMfaCode and the 2FA settings update their own state after a challenge
+      if (event === "TOKEN_REFRESHED" || event === "MFA_CHALLENGE_VERIFIED") {
+        setSession(nextSession);
+        return;
+      }
+      // Defer so we don't query Supabase from inside its own auth callback
+      setTimeout(() => applySession(nextSession), 0);
+    });
+
+    supabase.auth.getSession().then(({ data, error }) => {
+      if (error) {
+        console.error("Error restoring session:", error);
+      }
+      applySession(data.session);
+    });
+
+    return () => subscription.unsubscribe();
   }, []);
 
-  // For demo purposes, we'll use a simple login
   const login = async (email: string, password: string) => {
     setIsLoading(true);
-    
+
     try {
-      // Demo admin login - in real app, this would be replaced with Supabase authentication
-      if (password === "1234") {
-        const user = {
-          id: "1",
-          email,
-          role: "admin",
-        };
-        
-        setUser(user);
-        localStorage.setItem("user", JSON.stringify(user));
-        
-        toast({
-          title: "Login successful",
-          description: "Welcome to the admin panel",
-        });
-        
-        navigate("/admin/dashboard");
-      } else {
-        throw new Error("Invalid credentials");
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+
+      const state = await resolveSignIn(data.user);
+      if (state.accessDenied) {
+        await denyAccess();
+        return;
       }
+      setSession(data.session);
+      applySignIn(state);
+
+      // The login page moves on to the one-time code step
+      if (state.mfaFactorId) return;
+
+      toast({
+        title: "Login successful",
+        description: welcomeMessage(state.user?.role),
+      });
+
+      navigate(state.user ? homePathForRole(state.user.role) : "/");
     } catch (error) {
+      console.error("Login failed:", error);
       toast({
         title: "Login failed",
         description: "Invalid credentials",
@@ -70,21 +240,169 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("user");
+  // Passwordless sign-in for portal users. Supabase expires the link after
+  // its OTP lifetime, and only existing accounts can use it.
+  const sendMagicLink = async (email: string, redirectPath: string) => {
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: `${window.location.origin}${redirectPath}`,
+        },
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Check your email",
+        description: "We sent you a sign-in link",
+      });
+      return true;
+    } catch (error) {
+      console.error("Magic link request failed:", error);
+      toast({
+        title: "Couldn't send the link",
+        description: "Check the email address or sign in with your password",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const verifyMfaCode = async (code: string) => {
+    if (!mfaFactorId) return;
+
+    try {
+      await verifyTotp(mfaFactorId, code);
+
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      if (!data.session) throw new Error("The session ended before the code was verified");
+
+      const state = await resolveSignIn(data.session.user);
+      if (state.accessDenied) {
+        await denyAccess();
+        return;
+      }
+      setSession(data.session);
+      applySignIn(state);
+
+      toast({
+        title: "Login successful",
+        description: welcomeMessage(state.user?.role),
+      });
+
+      navigate(state.user ? homePathForRole(state.user.role) : "/");
+    } catch (error) {
+      console.error("2FA verification failed:", error);
+      toast({
+        title: "Verification failed",
+        description: "The code is invalid or has expired",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const signInWithRecoveryCode = async (code: string) => {
+    try {
+      const accepted = await redeemRecoveryCode(code);
+      if (!accepted) throw new Error("Recovery code rejected");
+
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw error;
+      if (!data.session) throw new Error("The session ended before the code was redeemed");
+
+      const state = await resolveSignIn(data.session.user);
+      if (state.accessDenied) {
+        await denyAccess();
+        return;
+      }
+      setSession(data.session);
+      applySignIn(state);
+
+      toast({
+        title: "Recovery code accepted",
+        description: "Set up two-factor authentication again from the admin settings",
+      });
+
+      navigate(state.user ? homePathForRole(state.user.role) : "/");
+    } catch (error) {
+      console.error("Recovery code sign-in failed:", error);
+      toast({
+        title: "Verification failed",
+        description: "The recovery code is invalid or has already been used",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const cancelMfaChallenge = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error("Error signing out:", error);
+    }
+
+    setSession(null);
+    applySignIn(SIGNED_OUT);
+  };
+
+  // Called after the user enrolls or removes a factor, or the policy changes
+  const refreshMfaStatus = async () => {
+    if (user) {
+      setMfaEnrollmentRequired(await needsMfaEnrollment(user.role));
+    }
+  };
+
+  const logout = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error("Error signing out:", error);
+    }
+
+    setSession(null);
+    applySignIn(SIGNED_OUT);
+    // The browser may be shared, so the cached data and unsent offline writes go too
+    await clearOfflineData().catch(error => console.error("Error clearing offline data:", error));
     navigate("/"); // Redirect to main dashboard instead of login
-    
+
     toast({
       title: "Logged out",
       description: "You have been logged out",
     });
   };
 
+  const hasRole = (roles: UserRole[]) => roleAllows(user?.role, roles);
+  const can = (action: PermissionAction, entity: PermissionEntity) => roleCan(user?.role, action, entity);
+  const canEditField = (entity: PermissionEntity, field: string) => roleCanEditField(user?.role, entity, field);
   const isAdmin = user?.role === "admin";
+  const isStaff = hasRole(STAFF_ROLES);
+  const isClient = user?.role === "client";
+  const isSupplier = user?.role === "supplier";
 
   return (
-    <AuthContext.Provider value={{ user, isLoading, isAdmin, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        isLoading,
+        isAdmin,
+        isStaff,
+        isClient,
+        isSupplier,
+        hasRole,
+        can,
+        canEditField,
+        login,
+        sendMagicLink,
+        logout,
+        mfaChallengePending: !!mfaFactorId,
+        mfaEnrollmentRequired,
+        verifyMfaCode,
+        signInWithRecoveryCode,
+        cancelMfaChallenge,
+        refreshMfaStatus,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,111 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+import type { PurchaseOrder } from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  CurrencySettings,
+  DEFAULT_CURRENCY_SETTINGS,
+  fetchCurrencySettings,
+  saveCurrencySettings,
+} from "@/integrations/supabase/currencySettings";
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  CurrencyCode,
+  ExchangeRate,
+  convertAmount,
+  formatCurrency,
+  getRate,
+  isCurrencyCode,
+} from "@/lib/currency";
+
+interface CurrencyContextType extends CurrencySettings {
+  setReportingCurrency: (currency: CurrencyCode) => Promise<void>;
+  addExchangeRate: (rate: Omit<ExchangeRate, "id">) => Promise<void>;
+  removeExchangeRate: (id: string) => Promise<void>;
+  missingRates: CurrencyCode[];
+  toReporting: (amount: number, currency: string | undefined, date: string) => number;
+  poAmount: (po: PurchaseOrder) => number;
+  formatReporting: (amount: number) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [settings, setSettings] = useState<CurrencySettings>(DEFAULT_CURRENCY_SETTINGS);
+
+  // Settings can only be read once signed in
+  useEffect(() => {
+    if (!userId) return;
+    fetchCurrencySettings()
+      .then(setSettings)
+      .catch(error => console.error("Error loading currency settings:", error));
+  }, [userId]);
+
+  // The rates are shared by the whole workspace and the approval rules are
+  // matched with them on the server, so a change applies once it's saved
+  const saveSettings = async (next: CurrencySettings) => {
+    await saveCurrencySettings(next);
+    setSettings(next);
+  };
+
+  const setReportingCurrency = (currency: CurrencyCode) =>
+    saveSettings({ ...settings, reportingCurrency: currency });
+
+  const addExchangeRate = (rate: Omit<ExchangeRate, "id">) =>
+    saveSettings({
+      ...settings,
+      // Only one rate per currency and effective date
+      exchangeRates: [
+        ...settings.exchangeRates.filter(r => !(r.currency === rate.currency && r.effectiveDate === rate.effectiveDate)),
+        { ...rate, id: `rate-${Date.now()}` },
+      ],
+    });
+
+  const removeExchangeRate = (id: string) =>
+    saveSettings({
+      ...settings,
+      exchangeRates: settings.exchangeRates.filter(rate => rate.id !== id),
+    });
+
+  const missingRates = CURRENCIES.filter(
+    currency => getRate(settings.exchangeRates, currency, new Date().toISOString()) === null
+  );
+
+  // Amounts in a currency with no known rate are reported unconverted
+  // rather than dropped; the settings page flags the missing rate.
+  const toReporting = (amount: number, currency: string | undefined, date: string) => {
+    const from = isCurrencyCode(currency) ? currency : BASE_CURRENCY;
+    return convertAmount(settings.exchangeRates, amount, from, settings.reportingCurrency, date) ?? amount;
+  };
+
+  const poAmount = (po: PurchaseOrder) => toReporting(po.amount || 0, po.currency, po.issuedDate);
+
+  const formatReporting = (amount: number) => formatCurrency(amount, settings.reportingCurrency);
+
+  return (
+    <CurrencyContext.Provider
+      value={{
+        ...settings,
+        setReportingCurrency,
+        addExchangeRate,
+        removeExchangeRate,
+        missingRates,
+        toReporting,
+        poAmount,
+        formatReporting,
+      }}
+    >
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error("useCurrency must be used within a CurrencyProvider");
+  }
+  return context;
+}
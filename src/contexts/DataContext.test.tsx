@@ -0,0 +1,364 @@
+import "fake-indexeddb/auto";
+import { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, cleanup, renderHook, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { DataProvider, useData, useDataStatus } from "@/contexts/DataContext";
+import { CurrencyProvider } from "@/contexts/CurrencyContext";
+import { createFixtures } from "@/data/fixtures";
+import { useDeleteClient } from "@/hooks/use-data-mutations";
+import { useClients } from "@/hooks/use-data-queries";
+import { setDataBackend } from "@/integrations/supabase/backend";
+import { MemoryBackend, createMemoryBackend } from "@/integrations/supabase/memoryBackend";
+import type { PortalRows } from "@/integrations/supabase/portal";
+import { clearOfflineData, saveSnapshot } from "@/lib/offlineStore";
+import { isForbiddenError } from "@/lib/permissions";
+import { isApprovalError } from "@/lib/poApprovals";
+import type { UserRole } from "@/lib/roles";
+
+const auth = vi.hoisted(() => ({
+  user: { id: "user-1", email: "buyer@example.com", role: "admin" } as {
+    id: string;
+    email: string;
+    role: UserRole;
+    clientId?: string;
+    supplierId?: string;
+  },
+}));
+
+const signInAs = (id: string, role: UserRole, scope: { clientId?: string; supplierId?: string } = {}) => {
+  auth.user = { id, email: `${id}@example.com`, role, ...scope };
+};
+
+vi.mock("@/contexts/AuthContext", () => ({
+  useAuth: () => auth,
+}));
+
+const fixtures = createFixtures({ clients: 2, suppliers: 2, projects: 2, purchaseOrdersPerProject: 2 });
+
+let backend: MemoryBackend;
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+    <CurrencyProvider>
+      <DataProvider>{children}</DataProvider>
+    </CurrencyProvider>
+  </QueryClientProvider>
+);
+
+const renderData = async () => {
+  const rendered = renderHook(() => useData(), { wrapper });
+  await waitFor(() => expect(rendered.result.current.loading).toBe(false));
+  return rendered;
+};
+
+const liveRows = (table: string) => backend.rows(table).filter(row => row.deleted_at === null);
+
+beforeEach(() => {
+  signInAs("user-1", "admin");
+  backend = createMemoryBackend(fixtures, { user: () => auth.user });
+  setDataBackend(backend);
+});
+
+afterEach(() => {
+  cleanup();
+  setDataBackend();
+  vi.restoreAllMocks();
+});
+
+describe("DataProvider against the memory backend", () => {
+  it("loads every live record", async () => {
+    const { result } = await renderData();
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.clients).toHaveLength(fixtures.clients.length);
+    expect(result.current.projects).toHaveLength(fixtures.projects.length);
+    expect(result.current.purchaseOrders).toHaveLength(fixtures.purchaseOrders.length);
+    expect(result.current.purchaseOrders[0].parts.length).toBeGreaterThan(0);
+  });
+
+  it("adds, updates and trashes a client", async () => {
+    const { result } = await renderData();
+
+    await act(() => result.current.addClient({ name: "Harbour Works", email: "ops@harbour.example" }));
+    const added = result.current.clients.find(client => client.name === "Harbour Works");
+    expect(added).toBeDefined();
+    expect(liveRows("clients").some(row => row.id === added.id)).toBe(true);
+
+    await act(() => result.current.updateClient(added.id, { phone: "+1 555 0100" }));
+    expect(backend.rows("clients").find(row => row.id === added.id)?.phone).toBe("+1 555 0100");
+    expect(result.current.clients.find(client => client.id === added.id)?.phone).toBe("+1 555 0100");
+
+    await act(() => result.current.deleteClient(added.id));
+    expect(result.current.clients.some(client => client.id === added.id)).toBe(false);
+    expect(backend.rows("clients").find(row => row.id === added.id)?.deleted_at).not.toBeNull();
+  });
+
+  it("updates a project", async () => {
+    const { result } = await renderData();
+    const project = fixtures.projects[0];
+
+    await act(() => result.current.updateProject(project.id, { location: "Rotterdam" }));
+
+    expect(backend.rows("projects").find(row => row.id === project.id)?.location).toBe("Rotterdam");
+    expect(result.current.projects.find(item => item.id === project.id)?.location).toBe("Rotterdam");
+  });
+
+  it("adds a purchase order with its parts and replaces them on update", async () => {
+    const { result } = await renderData();
+    const project = fixtures.projects[0];
+
+    await act(() => result.current.addPurchaseOrder({
+      poNumber: "PO-TEST-1",
+      projectId: project.id,
+      supplierId: fixtures.suppliers[0].id,
+      status: "Active",
+      issuedDate: "2025-01-10",
+      deadline: "2025-03-01",
+      amount: 1200,
+      parts: [
+        { id: "part-1", name: "Bracket", quantity: 10, status: "Pending" },
+        { id: "part-2", name: "Bolt", quantity: 100, status: "Pending" },
+      ],
+    }));
+
+    const po = result.current.purchaseOrders.find(item => item.poNumber === "PO-TEST-1");
+    expect(po.parts).toHaveLength(2);
+    expect(po.approvalStatus).toBe("Draft");
+
+    const [bracket] = po.parts;
+    await act(() => result.current.updatePurchaseOrder(po.id, {
+      parts: [{ ...bracket, quantity: 12 }, { id: "part-3", name: "Washer", quantity: 100, status: "Pending" }],
+    }));
+
+    const parts = liveRows("parts").filter(row => row.po_id === po.id);
+    expect(parts.map(row => row.name).sort()).toEqual(["Bracket", "Washer"]);
+    expect(parts.find(row => row.name === "Bracket")?.quantity).toBe(12);
+    // The removed part goes to the trash rather than being purged
+    expect(backend.rows("parts").find(row => row.po_id === po.id && row.name === "Bolt")?.deleted_at).toEqual(expect.any(String));
+    await waitFor(() =>
+      expect(result.current.purchaseOrders.find(item => item.id === po.id)?.parts).toHaveLength(2)
+    );
+  });
+
+  it("trashes a supplier together with its purchase orders", async () => {
+    const { result } = await renderData();
+    const supplier = fixtures.suppliers[0];
+    const supplierPOs = fixtures.purchaseOrders.filter(po => po.supplierId === supplier.id);
+
+    await act(() => result.current.deleteSupplier(supplier.id));
+
+    expect(result.current.suppliers.some(item => item.id === supplier.id)).toBe(false);
+    expect(result.current.purchaseOrders.some(po => po.supplierId === supplier.id)).toBe(false);
+    for (const po of supplierPOs) {
+      expect(backend.rows("purchase_orders").find(row => row.id === po.id)?.deleted_at).not.toBeNull();
+    }
+  });
+
+  it("adds, updates and deletes a shipment", async () => {
+    const { result } = await renderData();
+    const po = fixtures.purchaseOrders[0];
+
+    await act(() => result.current.addShipment({
+      type: "Sea",
+      projectId: po.projectId,
+      supplierId: po.supplierId,
+      poId: po.id,
+      shippedDate: "2025-01-12",
+      etdDate: "2025-01-12",
+      etaDate: "2025-02-20",
+      trackingNumber: "TRK-TEST",
+      status: "In Transit",
+    }));
+
+    const shipment = result.current.shipments.find(item => item.trackingNumber === "TRK-TEST");
+    expect(shipment.id).not.toMatch(/^shipment-/);
+
+    await act(() => result.current.updateShipment(shipment.id, { status: "Delivered" }));
+    expect(backend.rows("shipments").find(row => row.id === shipment.id)?.status).toBe("Delivered");
+
+    await act(() => result.current.deleteShipment(shipment.id));
+    expect(result.current.shipments.some(item => item.id === shipment.id)).toBe(false);
+    expect(liveRows("shipments").some(row => row.id === shipment.id)).toBe(false);
+  });
+
+  // The approval rules below are enforced by the memory backend's copies of
+  // the SQL functions and trigger, which have to be kept in step with them
+  it("takes a PO through its approval chain without letting its buyer approve it", async () => {
+    const { result, rerender } = await renderData();
+    const project = fixtures.projects[0];
+
+    await act(() => result.current.addPurchaseOrder({
+      poNumber: "PO-TEST-2",
+      projectId: project.id,
+      supplierId: fixtures.suppliers[0].id,
+      status: "Active",
+      issuedDate: "2025-01-10",
+      deadline: "2025-03-01",
+      amount: 60000,
+      currency: "USD",
+      parts: [{ id: "part-1", name: "Crane", quantity: 1, status: "Pending" }],
+    }));
+    const { id } = result.current.purchaseOrders.find(item => item.poNumber === "PO-TEST-2");
+    const poNow = () => result.current.purchaseOrders.find(item => item.id === id);
+
+    await act(() => result.current.submitPurchaseOrder(id));
+    expect(poNow().approvalStatus).toBe("Submitted");
+    expect(poNow().approvals.at(-1)).toMatchObject({ action: "submitted", chain: ["procurement", "admin"], rule: "Large orders" });
+
+    await expect(result.current.decidePurchaseOrder(id, "approved")).rejects.toSatisfy(isApprovalError);
+    const direct = await backend.rpc("decide_purchase_order", { po_id: id, decision: "approved" });
+    expect(direct.error?.code).toBe("42501");
+
+    signInAs("user-2", "procurement");
+    rerender();
+    await waitFor(() => expect(poNow()).toBeDefined());
+    await act(() => result.current.decidePurchaseOrder(id, "approved"));
+    expect(poNow().approvalStatus).toBe("Submitted");
+
+    signInAs("user-3", "admin");
+    rerender();
+    await waitFor(() => expect(poNow()).toBeDefined());
+    await act(() => result.current.decidePurchaseOrder(id, "approved"));
+    expect(poNow().approvalStatus).toBe("Approved");
+
+    await act(() => result.current.issuePurchaseOrder(id));
+    expect(backend.rows("purchase_orders").find(row => row.id === id)?.approval_status).toBe("Issued");
+  });
+
+  it("sends an issued PO back to draft when its amount is edited", async () => {
+    const { result, rerender } = await renderData();
+
+    await act(() => result.current.addPurchaseOrder({
+      poNumber: "PO-TEST-3",
+      projectId: fixtures.projects[0].id,
+      supplierId: fixtures.suppliers[0].id,
+      status: "Active",
+      issuedDate: "2025-01-10",
+      deadline: "2025-03-01",
+      amount: 500,
+      currency: "USD",
+      parts: [],
+    }));
+    const { id } = result.current.purchaseOrders.find(item => item.poNumber === "PO-TEST-3");
+    const poNow = () => result.current.purchaseOrders.find(item => item.id === id);
+    await act(() => result.current.submitPurchaseOrder(id));
+    signInAs("user-2", "procurement");
+    rerender();
+    await waitFor(() => expect(poNow()).toBeDefined());
+    await act(() => result.current.decidePurchaseOrder(id, "approved"));
+    await act(() => result.current.issuePurchaseOrder(id));
+    expect(poNow().approvalStatus).toBe("Issued");
+
+    await act(() => result.current.updatePurchaseOrder(id, { description: "Delivered to site B" }));
+    expect(poNow().approvalStatus).toBe("Issued");
+
+    await act(() => result.current.updatePurchaseOrder(id, { amount: 90000 }));
+    expect(poNow()).toMatchObject({ amount: 90000, approvalStatus: "Draft", submittedBy: undefined });
+    expect(poNow().approvals.at(-1)).toMatchObject({ action: "reopened", decidedBy: "user-2@example.com" });
+  });
+
+  it("loads a client user's slice through the portal function without amounts or budgets", async () => {
+    const { clientId } = fixtures.projects[0];
+    signInAs("user-4", "client", { clientId });
+    const rpc = vi.spyOn(backend, "rpc");
+    const { result } = await renderData();
+
+    expect(rpc).toHaveBeenCalledWith("client_portal_data");
+    expect(result.current.projects.map(project => project.id))
+      .toEqual(fixtures.projects.filter(project => project.clientId === clientId).map(project => project.id));
+    expect(result.current.projects.every(project => project.budget === undefined)).toBe(true);
+
+    const rows = (await backend.rpc("client_portal_data")).data as unknown as PortalRows;
+    expect(rows.purchase_orders.length).toBeGreaterThan(0);
+    expect(rows.purchase_orders.every(po => po.amount === null && po.supplier_id === null)).toBe(true);
+    expect(rows.shipments.every(shipment => shipment.notes === null)).toBe(true);
+  });
+
+  it("leaves the records unloaded when a page reads or writes through the query hooks", async () => {
+    const from = vi.spyOn(backend, "from");
+    const { result } = renderHook(
+      () => ({ status: useDataStatus(), clients: useClients(), deleteClient: useDeleteClient() }),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.clients.data).toHaveLength(fixtures.clients.length));
+
+    expect(result.current.status.loading).toBe(false);
+    const tables = () => from.mock.calls.map(([table]) => table);
+    expect(tables().filter(table => table === "clients")).toHaveLength(1);
+    expect(tables()).not.toContain("purchase_orders");
+
+    const client = fixtures.clients[0];
+    await act(() => result.current.deleteClient.mutateAsync({ id: client.id }));
+
+    // Its projects and their POs were fetched through the client and went with it
+    const projects = fixtures.projects.filter(project => project.clientId === client.id);
+    const orders = fixtures.purchaseOrders.filter(po => projects.some(project => project.id === po.projectId));
+    expect(orders.length).toBeGreaterThan(0);
+    for (const po of orders) {
+      expect(backend.rows("purchase_orders").find(row => row.id === po.id)?.deleted_at).not.toBeNull();
+    }
+
+    // Nothing unrelated to the client was loaded, and the page's list caught up
+    expect(tables()).not.toContain("suppliers");
+    expect(result.current.status.loading).toBe(false);
+    await waitFor(() => expect(result.current.clients.data).toHaveLength(fixtures.clients.length - 1));
+  });
+
+  it("falls back only to the signed-in user's own offline snapshot", async () => {
+    await clearOfflineData();
+    await saveSnapshot("user-9", {
+      clients: fixtures.clients,
+      suppliers: [],
+      projects: [],
+      purchaseOrders: [],
+      externalLinks: [],
+      shipments: [],
+      versions: {},
+      syncedAt: "2025-01-01T00:00:00.000Z",
+    });
+    vi.spyOn(navigator, "onLine", "get").mockReturnValue(false);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const other = await renderData();
+    expect(other.result.current.clients).toEqual([]);
+    expect(other.result.current.isOffline).toBe(false);
+    other.unmount();
+
+    signInAs("user-9", "admin");
+    const owner = await renderData();
+    expect(owner.result.current.clients).toEqual(fixtures.clients);
+    expect(owner.result.current.isOffline).toBe(true);
+  });
+
+  it("clears every record from the database, trashed ones included", async () => {
+    const { result } = await renderData();
+    await act(() => result.current.deleteShipment(fixtures.shipments[0].id));
+
+    await act(() => result.current.clearAllData());
+
+    for (const table of ["clients", "suppliers", "projects", "purchase_orders", "parts", "shipments", "external_links"]) {
+      expect(backend.rows(table)).toEqual([]);
+    }
+    expect(result.current.purchaseOrders).toEqual([]);
+  });
+
+  it("refuses writes the role isn't allowed", async () => {
+    signInAs("user-1", "viewer");
+    const { result } = await renderData();
+
+    const attempt = result.current.addClient({ name: "Not Allowed" });
+
+    await expect(attempt).rejects.toSatisfy(isForbiddenError);
+    expect(backend.rows("clients").some(row => row.name === "Not Allowed")).toBe(false);
+  });
+
+  it("refuses to submit or issue a PO for a role outside the approval workflow", async () => {
+    signInAs("user-1", "viewer");
+    const { result } = await renderData();
+    const { id } = fixtures.purchaseOrders[0];
+
+    await expect(result.current.submitPurchaseOrder(id)).rejects.toSatisfy(isForbiddenError);
+    await expect(result.current.issuePurchaseOrder(id)).rejects.toSatisfy(isForbiddenError);
+  });
+});
@@ -1,7 +1,89 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
-import { supabase } from "@/integrations/supabase/client";
-import { loadDummyData, syncDummyToSupabase, updateSupabaseProject } from "@/integrations/supabase/dataSync";
-import { createDummyData } from "@/data/dummy-data";
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/backend";
+import { syncDummyToSupabase, updateSupabaseProject } from "@/integrations/supabase/dataSync";
+import { Fixtures, ScenarioPreset, createScenario } from "@/data/fixtures";
+import { useAuth } from "@/contexts/AuthContext";
+import type { UserRole } from "@/lib/roles";
+import { assertCan, can } from "@/lib/permissions";
+import { changedFields } from "@/lib/diff";
+import { DuplicatePoNumberError, diffRevision, nextRevision } from "@/lib/poRevisions";
+import { ApprovalError, approvalStatusOf, canDecide, canSubmit, pendingApprover } from "@/lib/poApprovals";
+import { decideApproval, issueApproved, submitForApproval } from "@/integrations/supabase/approvals";
+import { fetchPortalData, isPortalRole } from "@/integrations/supabase/portal";
+import { applyQueuedWrite, replayQueuedWrites } from "@/integrations/supabase/offlineSync";
+import {
+  enqueueWrite,
+  listQueuedWrites,
+  loadSnapshot,
+  OfflineSnapshot,
+  OfflineTable,
+  QueuedOperation,
+  QueuedWrite,
+  removeQueuedWrite,
+  rowVersionKey,
+  RowVersions,
+  saveSnapshot,
+} from "@/lib/offlineStore";
+import { useToast } from "@/hooks/use-toast";
+import {
+  mapClientFromDb,
+  mapClientToDb,
+  mapExternalLinkFromDb,
+  mapExternalLinkToDb,
+  mapNewClientToDb,
+  mapNewExternalLinkToDb,
+  mapNewPartToDb,
+  mapNewProjectToDb,
+  mapNewPurchaseOrderToDb,
+  mapNewShipmentToDb,
+  mapNewSupplierToDb,
+  mapPartToDb,
+  mapProjectFromDb,
+  mapProjectToDb,
+  mapPurchaseOrderFromDb,
+  mapPurchaseOrdersFromDb,
+  mapPurchaseOrderToDb,
+  mapShipmentFromDb,
+  mapShipmentToDb,
+  mapSupplierFromDb,
+  mapSupplierToDb,
+  isMappingError,
+} from "@/integrations/supabase/mappers";
+import {
+  applyPartChange,
+  applyPurchaseOrderChange,
+  applyRowChange,
+  applyVersionChange,
+  findStaleTables,
+  REALTIME_TABLES,
+  RealtimeChange,
+  RealtimeTable,
+  StaleRealtimeStateError,
+} from "@/integrations/supabase/realtimePatches";
+import { TrashEntity, applyOperations, trashOperations } from "@/integrations/supabase/trash";
+import {
+  fetchClient,
+  fetchExternalLink,
+  fetchProject,
+  fetchPurchaseOrder,
+  fetchShipment,
+  fetchSupplier,
+} from "@/integrations/supabase/queries";
+import { clearWorkspace } from "@/integrations/supabase/backup";
+import {
+  DependentResolution,
+  ParentEntity,
+  archivedDependents,
+  directDependents,
+  fetchDependentRecords,
+  reassignField,
+  reassignOperations,
+} from "@/integrations/supabase/dependents";
+import { scopeToClient } from "@/lib/clientScope";
+import { scopeToSupplier } from "@/lib/supplierScope";
+import { QueryEntity, queryKeys } from "@/lib/queryCache";
 
 export interface Client {
   id: string;
@@ -44,8 +126,52 @@ export interface PurchaseOrder {
   deadline: string;
   progress?: number;
   amount?: number;
+  currency?: string;
+  costCategory?: string;
   description?: string;
   parts: Part[];
+  revision?: string;
+  revisions?: PurchaseOrderRevision[];
+  approvalStatus?: ApprovalStatus;
+  approvals?: ApprovalDecision[];
+  // The user who last submitted it for approval, who can't also decide on it
+  submittedBy?: string;
+}
+
+// Draft → Submitted → Approved → Issued. A rejected PO goes back to its buyer
+// to be changed and submitted again.
+export type ApprovalStatus = "Draft" | "Submitted" | "Approved" | "Rejected" | "Issued";
+
+export interface ApprovalDecision {
+  action: "submitted" | "approved" | "rejected" | "issued" | "reopened";
+  // On submission, the roles that have to approve it in turn and the rule
+  // that picked them
+  chain?: UserRole[];
+  rule?: string;
+  // On an approval or rejection, the step of the chain it was made for
+  approverRole?: UserRole;
+  comment?: string;
+  decidedAt: string;
+  decidedBy?: string;
+}
+
+// What an amendment changed against the revision before it
+export interface RevisionDiff {
+  amount?: { from: number | null; to: number | null };
+  deadline?: { from: string; to: string };
+  parts?: {
+    added: string[];
+    removed: string[];
+    changed: { name: string; quantity: { from: number; to: number } }[];
+  };
+}
+
+export interface PurchaseOrderRevision {
+  revision: string;
+  reason: string;
+  changes: RevisionDiff;
+  createdAt: string;
+  createdBy?: string;
 }
 
 export interface Project {
@@ -59,6 +185,13 @@ export interface Project {
   endDate: string;
   projectManager?: string;
   description?: string;
+  budget?: number;
+  budgetCategories?: BudgetCategory[];
+}
+
+export interface BudgetCategory {
+  name: string;
+  amount: number;
 }
 
 export interface ExternalLink {
@@ -99,36 +232,85 @@ interface DataContextType {
   shipments: Shipment[];
   loading: boolean;
   error: any;
+  // The records above are loaded the first time a component reads them
+  // through useData(). Pages on the query hooks fetch their own instead.
+  datasetReady: boolean;
+  requireDataset: () => void;
   
   // Added these missing properties for AdminDashboard.tsx and AdminSettings.tsx
-  generateDummyData: () => void;
+  generateDummyData: (preset?: ScenarioPreset) => void;
   syncWithSupabase: () => Promise<void>;
   loadFromSupabase: () => Promise<{ success: boolean }>;
   isLoading: boolean;
   clearAllData: () => Promise<void>;
   
+  // Offline mode: cached data is shown and writes are queued until Supabase is reachable
+  isOffline: boolean;
+  staleSince: string | null;
+  queuedWrites: QueuedWrite[];
+  syncOfflineChanges: () => Promise<void>;
+  resolveQueuedWrite: (id: number, resolution: "overwrite" | "discard") => Promise<void>;
+  
   addProject: (project: Omit<Project, "id">) => Promise<void>;
   updateProject: (id: string, project: Partial<Project>) => Promise<void>;
-  deleteProject: (id: string) => Promise<void>;
+  deleteProject: (id: string, resolution?: DependentResolution) => Promise<void>;
   
   addSupplier: (supplier: Omit<Supplier, "id">) => Promise<void>;
   updateSupplier: (id: string, supplier: Partial<Supplier>) => Promise<void>;
-  deleteSupplier: (id: string) => Promise<void>;
+  deleteSupplier: (id: string, resolution?: DependentResolution) => Promise<void>;
   
   addClient: (client: Omit<Client, "id">) => Promise<void>;
   updateClient: (id: string, client: Partial<Client>) => Promise<void>;
-  deleteClient: (id: string) => Promise<void>;
+  deleteClient: (id: string, resolution?: DependentResolution) => Promise<void>;
   
   addPurchaseOrder: (po: Omit<PurchaseOrder, "id">) => Promise<void>;
   updatePurchaseOrder: (id: string, po: Partial<Omit<PurchaseOrder, "id">>) => Promise<void>;
+  amendPurchaseOrder: (id: string, amendment: Partial<Omit<PurchaseOrder, "id">>, reason: string) => Promise<void>;
+  submitPurchaseOrder: (id: string, comment?: string) => Promise<void>;
+  decidePurchaseOrder: (id: string, decision: "approved" | "rejected", comment?: string) => Promise<void>;
+  issuePurchaseOrder: (id: string) => Promise<void>;
   deletePurchaseOrder: (id: string) => Promise<void>;
   
   addExternalLink: (link: Omit<ExternalLink, "id">) => Promise<void>;
   updateExternalLink: (id: string, link: Partial<ExternalLink>) => Promise<void>;
   deleteExternalLink: (id: string) => Promise<void>;
+  
+  addShipment: (shipment: Omit<Shipment, "id">) => Promise<void>;
+  updateShipment: (id: string, shipment: Partial<Shipment>) => Promise<void>;
+  deleteShipment: (id: string) => Promise<void>;
 }
 
+// The write side of the context on its own. Its functions never change
+// identity, so components that only mutate don't re-render when data changes.
+type DataMutations = Pick<
+  DataContextType,
+  | "addProject" | "updateProject" | "deleteProject"
+  | "addSupplier" | "updateSupplier" | "deleteSupplier"
+  | "addClient" | "updateClient" | "deleteClient"
+  | "addPurchaseOrder" | "updatePurchaseOrder" | "amendPurchaseOrder" | "deletePurchaseOrder"
+  | "submitPurchaseOrder" | "decidePurchaseOrder" | "issuePurchaseOrder"
+  | "addExternalLink" | "updateExternalLink" | "deleteExternalLink"
+  | "addShipment" | "updateShipment" | "deleteShipment"
+>;
+
+// How long realtime events are collected before being applied together
+const REALTIME_BATCH_MS = 250;
+// How often local state is checked against Supabase for missed realtime events
+const CONSISTENCY_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// The query hook entity whose queries a realtime table's changes affect
+const REALTIME_ENTITIES: Record<RealtimeTable, QueryEntity> = {
+  clients: "clients",
+  suppliers: "suppliers",
+  projects: "projects",
+  purchase_orders: "purchaseOrders",
+  parts: "purchaseOrders",
+  external_links: "externalLinks",
+  shipments: "shipments",
+};
+
 const DataContext = createContext<DataContextType | null>(null);
+const DataMutationsContext = createContext<DataMutations | null>(null);
 
 export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [clients, setClients] = useState<Client[]>([]);
@@ -140,50 +322,128 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  // When the data on screen last matched Supabase; null until a real load succeeds
+  const [syncedAt, setSyncedAt] = useState<string | null>(null);
+  const [queuedWrites, setQueuedWrites] = useState<QueuedWrite[]>([]);
+  const [datasetReady, setDatasetReady] = useState(false);
+  // Set once a component reads the records, so reloads include them from then on
+  const datasetWanted = useRef(false);
+  // Mirrors datasetReady once it's on screen, for callbacks that outlive a render
+  const datasetLoaded = useRef(false);
+  const datasetWaiters = useRef<{ resolve: () => void; reject: (error: unknown) => void }[]>([]);
+  // True while the startup load runs, which loads the dataset itself if asked in time
+  const starting = useRef(true);
+  const rowVersions = useRef<RowVersions>({});
+  const realtimeReady = useRef(false);
+  // Whose records are on screen, so another user's are cleared before theirs load
+  const recordsOwner = useRef<string | undefined>();
+  const pendingChanges = useRef<RealtimeChange[]>([]);
+  const flushTimer = useRef<number>();
+  const consistencyTimer = useRef<number>();
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const role = user?.role;
+  const actor = user ? { id: user.id, email: user.email } : null;
   
-  // Load all data on initial render and setup real-time subscriptions
+  // Load the signed-in user's data and setup real-time subscriptions. What
+  // there is to load depends on who that is, so it starts over when they change.
   useEffect(() => {
+    if (authLoading) return;
+    
+    if (recordsOwner.current !== user?.id) {
+      if (recordsOwner.current) {
+        clearRecords();
+        queryClient.resetQueries();
+      }
+      recordsOwner.current = user?.id;
+    }
+    
     const loadData = async () => {
       setLoading(true);
+      setDatasetReady(false);
+      starting.current = true;
       try {
-        // Load data from Supabase
-        await loadDataFromSupabase();
+        if (!navigator.onLine) throw new Error("The browser is offline");
         
-        // Setup real-time subscription for tables
-        setupRealtimeSubscriptions();
+        // Replay anything queued in an earlier offline session, then load from Supabase
+        await syncOfflineChanges();
       } catch (err) {
         console.error("Error loading data:", err);
         setError(err);
         
-        // Fallback to dummy data if Supabase fails
-        const dummyData = createDummyData();
-        setClients(dummyData.clients);
-        setSuppliers(dummyData.suppliers);
-        setProjects(dummyData.projects);
-        setPurchaseOrders(dummyData.purchaseOrders);
-        setExternalLinks(dummyData.externalLinks);
-        // Try to sync dummy data with Supabase
-        try {
-          await syncDummyToSupabase(dummyData);
-        } catch (syncErr) {
-          console.error("Failed to sync dummy data with Supabase:", syncErr);
+        // Show the last good dataset if this user has one
+        const snapshot = user ? await loadSnapshot(user.id).catch(() => null) : null;
+        if (snapshot) {
+          applySnapshot(snapshot);
+          setIsOffline(true);
+          setQueuedWrites(await listQueuedWrites().catch(() => []));
+          return;
         }
+        // Otherwise the error is shown (DataLoadGate) rather than any stand-in data
+        rejectDatasetWaiters(err);
       } finally {
+        starting.current = false;
         setLoading(false);
       }
     };
     
     loadData();
     
+    const handleOnline = () => {
+      syncOfflineChanges().catch(err => console.error("Error syncing offline changes:", err));
+    };
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    
     return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      
       // Cleanup subscriptions
       const subscription = supabase.getChannels()[0];
       if (subscription) {
         supabase.removeChannel(subscription);
       }
+      realtimeReady.current = false;
+      window.clearTimeout(flushTimer.current);
+      window.clearInterval(consistencyTimer.current);
     };
-  }, []);
+  }, [authLoading, user?.id, role]);
 
+  // Writes waiting for the dataset go ahead once it's on screen
+  useEffect(() => {
+    datasetLoaded.current = datasetReady;
+    if (!datasetReady) return;
+    
+    datasetWaiters.current.forEach(waiter => waiter.resolve());
+    datasetWaiters.current = [];
+  }, [datasetReady]);
+  
+  // Keep the cached copy in step with what's on screen, including offline edits.
+  // The pages' queries for whatever changed are refetched after it's saved,
+  // since offline they are answered from it.
+  const savedData = useRef<Record<QueryEntity, unknown[]>>();
+  useEffect(() => {
+    const userId = user?.id;
+    if (loading || !syncedAt || !userId) return;
+    
+    const current = { clients, suppliers, projects, purchaseOrders, externalLinks, shipments };
+    const previous = savedData.current;
+    savedData.current = current;
+    
+    saveSnapshot(userId, { ...current, versions: rowVersions.current, syncedAt })
+      .catch(err => console.error("Error caching data offline:", err))
+      .finally(() => {
+        if (!previous) return;
+        (Object.keys(current) as QueryEntity[])
+          .filter(entity => current[entity] !== previous[entity])
+          .forEach(entity => queryClient.invalidateQueries({ queryKey: queryKeys[entity].all }));
+      });
+  }, [loading, syncedAt, user?.id, clients, suppliers, projects, purchaseOrders, externalLinks, shipments, queryClient]);
+  
   // Update project progress based on POs
   useEffect(() => {
     const updateProjectsProgress = async () => {
@@ -199,37 +459,23 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         posByProject[po.projectId].push(po);
       });
       
-      // Deduplicate POs by PO number for each project (count them as 1)
-      const deduplicatedPosByProject: Record<string, { [poNumber: string]: PurchaseOrder }> = {};
-      
-      Object.keys(posByProject).forEach(projectId => {
-        deduplicatedPosByProject[projectId] = {};
-        
-        posByProject[projectId].forEach(po => {
-          // Only keep the most recent PO for each PO number (based on max progress)
-          const existingPo = deduplicatedPosByProject[projectId][po.poNumber];
-          
-          if (!existingPo || (po.progress || 0) > (existingPo.progress || 0)) {
-            deduplicatedPosByProject[projectId][po.poNumber] = po;
-          }
-        });
-      });
-      
-      // Calculate average progress for each project
+      // Calculate average progress for each project. Each PO number has a
+      // single live row, its current revision, so every PO counts once.
       for (const project of projects) {
-        const uniquePOs = deduplicatedPosByProject[project.id];
-        if (!uniquePOs) continue;
-        
-        const uniquePOsList = Object.values(uniquePOs);
-        if (uniquePOsList.length === 0) continue;
+        const projectPOs = posByProject[project.id];
+        if (!projectPOs || projectPOs.length === 0) continue;
         
-        const totalProgress = uniquePOsList.reduce((sum, po) => sum + (po.progress || 0), 0);
-        const newProgress = Math.round(totalProgress / uniquePOsList.length);
+        const totalProgress = projectPOs.reduce((sum, po) => sum + (po.progress || 0), 0);
+        const newProgress = Math.round(totalProgress / projectPOs.length);
         
         // Only update if progress has changed
         if (newProgress !== project.progress) {
           try {
-            await updateSupabaseProject(project.id, { progress: newProgress });
+            // Read-only visitors still see the rollup, but only writers persist it.
+            // Offline it is recomputed after the reload that follows reconnecting.
+            if (can(role, "update", "project") && !isOffline) {
+              await updateSupabaseProject(project.id, { progress: newProgress });
+            }
             setProjects(prev => 
               prev.map(p => p.id === project.id ? { ...p, progress: newProgress } : p)
             );
@@ -241,155 +487,267 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
     
     updateProjectsProgress();
-  }, [purchaseOrders, projects]);
+  }, [purchaseOrders, projects, role, isOffline]);
+  
+  // Remember each row's updated_at so offline edits can be checked for conflicts on replay.
+  // Rows are a full table, so versions for rows no longer in it are dropped.
+  const rememberVersions = (table: OfflineTable, rows: { id: string; updated_at: string | null }[]) => {
+    const prefix = `${table}:`;
+    Object.keys(rowVersions.current)
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => delete rowVersions.current[key]);
+    
+    rows.forEach(row => {
+      rowVersions.current[rowVersionKey(table, row.id)] = row.updated_at;
+    });
+  };
+  
+  const applySnapshot = (snapshot: OfflineSnapshot) => {
+    rowVersions.current = snapshot.versions;
+    setClients(snapshot.clients);
+    setSuppliers(snapshot.suppliers);
+    setProjects(snapshot.projects);
+    setPurchaseOrders(snapshot.purchaseOrders);
+    setExternalLinks(snapshot.externalLinks);
+    setShipments(snapshot.shipments);
+    setSyncedAt(snapshot.syncedAt);
+    setDatasetReady(true);
+  };
   
+  const clearRecords = () => {
+    rowVersions.current = {};
+    setClients([]);
+    setSuppliers([]);
+    setProjects([]);
+    setPurchaseOrders([]);
+    setExternalLinks([]);
+    setShipments([]);
+    setSyncedAt(null);
+    savedData.current = undefined;
+  };
+  
+  const rejectDatasetWaiters = (error: unknown) => {
+    datasetWaiters.current.forEach(waiter => waiter.reject(error));
+    datasetWaiters.current = [];
+  };
+  
+  // Loads the records the first time a component reads them. During startup
+  // marking them wanted is enough, as syncOfflineChanges loads them then.
+  // Offline they come from the copy kept for this user.
+  const loadDataset = () => {
+    if (datasetWanted.current) return;
+    datasetWanted.current = true;
+    if (starting.current || datasetLoaded.current) return;
+    
+    setLoading(true);
+    (isOffline ? loadOfflineRecords() : loadDataFromSupabase())
+      .catch(err => {
+        console.error("Error loading data:", err);
+        setError(err);
+        rejectDatasetWaiters(err);
+      })
+      .finally(() => setLoading(false));
+  };
+  
+  const loadOfflineRecords = async () => {
+    const snapshot = user ? await loadSnapshot(user.id) : null;
+    if (!snapshot) throw new Error("No data has been kept for offline use yet");
+    applySnapshot(snapshot);
+  };
+  
+  // Demo data is laid out around today, so its deadlines stay current
+  const createDemoData = (preset: ScenarioPreset) =>
+    createScenario(preset, { referenceDate: format(new Date(), "yyyy-MM-dd") });
+  
+  const applyDemoData = (data: Fixtures) => {
+    setClients(data.clients);
+    setSuppliers(data.suppliers);
+    setProjects(data.projects);
+    setPurchaseOrders(data.purchaseOrders);
+    setExternalLinks(data.externalLinks);
+    setShipments(data.shipments);
+  };
+  
+  // Offline, a mutation queues its database operations instead of sending them.
+  // The audit triggers record it once it is replayed.
+  const queueOfflineWrite = async (label: string, operations: QueuedOperation[]) => {
+    const write = await enqueueWrite({
+      label,
+      operations: operations.map(operation => {
+        if (operation.action === "insert") return operation;
+        
+        const key = rowVersionKey(operation.table, operation.rowId);
+        const baseUpdatedAt = rowVersions.current[key];
+        // Later offline edits to the same row ride on this one's conflict check
+        delete rowVersions.current[key];
+        return { ...operation, baseUpdatedAt };
+      }),
+      queuedAt: new Date().toISOString(),
+    });
+    
+    setQueuedWrites(prev => [...prev, write]);
+  };
+  
+  // Replay queued writes, then reload everything from Supabase. Throws (and
+  // leaves us offline) if Supabase still can't be reached.
+  const syncOfflineChanges = async () => {
+    const pending = await listQueuedWrites().catch(() => [] as QueuedWrite[]);
+    const result = await replayQueuedWrites(pending);
+    setQueuedWrites(await listQueuedWrites().catch(() => [] as QueuedWrite[]));
+    
+    if (result.interrupted) {
+      throw new Error("Connection lost while replaying offline changes");
+    }
+    
+    // The records are only reloaded once something reads them. The pages' own
+    // queries are refetched after a reconnect, or at startup if replayed
+    // writes changed what they fetched.
+    if (datasetWanted.current) {
+      await loadDataFromSupabase();
+    }
+    if (result.applied > 0 || !starting.current) {
+      queryClient.invalidateQueries();
+    }
+    setupRealtimeSubscriptions();
+    setIsOffline(false);
+    setError(null);
+    
+    if (result.applied > 0) {
+      toast({
+        title: "Offline changes synced",
+        description: `${result.applied} queued change${result.applied === 1 ? "" : "s"} saved`,
+      });
+    }
+    if (result.conflicts > 0) {
+      toast({
+        title: "Some offline changes conflict",
+        description: "Review them from the offline indicator in the header",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const resolveQueuedWrite = async (id: number, resolution: "overwrite" | "discard") => {
+    const write = queuedWrites.find(item => item.id === id);
+    if (!write) return;
+    
+    try {
+      if (resolution === "overwrite") {
+        await applyQueuedWrite(write, true);
+      } else {
+        await removeQueuedWrite(id);
+      }
+      
+      setQueuedWrites(await listQueuedWrites());
+      // Writes held back behind this one can go through now
+      if (!isOffline) {
+        await syncOfflineChanges();
+      }
+    } catch (error) {
+      console.error("Error resolving queued write:", error);
+      throw error;
+    }
+  };
+  
+  // Deleted rows stay in their tables (with deleted_at set) until they're
+  // purged from the trash, so every read here skips them
   const loadDataFromSupabase = async () => {
     try {
+      // Portal users can't read the tables and get their own slice in one call
+      if (isPortalRole(role)) {
+        const rows = await fetchPortalData(role);
+        setClients(rows.clients.map(mapClientFromDb));
+        setSuppliers(rows.suppliers.map(mapSupplierFromDb));
+        setProjects(rows.projects.map(mapProjectFromDb));
+        setPurchaseOrders(mapPurchaseOrdersFromDb(rows.purchase_orders, rows.parts));
+        setExternalLinks(rows.external_links.map(mapExternalLinkFromDb));
+        setShipments(rows.shipments.map(mapShipmentFromDb));
+        setSyncedAt(new Date().toISOString());
+        setDatasetReady(true);
+        return;
+      }
+      
       // Load clients
       const { data: clientsData, error: clientsError } = await supabase
         .from('clients')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (clientsError) throw clientsError;
       
-      setClients(clientsData.map(client => ({
-        id: client.id,
-        name: client.name,
-        contactPerson: client.contact_person,
-        email: client.email,
-        phone: client.phone,
-        location: client.location,
-      })));
+      rememberVersions('clients', clientsData);
+      setClients(clientsData.map(mapClientFromDb));
       
       // Load suppliers
       const { data: suppliersData, error: suppliersError } = await supabase
         .from('suppliers')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (suppliersError) throw suppliersError;
       
-      setSuppliers(suppliersData.map(supplier => ({
-        id: supplier.id,
-        name: supplier.name,
-        contactPerson: supplier.contact_person,
-        email: supplier.email,
-        phone: supplier.phone,
-        country: supplier.country,
-        location: supplier.location,
-        rating: supplier.rating,
-        onTimeDelivery: supplier.on_time_delivery,
-        positiveComments: supplier.positive_comments,
-        negativeComments: supplier.negative_comments,
-      })));
+      rememberVersions('suppliers', suppliersData);
+      setSuppliers(suppliersData.map(mapSupplierFromDb));
       
       // Load projects
       const { data: projectsData, error: projectsError } = await supabase
         .from('projects')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (projectsError) throw projectsError;
       
-      setProjects(projectsData.map(project => ({
-        id: project.id,
-        name: project.name,
-        clientId: project.client_id,
-        location: project.location || '',
-        status: project.status || 'Pending',
-        progress: project.progress || 0,
-        startDate: project.start_date,
-        endDate: project.end_date,
-        projectManager: project.project_manager,
-        description: project.description,
-      })));
+      rememberVersions('projects', projectsData);
+      setProjects(projectsData.map(mapProjectFromDb));
       
       // Load purchase orders
       const { data: poData, error: poError } = await supabase
         .from('purchase_orders')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (poError) throw poError;
       
       // Load parts for each purchase order
       const { data: partsData, error: partsError } = await supabase
         .from('parts')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (partsError) throw partsError;
       
-      const poWithParts = poData.map(po => {
-        // Make sure to map parts properly with the progress field
-        const poParts = partsData
-          .filter(part => part.po_id === po.id)
-          .map(part => ({
-            id: part.id,
-            name: part.name,
-            quantity: part.quantity,
-            status: part.status || 'Pending',
-            progress: part.progress || 0, // Make sure to map progress correctly
-          }));
-          
-        return {
-          id: po.id,
-          poNumber: po.po_number,
-          projectId: po.project_id,
-          supplierId: po.supplier_id,
-          status: po.status || 'Active',
-          issuedDate: po.issued_date,
-          deadline: po.deadline,
-          progress: po.progress || 0,
-          amount: po.amount,
-          description: po.description,
-          parts: poParts,
-        };
-      });
+      rememberVersions('purchase_orders', poData);
+      rememberVersions('parts', partsData);
       
-      setPurchaseOrders(poWithParts);
+      setPurchaseOrders(mapPurchaseOrdersFromDb(poData, partsData));
       
       // Load external links
       const { data: linksData, error: linksError } = await supabase
         .from('external_links')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (linksError) throw linksError;
       
-      setExternalLinks(linksData.map(link => ({
-        id: link.id,
-        title: link.title,
-        url: link.url,
-        type: link.type,
-        date: link.date,
-        supplierId: link.supplier_id,
-        projectId: link.project_id,
-        poId: link.po_id,
-      })));
+      rememberVersions('external_links', linksData);
+      setExternalLinks(linksData.map(mapExternalLinkFromDb));
       
       // Load shipments
       const { data: shipmentsData, error: shipmentsError } = await supabase
         .from('shipments')
-        .select('*');
+        .select('*')
+        .is('deleted_at', null);
         
       if (shipmentsError) throw shipmentsError;
       
+      rememberVersions('shipments', shipmentsData);
+      
       // Map database fields to our shipment interface
-      const mappedShipments = shipmentsData.map(shipment => ({
-        id: shipment.id,
-        type: shipment.type,
-        projectId: shipment.project_id,
-        supplierId: shipment.supplier_id,
-        poId: shipment.po_id,
-        partId: shipment.part_id,
-        shippedDate: shipment.shipped_date,
-        etdDate: shipment.etd_date,
-        etaDate: shipment.eta_date,
-        trackingNumber: shipment.tracking_number,
-        containerNumber: shipment.container_number,
-        containerSize: shipment.container_size,
-        containerType: shipment.container_type,
-        status: shipment.status,
-        notes: shipment.notes,
-      }));
+      const mappedShipments = shipmentsData.map(mapShipmentFromDb);
       
       setShipments(mappedShipments);
+      setSyncedAt(new Date().toISOString());
+      setDatasetReady(true);
       
     } catch (err) {
       console.error("Error in loadDataFromSupabase:", err);
@@ -397,124 +755,235 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
+  // Portal users aren't sent changes to tables they can't read, so their
+  // data only refreshes when it is loaded again
   const setupRealtimeSubscriptions = () => {
-    const channel = supabase
+    if (realtimeReady.current || isPortalRole(role)) return;
+    realtimeReady.current = true;
+    
+    // Set after the channel drops, so rejoining checks for events we missed
+    let interrupted = false;
+    
+    const onChange = <T extends RealtimeTable>(table: T) =>
+      (payload: RealtimeChange<T>["payload"]) => queueRealtimeChange({ table, payload } as RealtimeChange);
+    
+    supabase
       .channel('db-changes')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'clients' }, reloadClients)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'suppliers' }, reloadSuppliers)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, reloadProjects)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_orders' }, reloadPurchaseOrders)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'parts' }, reloadPurchaseOrders)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'external_links' }, reloadExternalLinks)
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'shipments' }, reloadShipments)
-      .subscribe();
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'clients' }, onChange('clients'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'suppliers' }, onChange('suppliers'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, onChange('projects'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'purchase_orders' }, onChange('purchase_orders'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'parts' }, onChange('parts'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'external_links' }, onChange('external_links'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'shipments' }, onChange('shipments'))
+      .subscribe(status => {
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          interrupted = true;
+        } else if (status === 'SUBSCRIBED' && interrupted) {
+          interrupted = false;
+          checkRealtimeConsistency();
+        }
+      });
+    
+    consistencyTimer.current = window.setInterval(checkRealtimeConsistency, CONSISTENCY_CHECK_INTERVAL_MS);
   };
   
-  // Reload functions for real-time updates
+  // Bursts of events (a PO import, a bulk progress update) are applied together
+  // once the window closes, so the UI re-renders once per table per burst
+  const queueRealtimeChange = (change: RealtimeChange) => {
+    pendingChanges.current.push(change);
+    
+    if (flushTimer.current === undefined) {
+      flushTimer.current = window.setTimeout(flushRealtimeChanges, REALTIME_BATCH_MS);
+    }
+  };
+  
+  const flushRealtimeChanges = () => {
+    flushTimer.current = undefined;
+    const changes = pendingChanges.current;
+    pendingChanges.current = [];
+    
+    // Until a component has the records loaded there's nothing here to patch,
+    // so only the pages' queries are refetched. After that they follow the
+    // patched records (see the offline copy above).
+    if (!datasetLoaded.current) {
+      new Set(changes.map(change => REALTIME_ENTITIES[change.table]))
+        .forEach(entity => queryClient.invalidateQueries({ queryKey: queryKeys[entity].all }));
+      return;
+    }
+    
+    changes.forEach(change => applyVersionChange(rowVersions.current, change));
+    
+    const payloadsFor = <T extends RealtimeTable>(table: T) =>
+      changes
+        .filter(change => change.table === table)
+        .map(change => change.payload) as RealtimeChange<T>["payload"][];
+    
+    // Patches that can't be applied leave the state as it was and reload the table
+    const patch = <T,>(table: RealtimeTable, items: T[], apply: (items: T[]) => T[]) => {
+      try {
+        return apply(items);
+      } catch (error) {
+        if (isMappingError(error)) {
+          // A row that fails validation is left out rather than breaking the render
+          console.error(`Skipping realtime changes to ${table}:`, error.message);
+          return items;
+        }
+        if (!(error instanceof StaleRealtimeStateError)) throw error;
+        console.warn(`Reloading ${table} after a realtime patch failed:`, error.message);
+        reloadStaleTables([table]);
+        return items;
+      }
+    };
+    
+    const clientChanges = payloadsFor('clients');
+    if (clientChanges.length > 0) {
+      setClients(prev => patch('clients', prev, items =>
+        clientChanges.reduce((acc, payload) => applyRowChange(acc, payload, mapClientFromDb), items)
+      ));
+    }
+    
+    const supplierChanges = payloadsFor('suppliers');
+    if (supplierChanges.length > 0) {
+      setSuppliers(prev => patch('suppliers', prev, items =>
+        supplierChanges.reduce((acc, payload) => applyRowChange(acc, payload, mapSupplierFromDb), items)
+      ));
+    }
+    
+    const projectChanges = payloadsFor('projects');
+    if (projectChanges.length > 0) {
+      setProjects(prev => patch('projects', prev, items =>
+        projectChanges.reduce((acc, payload) => applyRowChange(acc, payload, mapProjectFromDb), items)
+      ));
+    }
+    
+    // POs and parts are applied in arrival order, so a new PO lands before its parts
+    const poChanges = changes.filter(
+      (change): change is RealtimeChange<'purchase_orders' | 'parts'> =>
+        change.table === 'purchase_orders' || change.table === 'parts'
+    );
+    if (poChanges.length > 0) {
+      setPurchaseOrders(prev => patch('purchase_orders', prev, items =>
+        poChanges.reduce(
+          (acc, change) => change.table === 'parts'
+            ? applyPartChange(acc, change.payload)
+            : applyPurchaseOrderChange(acc, change.payload),
+          items
+        )
+      ));
+    }
+    
+    const linkChanges = payloadsFor('external_links');
+    if (linkChanges.length > 0) {
+      setExternalLinks(prev => patch('external_links', prev, items =>
+        linkChanges.reduce((acc, payload) => applyRowChange(acc, payload, mapExternalLinkFromDb), items)
+      ));
+    }
+    
+    const shipmentChanges = payloadsFor('shipments');
+    if (shipmentChanges.length > 0) {
+      setShipments(prev => patch('shipments', prev, items =>
+        shipmentChanges.reduce((acc, payload) => applyRowChange(acc, payload, mapShipmentFromDb), items)
+      ));
+    }
+  };
+  
+  const reloadStaleTables = (tables: RealtimeTable[]) => {
+    const reloads: Record<RealtimeTable, () => Promise<void>> = {
+      clients: reloadClients,
+      suppliers: reloadSuppliers,
+      projects: reloadProjects,
+      purchase_orders: reloadPurchaseOrders,
+      parts: reloadPurchaseOrders,
+      external_links: reloadExternalLinks,
+      shipments: reloadShipments,
+    };
+    
+    // POs and parts share a reload, so don't run it twice
+    new Set(tables.map(table => reloads[table])).forEach(reload => reload());
+  };
+  
+  // Realtime can drop events (reconnects, backgrounded tabs), so now and then
+  // compare row versions with Supabase and reload any table that drifted
+  const checkRealtimeConsistency = async () => {
+    // Pending patches or queued offline writes would read as drift
+    if (pendingChanges.current.length > 0 || !navigator.onLine) return;
+    
+    // Without the records there are no versions to compare, so the pages'
+    // queries are refetched instead
+    if (!datasetLoaded.current) {
+      queryClient.invalidateQueries();
+      return;
+    }
+    
+    try {
+      const queued = await listQueuedWrites().catch(() => [] as QueuedWrite[]);
+      if (queued.length > 0) return;
+      
+      const stale = await findStaleTables(REALTIME_TABLES, rowVersions.current);
+      if (stale.length > 0) {
+        console.warn("Realtime state drifted, reloading:", stale.join(", "));
+        reloadStaleTables(stale);
+      }
+    } catch (error) {
+      console.error("Error checking realtime consistency:", error);
+    }
+  };
+  
+  // Full-table reloads, for when realtime patches fall out of step
   
   const reloadClients = async () => {
-    const { data, error } = await supabase.from('clients').select('*');
+    const { data, error } = await supabase.from('clients').select('*').is('deleted_at', null);
     if (error) {
       console.error("Error reloading clients:", error);
       return;
     }
     
     if (data) {
-      setClients(data.map(client => ({
-        id: client.id,
-        name: client.name,
-        contactPerson: client.contact_person,
-        email: client.email,
-        phone: client.phone,
-        location: client.location,
-      })));
+      rememberVersions('clients', data);
+      setClients(data.map(mapClientFromDb));
     }
   };
   
   const reloadSuppliers = async () => {
-    const { data, error } = await supabase.from('suppliers').select('*');
+    const { data, error } = await supabase.from('suppliers').select('*').is('deleted_at', null);
     if (error) {
       console.error("Error reloading suppliers:", error);
       return;
     }
     
     if (data) {
-      setSuppliers(data.map(supplier => ({
-        id: supplier.id,
-        name: supplier.name,
-        contactPerson: supplier.contact_person,
-        email: supplier.email,
-        phone: supplier.phone,
-        country: supplier.country,
-        location: supplier.location,
-        rating: supplier.rating,
-        onTimeDelivery: supplier.on_time_delivery,
-        positiveComments: supplier.positive_comments,
-        negativeComments: supplier.negative_comments,
-      })));
+      rememberVersions('suppliers', data);
+      setSuppliers(data.map(mapSupplierFromDb));
     }
   };
   
   const reloadProjects = async () => {
-    const { data, error } = await supabase.from('projects').select('*');
+    const { data, error } = await supabase.from('projects').select('*').is('deleted_at', null);
     if (error) {
       console.error("Error reloading projects:", error);
       return;
     }
     
     if (data) {
-      setProjects(data.map(project => ({
-        id: project.id,
-        name: project.name,
-        clientId: project.client_id,
-        location: project.location || '',
-        status: project.status || 'Pending',
-        progress: project.progress || 0,
-        startDate: project.start_date,
-        endDate: project.end_date,
-        projectManager: project.project_manager,
-        description: project.description,
-      })));
+      rememberVersions('projects', data);
+      setProjects(data.map(mapProjectFromDb));
     }
   };
   
   const reloadPurchaseOrders = async () => {
     try {
-      const { data: poData, error: poError } = await supabase.from('purchase_orders').select('*');
+      const { data: poData, error: poError } = await supabase.from('purchase_orders').select('*').is('deleted_at', null);
       if (poError) throw poError;
       
-      const { data: partsData, error: partsError } = await supabase.from('parts').select('*');
+      const { data: partsData, error: partsError } = await supabase.from('parts').select('*').is('deleted_at', null);
       if (partsError) throw partsError;
       
       if (poData && partsData) {
-        const poWithParts = poData.map(po => {
-          // Make sure parts have the progress field here too
-          const poParts = partsData
-            .filter(part => part.po_id === po.id)
-            .map(part => ({
-              id: part.id,
-              name: part.name,
-              quantity: part.quantity,
-              status: part.status || 'Pending',
-              progress: part.progress || 0, // Make sure progress is mapped
-            }));
-            
-          return {
-            id: po.id,
-            poNumber: po.po_number,
-            projectId: po.project_id,
-            supplierId: po.supplier_id,
-            status: po.status || 'Active',
-            issuedDate: po.issued_date,
-            deadline: po.deadline,
-            progress: po.progress || 0,
-            amount: po.amount,
-            description: po.description,
-            parts: poParts,
-          };
-        });
+        rememberVersions('purchase_orders', poData);
+        rememberVersions('parts', partsData);
         
-        setPurchaseOrders(poWithParts);
+        setPurchaseOrders(mapPurchaseOrdersFromDb(poData, partsData));
       }
     } catch (error) {
       console.error("Error reloading purchase orders:", error);
@@ -522,67 +991,41 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const reloadExternalLinks = async () => {
-    const { data, error } = await supabase.from('external_links').select('*');
+    const { data, error } = await supabase.from('external_links').select('*').is('deleted_at', null);
     if (error) {
       console.error("Error reloading external links:", error);
       return;
     }
     
     if (data) {
-      setExternalLinks(data.map(link => ({
-        id: link.id,
-        title: link.title,
-        url: link.url,
-        type: link.type,
-        date: link.date,
-        supplierId: link.supplier_id,
-        projectId: link.project_id,
-        poId: link.po_id,
-      })));
+      rememberVersions('external_links', data);
+      setExternalLinks(data.map(mapExternalLinkFromDb));
     }
   };
   
   const reloadShipments = async () => {
-    const { data, error } = await supabase.from('shipments').select('*');
+    const { data, error } = await supabase.from('shipments').select('*').is('deleted_at', null);
     if (error) {
       console.error("Error reloading shipments:", error);
       return;
     }
     
     if (data) {
-      const mappedShipments = data.map(shipment => ({
-        id: shipment.id,
-        type: shipment.type,
-        projectId: shipment.project_id,
-        supplierId: shipment.supplier_id,
-        poId: shipment.po_id,
-        partId: shipment.part_id,
-        shippedDate: shipment.shipped_date,
-        etdDate: shipment.etd_date,
-        etaDate: shipment.eta_date,
-        trackingNumber: shipment.tracking_number,
-        containerNumber: shipment.container_number,
-        containerSize: shipment.container_size,
-        containerType: shipment.container_type,
-        status: shipment.status,
-        notes: shipment.notes,
-      }));
+      rememberVersions('shipments', data);
+      const mappedShipments = data.map(mapShipmentFromDb);
       
       setShipments(mappedShipments);
     }
   };
   
   // Implement the functions for AdminDashboard.tsx and AdminSettings.tsx
-  const generateDummyData = () => {
-    const dummyData = createDummyData();
-    setClients(dummyData.clients);
-    setSuppliers(dummyData.suppliers);
-    setProjects(dummyData.projects);
-    setPurchaseOrders(dummyData.purchaseOrders);
-    setExternalLinks(dummyData.externalLinks);
+  const generateDummyData = (preset: ScenarioPreset = "healthy") => {
+    assertCan(role, "create", "workspace");
+    applyDemoData(createDemoData(preset));
   };
 
   const syncWithSupabase = async () => {
+    assertCan(role, "create", "workspace");
     setIsLoading(true);
     try {
       const data = {
@@ -590,7 +1033,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         suppliers,
         projects,
         purchaseOrders,
-        externalLinks
+        externalLinks,
+        shipments,
       };
       await syncDummyToSupabase(data);
     } catch (error) {
@@ -604,7 +1048,10 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const loadFromSupabase = async () => {
     setIsLoading(true);
     try {
-      await loadDataFromSupabase();
+      if (datasetWanted.current) {
+        await loadDataFromSupabase();
+      }
+      await queryClient.invalidateQueries();
       return { success: true };
     } catch (error) {
       console.error("Error loading from Supabase:", error);
@@ -614,15 +1061,20 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Deletes every record on the server for good. Callers take a snapshot first.
   const clearAllData = async () => {
+    assertCan(role, "delete", "workspace");
+    if (isOffline) throw new Error("Data can't be cleared while offline");
     setIsLoading(true);
     try {
+      await clearWorkspace();
       setClients([]);
       setSuppliers([]);
       setProjects([]);
       setPurchaseOrders([]);
       setExternalLinks([]);
       setShipments([]);
+      await queryClient.invalidateQueries();
     } catch (error) {
       console.error("Error clearing data:", error);
       throw error;
@@ -631,39 +1083,93 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
   
-  // Data modification functions
+  // Data modification functions. Online they fetch only the rows they check,
+  // so a write doesn't load the records; offline they wait for the cached copy
+  // (see the mutations below).
+  
+  // The record a write is about: the copy on screen once the records are
+  // loaded, otherwise that one row from the server
+  const recordFor = async <T extends { id: string }>(
+    loaded: T[],
+    id: string,
+    fetchOne: (id: string) => Promise<T | null>
+  ) => datasetLoaded.current ? loaded.find(item => item.id === id) : (await fetchOne(id)) ?? undefined;
+  
+  // Writes patch the records on screen. Until they're loaded there is nothing
+  // to patch, and the mutation hooks refetch the pages' queries instead.
+  const patchWhenLoaded = <T,>(set: React.Dispatch<React.SetStateAction<T>>) =>
+    (update: React.SetStateAction<T>) => {
+      if (datasetLoaded.current) set(update);
+    };
+  const patchClients = patchWhenLoaded(setClients);
+  const patchSuppliers = patchWhenLoaded(setSuppliers);
+  const patchProjects = patchWhenLoaded(setProjects);
+  const patchPurchaseOrders = patchWhenLoaded(setPurchaseOrders);
+  const patchExternalLinks = patchWhenLoaded(setExternalLinks);
+  const patchShipments = patchWhenLoaded(setShipments);
+  
+  // Re-reads one PO and its parts after a write the server adds to (the
+  // approval functions, the reopen trigger), rather than every PO
+  const reloadPurchaseOrder = async (id: string) => {
+    if (!datasetLoaded.current) return;
+    
+    try {
+      const { data, error } = await supabase
+        .from('purchase_orders')
+        .select('*, parts(*)')
+        .eq('id', id)
+        .is('deleted_at', null)
+        .is('parts.deleted_at', null)
+        .maybeSingle();
+      if (error) throw error;
+      
+      const previous = purchaseOrders.find(po => po.id === id);
+      previous?.parts.forEach(part => delete rowVersions.current[rowVersionKey('parts', part.id)]);
+      
+      if (!data) {
+        delete rowVersions.current[rowVersionKey('purchase_orders', id)];
+        setPurchaseOrders(prev => prev.filter(po => po.id !== id));
+        return;
+      }
+      
+      rowVersions.current[rowVersionKey('purchase_orders', id)] = data.updated_at;
+      data.parts.forEach(part => {
+        rowVersions.current[rowVersionKey('parts', part.id)] = part.updated_at;
+      });
+      const reloaded = mapPurchaseOrderFromDb(data, data.parts);
+      setPurchaseOrders(prev =>
+        prev.some(po => po.id === id) ? prev.map(po => po.id === id ? reloaded : po) : [...prev, reloaded]
+      );
+    } catch (error) {
+      console.error("Error reloading purchase order:", error);
+    }
+  };
+  
   
   const addProject = async (project: Omit<Project, "id">) => {
+    assertCan(role, "create", "project");
+    
     try {
-      const { data, error } = await supabase.from('projects').insert([{
-        name: project.name,
-        client_id: project.clientId,
-        location: project.location,
-        status: project.status,
-        progress: project.progress,
-        start_date: project.startDate,
-        end_date: project.endDate,
-        project_manager: project.projectManager,
-        description: project.description,
-      }]).select();
+      const insertData = mapNewProjectToDb(project);
+      
+      if (isOffline) {
+        // Offline rows get their id up front so later edits can refer to them
+        const newProject = { ...project, id: crypto.randomUUID() };
+        await queueOfflineWrite(`Add project ${project.name}`, [
+          { table: 'projects', action: 'insert', rowId: newProject.id, values: { id: newProject.id, ...insertData } },
+        ]);
+        patchProjects(prev => [...prev, newProject]);
+        return;
+      }
+      
+      const { data, error } = await supabase.from('projects').insert([insertData]).select();
       
       if (error) throw error;
       
       if (data && data.length > 0) {
-        const newProject = {
-          id: data[0].id,
-          name: data[0].name,
-          clientId: data[0].client_id,
-          location: data[0].location || '',
-          status: data[0].status || 'Pending',
-          progress: data[0].progress || 0,
-          startDate: data[0].start_date,
-          endDate: data[0].end_date,
-          projectManager: data[0].project_manager,
-          description: data[0].description,
-        };
+        const newProject = mapProjectFromDb(data[0]);
         
-        setProjects(prev => [...prev, newProject]);
+        patchProjects(prev => [...prev, newProject]);
       }
     } catch (error) {
       console.error("Error adding project:", error);
@@ -672,39 +1178,93 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const updateProject = async (id: string, projectUpdate: Partial<Project>) => {
+    const before = await recordFor(projects, id, fetchProject);
+    assertCan(role, "update", "project", changedFields(before, projectUpdate));
+    
     try {
-      const updateData: any = {};
-      
-      if (projectUpdate.name !== undefined) updateData.name = projectUpdate.name;
-      if (projectUpdate.clientId !== undefined) updateData.client_id = projectUpdate.clientId;
-      if (projectUpdate.location !== undefined) updateData.location = projectUpdate.location;
-      if (projectUpdate.status !== undefined) updateData.status = projectUpdate.status;
-      if (projectUpdate.progress !== undefined) updateData.progress = projectUpdate.progress;
-      if (projectUpdate.startDate !== undefined) updateData.start_date = projectUpdate.startDate;
-      if (projectUpdate.endDate !== undefined) updateData.end_date = projectUpdate.endDate;
-      if (projectUpdate.projectManager !== undefined) updateData.project_manager = projectUpdate.projectManager;
-      if (projectUpdate.description !== undefined) updateData.description = projectUpdate.description;
-      
-      const { error } = await supabase.from('projects').update(updateData).eq('id', id);
-      
-      if (error) throw error;
+      const updateData = mapProjectToDb(projectUpdate);
+      
+      if (isOffline) {
+        await queueOfflineWrite(`Update project ${before?.name ?? id}`, [
+          { table: 'projects', action: 'update', rowId: id, values: updateData },
+        ]);
+      } else {
+        const { error } = await supabase.from('projects').update(updateData).eq('id', id);
+        
+        if (error) throw error;
+      }
       
       // Update local state
-      setProjects(prev => prev.map(p => p.id === id ? { ...p, ...projectUpdate } : p));
+      patchProjects(prev => prev.map(p => p.id === id ? { ...p, ...projectUpdate } : p));
     } catch (error) {
       console.error("Error updating project:", error);
       throw error;
     }
   };
   
-  const deleteProject = async (id: string) => {
+  // Moves a record to the trash, in one transaction when online. What depends
+  // on it either goes to the trash too or, when reassigning, is pointed at
+  // targetId first. Without the records loaded, only those dependents are fetched.
+  const trashWithDependents = async (
+    entity: TrashEntity,
+    id: string,
+    label: string,
+    resolution: DependentResolution = { mode: "archive" }
+  ) => {
+    const records = datasetLoaded.current
+      ? { projects, purchaseOrders, shipments, externalLinks }
+      : await fetchDependentRecords(entity, id);
+    const deletedAt = new Date().toISOString();
+    
+    let operations: QueuedOperation[];
+    if (resolution.mode === "reassign") {
+      if (resolution.targetId === id) {
+        throw new Error("Records can't be reassigned to the record being deleted");
+      }
+      const moved = directDependents(entity, id, records);
+      operations = [
+        ...reassignOperations(entity as ParentEntity, resolution.targetId, moved),
+        ...trashOperations(entity, id, deletedAt),
+      ];
+    } else {
+      operations = trashOperations(entity, id, deletedAt, archivedDependents(entity, id, records));
+    }
+    
+    if (isOffline) {
+      await queueOfflineWrite(label, operations);
+    } else {
+      await applyOperations(operations);
+    }
+    
+    // Update local state
+    const trashed = new Set(operations.filter(operation => operation.values?.deleted_at).map(operation => operation.rowId));
+    const keep = <T extends { id: string }>(items: T[]) => items.filter(item => !trashed.has(item.id));
+    const reassignTo = resolution.mode === "reassign"
+      ? { field: reassignField(entity as ParentEntity), targetId: resolution.targetId }
+      : null;
+    const update = <T extends { id: string }>(items: T[]) =>
+      keep(items).map(item =>
+        reassignTo && (item as Record<string, unknown>)[reassignTo.field] === id
+          ? { ...item, [reassignTo.field]: reassignTo.targetId }
+          : item
+      );
+    patchProjects(update);
+    patchPurchaseOrders(update);
+    patchShipments(update);
+    patchExternalLinks(update);
+  };
+  
+  const deleteProject = async (id: string, resolution?: DependentResolution) => {
+    assertCan(role, "delete", "project");
+    const before = await recordFor(projects, id, fetchProject);
+    
     try {
-      const { error } = await supabase.from('projects').delete().eq('id', id);
-      
-      if (error) throw error;
-      
-      // Update local state
-      setProjects(prev => prev.filter(p => p.id !== id));
+      await trashWithDependents(
+        "project",
+        id,
+        `Delete project ${before?.name ?? id}`,
+        resolution
+      );
     } catch (error) {
       console.error("Error deleting project:", error);
       throw error;
@@ -712,38 +1272,28 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const addSupplier = async (supplier: Omit<Supplier, "id">) => {
+    assertCan(role, "create", "supplier");
+    
     try {
-      const { data, error } = await supabase.from('suppliers').insert([{
-        name: supplier.name,
-        contact_person: supplier.contactPerson,
-        email: supplier.email,
-        phone: supplier.phone,
-        country: supplier.country,
-        location: supplier.location,
-        rating: supplier.rating,
-        on_time_delivery: supplier.onTimeDelivery,
-        positive_comments: supplier.positiveComments,
-        negative_comments: supplier.negativeComments,
-      }]).select();
+      const insertData = mapNewSupplierToDb(supplier);
+      
+      if (isOffline) {
+        const newSupplier = { ...supplier, id: crypto.randomUUID() };
+        await queueOfflineWrite(`Add supplier ${supplier.name}`, [
+          { table: 'suppliers', action: 'insert', rowId: newSupplier.id, values: { id: newSupplier.id, ...insertData } },
+        ]);
+        patchSuppliers(prev => [...prev, newSupplier]);
+        return;
+      }
+      
+      const { data, error } = await supabase.from('suppliers').insert([insertData]).select();
       
       if (error) throw error;
       
       if (data && data.length > 0) {
-        const newSupplier = {
-          id: data[0].id,
-          name: data[0].name,
-          contactPerson: data[0].contact_person,
-          email: data[0].email,
-          phone: data[0].phone,
-          country: data[0].country,
-          location: data[0].location,
-          rating: data[0].rating,
-          onTimeDelivery: data[0].on_time_delivery,
-          positiveComments: data[0].positive_comments,
-          negativeComments: data[0].negative_comments,
-        };
+        const newSupplier = mapSupplierFromDb(data[0]);
         
-        setSuppliers(prev => [...prev, newSupplier]);
+        patchSuppliers(prev => [...prev, newSupplier]);
       }
     } catch (error) {
       console.error("Error adding supplier:", error);
@@ -752,40 +1302,43 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const updateSupplier = async (id: string, supplierUpdate: Partial<Supplier>) => {
+    const before = await recordFor(suppliers, id, fetchSupplier);
+    assertCan(role, "update", "supplier", changedFields(before, supplierUpdate));
+    
     try {
-      const updateData: any = {};
-      
-      if (supplierUpdate.name !== undefined) updateData.name = supplierUpdate.name;
-      if (supplierUpdate.contactPerson !== undefined) updateData.contact_person = supplierUpdate.contactPerson;
-      if (supplierUpdate.email !== undefined) updateData.email = supplierUpdate.email;
-      if (supplierUpdate.phone !== undefined) updateData.phone = supplierUpdate.phone;
-      if (supplierUpdate.country !== undefined) updateData.country = supplierUpdate.country;
-      if (supplierUpdate.location !== undefined) updateData.location = supplierUpdate.location;
-      if (supplierUpdate.rating !== undefined) updateData.rating = supplierUpdate.rating;
-      if (supplierUpdate.onTimeDelivery !== undefined) updateData.on_time_delivery = supplierUpdate.onTimeDelivery;
-      if (supplierUpdate.positiveComments !== undefined) updateData.positive_comments = supplierUpdate.positiveComments;
-      if (supplierUpdate.negativeComments !== undefined) updateData.negative_comments = supplierUpdate.negativeComments;
-      
-      const { error } = await supabase.from('suppliers').update(updateData).eq('id', id);
-      
-      if (error) throw error;
+      const updateData = mapSupplierToDb(supplierUpdate);
+      
+      if (isOffline) {
+        await queueOfflineWrite(`Update supplier ${before?.name ?? id}`, [
+          { table: 'suppliers', action: 'update', rowId: id, values: updateData },
+        ]);
+      } else {
+        const { error } = await supabase.from('suppliers').update(updateData).eq('id', id);
+        
+        if (error) throw error;
+      }
       
       // Update local state
-      setSuppliers(prev => prev.map(s => s.id === id ? { ...s, ...supplierUpdate } : s));
+      patchSuppliers(prev => prev.map(s => s.id === id ? { ...s, ...supplierUpdate } : s));
     } catch (error) {
       console.error("Error updating supplier:", error);
       throw error;
     }
   };
   
-  const deleteSupplier = async (id: string) => {
+  const deleteSupplier = async (id: string, resolution?: DependentResolution) => {
+    assertCan(role, "delete", "supplier");
+    const before = await recordFor(suppliers, id, fetchSupplier);
+    
     try {
-      const { error } = await supabase.from('suppliers').delete().eq('id', id);
-      
-      if (error) throw error;
-      
-      // Update local state
-      setSuppliers(prev => prev.filter(s => s.id !== id));
+      await trashWithDependents(
+        "supplier",
+        id,
+        `Delete supplier ${before?.name ?? id}`,
+        resolution
+      );
+      
+      patchSuppliers(prev => prev.filter(s => s.id !== id));
     } catch (error) {
       console.error("Error deleting supplier:", error);
       throw error;
@@ -793,28 +1346,28 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const addClient = async (client: Omit<Client, "id">) => {
+    assertCan(role, "create", "client");
+    
     try {
-      const { data, error } = await supabase.from('clients').insert([{
-        name: client.name,
-        contact_person: client.contactPerson,
-        email: client.email,
-        phone: client.phone,
-        location: client.location,
-      }]).select();
+      const insertData = mapNewClientToDb(client);
+      
+      if (isOffline) {
+        const newClient = { ...client, id: crypto.randomUUID() };
+        await queueOfflineWrite(`Add client ${client.name}`, [
+          { table: 'clients', action: 'insert', rowId: newClient.id, values: { id: newClient.id, ...insertData } },
+        ]);
+        patchClients(prev => [...prev, newClient]);
+        return;
+      }
+      
+      const { data, error } = await supabase.from('clients').insert([insertData]).select();
       
       if (error) throw error;
       
       if (data && data.length > 0) {
-        const newClient = {
-          id: data[0].id,
-          name: data[0].name,
-          contactPerson: data[0].contact_person,
-          email: data[0].email,
-          phone: data[0].phone,
-          location: data[0].location,
-        };
+        const newClient = mapClientFromDb(data[0]);
         
-        setClients(prev => [...prev, newClient]);
+        patchClients(prev => [...prev, newClient]);
       }
     } catch (error) {
       console.error("Error adding client:", error);
@@ -823,35 +1376,43 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const updateClient = async (id: string, clientUpdate: Partial<Client>) => {
+    const before = await recordFor(clients, id, fetchClient);
+    assertCan(role, "update", "client", changedFields(before, clientUpdate));
+    
     try {
-      const updateData: any = {};
-      
-      if (clientUpdate.name !== undefined) updateData.name = clientUpdate.name;
-      if (clientUpdate.contactPerson !== undefined) updateData.contact_person = clientUpdate.contactPerson;
-      if (clientUpdate.email !== undefined) updateData.email = clientUpdate.email;
-      if (clientUpdate.phone !== undefined) updateData.phone = clientUpdate.phone;
-      if (clientUpdate.location !== undefined) updateData.location = clientUpdate.location;
-      
-      const { error } = await supabase.from('clients').update(updateData).eq('id', id);
-      
-      if (error) throw error;
+      const updateData = mapClientToDb(clientUpdate);
+      
+      if (isOffline) {
+        await queueOfflineWrite(`Update client ${before?.name ?? id}`, [
+          { table: 'clients', action: 'update', rowId: id, values: updateData },
+        ]);
+      } else {
+        const { error } = await supabase.from('clients').update(updateData).eq('id', id);
+        
+        if (error) throw error;
+      }
       
       // Update local state
-      setClients(prev => prev.map(c => c.id === id ? { ...c, ...clientUpdate } : c));
+      patchClients(prev => prev.map(c => c.id === id ? { ...c, ...clientUpdate } : c));
     } catch (error) {
       console.error("Error updating client:", error);
       throw error;
     }
   };
   
-  const deleteClient = async (id: string) => {
+  const deleteClient = async (id: string, resolution?: DependentResolution) => {
+    assertCan(role, "delete", "client");
+    const before = await recordFor(clients, id, fetchClient);
+    
     try {
-      const { error } = await supabase.from('clients').delete().eq('id', id);
-      
-      if (error) throw error;
-      
-      // Update local state
-      setClients(prev => prev.filter(c => c.id !== id));
+      await trashWithDependents(
+        "client",
+        id,
+        `Delete client ${before?.name ?? id}`,
+        resolution
+      );
+      
+      patchClients(prev => prev.filter(c => c.id !== id));
     } catch (error) {
       console.error("Error deleting client:", error);
       throw error;
@@ -859,33 +1420,53 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const addPurchaseOrder = async (po: Omit<PurchaseOrder, "id">) => {
+    assertCan(role, "create", "purchaseOrder");
+    
     try {
-      // Check if this PO number exists with the same deadline
+      const poInsert = mapNewPurchaseOrderToDb(po);
+      
+      if (isOffline) {
+        // Only the cached POs can be checked for duplicates while offline
+        if (purchaseOrders.some(existing => existing.poNumber === po.poNumber)) {
+          throw new DuplicatePoNumberError(po.poNumber);
+        }
+        
+        const newPurchaseOrder = {
+          ...po,
+          id: crypto.randomUUID(),
+          progress: po.progress || 0,
+          currency: po.currency || 'USD',
+          approvalStatus: po.approvalStatus || 'Draft',
+          parts: po.parts.map(part => ({ ...part, id: crypto.randomUUID(), progress: part.progress || 0 })),
+        };
+        await queueOfflineWrite(`Add purchase order ${po.poNumber}`, [
+          { table: 'purchase_orders', action: 'insert', rowId: newPurchaseOrder.id, values: { id: newPurchaseOrder.id, ...poInsert } },
+          ...newPurchaseOrder.parts.map(part => ({
+            table: 'parts' as const,
+            action: 'insert' as const,
+            rowId: part.id,
+            values: { id: part.id, ...mapNewPartToDb(part, newPurchaseOrder.id) },
+          })),
+        ]);
+        patchPurchaseOrders(prev => [...prev, newPurchaseOrder]);
+        return;
+      }
+      
+      // A PO number belongs to one PO; changes to it are amendments
       const { data: existingPOs, error: checkError } = await supabase
         .from('purchase_orders')
-        .select('*')
+        .select('id')
         .eq('po_number', po.poNumber)
-        .eq('deadline', po.deadline);
+        .is('deleted_at', null);
       
       if (checkError) throw checkError;
       
-      // If a PO with the same number and deadline exists, prevent creation
       if (existingPOs && existingPOs.length > 0) {
-        throw new Error("A purchase order with this number and deadline already exists");
+        throw new DuplicatePoNumberError(po.poNumber);
       }
       
       // Insert the new purchase order
-      const { data: poData, error: poError } = await supabase.from('purchase_orders').insert([{
-        po_number: po.poNumber,
-        project_id: po.projectId,
-        supplier_id: po.supplierId,
-        status: po.status,
-        issued_date: po.issuedDate,
-        deadline: po.deadline,
-        progress: po.progress || 0,
-        amount: po.amount,
-        description: po.description,
-      }]).select();
+      const { data: poData, error: poError } = await supabase.from('purchase_orders').insert([poInsert]).select();
       
       if (poError) throw poError;
       
@@ -896,13 +1477,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const newPoId = poData[0].id;
       
       // Insert parts
-      const partsToInsert = po.parts.map(part => ({
-        name: part.name,
-        quantity: part.quantity,
-        status: part.status,
-        progress: part.progress || 0,
-        po_id: newPoId,
-      }));
+      const partsToInsert = po.parts.map(part => mapNewPartToDb(part, newPoId));
       
       const { data: partsData, error: partsError } = await supabase
         .from('parts')
@@ -911,52 +1486,52 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         
       if (partsError) throw partsError;
       
-      // Map inserted parts to our format
-      const insertedParts = partsData.map(part => ({
-        id: part.id,
-        name: part.name,
-        quantity: part.quantity,
-        status: part.status,
-        progress: part.progress || 0,
-      }));
-      
-      // Create new purchase order with parts
-      const newPurchaseOrder = {
-        id: newPoId,
-        poNumber: po.poNumber,
-        projectId: po.projectId,
-        supplierId: po.supplierId,
-        status: po.status,
-        issuedDate: po.issuedDate,
-        deadline: po.deadline,
-        progress: po.progress || 0,
-        amount: po.amount,
-        description: po.description,
-        parts: insertedParts,
-      };
+      const newPurchaseOrder = mapPurchaseOrderFromDb(poData[0], partsData);
       
       // Update local state
-      setPurchaseOrders(prev => [...prev, newPurchaseOrder]);
-    } catch (error: any) {
+      patchPurchaseOrders(prev => [...prev, newPurchaseOrder]);
+    } catch (error) {
       console.error("Error adding purchase order:", error);
       throw error;
     }
   };
   
   const updatePurchaseOrder = async (id: string, poUpdate: Partial<Omit<PurchaseOrder, "id">>) => {
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    
+    assertCan(role, "update", "purchaseOrder", changedFields(before, poUpdate));
+    
     try {
       // Update purchase order
-      const updateData: any = {};
-      
-      if (poUpdate.poNumber !== undefined) updateData.po_number = poUpdate.poNumber;
-      if (poUpdate.projectId !== undefined) updateData.project_id = poUpdate.projectId;
-      if (poUpdate.supplierId !== undefined) updateData.supplier_id = poUpdate.supplierId;
-      if (poUpdate.status !== undefined) updateData.status = poUpdate.status;
-      if (poUpdate.issuedDate !== undefined) updateData.issued_date = poUpdate.issuedDate;
-      if (poUpdate.deadline !== undefined) updateData.deadline = poUpdate.deadline;
-      if (poUpdate.progress !== undefined) updateData.progress = poUpdate.progress;
-      if (poUpdate.amount !== undefined) updateData.amount = poUpdate.amount;
-      if (poUpdate.description !== undefined) updateData.description = poUpdate.description;
+      const updateData = mapPurchaseOrderToDb(poUpdate);
+      
+      if (isOffline) {
+        const partsBefore = new Map((before?.parts || []).map(part => [part.id, part]));
+        // Parts are diffed against the cached PO since the server can't be asked
+        const operations: QueuedOperation[] = [{ table: 'purchase_orders', action: 'update', rowId: id, values: updateData }];
+        const parts = poUpdate.parts?.map(part => part.id.startsWith('part-') ? { ...part, id: crypto.randomUUID() } : part);
+        
+        for (const part of parts || []) {
+          if (partsBefore.has(part.id)) {
+            operations.push({ table: 'parts', action: 'update', rowId: part.id, values: mapPartToDb(part, id) });
+          } else {
+            operations.push({ table: 'parts', action: 'insert', rowId: part.id, values: { id: part.id, ...mapNewPartToDb(part, id) } });
+          }
+        }
+        
+        if (parts) {
+          const deletedAt = new Date().toISOString();
+          for (const partId of partsBefore.keys()) {
+            if (parts.some(part => part.id === partId)) continue;
+            
+            operations.push({ table: 'parts', action: 'update', rowId: partId, values: { deleted_at: deletedAt } });
+          }
+        }
+        
+        await queueOfflineWrite(`Update purchase order ${before?.poNumber ?? id}`, operations);
+        patchPurchaseOrders(prev => prev.map(item => item.id === id ? { ...item, ...poUpdate, parts: parts ?? item.parts } : item));
+        return;
+      }
       
       const { error: poError } = await supabase
         .from('purchase_orders')
@@ -971,7 +1546,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         const { data: existingParts, error: getPartsError } = await supabase
           .from('parts')
           .select('*')
-          .eq('po_id', id);
+          .eq('po_id', id)
+          .is('deleted_at', null);
           
         if (getPartsError) throw getPartsError;
         
@@ -984,74 +1560,125 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
             // New part to create
             const { error: createPartError } = await supabase
               .from('parts')
-              .insert([{
-                name: part.name,
-                quantity: part.quantity,
-                status: part.status,
-                progress: part.progress || 0, // Make sure progress is included
-                po_id: id,
-              }]);
+              .insert([mapNewPartToDb(part, id)])
+              .select();
               
             if (createPartError) throw createPartError;
           } else if (existingPartsMap.has(part.id)) {
             // Update existing part
             const { error: updatePartError } = await supabase
               .from('parts')
-              .update({
-                name: part.name,
-                quantity: part.quantity,
-                status: part.status,
-                progress: part.progress || 0, // Make sure progress is included
-                po_id: id,
-              })
+              .update(mapPartToDb(part, id))
               .eq('id', part.id);
               
             if (updatePartError) throw updatePartError;
           }
         }
         
-        // Delete parts that were removed
+        // Parts that were removed go to the trash, like any other delete
         const partsToDelete = Array.from(existingPartsMap.keys())
           .filter(partId => !updatedPartsMap.has(partId));
           
         if (partsToDelete.length > 0) {
           const { error: deletePartsError } = await supabase
             .from('parts')
-            .delete()
+            .update({ deleted_at: new Date().toISOString() })
             .in('id', partsToDelete);
             
           if (deletePartsError) throw deletePartsError;
         }
       }
       
-      // Refresh purchase orders to get latest state
-      await reloadPurchaseOrders();
+      // Refresh the PO to get its parts' ids and anything the server changed
+      await reloadPurchaseOrder(id);
     } catch (error) {
       console.error("Error updating purchase order:", error);
       throw error;
     }
   };
   
+  // Amending keeps the PO number and moves it to its next revision, recording
+  // why and how the parts, amount and deadline changed
+  const amendPurchaseOrder = async (id: string, amendment: Partial<Omit<PurchaseOrder, "id">>, reason: string) => {
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    if (!before) throw new Error("Purchase order not found");
+    if (!reason.trim()) throw new Error("A reason is required to amend a purchase order");
+    if (changedFields(before, amendment).length === 0) throw new Error("The amendment doesn't change anything");
+    
+    const revision = nextRevision(before.revision);
+    const entry: PurchaseOrderRevision = {
+      revision,
+      reason: reason.trim(),
+      changes: diffRevision(before, amendment),
+      createdAt: new Date().toISOString(),
+      createdBy: actor?.email,
+    };
+    
+    await updatePurchaseOrder(id, {
+      ...amendment,
+      revision,
+      revisions: [...(before.revisions || []), entry],
+    });
+  };
+  
+  // Sends a draft or rejected PO to the approvers its rules call for. With no
+  // rule to apply it needs no sign-off and is approved straight away.
+  const submitPurchaseOrder = async (id: string, comment?: string) => {
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    if (!before) throw new Error("Purchase order not found");
+    // Submitting and issuing are for the roles that run the approval workflow
+    assertCan(role, "approve", "purchaseOrder");
+    if (!canSubmit(before)) throw new ApprovalError(`${before.poNumber} has already been submitted`);
+    // The chains are kept on the server, so submitting waits until it's reachable
+    if (isOffline) throw new ApprovalError("Purchase orders can't be submitted for approval while offline");
+    
+    await submitForApproval(id, comment);
+    await reloadPurchaseOrder(id);
+  };
+  
+  // Records a decision on the step a submitted PO is waiting for. The last
+  // approval in the chain approves the PO; a rejection sends it back to its buyer.
+  const decidePurchaseOrder = async (id: string, decision: "approved" | "rejected", comment?: string) => {
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    if (!before) throw new Error("Purchase order not found");
+    assertCan(role, "approve", "purchaseOrder");
+    
+    // The database function checks all of this again; failing here saves a round trip
+    const step = pendingApprover(before);
+    if (!step) throw new ApprovalError(`${before.poNumber} isn't waiting for approval`);
+    if (before.submittedBy && before.submittedBy === user?.id) {
+      throw new ApprovalError("Purchase orders can't be approved or rejected by the person who submitted them");
+    }
+    if (!canDecide(role, before, user?.id)) throw new ApprovalError(`${before.poNumber} is waiting for ${step} approval`);
+    if (decision === "rejected" && !comment?.trim()) {
+      throw new ApprovalError("A reason is required to reject a purchase order");
+    }
+    if (isOffline) throw new ApprovalError("Purchase orders can't be approved or rejected while offline");
+    
+    await decideApproval(id, decision, comment);
+    await reloadPurchaseOrder(id);
+  };
+  
+  const issuePurchaseOrder = async (id: string) => {
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    if (!before) throw new Error("Purchase order not found");
+    assertCan(role, "approve", "purchaseOrder");
+    if (approvalStatusOf(before) !== "Approved") {
+      throw new ApprovalError(`${before.poNumber} has to be approved before it's issued`);
+    }
+    if (isOffline) throw new ApprovalError("Purchase orders can't be issued while offline");
+    
+    await issueApproved(id);
+    await reloadPurchaseOrder(id);
+  };
+  
   const deletePurchaseOrder = async (id: string) => {
+    assertCan(role, "delete", "purchaseOrder");
+    const before = await recordFor(purchaseOrders, id, fetchPurchaseOrder);
+    
     try {
-      // Delete parts first (foreign key constraint)
-      const { error: partsError } = await supabase
-        .from('parts')
-        .delete()
-        .eq('po_id', id);
-        
-      if (partsError) throw partsError;
-      
-      // Then delete the purchase order
-      const { error: poError } = await supabase
-        .from('purchase_orders')
-        .delete()
-        .eq('id', id);
-        
-      if (poError) throw poError;
-      
-      // Update local state
-      setPurchaseOrders(prev => prev.filter(po => po.id !== id));
+      // Its parts, shipments and links go to the trash with it
+      await trashWithDependents("purchaseOrder", id, `Delete purchase order ${before?.poNumber ?? id}`);
     } catch (error) {
       console.error("Error deleting purchase order:", error);
       throw error;
@@ -1059,32 +1686,28 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const addExternalLink = async (link: Omit<ExternalLink, "id">) => {
+    assertCan(role, "create", "externalLink");
+    
     try {
-      const { data, error } = await supabase.from('external_links').insert([{
-        title: link.title,
-        url: link.url,
-        type: link.type,
-        date: link.date,
-        supplier_id: link.supplierId,
-        project_id: link.projectId,
-        po_id: link.poId,
-      }]).select();
+      const insertData = mapNewExternalLinkToDb(link);
+      
+      if (isOffline) {
+        const newLink = { ...link, id: crypto.randomUUID() };
+        await queueOfflineWrite(`Add link ${link.title}`, [
+          { table: 'external_links', action: 'insert', rowId: newLink.id, values: { id: newLink.id, ...insertData } },
+        ]);
+        patchExternalLinks(prev => [...prev, newLink]);
+        return;
+      }
+      
+      const { data, error } = await supabase.from('external_links').insert([insertData]).select();
       
       if (error) throw error;
       
       if (data && data.length > 0) {
-        const newLink = {
-          id: data[0].id,
-          title: data[0].title,
-          url: data[0].url,
-          type: data[0].type,
-          date: data[0].date,
-          supplierId: data[0].supplier_id,
-          projectId: data[0].project_id,
-          poId: data[0].po_id,
-        };
+        const newLink = mapExternalLinkFromDb(data[0]);
         
-        setExternalLinks(prev => [...prev, newLink]);
+        patchExternalLinks(prev => [...prev, newLink]);
       }
     } catch (error) {
       console.error("Error adding external link:", error);
@@ -1093,23 +1716,24 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const updateExternalLink = async (id: string, linkUpdate: Partial<ExternalLink>) => {
+    const before = await recordFor(externalLinks, id, fetchExternalLink);
+    assertCan(role, "update", "externalLink", changedFields(before, linkUpdate));
+    
     try {
-      const updateData: any = {};
-      
-      if (linkUpdate.title !== undefined) updateData.title = linkUpdate.title;
-      if (linkUpdate.url !== undefined) updateData.url = linkUpdate.url;
-      if (linkUpdate.type !== undefined) updateData.type = linkUpdate.type;
-      if (linkUpdate.date !== undefined) updateData.date = linkUpdate.date;
-      if (linkUpdate.supplierId !== undefined) updateData.supplier_id = linkUpdate.supplierId;
-      if (linkUpdate.projectId !== undefined) updateData.project_id = linkUpdate.projectId;
-      if (linkUpdate.poId !== undefined) updateData.po_id = linkUpdate.poId;
-      
-      const { error } = await supabase.from('external_links').update(updateData).eq('id', id);
-      
-      if (error) throw error;
+      const updateData = mapExternalLinkToDb(linkUpdate);
+      
+      if (isOffline) {
+        await queueOfflineWrite(`Update link ${before?.title ?? id}`, [
+          { table: 'external_links', action: 'update', rowId: id, values: updateData },
+        ]);
+      } else {
+        const { error } = await supabase.from('external_links').update(updateData).eq('id', id);
+        
+        if (error) throw error;
+      }
       
       // Update local state
-      setExternalLinks(prev => prev.map(link => link.id === id ? { ...link, ...linkUpdate } : link));
+      patchExternalLinks(prev => prev.map(link => link.id === id ? { ...link, ...linkUpdate } : link));
     } catch (error) {
       console.error("Error updating external link:", error);
       throw error;
@@ -1117,28 +1741,142 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   const deleteExternalLink = async (id: string) => {
+    assertCan(role, "delete", "externalLink");
+    const before = await recordFor(externalLinks, id, fetchExternalLink);
+    
     try {
-      const { error } = await supabase.from('external_links').delete().eq('id', id);
+      const operations = trashOperations("externalLink", id, new Date().toISOString());
       
-      if (error) throw error;
+      if (isOffline) {
+        await queueOfflineWrite(`Delete link ${before?.title ?? id}`, operations);
+      } else {
+        await applyOperations(operations);
+      }
       
       // Update local state
-      setExternalLinks(prev => prev.filter(link => link.id !== id));
+      patchExternalLinks(prev => prev.filter(link => link.id !== id));
     } catch (error) {
       console.error("Error deleting external link:", error);
       throw error;
     }
   };
   
+  // Shipment changes are applied to local state straight away and rolled back
+  // if Supabase rejects them; realtime reloads reconcile whatever is left.
+  const addShipment = async (shipment: Omit<Shipment, "id">) => {
+    assertCan(role, "create", "shipment");
+    
+    if (isOffline) {
+      const newShipment = { ...shipment, id: crypto.randomUUID() };
+      await queueOfflineWrite(`Add shipment ${shipment.trackingNumber || shipment.type}`, [
+        { table: 'shipments', action: 'insert', rowId: newShipment.id, values: { id: newShipment.id, ...mapNewShipmentToDb(shipment) } },
+      ]);
+      patchShipments(prev => [...prev, newShipment]);
+      return;
+    }
+    
+    const tempId = `shipment-${Date.now()}`;
+    patchShipments(prev => [...prev, { ...shipment, id: tempId }]);
+    
+    try {
+      const { data, error } = await supabase
+        .from('shipments')
+        .insert([mapNewShipmentToDb(shipment)])
+        .select()
+        .single();
+      
+      if (error) throw error;
+      
+      const newShipment = mapShipmentFromDb(data);
+      // A realtime reload may already have added the saved row
+      patchShipments(prev => [
+        ...prev.filter(s => s.id !== tempId && s.id !== newShipment.id),
+        newShipment,
+      ]);
+    } catch (error) {
+      console.error("Error adding shipment:", error);
+      patchShipments(prev => prev.filter(s => s.id !== tempId));
+      throw error;
+    }
+  };
+  
+  const updateShipment = async (id: string, shipmentUpdate: Partial<Shipment>) => {
+    const before = await recordFor(shipments, id, fetchShipment);
+    assertCan(role, "update", "shipment", changedFields(before, shipmentUpdate));
+    
+    if (isOffline) {
+      await queueOfflineWrite(`Update shipment ${before?.trackingNumber || id}`, [
+        { table: 'shipments', action: 'update', rowId: id, values: mapShipmentToDb(shipmentUpdate) },
+      ]);
+      patchShipments(prev => prev.map(s => s.id === id ? { ...s, ...shipmentUpdate, id } : s));
+      return;
+    }
+    
+    patchShipments(prev => prev.map(s => s.id === id ? { ...s, ...shipmentUpdate, id } : s));
+    
+    try {
+      const { error } = await supabase
+        .from('shipments')
+        .update(mapShipmentToDb(shipmentUpdate))
+        .eq('id', id);
+      
+      if (error) throw error;
+    } catch (error) {
+      console.error("Error updating shipment:", error);
+      if (before) {
+        patchShipments(prev => prev.map(s => s.id === id ? before : s));
+      }
+      throw error;
+    }
+  };
+  
+  const deleteShipment = async (id: string) => {
+    assertCan(role, "delete", "shipment");
+    const before = await recordFor(shipments, id, fetchShipment);
+    
+    const operations = trashOperations("shipment", id, new Date().toISOString());
+    
+    if (isOffline) {
+      await queueOfflineWrite(`Delete shipment ${before?.trackingNumber || id}`, operations);
+      patchShipments(prev => prev.filter(s => s.id !== id));
+      return;
+    }
+    
+    patchShipments(prev => prev.filter(s => s.id !== id));
+    
+    try {
+      await applyOperations(operations);
+    } catch (error) {
+      console.error("Error deleting shipment:", error);
+      if (before) {
+        patchShipments(prev => prev.some(s => s.id === id) ? prev : [...prev, before]);
+      }
+      throw error;
+    }
+  };
+  
+  // Portal users only ever get their own slice of the data
+  const clientId = user?.clientId;
+  const supplierId = user?.supplierId;
+  const visibleData = useMemo(() => {
+    const dataset = { clients, suppliers, projects, purchaseOrders, externalLinks, shipments };
+    
+    if (role === "client") return scopeToClient(dataset, clientId);
+    if (role === "supplier") return scopeToSupplier(dataset, supplierId);
+    return dataset;
+  }, [role, clientId, supplierId, clients, suppliers, projects, purchaseOrders, externalLinks, shipments]);
+  
+  // Consumers ask for the dataset from an effect, so this keeps one identity
+  const latestLoadDataset = useRef(loadDataset);
+  latestLoadDataset.current = loadDataset;
+  const requireDataset = useMemo(() => () => latestLoadDataset.current(), []);
+  
   const value = {
-    clients,
-    suppliers,
-    projects,
-    purchaseOrders,
-    externalLinks,
-    shipments,
+    ...visibleData,
     loading,
     error,
+    datasetReady,
+    requireDataset,
     
     // Include the newly implemented functions
     generateDummyData,
@@ -1147,6 +1885,12 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     isLoading,
     clearAllData,
     
+    isOffline,
+    staleSince: isOffline ? syncedAt : null,
+    queuedWrites,
+    syncOfflineChanges,
+    resolveQueuedWrite,
+    
     addProject,
     updateProject,
     deleteProject,
@@ -1161,20 +1905,110 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     addPurchaseOrder,
     updatePurchaseOrder,
+    amendPurchaseOrder,
+    submitPurchaseOrder,
+    decidePurchaseOrder,
+    issuePurchaseOrder,
     deletePurchaseOrder,
     
     addExternalLink,
     updateExternalLink,
     deleteExternalLink,
+    
+    addShipment,
+    updateShipment,
+    deleteShipment,
   };
   
-  return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
+  // Mutations close over the current state, so the stable wrappers below
+  // always call the latest version
+  const latestValue = useRef(value);
+  latestValue.current = value;
+  
+  const mutations = useMemo<DataMutations>(() => {
+    // Offline writes are checked against the cached records and queued with
+    // their row versions, so they wait for that copy to be on screen. Online
+    // they go ahead and fetch what they need.
+    const ensureOfflineRecords = () => {
+      if (!latestValue.current.isOffline || datasetLoaded.current) return Promise.resolve();
+      if (latestValue.current.error) return Promise.reject(latestValue.current.error);
+      
+      return new Promise<void>((resolve, reject) => {
+        datasetWaiters.current.push({ resolve, reject });
+        latestLoadDataset.current();
+      });
+    };
+    
+    const whenWritable = <K extends keyof DataMutations>(name: K) =>
+      (async (...args: unknown[]) => {
+        await ensureOfflineRecords();
+        return (latestValue.current[name] as (...args: unknown[]) => Promise<void>)(...args);
+      }) as DataMutations[K];
+    
+    return {
+      addProject: whenWritable("addProject"),
+      updateProject: whenWritable("updateProject"),
+      deleteProject: whenWritable("deleteProject"),
+      addSupplier: whenWritable("addSupplier"),
+      updateSupplier: whenWritable("updateSupplier"),
+      deleteSupplier: whenWritable("deleteSupplier"),
+      addClient: whenWritable("addClient"),
+      updateClient: whenWritable("updateClient"),
+      deleteClient: whenWritable("deleteClient"),
+      addPurchaseOrder: whenWritable("addPurchaseOrder"),
+      updatePurchaseOrder: whenWritable("updatePurchaseOrder"),
+      amendPurchaseOrder: whenWritable("amendPurchaseOrder"),
+      submitPurchaseOrder: whenWritable("submitPurchaseOrder"),
+      decidePurchaseOrder: whenWritable("decidePurchaseOrder"),
+      issuePurchaseOrder: whenWritable("issuePurchaseOrder"),
+      deletePurchaseOrder: whenWritable("deletePurchaseOrder"),
+      addExternalLink: whenWritable("addExternalLink"),
+      updateExternalLink: whenWritable("updateExternalLink"),
+      deleteExternalLink: whenWritable("deleteExternalLink"),
+      addShipment: whenWritable("addShipment"),
+      updateShipment: whenWritable("updateShipment"),
+      deleteShipment: whenWritable("deleteShipment"),
+    };
+  }, []);
+  
+  return (
+    <DataContext.Provider value={value}>
+      <DataMutationsContext.Provider value={mutations}>{children}</DataMutationsContext.Provider>
+    </DataContext.Provider>
+  );
 };
 
-export const useData = () => {
+const useDataContext = (hook: string) => {
   const context = useContext(DataContext);
   if (!context) {
-    throw new Error("useData must be used within a DataProvider");
+    throw new Error(`${hook} must be used within a DataProvider`);
+  }
+  return context;
+};
+
+// Reading the records has the provider load them, if it hasn't already. Until
+// they're in, they count as loading whatever else the provider is doing.
+export const useData = () => {
+  const context = useDataContext("useData");
+  const { requireDataset } = context;
+  
+  useEffect(() => requireDataset(), [requireDataset]);
+  
+  return { ...context, loading: context.loading || (!context.datasetReady && !context.error) };
+};
+
+// The provider's load state and offline queue, for components that don't
+// read the records and so shouldn't have them loaded
+export const useDataStatus = (): Pick<
+  DataContextType,
+  | "loading" | "error" | "isOffline" | "staleSince" | "queuedWrites"
+  | "syncOfflineChanges" | "resolveQueuedWrite" | "loadFromSupabase"
+> => useDataContext("useDataStatus");
+
+export const useDataMutations = () => {
+  const context = useContext(DataMutationsContext);
+  if (!context) {
+    throw new Error("useDataMutations must be used within a DataProvider");
   }
   return context;
 };
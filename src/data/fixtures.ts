@@ -0,0 +1,437 @@
+import type {
+  ApprovalDecision,
+  Client,
+  ExternalLink,
+  Part,
+  Project,
+  PurchaseOrder,
+  Shipment,
+  Supplier,
+} from "@/contexts/DataContext";
+import { currencyForCountry } from "@/lib/currency";
+
+// Seeded, deterministic workspace data for development databases, demos and
+// tests. The same options always produce the same records, ids included, so
+// a seed can be re-applied without duplicating anything and a test can refer
+// to a record by id.
+
+const SUPPLIER_LOCATIONS = [
+  { country: "China", city: "Shenzhen", dialCode: "+86" },
+  { country: "Malaysia", city: "Penang", dialCode: "+60" },
+  { country: "Germany", city: "Stuttgart", dialCode: "+49" },
+  { country: "Vietnam", city: "Ho Chi Minh City", dialCode: "+84" },
+  { country: "Taiwan", city: "Taipei", dialCode: "+886" },
+  { country: "Mexico", city: "Monterrey", dialCode: "+52" },
+  { country: "Italy", city: "Milan", dialCode: "+39" },
+  { country: "India", city: "Pune", dialCode: "+91" },
+  { country: "United States", city: "Houston", dialCode: "+1" },
+  { country: "Japan", city: "Osaka", dialCode: "+81" },
+  { country: "South Korea", city: "Busan", dialCode: "+82" },
+  { country: "Turkey", city: "Izmir", dialCode: "+90" },
+] as const;
+
+export type SupplierCountry = typeof SUPPLIER_LOCATIONS[number]["country"];
+
+export const SUPPLIER_COUNTRIES: SupplierCountry[] = SUPPLIER_LOCATIONS.map(location => location.country);
+
+export interface FixtureOptions {
+  seed: number;
+  clients: number;
+  suppliers: number;
+  projects: number;
+  purchaseOrdersPerProject: number;
+  // Share of projects and POs that run late, from 0 to 1
+  delayRate: number;
+  // Where suppliers are based, which also sets the currency they invoice in
+  countries: SupplierCountry[];
+  // Dates are laid out around this day rather than today, so the output
+  // doesn't drift with the clock
+  referenceDate: string;
+}
+
+export interface Fixtures {
+  clients: Client[];
+  suppliers: Supplier[];
+  projects: Project[];
+  purchaseOrders: PurchaseOrder[];
+  externalLinks: ExternalLink[];
+  shipments: Shipment[];
+}
+
+export const DEFAULT_FIXTURE_OPTIONS: FixtureOptions = {
+  seed: 1,
+  clients: 4,
+  suppliers: 6,
+  projects: 8,
+  purchaseOrdersPerProject: 3,
+  delayRate: 0.15,
+  countries: ["China", "Malaysia", "Germany", "Vietnam", "Taiwan", "Mexico", "Italy", "India"],
+  referenceDate: "2025-01-06",
+};
+
+export type ScenarioPreset = "healthy" | "crisis" | "loadTest";
+
+// Ready-made workspaces for demos and performance testing. Each is a set of
+// overrides on the defaults, so a seed or reference date can still be given.
+export const SCENARIO_PRESETS: Record<ScenarioPreset, { label: string; description: string; options: Partial<FixtureOptions> }> = {
+  healthy: {
+    label: "Healthy portfolio",
+    description: "A dozen projects on schedule, with the odd late PO",
+    options: { clients: 5, suppliers: 8, projects: 12, purchaseOrdersPerProject: 4, delayRate: 0.03 },
+  },
+  crisis: {
+    label: "Supply-chain crisis",
+    description: "Asian suppliers running late across most projects",
+    options: {
+      clients: 5,
+      suppliers: 8,
+      projects: 12,
+      purchaseOrdersPerProject: 5,
+      delayRate: 0.45,
+      countries: ["China", "Vietnam", "Malaysia", "Taiwan", "South Korea"],
+    },
+  },
+  loadTest: {
+    label: "10k POs load test",
+    description: "400 projects with 25 POs each, for performance testing",
+    options: {
+      clients: 40,
+      suppliers: 60,
+      projects: 400,
+      purchaseOrdersPerProject: 25,
+      delayRate: 0.12,
+      countries: SUPPLIER_COUNTRIES,
+    },
+  },
+};
+
+// mulberry32: small, fast and good enough for fixtures
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)];
+
+  // Version 4 layout, so the ids pass the same checks as real ones
+  const uuid = () => {
+    const bytes = Array.from({ length: 16 }, () => int(0, 255));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = bytes.map(byte => byte.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  };
+
+  return {
+    int,
+    pick,
+    uuid,
+    chance: (probability: number) => next() < probability,
+    // A few distinct items, in random order
+    sample: <T>(items: readonly T[], count: number): T[] =>
+      items
+        .map(item => ({ item, key: next() }))
+        .sort((a, b) => a.key - b.key)
+        .slice(0, count)
+        .map(({ item }) => item),
+  };
+};
+
+type Random = ReturnType<typeof createRandom>;
+
+// Dates are plain YYYY-MM-DD strings and the arithmetic is done in UTC, so
+// the output is the same in every timezone
+const DAY_MS = 24 * 60 * 60 * 1000;
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const FIRST_NAMES = ["Alex", "Maria", "James", "Priya", "Chen", "Sofia", "David", "Aisha", "Lucas", "Hannah", "Kenji", "Elena"];
+const LAST_NAMES = ["Thompson", "Garcia", "Wong", "Patel", "Schmidt", "Okafor", "Rossi", "Kim", "Novak", "Hughes", "Tanaka", "Silva"];
+
+const CLIENT_NAMES = [
+  "Northwind Energy", "Harbor Logistics", "Summit Health", "Bluewater Utilities",
+  "Crestline Retail", "Meridian Data Centers", "Ironbridge Rail", "Evergreen Foods",
+  "Pinnacle Pharma", "Lakeshore Manufacturing",
+];
+const CLIENT_CITIES = ["San Francisco, CA", "New York, NY", "Austin, TX", "Chicago, IL", "Seattle, WA", "Denver, CO", "Boston, MA", "Atlanta, GA"];
+
+const SUPPLIER_NAMES = [
+  "Parts & Components Co.", "Precision Castings", "Apex Electrical", "Delta Steelworks",
+  "Orient Cable Systems", "Nordic Valves", "Sunrise Fabrication", "Pacific Controls",
+  "Vertex Pumps", "Allied Enclosures",
+];
+const POSITIVE_COMMENTS = ["Fast delivery", "Good quality", "Responsive", "Competitive prices", "Clear documentation"];
+const NEGATIVE_COMMENTS = ["Occasional delays", "Communication issues", "Packaging damage", "Slow to quote"];
+
+const PROJECT_KINDS = ["Substation Upgrade", "Cold Storage Fit-out", "Data Hall Expansion", "Plant Retrofit", "Distribution Center", "Pump Station Renewal"];
+const PROJECT_SITES = ["Riverside", "North Yard", "Bay Area", "Lakeside", "Hillcrest", "Eastgate", "Westfield", "Harborview"];
+const BUDGET_CATEGORIES = ["Equipment", "Electrical", "Structural", "Controls", "Logistics"];
+
+const PART_CATALOG: { name: string; unitPrice: number }[] = [
+  { name: "Circuit Breaker Panel", unitPrice: 1850 },
+  { name: "Copper Cable Drum", unitPrice: 640 },
+  { name: "Steel I-Beam", unitPrice: 420 },
+  { name: "Centrifugal Pump", unitPrice: 3200 },
+  { name: "Control Cabinet", unitPrice: 2750 },
+  { name: "Gate Valve DN150", unitPrice: 380 },
+  { name: "LED High Bay Fixture", unitPrice: 145 },
+  { name: "Cooling Unit", unitPrice: 5400 },
+  { name: "Transformer 500kVA", unitPrice: 18500 },
+  { name: "Cable Tray Section", unitPrice: 36 },
+];
+const PART_QUANTITIES = [2, 4, 10, 25, 50, 100, 250];
+
+const LINK_TYPES = ["Report", "Photo", "Tracking", "Document"];
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const person = (random: Random) => `${random.pick(FIRST_NAMES)} ${random.pick(LAST_NAMES)}`;
+
+const phone = (random: Random, dialCode: string) =>
+  `${dialCode} ${random.int(10, 99)} ${random.int(1000, 9999)} ${random.int(1000, 9999)}`;
+
+// Where something scheduled between start and end stands on the reference day
+const progressAt = (start: string, end: string, referenceDate: string) => {
+  const total = Math.max(daysBetween(start, end), 1);
+  const elapsed = daysBetween(start, referenceDate);
+  return Math.min(100, Math.max(0, Math.round((elapsed / total) * 100)));
+};
+
+const createClients = (random: Random, count: number): Client[] =>
+  Array.from({ length: count }, (_, index) => {
+    const name = CLIENT_NAMES[index % CLIENT_NAMES.length] + (index >= CLIENT_NAMES.length ? ` ${Math.floor(index / CLIENT_NAMES.length) + 1}` : "");
+    const contactPerson = person(random);
+    return {
+      id: random.uuid(),
+      name,
+      contactPerson,
+      email: `${slug(contactPerson.split(" ")[0])}@${slug(name)}.com`,
+      phone: phone(random, "+1"),
+      location: random.pick(CLIENT_CITIES),
+    };
+  });
+
+const createSuppliers = (random: Random, count: number, countries: SupplierCountry[]): Supplier[] => {
+  const locations = SUPPLIER_LOCATIONS.filter(location => countries.includes(location.country))
+    .sort((a, b) => countries.indexOf(a.country) - countries.indexOf(b.country));
+  if (locations.length === 0) throw new Error("Fixtures need at least one supplier country");
+
+  return Array.from({ length: count }, (_, index) => {
+    const name = SUPPLIER_NAMES[index % SUPPLIER_NAMES.length] + (index >= SUPPLIER_NAMES.length ? ` ${Math.floor(index / SUPPLIER_NAMES.length) + 1}` : "");
+    const { country, city, dialCode } = locations[index % locations.length];
+    const contactPerson = person(random);
+    return {
+      id: random.uuid(),
+      name,
+      country,
+      contactPerson,
+      email: `${slug(contactPerson.split(" ")[0])}@${slug(name)}.com`,
+      phone: phone(random, dialCode),
+      location: city,
+      rating: random.int(30, 50) / 10,
+      onTimeDelivery: random.int(72, 99),
+      positiveComments: random.sample(POSITIVE_COMMENTS, random.int(1, 2)),
+      negativeComments: random.sample(NEGATIVE_COMMENTS, random.int(0, 1)),
+    };
+  });
+};
+
+const createParts = (random: Random, poStatus: string, poProgress: number): Part[] =>
+  random.sample(PART_CATALOG, random.int(1, 3)).map(({ name }) => ({
+    id: random.uuid(),
+    name,
+    quantity: random.pick(PART_QUANTITIES),
+    status: poStatus === "Completed"
+      ? "Completed"
+      : poStatus === "Delayed"
+        ? random.pick(["Delayed", "In Progress"])
+        : poProgress === 0 ? "Pending" : random.pick(["In Progress", "Completed"]),
+    progress: poStatus === "Completed" ? 100 : Math.min(100, Math.max(0, poProgress + random.int(-15, 15))),
+  }));
+
+// POs dated after the reference day haven't gone out yet: some are still
+// drafts and the rest are waiting on procurement. Earlier ones were approved
+// and issued on their issue date.
+const approvalHistory = (
+  random: Random,
+  issuedDate: string,
+  referenceDate: string
+): Pick<PurchaseOrder, "approvalStatus" | "approvals"> => {
+  const submitted = (date: string): ApprovalDecision =>
+    ({ action: "submitted", chain: ["procurement"], rule: "Standard", decidedAt: `${date}T09:00:00.000Z` });
+
+  if (issuedDate > referenceDate) {
+    return random.chance(0.5)
+      ? { approvalStatus: "Draft", approvals: [] }
+      : { approvalStatus: "Submitted", approvals: [submitted(referenceDate)] };
+  }
+
+  return {
+    approvalStatus: "Issued",
+    approvals: [
+      submitted(issuedDate),
+      { action: "approved", approverRole: "procurement", decidedAt: `${issuedDate}T11:00:00.000Z` },
+      { action: "issued", decidedAt: `${issuedDate}T14:00:00.000Z` },
+    ],
+  };
+};
+
+const createPurchaseOrder = (
+  random: Random,
+  project: Project,
+  supplier: Supplier,
+  sequence: number,
+  { referenceDate, delayRate }: FixtureOptions
+): PurchaseOrder => {
+  const issuedDate = addDays(project.startDate, random.int(0, 30));
+  const deadline = [addDays(issuedDate, random.int(30, 150)), project.endDate].sort()[0];
+
+  let status = "Active";
+  let progress = progressAt(issuedDate, deadline, referenceDate);
+  if (deadline < referenceDate) {
+    status = random.chance(delayRate) ? "Delayed" : "Completed";
+    progress = status === "Completed" ? 100 : random.int(60, 95);
+  } else if (progress > 0 && random.chance(delayRate * 2 / 3)) {
+    status = "Delayed";
+  }
+
+  const parts = createParts(random, status, progress);
+  const unitPrices = new Map(PART_CATALOG.map(part => [part.name, part.unitPrice]));
+  const amount = parts.reduce((sum, part) => sum + part.quantity * (unitPrices.get(part.name) ?? 0), 0);
+
+  return {
+    id: random.uuid(),
+    poNumber: `PO-${issuedDate.slice(0, 4)}-${String(sequence).padStart(4, "0")}`,
+    projectId: project.id,
+    supplierId: supplier.id,
+    status,
+    issuedDate,
+    deadline,
+    progress,
+    amount,
+    currency: currencyForCountry(supplier.country),
+    costCategory: project.budgetCategories ? random.pick(project.budgetCategories).name : undefined,
+    description: `${parts.map(part => part.name).join(", ")} for ${project.name}`,
+    parts,
+    ...approvalHistory(random, issuedDate, referenceDate),
+  };
+};
+
+// Shipped POs get one shipment, timed so it lands around the deadline, or
+// after it when the PO is running late
+const createShipment = (random: Random, po: PurchaseOrder, referenceDate: string): Shipment | null => {
+  const type = random.pick(["Sea", "Sea", "Air", "Land"]);
+  const transitDays = type === "Sea" ? random.int(24, 40) : type === "Air" ? random.int(2, 6) : random.int(4, 12);
+  const etaDate = addDays(po.deadline, po.status === "Delayed" ? random.int(3, 30) : random.int(-10, 5));
+  const etdDate = addDays(etaDate, -transitDays);
+  if (etdDate > referenceDate || etdDate < po.issuedDate) return null;
+
+  const arrived = etaDate < referenceDate;
+  const letters = Array.from({ length: 4 }, () => String.fromCharCode(65 + random.int(0, 25))).join("");
+
+  return {
+    id: random.uuid(),
+    type,
+    projectId: po.projectId,
+    supplierId: po.supplierId,
+    poId: po.id,
+    partId: po.parts[0]?.id,
+    shippedDate: etdDate,
+    etdDate,
+    etaDate,
+    trackingNumber: `TRK${random.int(10000000, 99999999)}`,
+    containerNumber: type === "Sea" ? `${letters}${random.int(1000000, 9999999)}` : undefined,
+    containerSize: type === "Sea" ? random.pick(["20ft", "40ft", "40ft HC"]) : undefined,
+    containerType: type === "Sea" ? "Dry" : undefined,
+    status: arrived ? "Delivered" : po.status === "Delayed" ? "Delayed" : "In Transit",
+    notes: arrived ? undefined : `Expected ${etaDate}`,
+  };
+};
+
+export const createFixtures = (overrides: Partial<FixtureOptions> = {}): Fixtures => {
+  const options = { ...DEFAULT_FIXTURE_OPTIONS, ...overrides };
+  const { referenceDate } = options;
+  const random = createRandom(options.seed);
+
+  const clients = createClients(random, options.clients);
+  const suppliers = createSuppliers(random, options.suppliers, options.countries);
+
+  const projects: Project[] = Array.from({ length: options.projects }, (_, index) => {
+    const startDate = addDays(referenceDate, random.int(-360, 60));
+    const endDate = addDays(startDate, random.int(120, 420));
+    const progress = progressAt(startDate, endDate, referenceDate);
+    const site = random.pick(PROJECT_SITES);
+    const status = startDate > referenceDate
+      ? "Pending"
+      : endDate <= referenceDate
+        ? "Completed"
+        : random.chance(options.delayRate) ? "Delayed" : "In Progress";
+
+    return {
+      id: random.uuid(),
+      name: `${site} ${random.pick(PROJECT_KINDS)}`,
+      clientId: clients[index % clients.length].id,
+      location: random.pick(CLIENT_CITIES),
+      status,
+      progress: status === "Completed" ? 100 : progress,
+      startDate,
+      endDate,
+      projectManager: person(random),
+      description: `Procurement and delivery for the ${site} site`,
+      budgetCategories: random.sample(BUDGET_CATEGORIES, random.int(2, 4)).map(name => ({ name, amount: 0 })),
+    };
+  });
+
+  let sequence = 0;
+  const purchaseOrders = projects.flatMap(project =>
+    Array.from({ length: options.purchaseOrdersPerProject }, () =>
+      createPurchaseOrder(random, project, random.pick(suppliers), ++sequence, options)
+    )
+  );
+
+  // Budgets leave some headroom over what was actually ordered
+  projects.forEach(project => {
+    const orders = purchaseOrders.filter(po => po.projectId === project.id);
+    project.budgetCategories = project.budgetCategories.map(category => {
+      const ordered = orders
+        .filter(po => po.costCategory === category.name)
+        .reduce((sum, po) => sum + (po.amount ?? 0), 0);
+      return { ...category, amount: Math.round((ordered || 50000) * (1 + random.int(5, 30) / 100)) };
+    });
+    project.budget = project.budgetCategories.reduce((sum, category) => sum + category.amount, 0);
+  });
+
+  const shipments = purchaseOrders
+    .map(po => createShipment(random, po, referenceDate))
+    .filter((shipment): shipment is Shipment => shipment !== null);
+
+  const externalLinks: ExternalLink[] = purchaseOrders
+    .filter(po => po.issuedDate < referenceDate && random.chance(0.5))
+    .map(po => {
+      const type = random.pick(LINK_TYPES);
+      return {
+        id: random.uuid(),
+        title: `${po.poNumber} ${type.toLowerCase()}`,
+        url: `https://example.com/${type.toLowerCase()}s/${po.poNumber.toLowerCase()}`,
+        type,
+        date: [addDays(po.issuedDate, random.int(1, 30)), referenceDate].sort()[0],
+        supplierId: po.supplierId,
+        projectId: po.projectId,
+        poId: po.id,
+      };
+    });
+
+  return { clients, suppliers, projects, purchaseOrders, externalLinks, shipments };
+};
+
+export const createScenario = (preset: ScenarioPreset, overrides: Partial<FixtureOptions> = {}): Fixtures =>
+  createFixtures({ ...SCENARIO_PRESETS[preset].options, ...overrides });
@@ -0,0 +1,198 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Client,
+  ExternalLink,
+  Project,
+  PurchaseOrder,
+  Shipment,
+  Supplier,
+  useDataMutations,
+} from "@/contexts/DataContext";
+import type { DependentResolution } from "@/integrations/supabase/dependents";
+import { QueryEntity, queryKeys } from "@/lib/queryCache";
+
+// Mutation hooks over the DataProvider's write path, which keeps permission
+// checks, auditing and the offline queue in one place. On success they
+// invalidate every entity the change can touch.
+const useInvalidatingMutation = <TVariables>(
+  mutationFn: (variables: TVariables) => Promise<void>,
+  entities: QueryEntity[]
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn,
+    onSuccess: () =>
+      Promise.all(entities.map(entity => queryClient.invalidateQueries({ queryKey: queryKeys[entity].all }))),
+  });
+};
+
+interface UpdateVariables<T> {
+  id: string;
+  update: Partial<T>;
+}
+
+// Without a resolution, whatever depends on the record goes to the trash with it
+interface DeleteVariables {
+  id: string;
+  resolution?: DependentResolution;
+}
+
+export const useAddProject = () => {
+  const { addProject } = useDataMutations();
+  return useInvalidatingMutation((project: Omit<Project, "id">) => addProject(project), ["projects"]);
+};
+
+export const useUpdateProject = () => {
+  const { updateProject } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<Project>) => updateProject(id, update),
+    ["projects"]
+  );
+};
+
+// A project's POs, shipments and links go with it or move elsewhere, so those are refreshed too
+export const useDeleteProject = () => {
+  const { deleteProject } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, resolution }: DeleteVariables) => deleteProject(id, resolution),
+    ["projects", "purchaseOrders", "shipments", "externalLinks"]
+  );
+};
+
+export const useAddSupplier = () => {
+  const { addSupplier } = useDataMutations();
+  return useInvalidatingMutation((supplier: Omit<Supplier, "id">) => addSupplier(supplier), ["suppliers"]);
+};
+
+export const useUpdateSupplier = () => {
+  const { updateSupplier } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<Supplier>) => updateSupplier(id, update),
+    ["suppliers"]
+  );
+};
+
+export const useDeleteSupplier = () => {
+  const { deleteSupplier } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, resolution }: DeleteVariables) => deleteSupplier(id, resolution),
+    ["suppliers", "purchaseOrders", "shipments", "externalLinks"]
+  );
+};
+
+export const useAddClient = () => {
+  const { addClient } = useDataMutations();
+  return useInvalidatingMutation((client: Omit<Client, "id">) => addClient(client), ["clients"]);
+};
+
+export const useUpdateClient = () => {
+  const { updateClient } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<Client>) => updateClient(id, update),
+    ["clients"]
+  );
+};
+
+export const useDeleteClient = () => {
+  const { deleteClient } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, resolution }: DeleteVariables) => deleteClient(id, resolution),
+    ["clients", "projects", "purchaseOrders", "shipments", "externalLinks"]
+  );
+};
+
+// PO changes roll up into project progress, so projects are refreshed too
+export const useAddPurchaseOrder = () => {
+  const { addPurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    (po: Omit<PurchaseOrder, "id">) => addPurchaseOrder(po),
+    ["purchaseOrders", "projects"]
+  );
+};
+
+export const useUpdatePurchaseOrder = () => {
+  const { updatePurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<Omit<PurchaseOrder, "id">>) => updatePurchaseOrder(id, update),
+    ["purchaseOrders", "projects"]
+  );
+};
+
+export const useAmendPurchaseOrder = () => {
+  const { amendPurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update, reason }: UpdateVariables<Omit<PurchaseOrder, "id">> & { reason: string }) =>
+      amendPurchaseOrder(id, update, reason),
+    ["purchaseOrders", "projects"]
+  );
+};
+
+export const useSubmitPurchaseOrder = () => {
+  const { submitPurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, comment }: { id: string; comment?: string }) => submitPurchaseOrder(id, comment),
+    ["purchaseOrders", "projects"]
+  );
+};
+
+export const useDecidePurchaseOrder = () => {
+  const { decidePurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, decision, comment }: { id: string; decision: "approved" | "rejected"; comment?: string }) =>
+      decidePurchaseOrder(id, decision, comment),
+    ["purchaseOrders", "projects"]
+  );
+};
+
+export const useIssuePurchaseOrder = () => {
+  const { issuePurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    (id: string) => issuePurchaseOrder(id),
+    ["purchaseOrders"]
+  );
+};
+
+export const useDeletePurchaseOrder = () => {
+  const { deletePurchaseOrder } = useDataMutations();
+  return useInvalidatingMutation(
+    (id: string) => deletePurchaseOrder(id),
+    ["purchaseOrders", "projects", "shipments", "externalLinks"]
+  );
+};
+
+export const useAddExternalLink = () => {
+  const { addExternalLink } = useDataMutations();
+  return useInvalidatingMutation((link: Omit<ExternalLink, "id">) => addExternalLink(link), ["externalLinks"]);
+};
+
+export const useUpdateExternalLink = () => {
+  const { updateExternalLink } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<ExternalLink>) => updateExternalLink(id, update),
+    ["externalLinks"]
+  );
+};
+
+export const useDeleteExternalLink = () => {
+  const { deleteExternalLink } = useDataMutations();
+  return useInvalidatingMutation((id: string) => deleteExternalLink(id), ["externalLinks"]);
+};
+
+export const useAddShipment = () => {
+  const { addShipment } = useDataMutations();
+  return useInvalidatingMutation((shipment: Omit<Shipment, "id">) => addShipment(shipment), ["shipments"]);
+};
+
+export const useUpdateShipment = () => {
+  const { updateShipment } = useDataMutations();
+  return useInvalidatingMutation(
+    ({ id, update }: UpdateVariables<Shipment>) => updateShipment(id, update),
+    ["shipments"]
+  );
+};
+
+export const useDeleteShipment = () => {
+  const { deleteShipment } = useDataMutations();
+  return useInvalidatingMutation((id: string) => deleteShipment(id), ["shipments"]);
+};
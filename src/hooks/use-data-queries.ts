@@ -0,0 +1,161 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type {
+  Client,
+  ExternalLink,
+  Project,
+  PurchaseOrder,
+  Shipment,
+  Supplier,
+} from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  fetchClient,
+  fetchClients,
+  fetchExternalLinkPage,
+  fetchExternalLinks,
+  fetchProject,
+  fetchProjectPage,
+  fetchProjects,
+  fetchPurchaseOrder,
+  fetchPurchaseOrderPage,
+  fetchPurchaseOrders,
+  fetchShipmentPage,
+  fetchShipments,
+  fetchSupplier,
+  fetchSuppliers,
+} from "@/integrations/supabase/queries";
+import { isNetworkError } from "@/integrations/supabase/offlineSync";
+import { loadSnapshot } from "@/lib/offlineStore";
+import {
+  EntityFilters,
+  ListPage,
+  ListParams,
+  QueryEntity,
+  matchesFilters,
+  pageLocally,
+  queryKeys,
+} from "@/lib/queryCache";
+
+// Per-entity read hooks. Pages subscribe only to the queries they render and
+// each query fetches just its own rows, so a page never waits for (or
+// re-renders with) the rest of the data the way useData() does.
+
+// Offline, queries are answered from the copy of the data the signed-in user
+// keeps for offline use. Without a user there's no copy to fall back on.
+const fetchOrOffline = async <T, R>(
+  userId: string | undefined,
+  entity: QueryEntity,
+  fetch: () => Promise<R>,
+  fromOffline: (rows: T[]) => R
+) => {
+  try {
+    return await fetch();
+  } catch (error) {
+    const snapshot = userId && isNetworkError(error) ? await loadSnapshot(userId).catch(() => null) : null;
+    if (!snapshot) throw error;
+    return fromOffline(snapshot[entity] as unknown as T[]);
+  }
+};
+
+const useEntityList = <T extends { id: string }>(
+  entity: QueryEntity,
+  fetcher: (filters: EntityFilters) => Promise<T[]>,
+  filters: EntityFilters = {},
+  enabled = true
+) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys[entity].list(filters),
+    queryFn: () =>
+      fetchOrOffline<T, T[]>(user?.id, entity, () => fetcher(filters), rows => rows.filter(row => matchesFilters(row, filters))),
+    enabled,
+  });
+};
+
+const useEntityDetail = <T extends { id: string }>(
+  entity: QueryEntity,
+  fetcher: (id: string) => Promise<T | null>,
+  id: string | undefined
+) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys[entity].detail(id ?? ""),
+    queryFn: () =>
+      fetchOrOffline<T, T | null>(user?.id, entity, () => fetcher(id as string), rows => rows.find(row => row.id === id) ?? null),
+    enabled: !!id,
+  });
+};
+
+// Server-side pages keep showing the previous page while the next one loads
+const useEntityPage = <T extends { id: string }>(
+  entity: QueryEntity,
+  fetcher: (params: ListParams) => Promise<ListPage<T>>,
+  params: ListParams,
+  dateField: keyof T & string,
+  searchFields: (keyof T & string)[]
+) => {
+  const { user } = useAuth();
+  return useQuery({
+    queryKey: queryKeys[entity].page(params),
+    queryFn: () =>
+      fetchOrOffline<T, ListPage<T>>(
+        user?.id,
+        entity,
+        () => fetcher(params),
+        rows => pageLocally(rows, params, dateField, searchFields)
+      ),
+    placeholderData: keepPreviousData,
+  });
+};
+
+export const useClients = () => useEntityList<Client>("clients", fetchClients);
+
+export const useClient = (id: string | undefined) => useEntityDetail<Client>("clients", fetchClient, id);
+
+export const useSuppliers = () => useEntityList<Supplier>("suppliers", fetchSuppliers);
+
+export const useSupplier = (id: string | undefined) => useEntityDetail<Supplier>("suppliers", fetchSupplier, id);
+
+export const useProjects = () => useEntityList<Project>("projects", fetchProjects);
+
+export const useProjectsForClient = (clientId: string | undefined) =>
+  useEntityList<Project>("projects", fetchProjects, { clientId }, !!clientId);
+
+export const useProject = (id: string | undefined) => useEntityDetail<Project>("projects", fetchProject, id);
+
+export const usePurchaseOrders = () => useEntityList<PurchaseOrder>("purchaseOrders", fetchPurchaseOrders);
+
+export const usePurchaseOrdersForProject = (projectId: string | undefined) =>
+  useEntityList<PurchaseOrder>("purchaseOrders", fetchPurchaseOrders, { projectId }, !!projectId);
+
+export const usePurchaseOrdersForSupplier = (supplierId: string | undefined) =>
+  useEntityList<PurchaseOrder>("purchaseOrders", fetchPurchaseOrders, { supplierId }, !!supplierId);
+
+export const usePurchaseOrder = (id: string | undefined) =>
+  useEntityDetail<PurchaseOrder>("purchaseOrders", fetchPurchaseOrder, id);
+
+export const useExternalLinks = () => useEntityList<ExternalLink>("externalLinks", fetchExternalLinks);
+
+export const useShipments = () => useEntityList<Shipment>("shipments", fetchShipments);
+
+export const useShipmentsForProject = (projectId: string | undefined) =>
+  useEntityList<Shipment>("shipments", fetchShipments, { projectId }, !!projectId);
+
+export const useShipmentsForSupplier = (supplierId: string | undefined) =>
+  useEntityList<Shipment>("shipments", fetchShipments, { supplierId }, !!supplierId);
+
+export const usePurchaseOrderPage = (params: ListParams) =>
+  useEntityPage<PurchaseOrder>("purchaseOrders", fetchPurchaseOrderPage, params, "issuedDate", ["poNumber", "description"]);
+
+export const useShipmentPage = (params: ListParams) =>
+  useEntityPage<Shipment>("shipments", fetchShipmentPage, params, "etaDate", [
+    "trackingNumber",
+    "containerNumber",
+    "notes",
+  ]);
+
+export const useProjectPage = (params: ListParams) =>
+  useEntityPage<Project>("projects", fetchProjectPage, params, "startDate", ["name", "location", "description"]);
+
+export const useExternalLinkPage = (params: ListParams) =>
+  useEntityPage<ExternalLink>("externalLinks", fetchExternalLinkPage, params, "date", ["title"]);
@@ -0,0 +1,80 @@
+import { useSearchParams } from "react-router-dom";
+import { ListParams, SortDirection } from "@/lib/queryCache";
+
+export const PAGE_SIZES = [25, 50, 100];
+
+// URL parameter for each list setting; filters not listed keep their own name
+const PARAM_NAMES: Partial<Record<keyof ListParams, string>> = {
+  direction: "dir",
+  search: "q",
+  clientId: "client",
+  projectId: "project",
+  supplierId: "supplier",
+};
+
+const FILTER_KEYS: (keyof ListParams)[] = [
+  "search",
+  "status",
+  "approval",
+  "type",
+  "clientId",
+  "projectId",
+  "supplierId",
+  "from",
+  "to",
+];
+
+const paramName = (key: keyof ListParams) => PARAM_NAMES[key] ?? key;
+
+type ListDefaults = Pick<ListParams, "sort" | "direction">;
+
+// Keeps a paged list's page, sort and filters in the URL, so they survive a
+// reload and can be shared. Changing a filter or the sort goes back to page 1.
+export const useListParams = (defaults: ListDefaults) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const read = (key: keyof ListParams) => searchParams.get(paramName(key)) || undefined;
+  const pageSize = Number(read("pageSize"));
+  const direction = read("direction");
+
+  const params: ListParams = {
+    page: Math.max(1, Number(read("page")) || 1),
+    pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : PAGE_SIZES[0],
+    sort: read("sort") ?? defaults.sort,
+    direction: direction === "asc" || direction === "desc" ? direction : defaults.direction,
+  };
+  FILTER_KEYS.forEach(key => {
+    const value = read(key);
+    if (value) Object.assign(params, { [key]: value });
+  });
+
+  const setParams = (changes: Partial<ListParams>) => {
+    setSearchParams(
+      previous => {
+        const next = new URLSearchParams(previous);
+        Object.entries({ page: undefined, ...changes }).forEach(([key, value]) => {
+          const name = paramName(key as keyof ListParams);
+          if (value === undefined || value === null || value === "") {
+            next.delete(name);
+          } else {
+            next.set(name, String(value));
+          }
+        });
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  // Clicking the sorted column flips it; another column starts descending
+  const toggleSort = (sort: string) => {
+    const nextDirection: SortDirection =
+      params.sort === sort && params.direction === "desc" ? "asc" : "desc";
+    setParams({ sort, direction: nextDirection });
+  };
+
+  // Everything a SortableTableHead needs besides its label and column
+  const sortProps = { sort: params.sort, direction: params.direction, onSort: toggleSort };
+
+  return { params, setParams, sortProps };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { takeScheduledSnapshot } from "@/integrations/supabase/backup";
+
+// How often an open session checks whether the next snapshot is due
+const CHECK_INTERVAL = 60 * 60 * 1000;
+
+// Keeps a daily snapshot of the workspace in this browser while an admin has
+// the app open, on top of the ones taken before destructive actions
+export const useScheduledSnapshots = () => {
+  const { user, hasRole } = useAuth();
+  const isAdmin = hasRole(["admin"]);
+  const actor = useRef(user);
+  actor.current = user;
+
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    const check = () => {
+      takeScheduledSnapshot(actor.current)
+        .catch(error => console.error("Error taking scheduled snapshot:", error));
+    };
+    check();
+    const timer = window.setInterval(check, CHECK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [isAdmin]);
+};
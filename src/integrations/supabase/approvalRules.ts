@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { supabase } from "./backend";
+import type { Json } from "./types";
+import { ApprovalRule, DEFAULT_APPROVAL_RULES } from "@/lib/poApprovals";
+import { isUserRole, UserRole } from "@/lib/roles";
+
+// Stored in app_settings, where submit_purchase_order picks the chain from them
+export const APPROVAL_RULES_KEY = "po_approval_rules";
+
+const approvalRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  minAmount: z.number().min(0),
+  projectId: z.string().optional(),
+  approvers: z.array(z.custom<UserRole>(isUserRole)).min(1),
+});
+
+// Until an admin saves rules of their own, the defaults apply
+export const parseApprovalRules = (value: unknown): ApprovalRule[] => {
+  if (!Array.isArray(value)) return DEFAULT_APPROVAL_RULES;
+
+  return value.flatMap(item => {
+    const result = approvalRuleSchema.safeParse(item);
+    return result.success ? [result.data as ApprovalRule] : [];
+  });
+};
+
+export const fetchApprovalRules = async (): Promise<ApprovalRule[]> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', APPROVAL_RULES_KEY)
+    .maybeSingle();
+  if (error) throw error;
+
+  return parseApprovalRules(data?.value);
+};
+
+export const saveApprovalRules = async (rules: ApprovalRule[]) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({
+      key: APPROVAL_RULES_KEY,
+      value: JSON.parse(JSON.stringify(rules)) as Json,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'key' });
+  if (error) throw error;
+};
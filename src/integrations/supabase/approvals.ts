@@ -0,0 +1,21 @@
+import { supabase } from "./backend";
+
+// The approval workflow runs in database functions (see the
+// approval_functions migration). They pick the chain from the rules, check the
+// step a PO is waiting on and the caller's role, and refuse a decision from
+// whoever submitted the PO. The approval columns can't be written directly.
+
+export const submitForApproval = async (poId: string, comment?: string) => {
+  const { error } = await supabase.rpc('submit_purchase_order', { po_id: poId, comment });
+  if (error) throw error;
+};
+
+export const decideApproval = async (poId: string, decision: "approved" | "rejected", comment?: string) => {
+  const { error } = await supabase.rpc('decide_purchase_order', { po_id: poId, decision, comment });
+  if (error) throw error;
+};
+
+export const issueApproved = async (poId: string) => {
+  const { error } = await supabase.rpc('issue_purchase_order', { po_id: poId });
+  if (error) throw error;
+};
@@ -0,0 +1,88 @@
+import { supabase } from "./backend";
+import type { Json } from "./types";
+
+export type AuditEntity =
+  | "project"
+  | "client"
+  | "supplier"
+  | "purchaseOrder"
+  | "part"
+  | "externalLink"
+  | "shipment";
+
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  project: "Project",
+  client: "Client",
+  supplier: "Supplier",
+  purchaseOrder: "Purchase Order",
+  part: "Part",
+  externalLink: "External Link",
+  shipment: "Shipment",
+};
+
+export interface AuditEntry {
+  id: string;
+  actorId?: string;
+  actorEmail?: string;
+  entity: AuditEntity;
+  entityId: string;
+  action: AuditAction;
+  field?: string;
+  oldValue?: Json;
+  newValue?: Json;
+  projectId?: string;
+  supplierId?: string;
+  createdAt: string;
+}
+
+export interface AuditActor {
+  id: string;
+  email: string;
+}
+
+export interface AuditFilters {
+  entity?: AuditEntity;
+  action?: AuditAction;
+  projectId?: string;
+  supplierId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Entries are written by triggers on the audited tables (see the
+// audit_triggers migration); the app only reads them
+export const fetchAuditLog = async (filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 500);
+
+  if (filters.entity) query = query.eq('entity', filters.entity);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.projectId) query = query.eq('project_id', filters.projectId);
+  if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map(row => ({
+    id: row.id,
+    actorId: row.actor_id,
+    actorEmail: row.actor_email,
+    entity: row.entity as AuditEntity,
+    entityId: row.entity_id,
+    action: row.action as AuditAction,
+    field: row.field,
+    oldValue: row.old_value,
+    newValue: row.new_value,
+    projectId: row.project_id,
+    supplierId: row.supplier_id,
+    createdAt: row.created_at,
+  }));
+};
@@ -0,0 +1,27 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase as supabaseClient } from "./client";
+import type { Database } from "./types";
+
+// The parts of the Supabase client the data layer talks to: table queries,
+// database functions and realtime. Auth and storage always go to Supabase.
+export type DataBackend = Pick<SupabaseClient<Database>, "from" | "rpc" | "channel" | "getChannels" | "removeChannel">;
+
+let active: DataBackend = supabaseClient;
+
+// Points the data layer at another backend, such as createMemoryBackend() in
+// tests. Calling it without one goes back to Supabase.
+export const setDataBackend = (backend?: DataBackend) => {
+  active = backend ?? supabaseClient;
+};
+
+// Data-layer modules import this in place of the client itself. Each call
+// goes to whichever backend is active at the time, so swapping one in
+// doesn't need the modules reloaded.
+export const supabase: DataBackend = {
+  from: ((relation: "clients") => active.from(relation)) as DataBackend["from"],
+  // rpc's overloads are too deep to restate, so it is forwarded untyped
+  rpc: ((...args: unknown[]) => (active.rpc as (...args: unknown[]) => unknown)(...args)) as unknown as DataBackend["rpc"],
+  channel: (name, options) => active.channel(name, options),
+  getChannels: () => active.getChannels(),
+  removeChannel: channel => active.removeChannel(channel),
+};
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFixtures } from "@/data/fixtures";
+import { setDataBackend } from "./backend";
+import { BACKUP_VERSION, EXTRA_TABLES, WorkspaceBackup, createBackup, isBackupError, parseBackup, restoreBackup } from "./backup";
+import { MemoryBackend, createMemoryBackend } from "./memoryBackend";
+
+const fixtures = createFixtures({ clients: 1, suppliers: 1, projects: 1, purchaseOrdersPerProject: 2 });
+
+let backend: MemoryBackend;
+
+beforeEach(() => {
+  backend = createMemoryBackend(fixtures);
+  setDataBackend(backend);
+});
+
+afterEach(() => {
+  setDataBackend();
+});
+
+// A backup as an older version of the app wrote it: without the extra tables
+// and without the PO columns added since
+const olderBackup = (backup: WorkspaceBackup, version: number, droppedColumns: string[]) => {
+  const tables: Record<string, unknown[]> = { ...backup.tables };
+  EXTRA_TABLES.forEach(table => delete tables[table]);
+  tables.purchase_orders = backup.tables.purchase_orders.map(row =>
+    Object.fromEntries(Object.entries(row).filter(([column]) => !droppedColumns.includes(column)))
+  );
+  return JSON.stringify({ ...backup, version, tables });
+};
+
+describe("parseBackup", () => {
+  it("reads a backup of the current version as it was written", async () => {
+    const backup = await createBackup(null);
+
+    const parsed = parseBackup(JSON.stringify(backup));
+
+    expect(parsed.version).toBe(BACKUP_VERSION);
+    expect(parsed.tables).toEqual(backup.tables);
+  });
+
+  it("upgrades and restores a version 1 backup", async () => {
+    const text = olderBackup(await createBackup(null), 1, ["revision", "revisions", "approval_status", "approvals", "submitted_by"]);
+
+    const parsed = parseBackup(text);
+
+    expect(parsed.tables.purchase_orders.every(row =>
+      row.revision === "A" && row.approval_status === "Issued" && row.submitted_by === null
+    )).toBe(true);
+    expect(parsed.tables.audit_log).toBeUndefined();
+
+    backend.seed("purchase_orders", []);
+    backend.seed("parts", []);
+    await restoreBackup(parsed, "merge");
+    expect(backend.rows("purchase_orders")).toHaveLength(fixtures.purchaseOrders.length);
+  });
+
+  it("upgrades and restores a version 3 backup", async () => {
+    const backup = await createBackup(null);
+    const text = olderBackup(backup, 3, ["submitted_by"]);
+
+    const parsed = parseBackup(text);
+
+    expect(parsed.tables.purchase_orders.map(row => row.approval_status))
+      .toEqual(backup.tables.purchase_orders.map(row => row.approval_status));
+    expect(parsed.tables.purchase_orders.every(row => row.submitted_by === null)).toBe(true);
+
+    await restoreBackup(parsed, "replace");
+    expect(backend.rows("purchase_orders").map(row => row.id).sort())
+      .toEqual(backup.tables.purchase_orders.map(row => row.id).sort());
+  });
+
+  it("lists the rows that don't fit the schema", async () => {
+    const backup = await createBackup(null);
+    const [po, ...others] = backup.tables.purchase_orders;
+    const text = JSON.stringify({ ...backup, tables: { ...backup.tables, purchase_orders: [{ ...po, amount: "lots" }, ...others] } });
+
+    expect.assertions(2);
+    try {
+      parseBackup(text);
+    } catch (error) {
+      expect(isBackupError(error)).toBe(true);
+      expect(error.problems).toEqual([expect.stringMatching(/^Purchase orders row 1: .*amount/)]);
+    }
+  });
+});
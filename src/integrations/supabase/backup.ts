@@ -0,0 +1,363 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import { supabase } from "./backend";
+import type { AuditActor } from "./auditLog";
+import { validateRow } from "./mappers";
+import { TABLE_ORDER } from "./trash";
+import type { Json } from "./types";
+import { download } from "@/lib/export";
+import {
+  listLocalBackups,
+  saveLocalBackup,
+  type LocalBackup,
+  type OfflineTable,
+  type QueuedOperation,
+} from "@/lib/offlineStore";
+
+// A backup is every row of every workspace table, trashed rows included, in
+// database form. The format is versioned so older files can be upgraded on
+// restore as the schema moves on.
+export const BACKUP_FORMAT = "aseps-workspace-backup";
+export const BACKUP_VERSION = 4;
+
+export type BackupRow = { id: string } & Record<string, unknown>;
+
+// Tables kept next to the records: supplier change requests, the audit log
+// and the app settings (approval rules, exchange rates, the 2FA policy).
+// restore_backup writes them itself rather than through apply_operations.
+// Backups from before version 4 don't have them, and restoring one leaves
+// them as they are.
+export type ExtraTable = "supplier_change_requests" | "audit_log" | "app_settings";
+export type BackupTable = OfflineTable | ExtraTable;
+
+export const EXTRA_TABLES: ExtraTable[] = ["supplier_change_requests", "audit_log", "app_settings"];
+export const BACKUP_TABLES: BackupTable[] = [...TABLE_ORDER, ...EXTRA_TABLES];
+
+export interface WorkspaceBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  createdBy: string | null;
+  tables: Record<OfflineTable, BackupRow[]> & Partial<Record<ExtraTable, Record<string, unknown>[]>>;
+}
+
+// A table the backup doesn't have has no count
+export type BackupCounts = Partial<Record<BackupTable, number>>;
+
+// Merging adds and updates the backup's rows and keeps everything else;
+// replacing also deletes rows the backup doesn't have
+export type RestoreMode = "merge" | "replace";
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  clients: "Clients",
+  suppliers: "Suppliers",
+  projects: "Projects",
+  purchase_orders: "Purchase orders",
+  parts: "Parts",
+  shipments: "Shipments",
+  external_links: "External links",
+  supplier_change_requests: "Supplier change requests",
+  audit_log: "Audit log",
+  app_settings: "Settings",
+};
+
+// A file that isn't a usable backup, with what was wrong with it
+export class BackupError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = "BackupError";
+    this.problems = problems;
+  }
+}
+
+export const isBackupError = (error: unknown): error is BackupError =>
+  error instanceof BackupError;
+
+// Supabase caps a select at 1000 rows
+const PAGE_SIZE = 1000;
+// Enough to see what's wrong without listing every row of a bad file
+const MAX_PROBLEMS = 20;
+
+// Scheduled snapshots are taken once a day while an admin has the app open
+export const SCHEDULED_SNAPSHOT_INTERVAL = 24 * 60 * 60 * 1000;
+
+// Table names vary at runtime here, so the typed client can't narrow them
+const fromTable = (table: BackupTable) => supabase.from(table as "clients");
+
+// Settings are keyed by name; every other table by id
+const keyColumn = (table: BackupTable) => table === "app_settings" ? "key" : "id";
+
+const json = z.custom<Json>(value => value !== undefined);
+
+// The extra tables aren't mapped to models, so their rows are checked here
+const EXTRA_ROW_SCHEMAS: Record<ExtraTable, z.AnyZodObject> = {
+  supplier_change_requests: z.object({
+    id: z.string(),
+    supplier_id: z.string(),
+    po_id: z.string(),
+    kind: z.string(),
+    payload: json,
+    status: z.enum(["pending", "approved", "rejected"]),
+    submitted_by: z.string().nullable(),
+    submitted_at: z.string(),
+    reviewed_by: z.string().nullable(),
+    reviewed_at: z.string().nullable(),
+    review_note: z.string().nullable(),
+  }),
+  audit_log: z.object({
+    id: z.string(),
+    actor_id: z.string().nullable(),
+    actor_email: z.string().nullable(),
+    entity: z.string(),
+    entity_id: z.string(),
+    action: z.string(),
+    field: z.string().nullable(),
+    old_value: json.nullable(),
+    new_value: json.nullable(),
+    project_id: z.string().nullable(),
+    supplier_id: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  app_settings: z.object({
+    key: z.string(),
+    value: json,
+    updated_at: z.string().nullable(),
+  }),
+};
+
+const validateExtraRow = (table: ExtraTable, row: unknown): Record<string, unknown> => {
+  const result = EXTRA_ROW_SCHEMAS[table].strict().safeParse(row);
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join(".") || "value"}: ${issue.message}`).join("; "));
+  }
+  return result.data;
+};
+
+// Brings an older backup's rows up to the current schema. Version 1 predates
+// PO revisions, so every PO in it is still on its first. Version 2 predates
+// approvals, so its POs had all been issued. Version 3 predates recording who
+// submitted a PO.
+const upgradeTables = (tables: Partial<Record<BackupTable, unknown>>, version: number) => {
+  if (version < 2 && Array.isArray(tables.purchase_orders)) {
+    tables.purchase_orders = tables.purchase_orders.map(row =>
+      row && typeof row === "object" ? { revision: "A", revisions: [], ...row } : row
+    );
+  }
+  if (version < 3 && Array.isArray(tables.purchase_orders)) {
+    tables.purchase_orders = tables.purchase_orders.map(row =>
+      row && typeof row === "object" ? { approval_status: "Issued", approvals: [], ...row } : row
+    );
+  }
+  if (version < 4 && Array.isArray(tables.purchase_orders)) {
+    tables.purchase_orders = tables.purchase_orders.map(row =>
+      row && typeof row === "object" ? { submitted_by: null, ...row } : row
+    );
+  }
+  return tables;
+};
+
+const fetchAllRows = async (table: BackupTable, columns = '*'): Promise<BackupRow[]> => {
+  const rows: BackupRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fromTable(table)
+      .select(columns)
+      .order(keyColumn(table))
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    // search_vector is generated from the other columns, so it isn't kept
+    rows.push(...(data as unknown as BackupRow[]).map(({ search_vector, ...row }) => row as BackupRow));
+    if (data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export const countBackup = (backup: WorkspaceBackup): BackupCounts =>
+  Object.fromEntries(
+    BACKUP_TABLES.filter(table => backup.tables[table]).map(table => [table, backup.tables[table].length])
+  );
+
+// How many rows the given tables hold now, trashed rows included
+export const countStoredRows = async (tables: BackupTable[]): Promise<BackupCounts> => {
+  const counts: BackupCounts = {};
+  for (const table of tables) {
+    const { count, error } = await fromTable(table).select(keyColumn(table), { count: 'exact', head: true });
+    if (error) throw error;
+    counts[table] = count ?? 0;
+  }
+  return counts;
+};
+
+export const createBackup = async (actor: AuditActor | null): Promise<WorkspaceBackup> => {
+  const tables = {} as WorkspaceBackup["tables"];
+  for (const table of BACKUP_TABLES) {
+    tables[table] = await fetchAllRows(table);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: actor?.email ?? null,
+    tables,
+  };
+};
+
+export const downloadBackup = (backup: WorkspaceBackup) =>
+  download(
+    new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }),
+    `workspace-backup-${format(new Date(backup.createdAt), "yyyy-MM-dd-HHmm")}.json`
+  );
+
+// Takes a backup and keeps it in this browser. Destructive admin actions call
+// this first and don't go ahead if it fails.
+export const snapshotBeforeDestructiveAction = async (actor: AuditActor | null, reason: string) =>
+  saveLocalBackup({ reason, backup: await createBackup(actor) });
+
+// Takes the scheduled snapshot if the last one in this browser is a day old
+// or there isn't one yet. Resolves to null when none was due.
+export const takeScheduledSnapshot = async (actor: AuditActor | null): Promise<LocalBackup | null> => {
+  const last = (await listLocalBackups()).find(entry => entry.scheduled);
+  if (last && Date.now() - new Date(last.backup.createdAt).getTime() < SCHEDULED_SNAPSHOT_INTERVAL) {
+    return null;
+  }
+  return saveLocalBackup({ reason: "Daily snapshot", scheduled: true, backup: await createBackup(actor) });
+};
+
+// Reads a backup file and checks every row against the current schema.
+// Throws a BackupError listing the problems if anything doesn't fit.
+export const parseBackup = (text: string): WorkspaceBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError("The file isn't valid JSON");
+  }
+
+  const archive = data as Partial<WorkspaceBackup> | null;
+  if (!archive || typeof archive !== "object" || archive.format !== BACKUP_FORMAT) {
+    throw new BackupError("This file isn't a workspace backup");
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    throw new BackupError("This backup was made by a newer version of the app");
+  }
+  const sourceTables = upgradeTables({ ...archive.tables }, archive.version);
+
+  const problems: string[] = [];
+  const tables = {} as WorkspaceBackup["tables"];
+
+  for (const table of TABLE_ORDER) {
+    const rows: unknown = sourceTables[table];
+    if (!Array.isArray(rows)) {
+      problems.push(`${BACKUP_TABLE_LABELS[table]}: missing from the backup`);
+      continue;
+    }
+
+    const seen = new Set<string>();
+    tables[table] = [];
+    rows.forEach((row, index) => {
+      try {
+        const valid = validateRow(table, row);
+        if (seen.has(valid.id)) throw new Error(`duplicate id ${valid.id}`);
+        seen.add(valid.id);
+        tables[table].push(valid);
+      } catch (error) {
+        problems.push(`${BACKUP_TABLE_LABELS[table]} row ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  for (const table of EXTRA_TABLES) {
+    const rows: unknown = sourceTables[table];
+    if (rows === undefined && archive.version < 4) continue;
+    if (!Array.isArray(rows)) {
+      problems.push(`${BACKUP_TABLE_LABELS[table]}: missing from the backup`);
+      continue;
+    }
+
+    const seen = new Set<unknown>();
+    tables[table] = [];
+    rows.forEach((row, index) => {
+      try {
+        const valid = validateExtraRow(table, row);
+        const key = valid[keyColumn(table)];
+        if (seen.has(key)) throw new Error(`duplicate ${keyColumn(table)} ${key}`);
+        seen.add(key);
+        tables[table].push(valid);
+      } catch (error) {
+        problems.push(`${BACKUP_TABLE_LABELS[table]} row ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_PROBLEMS);
+    if (problems.length > MAX_PROBLEMS) shown.push(`...and ${problems.length - MAX_PROBLEMS} more`);
+    throw new BackupError("The backup doesn't match the current schema", shown);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: String(archive.createdAt ?? ""),
+    createdBy: archive.createdBy ?? null,
+    tables,
+  };
+};
+
+// Writes the backup in one transaction. Rows are added or updated parents
+// first; a replace then deletes whatever the backup doesn't have, children
+// first, so nothing is ever left pointing at a missing row. restore_backup is
+// apply_operations for admins, letting POs keep the approval state they were
+// saved with, followed by the extra tables: change requests are matched by
+// id (a replace drops the ones the backup doesn't have), settings by key,
+// and audit entries are only ever added.
+export const restoreBackup = async (backup: WorkspaceBackup, mode: RestoreMode) => {
+  const writes: QueuedOperation[] = [];
+  const deletes: QueuedOperation[] = [];
+
+  for (const table of TABLE_ORDER) {
+    const existing = new Set((await fetchAllRows(table, 'id')).map(row => row.id));
+    const restored = new Set<string>();
+
+    backup.tables[table].forEach(({ id, ...values }) => {
+      restored.add(id);
+      writes.push({ table, action: existing.has(id) ? "update" : "insert", rowId: id, values });
+    });
+
+    if (mode === "replace") {
+      deletes.unshift(
+        ...[...existing]
+          .filter(id => !restored.has(id))
+          .map(id => ({ table, action: "delete" as const, rowId: id }))
+      );
+    }
+  }
+
+  const { error } = await supabase.rpc('restore_backup', {
+    operations: [...writes, ...deletes].map(({ table, action, rowId, values }) => ({ table, action, rowId, values })) as Json,
+    records: Object.fromEntries(EXTRA_TABLES.filter(table => backup.tables[table]).map(table => [table, backup.tables[table]])) as Json,
+    replace_all: mode === "replace",
+  });
+  if (error) throw error;
+};
+
+// Permanently deletes every record, trashed ones included, and the supplier
+// change requests that point at them, as replacing the workspace with an
+// empty backup would. The audit log and settings are kept.
+export const clearWorkspace = () =>
+  restoreBackup(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      createdBy: null,
+      tables: {
+        ...Object.fromEntries(TABLE_ORDER.map(table => [table, []])),
+        supplier_change_requests: [],
+      } as WorkspaceBackup["tables"],
+    },
+    "replace"
+  );
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { supabase } from "./backend";
+import type { Json } from "./types";
+import {
+  BASE_CURRENCY,
+  CurrencyCode,
+  DEFAULT_EXCHANGE_RATES,
+  ExchangeRate,
+  isCurrencyCode,
+} from "@/lib/currency";
+
+// Stored in app_settings, where the approval functions convert PO amounts
+// with the same rates the app reports in
+export const CURRENCY_SETTINGS_KEY = "currency_settings";
+
+export interface CurrencySettings {
+  reportingCurrency: CurrencyCode;
+  exchangeRates: ExchangeRate[];
+}
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reportingCurrency: BASE_CURRENCY,
+  exchangeRates: DEFAULT_EXCHANGE_RATES,
+};
+
+const currencyCode = z.custom<CurrencyCode>(isCurrencyCode);
+
+const exchangeRateSchema = z.object({
+  id: z.string().min(1),
+  currency: currencyCode,
+  rate: z.number().positive(),
+  effectiveDate: z.string().min(1),
+});
+
+// Settings as stored; rates that don't parse are left out and a missing or
+// unreadable value falls back to the defaults
+export const parseCurrencySettings = (value: unknown): CurrencySettings => {
+  const settings = z.object({ reportingCurrency: currencyCode, exchangeRates: z.array(z.unknown()) }).safeParse(value);
+  if (!settings.success) return DEFAULT_CURRENCY_SETTINGS;
+
+  return {
+    reportingCurrency: settings.data.reportingCurrency,
+    exchangeRates: settings.data.exchangeRates.flatMap(item => {
+      const rate = exchangeRateSchema.safeParse(item);
+      return rate.success ? [rate.data as ExchangeRate] : [];
+    }),
+  };
+};
+
+export const fetchCurrencySettings = async (): Promise<CurrencySettings> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', CURRENCY_SETTINGS_KEY)
+    .maybeSingle();
+  if (error) throw error;
+
+  return parseCurrencySettings(data?.value);
+};
+
+export const saveCurrencySettings = async (settings: CurrencySettings) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({
+      key: CURRENCY_SETTINGS_KEY,
+      value: JSON.parse(JSON.stringify(settings)) as Json,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'key' });
+  if (error) throw error;
+};
@@ -1,18 +1,52 @@
 
-import { supabase } from "./client";
-import { Client, ExternalLink, Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
-import { createDummyData } from "@/data/dummy-data";
+import { supabase } from "./backend";
+import { Client, ExternalLink, Project, PurchaseOrder, Shipment, Supplier } from "@/contexts/DataContext";
+import type { Fixtures } from "@/data/fixtures";
+import type { OfflineTable } from "@/lib/offlineStore";
+import {
+  mapNewClientToDb,
+  mapNewExternalLinkToDb,
+  mapNewPartToDb,
+  mapNewProjectToDb,
+  mapNewPurchaseOrderToDb,
+  mapNewShipmentToDb,
+  mapNewSupplierToDb,
+  mapProjectToDb,
+} from "./mappers";
 
-// Convert camelCase to snake_case for database fields
-const camelToSnake = (str: string) => str.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+// Supabase caps a select at 1000 rows, and large inserts are split to keep
+// each request a reasonable size
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
 
-// Load dummy data
-export const loadDummyData = () => {
-  return createDummyData();
+// Table names vary at runtime here, so the typed client can't narrow them
+const fromTable = (table: OfflineTable) => supabase.from(table as "clients");
+
+// Ids already in the table, trashed rows included, so nothing is inserted twice
+const fetchExistingIds = async (table: OfflineTable) => {
+  const ids = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fromTable(table)
+      .select('id')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    data.forEach(row => ids.add(row.id));
+    if (data.length < PAGE_SIZE) return ids;
+  }
+};
+
+const insertInBatches = async (table: OfflineTable, rows: Record<string, unknown>[]) => {
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const { error } = await fromTable(table).insert(rows.slice(start, start + INSERT_BATCH_SIZE) as never);
+    if (error) throw error;
+  }
 };
 
 // Sync dummy data with Supabase
-export const syncDummyToSupabase = async (data: any) => {
+export const syncDummyToSupabase = async (data: Fixtures) => {
   try {
     // Clients
     await syncClientsToSupabase(data.clients);
@@ -29,6 +63,9 @@ export const syncDummyToSupabase = async (data: any) => {
     // External Links
     await syncExternalLinksToSupabase(data.externalLinks);
     
+    // Shipments
+    await syncShipmentsToSupabase(data.shipments);
+    
     console.log("Successfully synced dummy data with Supabase");
   } catch (error) {
     console.error("Error syncing dummy data with Supabase:", error);
@@ -40,13 +77,7 @@ export const syncDummyToSupabase = async (data: any) => {
 export const syncClientsToSupabase = async (clients: Client[]) => {
   try {
     // Check existing clients
-    const { data: existingClients, error: fetchError } = await supabase
-      .from('clients')
-      .select('id');
-      
-    if (fetchError) throw fetchError;
-    
-    const existingIds = new Set(existingClients?.map(client => client.id) || []);
+    const existingIds = await fetchExistingIds('clients');
     
     // Filter clients that don't exist yet
     const newClients = clients.filter(client => !existingIds.has(client.id));
@@ -54,20 +85,9 @@ export const syncClientsToSupabase = async (clients: Client[]) => {
     if (newClients.length === 0) return;
     
     // Insert new clients
-    const clientsToInsert = newClients.map(client => ({
-      id: client.id,
-      name: client.name,
-      contact_person: client.contactPerson,
-      email: client.email,
-      phone: client.phone,
-      location: client.location,
-    }));
-    
-    const { error: insertError } = await supabase
-      .from('clients')
-      .insert(clientsToInsert);
-      
-    if (insertError) throw insertError;
+    const clientsToInsert = newClients.map(client => ({ id: client.id, ...mapNewClientToDb(client) }));
+    
+    await insertInBatches('clients', clientsToInsert);
     
     console.log(`Synced ${newClients.length} clients to Supabase`);
   } catch (error) {
@@ -80,13 +100,7 @@ export const syncClientsToSupabase = async (clients: Client[]) => {
 export const syncSuppliersToSupabase = async (suppliers: Supplier[]) => {
   try {
     // Check existing suppliers
-    const { data: existingSuppliers, error: fetchError } = await supabase
-      .from('suppliers')
-      .select('id');
-      
-    if (fetchError) throw fetchError;
-    
-    const existingIds = new Set(existingSuppliers?.map(supplier => supplier.id) || []);
+    const existingIds = await fetchExistingIds('suppliers');
     
     // Filter suppliers that don't exist yet
     const newSuppliers = suppliers.filter(supplier => !existingIds.has(supplier.id));
@@ -94,25 +108,9 @@ export const syncSuppliersToSupabase = async (suppliers: Supplier[]) => {
     if (newSuppliers.length === 0) return;
     
     // Insert new suppliers
-    const suppliersToInsert = newSuppliers.map(supplier => ({
-      id: supplier.id,
-      name: supplier.name,
-      contact_person: supplier.contactPerson,
-      email: supplier.email,
-      phone: supplier.phone,
-      country: supplier.country,
-      location: supplier.location,
-      rating: supplier.rating,
-      on_time_delivery: supplier.onTimeDelivery,
-      positive_comments: supplier.positiveComments,
-      negative_comments: supplier.negativeComments,
-    }));
-    
-    const { error: insertError } = await supabase
-      .from('suppliers')
-      .insert(suppliersToInsert);
-      
-    if (insertError) throw insertError;
+    const suppliersToInsert = newSuppliers.map(supplier => ({ id: supplier.id, ...mapNewSupplierToDb(supplier) }));
+    
+    await insertInBatches('suppliers', suppliersToInsert);
     
     console.log(`Synced ${newSuppliers.length} suppliers to Supabase`);
   } catch (error) {
@@ -125,13 +123,7 @@ export const syncSuppliersToSupabase = async (suppliers: Supplier[]) => {
 export const syncProjectsToSupabase = async (projects: Project[]) => {
   try {
     // Check existing projects
-    const { data: existingProjects, error: fetchError } = await supabase
-      .from('projects')
-      .select('id');
-      
-    if (fetchError) throw fetchError;
-    
-    const existingIds = new Set(existingProjects?.map(project => project.id) || []);
+    const existingIds = await fetchExistingIds('projects');
     
     // Filter projects that don't exist yet
     const newProjects = projects.filter(project => !existingIds.has(project.id));
@@ -139,24 +131,9 @@ export const syncProjectsToSupabase = async (projects: Project[]) => {
     if (newProjects.length === 0) return;
     
     // Insert new projects
-    const projectsToInsert = newProjects.map(project => ({
-      id: project.id,
-      name: project.name,
-      client_id: project.clientId,
-      location: project.location,
-      status: project.status,
-      progress: project.progress,
-      start_date: project.startDate,
-      end_date: project.endDate,
-      project_manager: project.projectManager,
-      description: project.description,
-    }));
-    
-    const { error: insertError } = await supabase
-      .from('projects')
-      .insert(projectsToInsert);
-      
-    if (insertError) throw insertError;
+    const projectsToInsert = newProjects.map(project => ({ id: project.id, ...mapNewProjectToDb(project) }));
+    
+    await insertInBatches('projects', projectsToInsert);
     
     console.log(`Synced ${newProjects.length} projects to Supabase`);
   } catch (error) {
@@ -169,58 +146,22 @@ export const syncProjectsToSupabase = async (projects: Project[]) => {
 export const syncPurchaseOrdersToSupabase = async (purchaseOrders: PurchaseOrder[]) => {
   try {
     // Check existing purchase orders
-    const { data: existingPOs, error: fetchError } = await supabase
-      .from('purchase_orders')
-      .select('id');
-      
-    if (fetchError) throw fetchError;
-    
-    const existingIds = new Set(existingPOs?.map(po => po.id) || []);
+    const existingIds = await fetchExistingIds('purchase_orders');
     
     // Filter purchase orders that don't exist yet
     const newPurchaseOrders = purchaseOrders.filter(po => !existingIds.has(po.id));
     
     if (newPurchaseOrders.length === 0) return;
     
-    // Insert new purchase orders
-    for (const po of newPurchaseOrders) {
-      // Insert PO
-      const { data: poData, error: poError } = await supabase
-        .from('purchase_orders')
-        .insert([{
-          id: po.id,
-          po_number: po.poNumber,
-          project_id: po.projectId,
-          supplier_id: po.supplierId,
-          status: po.status,
-          issued_date: po.issuedDate,
-          deadline: po.deadline,
-          progress: po.progress || 0,
-          amount: po.amount,
-          description: po.description,
-        }])
-        .select();
-        
-      if (poError) throw poError;
-      
-      // Insert parts
-      if (po.parts && po.parts.length > 0) {
-        const partsToInsert = po.parts.map(part => ({
-          id: part.id,
-          name: part.name,
-          quantity: part.quantity,
-          status: part.status,
-          progress: part.progress || 0, // Make sure progress is included
-          po_id: po.id,
-        }));
-        
-        const { error: partsError } = await supabase
-          .from('parts')
-          .insert(partsToInsert);
-          
-        if (partsError) throw partsError;
-      }
-    }
+    // Insert the POs, then their parts once every PO they point at exists.
+    // Only the approval functions take a PO past draft, so they go in as drafts.
+    await insertInBatches('purchase_orders', newPurchaseOrders.map(po => ({
+      id: po.id,
+      ...mapNewPurchaseOrderToDb({ ...po, approvalStatus: "Draft", approvals: [] }),
+    })));
+    await insertInBatches('parts', newPurchaseOrders.flatMap(po =>
+      (po.parts || []).map(part => ({ id: part.id, ...mapNewPartToDb(part, po.id) }))
+    ));
     
     console.log(`Synced ${newPurchaseOrders.length} purchase orders to Supabase`);
   } catch (error) {
@@ -233,13 +174,7 @@ export const syncPurchaseOrdersToSupabase = async (purchaseOrders: PurchaseOrder
 export const syncExternalLinksToSupabase = async (externalLinks: ExternalLink[]) => {
   try {
     // Check existing external links
-    const { data: existingLinks, error: fetchError } = await supabase
-      .from('external_links')
-      .select('id');
-      
-    if (fetchError) throw fetchError;
-    
-    const existingIds = new Set(existingLinks?.map(link => link.id) || []);
+    const existingIds = await fetchExistingIds('external_links');
     
     // Filter external links that don't exist yet
     const newExternalLinks = externalLinks.filter(link => !existingIds.has(link.id));
@@ -247,22 +182,9 @@ export const syncExternalLinksToSupabase = async (externalLinks: ExternalLink[])
     if (newExternalLinks.length === 0) return;
     
     // Insert new external links
-    const linksToInsert = newExternalLinks.map(link => ({
-      id: link.id,
-      title: link.title,
-      url: link.url,
-      type: link.type,
-      date: link.date,
-      supplier_id: link.supplierId,
-      project_id: link.projectId,
-      po_id: link.poId,
-    }));
-    
-    const { error: insertError } = await supabase
-      .from('external_links')
-      .insert(linksToInsert);
-      
-    if (insertError) throw insertError;
+    const linksToInsert = newExternalLinks.map(link => ({ id: link.id, ...mapNewExternalLinkToDb(link) }));
+    
+    await insertInBatches('external_links', linksToInsert);
     
     console.log(`Synced ${newExternalLinks.length} external links to Supabase`);
   } catch (error) {
@@ -271,22 +193,29 @@ export const syncExternalLinksToSupabase = async (externalLinks: ExternalLink[])
   }
 };
 
-// Update a project in Supabase
-export const updateSupabaseProject = async (id: string, data: any) => {
+// Sync shipments with Supabase
+export const syncShipmentsToSupabase = async (shipments: Shipment[]) => {
   try {
-    const updateData: any = {};
+    const existingIds = await fetchExistingIds('shipments');
+    const newShipments = shipments.filter(shipment => !existingIds.has(shipment.id));
+    
+    if (newShipments.length === 0) return;
     
-    // Convert camelCase keys to snake_case for database
-    for (const key in data) {
-      if (Object.prototype.hasOwnProperty.call(data, key)) {
-        const snakeKey = camelToSnake(key);
-        updateData[snakeKey] = data[key];
-      }
-    }
+    await insertInBatches('shipments', newShipments.map(shipment => ({ id: shipment.id, ...mapNewShipmentToDb(shipment) })));
     
+    console.log(`Synced ${newShipments.length} shipments to Supabase`);
+  } catch (error) {
+    console.error("Error syncing shipments:", error);
+    throw error;
+  }
+};
+
+// Update a project in Supabase
+export const updateSupabaseProject = async (id: string, data: Partial<Project>) => {
+  try {
     const { error } = await supabase
       .from('projects')
-      .update(updateData)
+      .update(mapProjectToDb(data))
       .eq('id', id);
       
     if (error) throw error;
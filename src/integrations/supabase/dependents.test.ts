@@ -0,0 +1,174 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { ExternalLink, Project, PurchaseOrder, Shipment } from "@/contexts/DataContext";
+import { createFixtures } from "@/data/fixtures";
+import { setDataBackend } from "./backend";
+import {
+  Dependents,
+  WorkspaceRecords,
+  archivedDependents,
+  countDependents,
+  directDependents,
+  fetchDependentRecords,
+  reassignOperations,
+} from "./dependents";
+import { createMemoryBackend } from "./memoryBackend";
+
+const project = (id: string, clientId: string): Project => ({
+  id,
+  name: id,
+  clientId,
+  location: "",
+  status: "In Progress",
+  progress: 0,
+  startDate: "2025-01-01",
+  endDate: "2025-12-31",
+});
+
+const order = (id: string, projectId: string, supplierId: string): PurchaseOrder => ({
+  id,
+  poNumber: id.toUpperCase(),
+  projectId,
+  supplierId,
+  status: "Active",
+  issuedDate: "2025-01-01",
+  deadline: "2025-06-01",
+  parts: [{ id: `${id}-part`, name: "Bracket", quantity: 1, status: "Pending" }],
+});
+
+const shipment = (id: string, fields: Partial<Shipment>): Shipment => ({
+  id,
+  type: "Sea",
+  projectId: "",
+  supplierId: "",
+  shippedDate: "2025-02-01",
+  etdDate: "2025-02-01",
+  etaDate: "2025-03-01",
+  status: "In Transit",
+  ...fields,
+});
+
+const link = (id: string, fields: Partial<ExternalLink>): ExternalLink => ({
+  id,
+  title: id,
+  url: `https://example.com/${id}`,
+  date: "2025-01-01",
+  ...fields,
+});
+
+// Client A has projects 1 and 2; client B has project 3. Supplier S supplies
+// po-1 and po-3, supplier T supplies po-2.
+const records: WorkspaceRecords = {
+  projects: [project("project-1", "client-a"), project("project-2", "client-a"), project("project-3", "client-b")],
+  purchaseOrders: [
+    order("po-1", "project-1", "supplier-s"),
+    order("po-2", "project-2", "supplier-t"),
+    order("po-3", "project-3", "supplier-s"),
+  ],
+  shipments: [
+    shipment("shipment-po-2", { projectId: "project-3", supplierId: "supplier-t", poId: "po-2" }),
+    shipment("shipment-project-3", { projectId: "project-3", supplierId: "supplier-s" }),
+  ],
+  externalLinks: [
+    link("link-supplier-s", { supplierId: "supplier-s" }),
+    link("link-project-1", { projectId: "project-1" }),
+    link("link-po-3", { poId: "po-3" }),
+  ],
+};
+
+const ids = (items: { id: string }[]) => items.map(item => item.id);
+
+describe("archivedDependents", () => {
+  it("takes a client's projects with everything under them", () => {
+    const dependents = archivedDependents("client", "client-a", records);
+
+    expect(ids(dependents.projects)).toEqual(["project-1", "project-2"]);
+    expect(ids(dependents.purchaseOrders)).toEqual(["po-1", "po-2"]);
+    expect(ids(dependents.parts)).toEqual(["po-1-part", "po-2-part"]);
+    // Found through its PO even though it's filed under another project
+    expect(ids(dependents.shipments)).toEqual(["shipment-po-2"]);
+    expect(ids(dependents.externalLinks)).toEqual(["link-project-1"]);
+    expect(countDependents(dependents)).toBe(6);
+  });
+
+  it("takes a supplier's POs and what hangs off them, once each", () => {
+    const dependents = archivedDependents("supplier", "supplier-s", records);
+
+    expect(dependents.projects).toEqual([]);
+    expect(ids(dependents.purchaseOrders)).toEqual(["po-1", "po-3"]);
+    expect(ids(dependents.parts)).toEqual(["po-1-part", "po-3-part"]);
+    expect(ids(dependents.shipments)).toEqual(["shipment-project-3"]);
+    expect(ids(dependents.externalLinks)).toEqual(["link-supplier-s", "link-po-3"]);
+  });
+
+  it("takes a PO's own parts, shipments and links", () => {
+    const dependents = archivedDependents("purchaseOrder", "po-2", records);
+
+    expect(dependents.purchaseOrders).toEqual([]);
+    expect(ids(dependents.parts)).toEqual(["po-2-part"]);
+    expect(ids(dependents.shipments)).toEqual(["shipment-po-2"]);
+  });
+
+  it("finds nothing for a record nothing points at", () => {
+    expect(countDependents(archivedDependents("client", "client-c", records))).toBe(0);
+  });
+});
+
+describe("reassignOperations", () => {
+  it("points a supplier's direct dependents at the new supplier", () => {
+    const operations = reassignOperations("supplier", "supplier-t", directDependents("supplier", "supplier-s", records));
+
+    expect(operations).toEqual([
+      { table: "purchase_orders", action: "update", rowId: "po-1", values: { supplier_id: "supplier-t" } },
+      { table: "purchase_orders", action: "update", rowId: "po-3", values: { supplier_id: "supplier-t" } },
+      { table: "shipments", action: "update", rowId: "shipment-project-3", values: { supplier_id: "supplier-t" } },
+      { table: "external_links", action: "update", rowId: "link-supplier-s", values: { supplier_id: "supplier-t" } },
+    ]);
+  });
+
+  it("moves a client's projects but leaves what's under them where it is", () => {
+    const operations = reassignOperations("client", "client-b", directDependents("client", "client-a", records));
+
+    expect(operations).toEqual([
+      { table: "projects", action: "update", rowId: "project-1", values: { client_id: "client-b" } },
+      { table: "projects", action: "update", rowId: "project-2", values: { client_id: "client-b" } },
+    ]);
+  });
+
+  it("rewrites project_id on a project's POs, shipments and links", () => {
+    const operations = reassignOperations("project", "project-2", directDependents("project", "project-3", records));
+
+    expect(operations.map(({ table, rowId }) => `${table}:${rowId}`)).toEqual([
+      "purchase_orders:po-3",
+      "shipments:shipment-po-2",
+      "shipments:shipment-project-3",
+    ]);
+    expect(operations.every(operation => operation.values.project_id === "project-2")).toBe(true);
+  });
+});
+
+describe("fetchDependentRecords", () => {
+  const fixtures = createFixtures({ clients: 2, suppliers: 2, projects: 2, purchaseOrdersPerProject: 2 });
+  const sortedIds = (dependents: Dependents) =>
+    Object.fromEntries(Object.entries(dependents).map(([key, items]) => [key, ids(items).sort()]));
+
+  afterEach(() => {
+    setDataBackend();
+  });
+
+  it("fetches enough of the records to find the same dependents as the full dataset", async () => {
+    setDataBackend(createMemoryBackend(fixtures));
+    const deletions = [
+      ["client", fixtures.clients[0].id],
+      ["supplier", fixtures.suppliers[0].id],
+      ["project", fixtures.projects[0].id],
+      ["purchaseOrder", fixtures.shipments[0].poId],
+    ];
+
+    for (const [entity, id] of deletions) {
+      const fetched = await fetchDependentRecords(entity, id);
+
+      expect(sortedIds(archivedDependents(entity, id, fetched))).toEqual(sortedIds(archivedDependents(entity, id, fixtures)));
+      expect(sortedIds(directDependents(entity, id, fetched))).toEqual(sortedIds(directDependents(entity, id, fixtures)));
+    }
+  });
+});
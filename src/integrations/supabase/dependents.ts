@@ -0,0 +1,156 @@
+import type { ExternalLink, Part, Project, PurchaseOrder, Shipment } from "@/contexts/DataContext";
+import type { OfflineTable, QueuedOperation } from "@/lib/offlineStore";
+import { fetchExternalLinksIn, fetchProjects, fetchPurchaseOrdersIn, fetchShipmentsIn } from "./queries";
+
+// Suppliers, clients and projects have other records pointing at them.
+// Deleting one either moves those records over to another supplier, client
+// or project first, or takes them to the trash along with it.
+export type ParentEntity = "supplier" | "client" | "project";
+
+export type DependentResolution =
+  | { mode: "archive" }
+  | { mode: "reassign"; targetId: string };
+
+export interface Dependents {
+  projects: Project[];
+  purchaseOrders: PurchaseOrder[];
+  parts: Part[];
+  shipments: Shipment[];
+  externalLinks: ExternalLink[];
+}
+
+// The records a delete looks through
+export type WorkspaceRecords = Omit<Dependents, "parts">;
+
+export const NO_DEPENDENTS: Dependents = {
+  projects: [],
+  purchaseOrders: [],
+  parts: [],
+  shipments: [],
+  externalLinks: [],
+};
+
+// Parts come and go with their PO, so they aren't counted separately
+export const countDependents = (dependents: Dependents) =>
+  dependents.projects.length +
+  dependents.purchaseOrders.length +
+  dependents.shipments.length +
+  dependents.externalLinks.length;
+
+const uniqueById = <T extends { id: string }>(items: T[]) =>
+  items.filter((item, index) => items.findIndex(other => other.id === item.id) === index);
+
+// Records that reference the entity directly. These are what a reassign moves.
+export const directDependents = (entity: string, id: string, data: WorkspaceRecords): Dependents => {
+  switch (entity) {
+    case "supplier":
+      return {
+        ...NO_DEPENDENTS,
+        purchaseOrders: data.purchaseOrders.filter(po => po.supplierId === id),
+        shipments: data.shipments.filter(shipment => shipment.supplierId === id),
+        externalLinks: data.externalLinks.filter(link => link.supplierId === id),
+      };
+    case "client":
+      return { ...NO_DEPENDENTS, projects: data.projects.filter(project => project.clientId === id) };
+    case "project":
+      return {
+        ...NO_DEPENDENTS,
+        purchaseOrders: data.purchaseOrders.filter(po => po.projectId === id),
+        shipments: data.shipments.filter(shipment => shipment.projectId === id),
+        externalLinks: data.externalLinks.filter(link => link.projectId === id),
+      };
+    case "purchaseOrder":
+      return {
+        ...NO_DEPENDENTS,
+        shipments: data.shipments.filter(shipment => shipment.poId === id),
+        externalLinks: data.externalLinks.filter(link => link.poId === id),
+      };
+    default:
+      return NO_DEPENDENTS;
+  }
+};
+
+// Everything that goes to the trash with the entity: its direct dependents
+// plus whatever hangs off those, so archiving a client takes its projects'
+// POs, parts, shipments and links too
+export const archivedDependents = (entity: string, id: string, data: WorkspaceRecords): Dependents => {
+  const direct = directDependents(entity, id, data);
+  const projectIds = new Set(direct.projects.map(project => project.id));
+
+  const purchaseOrders = uniqueById([
+    ...direct.purchaseOrders,
+    ...data.purchaseOrders.filter(po => projectIds.has(po.projectId)),
+  ]);
+  const poIds = new Set(purchaseOrders.map(po => po.id));
+  const belongs = (item: { projectId?: string; poId?: string }) =>
+    (!!item.projectId && projectIds.has(item.projectId)) || (!!item.poId && poIds.has(item.poId));
+
+  // A deleted PO's own parts go with it as well
+  const ownParts = entity === "purchaseOrder"
+    ? data.purchaseOrders.find(po => po.id === id)?.parts ?? []
+    : [];
+
+  return {
+    projects: direct.projects,
+    purchaseOrders,
+    parts: [...ownParts, ...purchaseOrders.flatMap(po => po.parts)],
+    shipments: uniqueById([...direct.shipments, ...data.shipments.filter(belongs)]),
+    externalLinks: uniqueById([...direct.externalLinks, ...data.externalLinks.filter(belongs)]),
+  };
+};
+
+// The records a delete has to look through, fetched by the foreign keys that
+// lead down from the entity rather than by loading every table. Passed to
+// directDependents or archivedDependents they give the same answer the full
+// dataset would.
+export const fetchDependentRecords = async (entity: string, id: string): Promise<WorkspaceRecords> => {
+  const projects = entity === "client" ? await fetchProjects({ clientId: id }) : [];
+  const projectIds = entity === "project" ? [id] : projects.map(project => project.id);
+  const supplierIds = entity === "supplier" ? [id] : [];
+
+  const purchaseOrders = uniqueById([
+    ...(await fetchPurchaseOrdersIn("id", entity === "purchaseOrder" ? [id] : [])),
+    ...(await fetchPurchaseOrdersIn("project_id", projectIds)),
+    ...(await fetchPurchaseOrdersIn("supplier_id", supplierIds)),
+  ]);
+  const poIds = purchaseOrders.map(po => po.id);
+
+  const shipments = uniqueById([
+    ...(await fetchShipmentsIn("project_id", projectIds)),
+    ...(await fetchShipmentsIn("supplier_id", supplierIds)),
+    ...(await fetchShipmentsIn("po_id", poIds)),
+  ]);
+  const externalLinks = uniqueById([
+    ...(await fetchExternalLinksIn("project_id", projectIds)),
+    ...(await fetchExternalLinksIn("supplier_id", supplierIds)),
+    ...(await fetchExternalLinksIn("po_id", poIds)),
+  ]);
+
+  return { projects, purchaseOrders, shipments, externalLinks };
+};
+
+// The column (and domain field) a reassign rewrites on each dependent
+const REASSIGN_FIELDS: Record<ParentEntity, { column: string; field: "supplierId" | "clientId" | "projectId" }> = {
+  supplier: { column: "supplier_id", field: "supplierId" },
+  client: { column: "client_id", field: "clientId" },
+  project: { column: "project_id", field: "projectId" },
+};
+
+export const reassignField = (entity: ParentEntity) => REASSIGN_FIELDS[entity].field;
+
+// Points every direct dependent at targetId instead
+export const reassignOperations = (
+  entity: ParentEntity,
+  targetId: string,
+  dependents: Dependents
+): QueuedOperation[] => {
+  const values = { [REASSIGN_FIELDS[entity].column]: targetId };
+  const operation = (table: OfflineTable, rowId: string): QueuedOperation => ({ table, action: "update", rowId, values });
+
+  return [
+    ...dependents.projects.map(project => operation("projects", project.id)),
+    ...dependents.purchaseOrders.map(po => operation("purchase_orders", po.id)),
+    ...dependents.shipments.map(shipment => operation("shipments", shipment.id)),
+    ...dependents.externalLinks.map(link => operation("external_links", link.id)),
+  ];
+};
@@ -0,0 +1,703 @@
+import { z } from "zod";
+import type { Database, Json } from "./types";
+import type {
+  ApprovalDecision,
+  ApprovalStatus,
+  BudgetCategory,
+  Client,
+  ExternalLink,
+  Part,
+  Project,
+  PurchaseOrder,
+  PurchaseOrderRevision,
+  RevisionDiff,
+  Shipment,
+  Supplier,
+} from "@/contexts/DataContext";
+import type { OfflineTable } from "@/lib/offlineStore";
+import { isUserRole, UserRole } from "@/lib/roles";
+
+// Row, insert and update types for the tables the app maps into domain models
+type Tables = Database['public']['Tables'];
+export type ClientRow = Tables['clients']['Row'];
+export type ClientInsert = Tables['clients']['Insert'];
+export type ClientUpdate = Tables['clients']['Update'];
+export type SupplierRow = Tables['suppliers']['Row'];
+export type SupplierInsert = Tables['suppliers']['Insert'];
+export type SupplierUpdate = Tables['suppliers']['Update'];
+export type ProjectRow = Tables['projects']['Row'];
+export type ProjectInsert = Tables['projects']['Insert'];
+export type ProjectUpdate = Tables['projects']['Update'];
+export type PurchaseOrderRow = Tables['purchase_orders']['Row'];
+export type PurchaseOrderInsert = Tables['purchase_orders']['Insert'];
+export type PurchaseOrderUpdate = Tables['purchase_orders']['Update'];
+export type PartRow = Tables['parts']['Row'];
+export type PartInsert = Tables['parts']['Insert'];
+export type PartUpdate = Tables['parts']['Update'];
+export type ExternalLinkRow = Tables['external_links']['Row'];
+export type ExternalLinkInsert = Tables['external_links']['Insert'];
+export type ExternalLinkUpdate = Tables['external_links']['Update'];
+export type ShipmentRow = Tables['shipments']['Row'];
+export type ShipmentInsert = Tables['shipments']['Insert'];
+export type ShipmentUpdate = Tables['shipments']['Update'];
+
+export type MappedEntity =
+  | "client"
+  | "supplier"
+  | "project"
+  | "purchaseOrder"
+  | "part"
+  | "externalLink"
+  | "shipment";
+
+// A row read from Supabase, or a value about to be written to it, that
+// doesn't match its schema. Carries zod's issues so callers can show them.
+export class MappingError extends Error {
+  readonly entity: MappedEntity;
+  readonly direction: "fromDb" | "toDb";
+  readonly issues: z.ZodIssue[];
+
+  constructor(entity: MappedEntity, direction: "fromDb" | "toDb", issues: z.ZodIssue[]) {
+    const details = issues
+      .map(issue => `${issue.path.join(".") || "value"}: ${issue.message}`)
+      .join("; ");
+    super(`Invalid ${entity} ${direction === "fromDb" ? "row from the database" : "data"} (${details})`);
+    this.name = "MappingError";
+    this.entity = entity;
+    this.direction = direction;
+    this.issues = issues;
+  }
+}
+
+export const isMappingError = (error: unknown): error is MappingError =>
+  error instanceof MappingError;
+
+// zod can't infer precise types without strictNullChecks, so callers name the type they get back
+const parse = <T>(schema: z.ZodTypeAny, value: unknown, entity: MappedEntity, direction: "fromDb" | "toDb"): T => {
+  const result = schema.safeParse(value);
+  if (!result.success) throw new MappingError(entity, direction, result.error.issues);
+  return result.data as T;
+};
+
+// Bookkeeping columns the domain models don't carry. Every other column of a
+// table has to appear in its row schema, and every field of a model in its
+// write schema, which the satisfies checks enforce.
+type MappedColumns<Row> = Omit<Row, "created_at" | "updated_at" | "deleted_at" | "search_vector">;
+type RowShape<Row> = Record<keyof MappedColumns<Row>, z.ZodTypeAny>;
+type DomainShape<T> = Record<keyof T, z.ZodTypeAny>;
+
+const json = z.custom<Json>(() => true);
+
+const clientRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  contact_person: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  location: z.string().nullable(),
+} satisfies RowShape<ClientRow>);
+
+const supplierRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  contact_person: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  country: z.string().nullable(),
+  location: z.string().nullable(),
+  rating: z.number().nullable(),
+  on_time_delivery: z.number().nullable(),
+  positive_comments: z.array(z.string()).nullable(),
+  negative_comments: z.array(z.string()).nullable(),
+} satisfies RowShape<SupplierRow>);
+
+const projectRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  client_id: z.string().nullable(),
+  location: z.string().nullable(),
+  status: z.string().nullable(),
+  progress: z.number().nullable(),
+  start_date: z.string(),
+  end_date: z.string(),
+  project_manager: z.string().nullable(),
+  description: z.string().nullable(),
+  budget: z.number().nullable(),
+  budget_categories: json.nullable(),
+} satisfies RowShape<ProjectRow>);
+
+const partRowSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  po_id: z.string().nullable(),
+  quantity: z.number(),
+  status: z.string().nullable(),
+  progress: z.number().nullable(),
+} satisfies RowShape<PartRow>);
+
+const purchaseOrderRowSchema = z.object({
+  id: z.string(),
+  po_number: z.string(),
+  project_id: z.string().nullable(),
+  supplier_id: z.string().nullable(),
+  status: z.string().nullable(),
+  issued_date: z.string(),
+  deadline: z.string(),
+  progress: z.number().nullable(),
+  amount: z.number().nullable(),
+  currency: z.string().nullable(),
+  cost_category: z.string().nullable(),
+  description: z.string().nullable(),
+  revision: z.string(),
+  revisions: json,
+  approval_status: z.string(),
+  approvals: json,
+  submitted_by: z.string().nullable(),
+} satisfies RowShape<PurchaseOrderRow>);
+
+const externalLinkRowSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  url: z.string(),
+  type: z.string().nullable(),
+  date: z.string(),
+  supplier_id: z.string().nullable(),
+  project_id: z.string().nullable(),
+  po_id: z.string().nullable(),
+} satisfies RowShape<ExternalLinkRow>);
+
+const shipmentRowSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  project_id: z.string().nullable(),
+  supplier_id: z.string().nullable(),
+  po_id: z.string().nullable(),
+  part_id: z.string().nullable(),
+  shipped_date: z.string(),
+  etd_date: z.string(),
+  eta_date: z.string(),
+  tracking_number: z.string().nullable(),
+  container_number: z.string().nullable(),
+  container_size: z.string().nullable(),
+  container_type: z.string().nullable(),
+  status: z.string().nullable(),
+  notes: z.string().nullable(),
+} satisfies RowShape<ShipmentRow>);
+
+// What the app accepts before writing a record. Updates check the fields
+// they carry against the same schemas.
+const required = z.string().min(1, "Required");
+const optionalText = z.string().nullish();
+const percentage = z.number().min(0).max(100);
+
+const clientSchema = z.object({
+  name: required,
+  contactPerson: optionalText,
+  email: optionalText,
+  phone: optionalText,
+  location: optionalText,
+} satisfies DomainShape<Omit<Client, "id">>);
+
+const supplierSchema = z.object({
+  name: required,
+  contactPerson: optionalText,
+  email: optionalText,
+  phone: optionalText,
+  country: optionalText,
+  location: optionalText,
+  rating: z.number().nullish(),
+  onTimeDelivery: percentage.nullish(),
+  positiveComments: z.array(z.string()).nullish(),
+  negativeComments: z.array(z.string()).nullish(),
+} satisfies DomainShape<Omit<Supplier, "id">>);
+
+const budgetCategorySchema = z.object({
+  name: z.string(),
+  amount: z.number().min(0),
+} satisfies DomainShape<BudgetCategory>);
+
+const projectSchema = z.object({
+  name: required,
+  clientId: required,
+  location: z.string(),
+  status: z.string(),
+  progress: percentage,
+  startDate: required,
+  endDate: required,
+  projectManager: optionalText,
+  description: optionalText,
+  budget: z.number().min(0).nullish(),
+  budgetCategories: z.array(budgetCategorySchema).nullish(),
+} satisfies DomainShape<Omit<Project, "id">>);
+
+const partSchema = z.object({
+  name: required,
+  quantity: z.number().min(0),
+  status: z.string(),
+  progress: percentage.nullish(),
+} satisfies DomainShape<Omit<Part, "id">>);
+
+const revisionDiffSchema = z.object({
+  amount: z.object({ from: z.number().nullable(), to: z.number().nullable() }).optional(),
+  deadline: z.object({ from: z.string(), to: z.string() }).optional(),
+  parts: z.object({
+    added: z.array(z.string()),
+    removed: z.array(z.string()),
+    changed: z.array(z.object({
+      name: z.string(),
+      quantity: z.object({ from: z.number(), to: z.number() }),
+    })),
+  }).optional(),
+} satisfies DomainShape<RevisionDiff>);
+
+const purchaseOrderRevisionSchema = z.object({
+  revision: required,
+  reason: required,
+  changes: revisionDiffSchema,
+  createdAt: required,
+  createdBy: optionalText,
+} satisfies DomainShape<PurchaseOrderRevision>);
+
+const userRole = z.custom<UserRole>(isUserRole, "Unknown role");
+
+const approvalDecisionSchema = z.object({
+  action: z.enum(["submitted", "approved", "rejected", "issued", "reopened"]),
+  chain: z.array(userRole).optional(),
+  rule: optionalText,
+  approverRole: userRole.optional(),
+  comment: optionalText,
+  decidedAt: required,
+  decidedBy: optionalText,
+} satisfies DomainShape<ApprovalDecision>);
+
+const purchaseOrderSchema = z.object({
+  poNumber: required,
+  projectId: required,
+  supplierId: required,
+  status: z.string(),
+  issuedDate: required,
+  deadline: required,
+  progress: percentage.nullish(),
+  amount: z.number().min(0).nullish(),
+  currency: optionalText,
+  costCategory: optionalText,
+  description: optionalText,
+  parts: z.array(partSchema.extend({ id: z.string() })),
+  revision: optionalText,
+  revisions: z.array(purchaseOrderRevisionSchema).nullish(),
+  approvalStatus: z.enum(["Draft", "Submitted", "Approved", "Rejected", "Issued"]).nullish(),
+  approvals: z.array(approvalDecisionSchema).nullish(),
+  submittedBy: optionalText,
+} satisfies DomainShape<Omit<PurchaseOrder, "id">>);
+
+const externalLinkSchema = z.object({
+  title: required,
+  url: required,
+  type: optionalText,
+  date: required,
+  supplierId: optionalText,
+  projectId: optionalText,
+  poId: optionalText,
+} satisfies DomainShape<Omit<ExternalLink, "id">>);
+
+const shipmentSchema = z.object({
+  type: required,
+  projectId: required,
+  supplierId: required,
+  poId: optionalText,
+  partId: optionalText,
+  shippedDate: required,
+  etdDate: required,
+  etaDate: required,
+  trackingNumber: optionalText,
+  containerNumber: optionalText,
+  containerSize: optionalText,
+  containerType: optionalText,
+  status: z.string(),
+  notes: optionalText,
+} satisfies DomainShape<Omit<Shipment, "id">>);
+
+// Budget categories are stored as a JSON array on the project row
+export const parseBudgetCategories = (value: Json | null): BudgetCategory[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+
+  return value
+    .filter((item): item is { [key: string]: Json } => !!item && typeof item === "object" && !Array.isArray(item))
+    .map(item => ({
+      name: String(item.name ?? ""),
+      amount: Number(item.amount) || 0,
+    }));
+};
+
+// A JSON array column of a PO row. An entry that doesn't fit fails the PO
+// like any other invalid column, with the column and entry in the issue path,
+// so corrupted history is reported rather than quietly going missing.
+const parseHistory = <T>(column: "revisions" | "approvals", schema: z.ZodTypeAny, value: Json | null): T[] =>
+  parse<Record<string, T[] | null>>(
+    z.object({ [column]: z.array(schema).nullable() }),
+    { [column]: value },
+    "purchaseOrder",
+    "fromDb"
+  )[column] ?? [];
+
+// A PO's revision history is stored as a JSON array on its row
+export const parseRevisions = (value: Json | null): PurchaseOrderRevision[] =>
+  parseHistory("revisions", purchaseOrderRevisionSchema, value);
+
+export const revisionsToJson = (revisions: PurchaseOrderRevision[] | undefined): Json =>
+  (revisions || []).map(({ changes, ...revision }) => ({ ...revision, changes: { ...changes } }));
+
+export const budgetCategoriesToJson = (categories: BudgetCategory[] | undefined): Json | null =>
+  categories ? categories.map(({ name, amount }) => ({ name, amount })) : null;
+
+export const mapClientFromDb = (row: ClientRow): Client => {
+  const client = parse<ClientRow>(clientRowSchema, row, "client", "fromDb");
+  return {
+    id: client.id,
+    name: client.name,
+    contactPerson: client.contact_person,
+    email: client.email,
+    phone: client.phone,
+    location: client.location,
+  };
+};
+
+// Only the fields present are mapped, so partial updates don't clear columns
+const clientColumns = (client: Partial<Client>): ClientUpdate => {
+  const data: ClientUpdate = {};
+
+  if (client.name !== undefined) data.name = client.name;
+  if (client.contactPerson !== undefined) data.contact_person = client.contactPerson;
+  if (client.email !== undefined) data.email = client.email;
+  if (client.phone !== undefined) data.phone = client.phone;
+  if (client.location !== undefined) data.location = client.location;
+
+  return data;
+};
+
+export const mapClientToDb = (client: Partial<Client>): ClientUpdate =>
+  clientColumns(parse<Partial<Client>>(clientSchema.partial(), client, "client", "toDb"));
+
+// New rows restate the columns an insert requires from the validated values
+export const mapNewClientToDb = (client: Omit<Client, "id">): ClientInsert => {
+  const valid = parse<Client>(clientSchema, client, "client", "toDb");
+  return { ...clientColumns(valid), name: valid.name };
+};
+
+export const mapSupplierFromDb = (row: SupplierRow): Supplier => {
+  const supplier = parse<SupplierRow>(supplierRowSchema, row, "supplier", "fromDb");
+  return {
+    id: supplier.id,
+    name: supplier.name,
+    contactPerson: supplier.contact_person,
+    email: supplier.email,
+    phone: supplier.phone,
+    country: supplier.country,
+    location: supplier.location,
+    rating: supplier.rating,
+    onTimeDelivery: supplier.on_time_delivery,
+    positiveComments: supplier.positive_comments,
+    negativeComments: supplier.negative_comments,
+  };
+};
+
+const supplierColumns = (supplier: Partial<Supplier>): SupplierUpdate => {
+  const data: SupplierUpdate = {};
+
+  if (supplier.name !== undefined) data.name = supplier.name;
+  if (supplier.contactPerson !== undefined) data.contact_person = supplier.contactPerson;
+  if (supplier.email !== undefined) data.email = supplier.email;
+  if (supplier.phone !== undefined) data.phone = supplier.phone;
+  if (supplier.country !== undefined) data.country = supplier.country;
+  if (supplier.location !== undefined) data.location = supplier.location;
+  if (supplier.rating !== undefined) data.rating = supplier.rating;
+  if (supplier.onTimeDelivery !== undefined) data.on_time_delivery = supplier.onTimeDelivery;
+  if (supplier.positiveComments !== undefined) data.positive_comments = supplier.positiveComments;
+  if (supplier.negativeComments !== undefined) data.negative_comments = supplier.negativeComments;
+
+  return data;
+};
+
+export const mapSupplierToDb = (supplier: Partial<Supplier>): SupplierUpdate =>
+  supplierColumns(parse<Partial<Supplier>>(supplierSchema.partial(), supplier, "supplier", "toDb"));
+
+export const mapNewSupplierToDb = (supplier: Omit<Supplier, "id">): SupplierInsert => {
+  const valid = parse<Supplier>(supplierSchema, supplier, "supplier", "toDb");
+  return { ...supplierColumns(valid), name: valid.name };
+};
+
+export const mapProjectFromDb = (row: ProjectRow): Project => {
+  const project = parse<ProjectRow>(projectRowSchema, row, "project", "fromDb");
+  return {
+    id: project.id,
+    name: project.name,
+    clientId: project.client_id,
+    location: project.location || '',
+    status: project.status || 'Pending',
+    progress: project.progress || 0,
+    startDate: project.start_date,
+    endDate: project.end_date,
+    projectManager: project.project_manager,
+    description: project.description,
+    budget: project.budget ?? undefined,
+    budgetCategories: parseBudgetCategories(project.budget_categories),
+  };
+};
+
+const projectColumns = (project: Partial<Project>): ProjectUpdate => {
+  const data: ProjectUpdate = {};
+
+  if (project.name !== undefined) data.name = project.name;
+  if (project.clientId !== undefined) data.client_id = project.clientId;
+  if (project.location !== undefined) data.location = project.location;
+  if (project.status !== undefined) data.status = project.status;
+  if (project.progress !== undefined) data.progress = project.progress;
+  if (project.startDate !== undefined) data.start_date = project.startDate;
+  if (project.endDate !== undefined) data.end_date = project.endDate;
+  if (project.projectManager !== undefined) data.project_manager = project.projectManager;
+  if (project.description !== undefined) data.description = project.description;
+  // An explicit undefined budget clears it
+  if ('budget' in project) data.budget = project.budget ?? null;
+  if (project.budgetCategories !== undefined) data.budget_categories = budgetCategoriesToJson(project.budgetCategories);
+
+  return data;
+};
+
+export const mapProjectToDb = (project: Partial<Project>): ProjectUpdate =>
+  projectColumns(parse<Partial<Project>>(projectSchema.partial(), project, "project", "toDb"));
+
+export const mapNewProjectToDb = (project: Omit<Project, "id">): ProjectInsert => {
+  const valid = parse<Project>(projectSchema, project, "project", "toDb");
+  return {
+    budget: null,
+    budget_categories: null,
+    ...projectColumns(valid),
+    name: valid.name,
+    start_date: valid.startDate,
+    end_date: valid.endDate,
+  };
+};
+
+export const mapPartFromDb = (row: PartRow): Part => {
+  const part = parse<PartRow>(partRowSchema, row, "part", "fromDb");
+  return {
+    id: part.id,
+    name: part.name,
+    quantity: part.quantity,
+    status: part.status || 'Pending',
+    progress: part.progress || 0,
+  };
+};
+
+const partColumns = (part: Partial<Part>, poId: string): PartUpdate => {
+  const data: PartUpdate = { po_id: poId };
+
+  if (part.name !== undefined) data.name = part.name;
+  if (part.quantity !== undefined) data.quantity = part.quantity;
+  if (part.status !== undefined) data.status = part.status;
+  if (part.progress !== undefined) data.progress = part.progress || 0;
+
+  return data;
+};
+
+// Likewise its approval decisions, oldest first
+export const parseApprovals = (value: Json | null): ApprovalDecision[] =>
+  parseHistory("approvals", approvalDecisionSchema, value);
+
+export const approvalsToJson = (approvals: ApprovalDecision[] | undefined): Json =>
+  (approvals || []).map(decision => ({ ...decision }));
+
+export const mapPartToDb = (part: Partial<Part>, poId: string): PartUpdate =>
+  partColumns(parse<Partial<Part>>(partSchema.partial(), part, "part", "toDb"), poId);
+
+export const mapNewPartToDb = (part: Omit<Part, "id">, poId: string): PartInsert => {
+  const valid = parse<Part>(partSchema, part, "part", "toDb");
+  return { progress: 0, ...partColumns(valid, poId), name: valid.name, quantity: valid.quantity };
+};
+
+// Parts live in their own table; pass the ones belonging to this PO
+export const mapPurchaseOrderFromDb = (row: PurchaseOrderRow, parts: PartRow[]): PurchaseOrder => {
+  const po = parse<PurchaseOrderRow>(purchaseOrderRowSchema, row, "purchaseOrder", "fromDb");
+  return {
+    id: po.id,
+    poNumber: po.po_number,
+    projectId: po.project_id,
+    supplierId: po.supplier_id,
+    status: po.status || 'Active',
+    issuedDate: po.issued_date,
+    deadline: po.deadline,
+    progress: po.progress || 0,
+    amount: po.amount,
+    currency: po.currency || 'USD',
+    costCategory: po.cost_category,
+    description: po.description,
+    parts: parts.map(mapPartFromDb),
+    revision: po.revision || 'A',
+    revisions: parseRevisions(po.revisions),
+    approvalStatus: po.approval_status as ApprovalStatus,
+    approvals: parseApprovals(po.approvals),
+    submittedBy: po.submitted_by || undefined,
+  };
+};
+
+// Joins the parts table onto its purchase orders
+export const mapPurchaseOrdersFromDb = (pos: PurchaseOrderRow[], parts: PartRow[]): PurchaseOrder[] =>
+  pos.map(po => mapPurchaseOrderFromDb(po, parts.filter(part => part.po_id === po.id)));
+
+// Parts are written separately, so they are never part of the PO row
+const purchaseOrderColumns = (po: Partial<Omit<PurchaseOrder, "id">>): PurchaseOrderUpdate => {
+  const data: PurchaseOrderUpdate = {};
+
+  if (po.poNumber !== undefined) data.po_number = po.poNumber;
+  if (po.projectId !== undefined) data.project_id = po.projectId;
+  if (po.supplierId !== undefined) data.supplier_id = po.supplierId;
+  if (po.status !== undefined) data.status = po.status;
+  if (po.issuedDate !== undefined) data.issued_date = po.issuedDate;
+  if (po.deadline !== undefined) data.deadline = po.deadline;
+  if (po.progress !== undefined) data.progress = po.progress || 0;
+  if (po.amount !== undefined) data.amount = po.amount;
+  if (po.currency !== undefined) data.currency = po.currency || 'USD';
+  if (po.costCategory !== undefined) data.cost_category = po.costCategory || null;
+  if (po.description !== undefined) data.description = po.description;
+  if (po.revision !== undefined) data.revision = po.revision || 'A';
+  if (po.revisions !== undefined) data.revisions = revisionsToJson(po.revisions);
+  if (po.approvalStatus !== undefined) data.approval_status = po.approvalStatus || 'Draft';
+  if (po.approvals !== undefined) data.approvals = approvalsToJson(po.approvals);
+
+  return data;
+};
+
+export const mapPurchaseOrderToDb = (po: Partial<Omit<PurchaseOrder, "id">>): PurchaseOrderUpdate =>
+  purchaseOrderColumns(parse<Partial<Omit<PurchaseOrder, "id">>>(purchaseOrderSchema.partial(), po, "purchaseOrder", "toDb"));
+
+export const mapNewPurchaseOrderToDb = (po: Omit<PurchaseOrder, "id">): PurchaseOrderInsert => {
+  const valid = parse<Omit<PurchaseOrder, "id">>(purchaseOrderSchema, po, "purchaseOrder", "toDb");
+  return {
+    progress: 0,
+    currency: 'USD',
+    cost_category: null,
+    ...purchaseOrderColumns(valid),
+    po_number: valid.poNumber,
+    issued_date: valid.issuedDate,
+    deadline: valid.deadline,
+  };
+};
+
+export const mapExternalLinkFromDb = (row: ExternalLinkRow): ExternalLink => {
+  const link = parse<ExternalLinkRow>(externalLinkRowSchema, row, "externalLink", "fromDb");
+  return {
+    id: link.id,
+    title: link.title,
+    url: link.url,
+    type: link.type,
+    date: link.date,
+    supplierId: link.supplier_id,
+    projectId: link.project_id,
+    poId: link.po_id,
+  };
+};
+
+const externalLinkColumns = (link: Partial<ExternalLink>): ExternalLinkUpdate => {
+  const data: ExternalLinkUpdate = {};
+
+  if (link.title !== undefined) data.title = link.title;
+  if (link.url !== undefined) data.url = link.url;
+  if (link.type !== undefined) data.type = link.type;
+  if (link.date !== undefined) data.date = link.date;
+  if (link.supplierId !== undefined) data.supplier_id = link.supplierId || null;
+  if (link.projectId !== undefined) data.project_id = link.projectId || null;
+  if (link.poId !== undefined) data.po_id = link.poId || null;
+
+  return data;
+};
+
+export const mapExternalLinkToDb = (link: Partial<ExternalLink>): ExternalLinkUpdate =>
+  externalLinkColumns(parse<Partial<ExternalLink>>(externalLinkSchema.partial(), link, "externalLink", "toDb"));
+
+export const mapNewExternalLinkToDb = (link: Omit<ExternalLink, "id">): ExternalLinkInsert => {
+  const valid = parse<ExternalLink>(externalLinkSchema, link, "externalLink", "toDb");
+  return { ...externalLinkColumns(valid), title: valid.title, url: valid.url, date: valid.date };
+};
+
+export const mapShipmentFromDb = (row: ShipmentRow): Shipment => {
+  const shipment = parse<ShipmentRow>(shipmentRowSchema, row, "shipment", "fromDb");
+  return {
+    id: shipment.id,
+    type: shipment.type,
+    projectId: shipment.project_id,
+    supplierId: shipment.supplier_id,
+    poId: shipment.po_id,
+    partId: shipment.part_id,
+    shippedDate: shipment.shipped_date,
+    etdDate: shipment.etd_date,
+    etaDate: shipment.eta_date,
+    trackingNumber: shipment.tracking_number,
+    containerNumber: shipment.container_number,
+    containerSize: shipment.container_size,
+    containerType: shipment.container_type,
+    status: shipment.status,
+    notes: shipment.notes,
+  };
+};
+
+const shipmentColumns = (shipment: Partial<Shipment>): ShipmentUpdate => {
+  const data: ShipmentUpdate = {};
+
+  if (shipment.type !== undefined) data.type = shipment.type;
+  if (shipment.projectId !== undefined) data.project_id = shipment.projectId;
+  if (shipment.supplierId !== undefined) data.supplier_id = shipment.supplierId;
+  if (shipment.poId !== undefined) data.po_id = shipment.poId || null;
+  if (shipment.partId !== undefined) data.part_id = shipment.partId || null;
+  if (shipment.shippedDate !== undefined) data.shipped_date = shipment.shippedDate;
+  if (shipment.etdDate !== undefined) data.etd_date = shipment.etdDate;
+  if (shipment.etaDate !== undefined) data.eta_date = shipment.etaDate;
+  if (shipment.trackingNumber !== undefined) data.tracking_number = shipment.trackingNumber;
+  if (shipment.containerNumber !== undefined) data.container_number = shipment.containerNumber;
+  if (shipment.containerSize !== undefined) data.container_size = shipment.containerSize;
+  if (shipment.containerType !== undefined) data.container_type = shipment.containerType;
+  if (shipment.status !== undefined) data.status = shipment.status;
+  if (shipment.notes !== undefined) data.notes = shipment.notes;
+
+  return data;
+};
+
+export const mapShipmentToDb = (shipment: Partial<Shipment>): ShipmentUpdate =>
+  shipmentColumns(parse<Partial<Shipment>>(shipmentSchema.partial(), shipment, "shipment", "toDb"));
+
+export const mapNewShipmentToDb = (shipment: Omit<Shipment, "id">): ShipmentInsert => {
+  const valid = parse<Shipment>(shipmentSchema, shipment, "shipment", "toDb");
+  return {
+    ...shipmentColumns(valid),
+    type: valid.type,
+    shipped_date: valid.shippedDate,
+    etd_date: valid.etdDate,
+    eta_date: valid.etaDate,
+  };
+};
+
+// A complete row as stored, bookkeeping columns included, for backups. Unlike
+// the mapFromDb functions this keeps the database form and rejects columns
+// the table doesn't have. The generated search_vector is never stored.
+const ROW_SCHEMAS: Record<OfflineTable, { entity: MappedEntity; schema: z.AnyZodObject }> = {
+  clients: { entity: "client", schema: clientRowSchema },
+  suppliers: { entity: "supplier", schema: supplierRowSchema },
+  projects: { entity: "project", schema: projectRowSchema },
+  purchase_orders: { entity: "purchaseOrder", schema: purchaseOrderRowSchema },
+  parts: { entity: "part", schema: partRowSchema },
+  external_links: { entity: "externalLink", schema: externalLinkRowSchema },
+  shipments: { entity: "shipment", schema: shipmentRowSchema },
+};
+
+// The columns a table's rows carry, bookkeeping and search_vector aside
+export const rowColumns = (table: OfflineTable) => Object.keys(ROW_SCHEMAS[table].schema.shape);
+
+const bookkeepingColumns = {
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish(),
+  deleted_at: z.string().nullish(),
+};
+
+export const validateRow = (table: OfflineTable, row: unknown): { id: string } & Record<string, unknown> => {
+  const { entity, schema } = ROW_SCHEMAS[table];
+  return parse(schema.extend(bookkeepingColumns).strict(), row, entity, "fromDb");
+};
@@ -0,0 +1,813 @@
+import type { ApprovalDecision, PurchaseOrder } from "@/contexts/DataContext";
+import type { Fixtures } from "@/data/fixtures";
+import { BASE_CURRENCY, convertAmount, isCurrencyCode } from "@/lib/currency";
+import type { OfflineTable, QueuedOperation } from "@/lib/offlineStore";
+import {
+  approvalProgress,
+  approvalStatusOf,
+  canSubmit,
+  matchApprovalRule,
+  pendingApprover,
+} from "@/lib/poApprovals";
+import { APPROVAL_RULES_KEY, parseApprovalRules } from "./approvalRules";
+import type { DataBackend } from "./backend";
+import { CURRENCY_SETTINGS_KEY, parseCurrencySettings } from "./currencySettings";
+import { type PurchaseOrderRow, mapPurchaseOrderFromDb, rowColumns } from "./mappers";
+import { SEED_TABLES, fixtureRows } from "./seed";
+
+// A stand-in for Supabase that keeps every table in memory, for exercising
+// the data layer without a network. It covers the query builder calls the
+// app makes (select with embedded parts, insert, update, upsert, delete, the
+// filters, ordering and paging), the apply_operations, restore_backup, PO
+// approval and portal functions and realtime postgres_changes events. Beyond primary keys it has no constraints or row
+// level security, so permissions are only what the app checks, and the one
+// trigger it has is the PO approval guard.
+//
+// The approval functions and guard are TypeScript copies of the SQL in
+// supabase/migrations, not the SQL itself. Tests against them show the app
+// drives the workflow correctly, not that the database enforces it, so a
+// migration that changes either has to change its copy here too.
+//
+//   const backend = createMemoryBackend(createFixtures());
+//   setDataBackend(backend);
+
+export type MemoryRow = { id: string } & Record<string, unknown>;
+
+type Filter = (row: MemoryRow) => boolean;
+type ChangeEvent = "INSERT" | "UPDATE" | "DELETE";
+type ChangeListener = (payload: Record<string, unknown>) => void;
+type RpcHandler = (args: Record<string, unknown>, backend: MemoryBackend) => unknown;
+// Runs before a row is written, like a before insert or update trigger. It
+// may change the row or throw to refuse the write.
+type WriteGuard = (row: MemoryRow, old: MemoryRow | null) => void;
+
+interface MemoryError {
+  message: string;
+  code: string;
+  details: string | null;
+  hint: string | null;
+}
+
+interface MemoryResult {
+  data: unknown;
+  error: MemoryError | null;
+  count: number | null;
+  status: number;
+  statusText: string;
+}
+
+// Who database functions run as, standing in for auth.uid() and the JWT
+export interface MemoryUser {
+  id: string;
+  email?: string;
+  role?: string;
+  // The client or supplier record a portal user belongs to
+  clientId?: string;
+  supplierId?: string;
+}
+
+export interface MemoryBackendOptions {
+  // Extra database functions callable through rpc(), by name
+  functions?: Record<string, RpcHandler>;
+  // The clock used for created_at and updated_at, so tests can pin it
+  now?: () => string;
+  // The signed-in user, read on every call
+  user?: () => MemoryUser | null;
+}
+
+export type MemoryBackend = DataBackend & {
+  // A copy of the table as stored, trashed rows included
+  rows: (table: string) => MemoryRow[];
+  // Replaces the table's rows without emitting realtime events
+  seed: (table: string, rows: Record<string, unknown>[]) => void;
+};
+
+// Column defaults the migrations set, so inserted rows read back the way
+// they would from Postgres
+const COLUMN_DEFAULTS: Partial<Record<OfflineTable, Record<string, unknown>>> = {
+  suppliers: { positive_comments: [], negative_comments: [] },
+  projects: { status: "Pending", progress: 0 },
+  purchase_orders: { status: "Active", progress: 0, currency: "USD", revision: "A", revisions: [], approval_status: "Draft", approvals: [] },
+  parts: { status: "Pending", progress: 0 },
+  shipments: { status: "In Transit" },
+};
+
+// One-to-many relationships select() can embed, as child table -> parent
+// table -> the child's foreign key column
+const EMBEDS: Record<string, Record<string, string>> = {
+  parts: { purchase_orders: "po_id" },
+};
+
+const isMappedTable = (table: string): table is OfflineTable => SEED_TABLES.includes(table as OfflineTable);
+
+const clone = <T,>(value: T): T => structuredClone(value);
+
+// Undefined values never reach the database, as they're dropped from JSON
+const defined = (values: Record<string, unknown>) =>
+  clone(Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)));
+
+const memoryError = (message: string, code: string): MemoryError => ({ message, code, details: null, hint: null });
+
+// Compares the way Postgres orders text, numbers and dates closely enough
+// for sorting; nulls sort last unless asked otherwise
+const compareValues = (a: unknown, b: unknown) => {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+// select() column lists: plain columns plus embeds like parts(*)
+const parseColumns = (columns: string) => {
+  const plain: string[] = [];
+  const embeds: string[] = [];
+
+  columns.split(",").map(column => column.trim()).filter(Boolean).forEach(column => {
+    const embed = column.match(/^(\w+)\(\*\)$/);
+    if (embed) embeds.push(embed[1]);
+    else plain.push(column);
+  });
+
+  return { plain, embeds };
+};
+
+// A rough stand-in for websearch full-text search: every word has to appear
+// somewhere in the row's text, and words after a "-" must not
+const matchesSearch = (row: MemoryRow, search: string) => {
+  const text = Object.values(row)
+    .filter(value => typeof value === "string" || typeof value === "number")
+    .join(" ")
+    .toLowerCase();
+
+  return search
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(word => word && word !== "or")
+    .every(word => word.startsWith("-")
+      ? !text.includes(word.slice(1).replace(/"/g, ""))
+      : text.includes(word.replace(/"/g, "")));
+};
+
+class MemoryChannel {
+  readonly listeners: { event: string; table?: string; callback: ChangeListener }[] = [];
+  subscribed = false;
+
+  constructor(readonly topic: string, private readonly channels: Set<MemoryChannel>) {}
+
+  on(_type: string, filter: { event: string; table?: string }, callback: ChangeListener) {
+    this.listeners.push({ event: filter.event, table: filter.table, callback });
+    return this;
+  }
+
+  subscribe(callback?: (status: string) => void) {
+    this.subscribed = true;
+    this.channels.add(this);
+    queueMicrotask(() => callback?.("SUBSCRIBED"));
+    return this;
+  }
+
+  unsubscribe() {
+    this.subscribed = false;
+    this.channels.delete(this);
+    return Promise.resolve("ok");
+  }
+}
+
+type Action = "select" | "insert" | "update" | "upsert" | "delete";
+
+class MemoryQuery implements PromiseLike<MemoryResult> {
+  private action: Action = "select";
+  private values: Record<string, unknown>[] = [];
+  private conflictColumn = "id";
+  private columns = "*";
+  private returning = false;
+  private countRows = false;
+  private head = false;
+  private filters: Filter[] = [];
+  private embedFilters: Record<string, Filter[]> = {};
+  private ordering: { column: string; ascending: boolean; nullsFirst: boolean }[] = [];
+  private window: { from: number; to: number } | null = null;
+  private singleRow: "single" | "maybeSingle" | null = null;
+
+  constructor(private readonly store: MemoryStore, private readonly table: string) {}
+
+  select(columns = "*", options: { count?: string; head?: boolean } = {}) {
+    if (this.action === "select") {
+      this.countRows = !!options.count;
+      this.head = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Record<string, unknown> | Record<string, unknown>[]) {
+    this.action = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Record<string, unknown> | Record<string, unknown>[], options: { onConflict?: string } = {}) {
+    this.action = "upsert";
+    this.values = Array.isArray(values) ? values : [values];
+    this.conflictColumn = options.onConflict || "id";
+    return this;
+  }
+
+  update(values: Record<string, unknown>) {
+    this.action = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.action = "delete";
+    return this;
+  }
+
+  // Filters on an embedded table's column, like parts.deleted_at, narrow the
+  // embedded rows rather than the parent rows
+  private filter(column: string, test: (value: unknown) => boolean) {
+    const [embed, embedColumn] = column.split(".");
+    if (embedColumn) {
+      (this.embedFilters[embed] ||= []).push(row => test(row[embedColumn]));
+    } else {
+      this.filters.push(row => test(row[column]));
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.filter(column, actual => actual === value);
+  }
+
+  neq(column: string, value: unknown) {
+    return this.filter(column, actual => actual !== value);
+  }
+
+  in(column: string, values: unknown[]) {
+    return this.filter(column, actual => values.includes(actual));
+  }
+
+  is(column: string, value: null | boolean) {
+    return this.filter(column, actual => (actual ?? null) === value);
+  }
+
+  not(column: string, operator: string, value: unknown) {
+    const tests: Record<string, (actual: unknown) => boolean> = {
+      is: actual => (actual ?? null) === value,
+      eq: actual => actual === value,
+      in: actual => (value as unknown[]).includes(actual),
+    };
+    const test = tests[operator];
+    if (!test) throw new Error(`Memory backend: not(${operator}) isn't supported`);
+    return this.filter(column, actual => !test(actual));
+  }
+
+  gt(column: string, value: unknown) {
+    return this.filter(column, actual => actual !== null && actual !== undefined && compareValues(actual, value) > 0);
+  }
+
+  gte(column: string, value: unknown) {
+    return this.filter(column, actual => actual !== null && actual !== undefined && compareValues(actual, value) >= 0);
+  }
+
+  lt(column: string, value: unknown) {
+    return this.filter(column, actual => actual !== null && actual !== undefined && compareValues(actual, value) < 0);
+  }
+
+  lte(column: string, value: unknown) {
+    return this.filter(column, actual => actual !== null && actual !== undefined && compareValues(actual, value) <= 0);
+  }
+
+  textSearch(_column: string, search: string) {
+    this.filters.push(row => matchesSearch(row, search));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    this.ordering.push({ column, ascending: options.ascending ?? true, nullsFirst: options.nullsFirst ?? false });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number) {
+    this.window = { from: this.window?.from ?? 0, to: (this.window?.from ?? 0) + count - 1 };
+    return this;
+  }
+
+  single() {
+    this.singleRow = "single";
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleRow = "maybeSingle";
+    return this;
+  }
+
+  then<TResult1 = MemoryResult, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    // Like the real client, results arrive asynchronously
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching() {
+    return this.store.table(this.table).filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  private execute(): MemoryResult {
+    try {
+      switch (this.action) {
+        case "select":
+          return this.read(this.matching());
+        case "insert":
+          return this.written(this.store.insert(this.table, this.values));
+        case "upsert":
+          return this.written(this.store.upsert(this.table, this.values, this.conflictColumn));
+        case "update":
+          return this.written(this.store.update(this.table, this.matching().map(row => row.id), this.values[0]));
+        case "delete":
+          return this.written(this.store.remove(this.table, this.matching().map(row => row.id)));
+      }
+    } catch (error) {
+      return this.result(null, error as MemoryError, 400);
+    }
+  }
+
+  private result(data: unknown, error: MemoryError | null = null, status = 200, count: number | null = null): MemoryResult {
+    return { data, error, count, status, statusText: error ? "Bad Request" : "OK" };
+  }
+
+  private written(rows: MemoryRow[]) {
+    return this.returning ? this.read(rows) : this.result(null, null, 201);
+  }
+
+  private read(rows: MemoryRow[]): MemoryResult {
+    const sorted = [...rows].sort((a, b) => {
+      for (const { column, ascending, nullsFirst } of this.ordering) {
+        const left = a[column] ?? null;
+        const right = b[column] ?? null;
+        if (left === right) continue;
+        if (left === null) return nullsFirst ? -1 : 1;
+        if (right === null) return nullsFirst ? 1 : -1;
+        return ascending ? compareValues(left, right) : compareValues(right, left);
+      }
+      return 0;
+    });
+    const windowed = this.window ? sorted.slice(this.window.from, this.window.to + 1) : sorted;
+    const data = windowed.map(row => this.project(row));
+    const count = this.countRows ? rows.length : null;
+
+    if (this.head) return this.result(null, null, 200, count);
+
+    if (this.singleRow) {
+      if (data.length > 1 || (data.length === 0 && this.singleRow === "single")) {
+        return this.result(null, memoryError(
+          `JSON object requested, multiple (or no) rows returned`,
+          "PGRST116"
+        ), 406, count);
+      }
+      return this.result(data[0] ?? null, null, 200, count);
+    }
+
+    return this.result(data, null, 200, count);
+  }
+
+  private project(row: MemoryRow) {
+    const { plain, embeds } = parseColumns(this.columns);
+    const projected: Record<string, unknown> = plain.includes("*")
+      ? clone(row)
+      : Object.fromEntries(plain.map(column => [column, clone(row[column] ?? null)]));
+
+    for (const embed of embeds) {
+      const foreignKey = EMBEDS[embed]?.[this.table];
+      if (!foreignKey) throw memoryError(`Could not find a relationship between '${this.table}' and '${embed}'`, "PGRST200");
+
+      const filters = this.embedFilters[embed] || [];
+      projected[embed] = this.store.table(embed)
+        .filter(child => child[foreignKey] === row.id && filters.every(filter => filter(child)))
+        .map(clone);
+    }
+
+    return projected;
+  }
+}
+
+type ChangePayload = { table: string; eventType: ChangeEvent } & Record<string, unknown>;
+
+class MemoryStore {
+  private tables = new Map<string, MemoryRow[]>();
+  readonly channels = new Set<MemoryChannel>();
+  // Events held back until the transaction they belong to commits
+  private pendingEvents: ChangePayload[] | null = null;
+  private guards = new Map<string, WriteGuard>();
+  private guardsOff = 0;
+
+  constructor(private readonly now: () => string) {}
+
+  table(name: string) {
+    if (!this.tables.has(name)) this.tables.set(name, []);
+    return this.tables.get(name);
+  }
+
+  // Runs the writes all or nothing; realtime events go out only if they all succeed
+  transaction<T>(writes: () => T): T {
+    const snapshot = new Map([...this.tables].map(([name, rows]) => [name, clone(rows)]));
+    this.pendingEvents = [];
+
+    try {
+      const result = writes();
+      const events = this.pendingEvents;
+      this.pendingEvents = null;
+      events.forEach(event => this.dispatch(event));
+      return result;
+    } catch (error) {
+      this.tables = snapshot;
+      this.pendingEvents = null;
+      throw error;
+    }
+  }
+
+  guard(name: string, guard: WriteGuard) {
+    this.guards.set(name, guard);
+  }
+
+  // Runs the writes without the guards, as the approval functions do by
+  // setting app.approval_workflow
+  unguarded<T>(writes: () => T): T {
+    this.guardsOff++;
+    try {
+      return writes();
+    } finally {
+      this.guardsOff--;
+    }
+  }
+
+  private check(name: string, row: MemoryRow, old: MemoryRow | null) {
+    const guard = this.guards.get(name);
+    if (guard && this.guardsOff === 0) guard(row, old);
+  }
+
+  seed(name: string, rows: Record<string, unknown>[]) {
+    this.tables.set(name, rows.map(row => this.complete(name, row)));
+  }
+
+  // A new row with its id, bookkeeping columns and defaults filled in, and
+  // null for any other column it leaves out
+  private complete(name: string, values: Record<string, unknown>): MemoryRow {
+    const timestamp = this.now();
+    const base: Record<string, unknown> = {};
+
+    // Only the record tables carry the bookkeeping columns
+    if (isMappedTable(name)) {
+      rowColumns(name).forEach(column => { base[column] = null; });
+      Object.assign(base, clone(COLUMN_DEFAULTS[name] || {}), { created_at: timestamp, updated_at: timestamp, deleted_at: null });
+    }
+
+    return {
+      ...base,
+      ...defined(values),
+      id: String(values.id ?? crypto.randomUUID()),
+    } as MemoryRow;
+  }
+
+  insert(name: string, values: Record<string, unknown>[]) {
+    const rows = this.table(name);
+    const inserted = values.map(value => this.complete(name, value));
+
+    for (const row of inserted) {
+      if (rows.some(existing => existing.id === row.id) || inserted.filter(other => other.id === row.id).length > 1) {
+        throw memoryError(`duplicate key value violates unique constraint "${name}_pkey"`, "23505");
+      }
+      this.check(name, row, null);
+    }
+
+    rows.push(...inserted);
+    inserted.forEach(row => this.emit(name, "INSERT", row, { id: row.id }));
+    return inserted.map(row => clone(row));
+  }
+
+  update(name: string, ids: string[], values: Record<string, unknown>) {
+    const updatedAt = this.now();
+    const rows = this.table(name).filter(row => ids.includes(row.id));
+    const next = rows.map(row => {
+      const updated = { ...row, ...(isMappedTable(name) ? { updated_at: updatedAt } : {}), ...defined(values), id: row.id };
+      this.check(name, updated, row);
+      return updated;
+    });
+    const changed = rows.map((row, index) => Object.assign(row, next[index]));
+
+    changed.forEach(row => this.emit(name, "UPDATE", row, { id: row.id }));
+    return changed.map(row => clone(row));
+  }
+
+  upsert(name: string, values: Record<string, unknown>[], conflictColumn: string) {
+    return values.flatMap(value => {
+      const existing = this.table(name).find(row => row[conflictColumn] === value[conflictColumn]);
+      return existing ? this.update(name, [existing.id], value) : this.insert(name, [value]);
+    });
+  }
+
+  remove(name: string, ids: string[]) {
+    const rows = this.table(name);
+    const removed = rows.filter(row => ids.includes(row.id));
+    this.tables.set(name, rows.filter(row => !ids.includes(row.id)));
+
+    // Deletes only carry the primary key, as with the default replica identity
+    removed.forEach(row => this.emit(name, "DELETE", {}, { id: row.id }));
+    return removed;
+  }
+
+  private emit(table: string, eventType: ChangeEvent, row: Record<string, unknown>, old: Record<string, unknown>) {
+    const payload: ChangePayload = {
+      schema: "public",
+      table,
+      commit_timestamp: this.now(),
+      eventType,
+      new: clone(row),
+      old,
+      errors: null,
+    };
+
+    if (this.pendingEvents) this.pendingEvents.push(payload);
+    else this.dispatch(payload);
+  }
+
+  private dispatch(payload: ChangePayload) {
+    const { table, eventType } = payload;
+
+    for (const channel of this.channels) {
+      channel.listeners
+        .filter(listener => (listener.event === "*" || listener.event === eventType) && (!listener.table || listener.table === table))
+        .forEach(listener => queueMicrotask(() => listener.callback(payload)));
+    }
+  }
+}
+
+// apply_operations runs the whole batch or none of it, like the function in
+// supabase/migrations/20250101000400_apply_operations.sql
+const runOperations = (store: MemoryStore, operations: QueuedOperation[]) => {
+  for (const { table, action, rowId, values } of operations) {
+    if (!isMappedTable(table)) throw memoryError(`apply_operations: unknown table ${table}`, "P0001");
+
+    const affected = action === "insert"
+      ? store.insert(table, [{ ...values, id: rowId }])
+      : action === "update"
+        ? store.update(table, [rowId], values || {})
+        : store.remove(table, [rowId]);
+
+    if (affected.length === 0) {
+      throw memoryError(`apply_operations: ${action} on ${table} matched no row ${rowId}`, "P0002");
+    }
+  }
+  return null;
+};
+
+const applyOperations = (store: MemoryStore, operations: QueuedOperation[]) =>
+  store.transaction(() => runOperations(store, operations));
+
+// restore_backup of supabase/migrations/20250101001300_backup_extra_tables.sql:
+// the operations, then change requests by id, settings by key and audit
+// entries the log doesn't have yet
+const restoreBackup = (store: MemoryStore, args: Record<string, unknown>) =>
+  store.transaction(() => store.unguarded(() => {
+    const records = (args.records || {}) as Record<string, MemoryRow[] | undefined>;
+    const requests = records.supplier_change_requests;
+
+    if (args.replace_all && requests) {
+      const kept = new Set(requests.map(row => row.id));
+      store.remove(
+        "supplier_change_requests",
+        store.table("supplier_change_requests").filter(row => !kept.has(row.id)).map(row => row.id)
+      );
+    }
+
+    runOperations(store, (args.operations || []) as QueuedOperation[]);
+
+    store.upsert("supplier_change_requests", requests || [], "id");
+    store.upsert("app_settings", records.app_settings || [], "key");
+    const logged = new Set(store.table("audit_log").map(row => row.id));
+    store.insert("audit_log", (records.audit_log || []).filter(row => !logged.has(row.id)));
+    return null;
+  }));
+
+// guard_purchase_order_approval of
+// supabase/migrations/20250101001400_reapprove_issued_orders.sql: approval
+// columns only change through the functions below, and changing what a
+// submitted, approved or issued PO commits to sends it back to draft
+const COMMITTED_STATUSES = ["Submitted", "Approved", "Issued"];
+const COMMERCIAL_COLUMNS = ["amount", "currency", "project_id", "supplier_id", "cost_category"];
+const APPROVAL_COLUMNS = ["approval_status", "approvals", "submitted_by"];
+
+const guardPurchaseOrderApproval = (now: () => string, user: () => MemoryUser | null): WriteGuard => (row, old) => {
+  const distinct = (column: string) => JSON.stringify(row[column] ?? null) !== JSON.stringify(old[column] ?? null);
+
+  if (!old) {
+    if (row.approval_status !== "Draft" || JSON.stringify(row.approvals) !== "[]" || row.submitted_by !== null) {
+      throw memoryError("New purchase orders start as drafts", "42501");
+    }
+    return;
+  }
+
+  if (APPROVAL_COLUMNS.some(distinct)) {
+    throw memoryError("Approvals can only change through submit, decide and issue", "42501");
+  }
+
+  if (COMMITTED_STATUSES.includes(String(old.approval_status)) && COMMERCIAL_COLUMNS.some(distinct)) {
+    const reopened = defined({ action: "reopened", decidedAt: now(), decidedBy: user()?.email });
+    Object.assign(row, {
+      approval_status: "Draft",
+      approvals: [...((old.approvals as unknown[]) || []), reopened],
+      submitted_by: null,
+    });
+  }
+};
+
+// The approval functions of supabase/migrations/20250101001000_approval_functions.sql.
+// They follow the same workflow: the chain from the rules in app_settings, one
+// step at a time and no decision from whoever submitted the PO. Which roles
+// may call them at all is left to the app, as with the tables.
+const approvalFunctions = (
+  store: MemoryStore,
+  now: () => string,
+  user: () => MemoryUser | null
+): Record<string, RpcHandler> => {
+  const setting = (key: string) => store.table("app_settings").find(row => row.key === key)?.value;
+
+  const purchaseOrder = (id: unknown) => {
+    const row = store.table("purchase_orders").find(item => item.id === id && item.deleted_at === null);
+    if (!row) throw memoryError("Purchase order not found", "P0002");
+    return mapPurchaseOrderFromDb(clone(row) as unknown as PurchaseOrderRow, []);
+  };
+
+  // The amount the rules are matched against, in the reporting currency
+  const reportingAmount = (po: PurchaseOrder) => {
+    const { reportingCurrency, exchangeRates } = parseCurrencySettings(setting(CURRENCY_SETTINGS_KEY));
+    const from = isCurrencyCode(po.currency) ? po.currency : BASE_CURRENCY;
+    return convertAmount(exchangeRates, po.amount || 0, from, reportingCurrency, po.issuedDate) ?? (po.amount || 0);
+  };
+
+  const comment = (value: unknown) => (typeof value === "string" && value.trim()) || undefined;
+
+  const record = (
+    po: PurchaseOrder,
+    values: Record<string, unknown>,
+    action: ApprovalDecision["action"],
+    details: Partial<ApprovalDecision> = {}
+  ) => {
+    const decision = defined({ action, ...details, decidedAt: now(), decidedBy: user()?.email });
+    store.unguarded(() =>
+      store.update("purchase_orders", [po.id], { ...values, approvals: [...(po.approvals || []), decision] })
+    );
+    return null;
+  };
+
+  return {
+    submit_purchase_order: args => {
+      const po = purchaseOrder(args.po_id);
+      if (!canSubmit(po)) throw memoryError(`${po.poNumber} has already been submitted`, "P0001");
+
+      const rule = matchApprovalRule(po, parseApprovalRules(setting(APPROVAL_RULES_KEY)), reportingAmount);
+      const chain = rule?.approvers || [];
+      return record(
+        po,
+        { approval_status: chain.length > 0 ? "Submitted" : "Approved", submitted_by: user()?.id ?? null },
+        "submitted",
+        { chain, rule: rule?.name, comment: comment(args.comment) }
+      );
+    },
+    decide_purchase_order: args => {
+      const po = purchaseOrder(args.po_id);
+      const decision = args.decision as "approved" | "rejected";
+      const step = pendingApprover(po);
+      const caller = user();
+
+      if (!step) throw memoryError(`${po.poNumber} isn't waiting for approval`, "P0001");
+      if (caller?.role && caller.role !== step && caller.role !== "admin") {
+        throw memoryError(`${po.poNumber} is waiting for ${step} approval`, "42501");
+      }
+      if (po.submittedBy && po.submittedBy === caller?.id) {
+        throw memoryError("Purchase orders can't be approved or rejected by the person who submitted them", "42501");
+      }
+      if (decision === "rejected" && !comment(args.comment)) {
+        throw memoryError("A reason is required to reject a purchase order", "P0001");
+      }
+
+      const { chain, approved } = approvalProgress(po);
+      const status = decision === "rejected" ? "Rejected" : approved + 1 < chain.length ? "Submitted" : "Approved";
+      return record(po, { approval_status: status }, decision, { approverRole: step, comment: comment(args.comment) });
+    },
+    issue_purchase_order: args => {
+      const po = purchaseOrder(args.po_id);
+      if (approvalStatusOf(po) !== "Approved") {
+        throw memoryError(`${po.poNumber} has to be approved before it's issued`, "P0001");
+      }
+      return record(po, { approval_status: "Issued" }, "issued");
+    },
+  };
+};
+
+// The portal functions of supabase/migrations/20250101001100_portal_data.sql:
+// the caller's own records, with the columns their portal doesn't show set
+// to null
+const portalFunctions = (store: MemoryStore, user: () => MemoryUser | null): Record<string, RpcHandler> => {
+  const live = (table: string, keep: (row: MemoryRow) => boolean) =>
+    store.table(table).filter(row => row.deleted_at === null && keep(row)).map(row => clone(row));
+  const hide = (rows: MemoryRow[], hidden: Record<string, unknown>) => rows.map(row => ({ ...row, ...hidden }));
+  const ids = (rows: MemoryRow[], column = "id") => new Set(rows.map(row => row[column]));
+
+  return {
+    client_portal_data: () => {
+      const clientId = user()?.clientId;
+      const projects = live("projects", row => !!clientId && row.client_id === clientId);
+      const projectIds = ids(projects);
+      const purchaseOrders = live("purchase_orders", row => projectIds.has(row.project_id));
+      const poIds = ids(purchaseOrders);
+
+      return {
+        clients: live("clients", row => row.id === clientId),
+        suppliers: [],
+        projects: hide(projects, { budget: null, budget_categories: null }),
+        purchase_orders: hide(purchaseOrders, {
+          supplier_id: null,
+          amount: null,
+          currency: null,
+          cost_category: null,
+          description: null,
+          revisions: [],
+          approvals: [],
+          submitted_by: null,
+        }),
+        parts: live("parts", row => poIds.has(row.po_id)),
+        external_links: [],
+        shipments: hide(live("shipments", row => projectIds.has(row.project_id)), { supplier_id: null, notes: null }),
+      };
+    },
+    supplier_portal_data: () => {
+      const supplierId = user()?.supplierId;
+      const purchaseOrders = live("purchase_orders", row => !!supplierId && row.supplier_id === supplierId);
+      const poIds = ids(purchaseOrders);
+      const projectIds = ids(purchaseOrders, "project_id");
+
+      return {
+        clients: [],
+        suppliers: live("suppliers", row => row.id === supplierId),
+        projects: hide(live("projects", row => projectIds.has(row.id)), { client_id: null, budget: null, budget_categories: null }),
+        purchase_orders: hide(purchaseOrders, { approvals: [], submitted_by: null }),
+        parts: live("parts", row => poIds.has(row.po_id)),
+        external_links: live("external_links", row => poIds.has(row.po_id)),
+        shipments: live("shipments", row => !!supplierId && row.supplier_id === supplierId),
+      };
+    },
+  };
+};
+
+// An empty backend, or one holding the given fixtures
+export const createMemoryBackend = (fixtures?: Fixtures, options: MemoryBackendOptions = {}): MemoryBackend => {
+  const now = options.now ?? (() => new Date().toISOString());
+  const store = new MemoryStore(now);
+  const functions: Record<string, RpcHandler> = {
+    apply_operations: args => applyOperations(store, (args.operations || []) as QueuedOperation[]),
+    restore_backup: args => restoreBackup(store, args),
+    ...approvalFunctions(store, now, options.user ?? (() => null)),
+    ...portalFunctions(store, options.user ?? (() => null)),
+    ...options.functions,
+  };
+
+  store.guard("purchase_orders", guardPurchaseOrderApproval(now, options.user ?? (() => null)));
+
+  if (fixtures) {
+    const rows = fixtureRows(fixtures);
+    SEED_TABLES.forEach(table => store.seed(table, rows[table]));
+  }
+
+  const backend = {
+    from: (table: string) => new MemoryQuery(store, table),
+    rpc: (fn: string, args: Record<string, unknown> = {}) => {
+      const handler = functions[fn];
+      return Promise.resolve().then(() => {
+        if (!handler) {
+          return { data: null, error: memoryError(`Could not find the function public.${fn}`, "PGRST202"), status: 404, statusText: "Not Found" };
+        }
+        try {
+          return { data: handler(args, backend as unknown as MemoryBackend) ?? null, error: null, status: 200, statusText: "OK" };
+        } catch (error) {
+          return { data: null, error: error as MemoryError, status: 400, statusText: "Bad Request" };
+        }
+      });
+    },
+    channel: (topic: string) => new MemoryChannel(topic, store.channels),
+    getChannels: () => [...store.channels],
+    removeChannel: (channel: MemoryChannel) => channel.unsubscribe(),
+    rows: (table: string) => clone(store.table(table)),
+    seed: (table: string, rows: Record<string, unknown>[]) => store.seed(table, rows),
+  };
+
+  return backend as unknown as MemoryBackend;
+};
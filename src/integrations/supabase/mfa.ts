@@ -0,0 +1,120 @@
+import { supabase } from "./client";
+import { UserRole, isUserRole } from "@/lib/roles";
+
+export interface TotpEnrollment {
+  factorId: string;
+  // SVG data URL the authenticator app scans
+  qrCode: string;
+  // The same secret for typing in by hand
+  secret: string;
+}
+
+// Stored in app_settings so the policy applies to every browser
+const MFA_POLICY_KEY = "mfa_required_roles";
+
+// Verified TOTP factors for the signed-in user
+export const listTotpFactors = async () => {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+  return data.totp;
+};
+
+// Whether the session still has to pass a TOTP challenge, and with which factor
+export const getPendingChallenge = async (): Promise<string | null> => {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+
+  if (data.nextLevel !== "aal2" || data.currentLevel === "aal2") return null;
+
+  const factors = await listTotpFactors();
+  return factors[0]?.id ?? null;
+};
+
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  // An abandoned enrollment leaves an unverified factor behind; clear it first
+  const { data: existing, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+  for (const factor of existing.all.filter(item => item.status === "unverified")) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: "totp",
+    friendlyName: "Authenticator app",
+  });
+  if (error) throw error;
+
+  return { factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret };
+};
+
+// Used both to confirm a new enrollment and to pass the login challenge
+export const verifyTotp = async (factorId: string, code: string) => {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw error;
+};
+
+export const unenrollTotp = async (factorId: string) => {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+};
+
+// Recovery codes are only kept as SHA-256 hashes
+const hashRecoveryCode = async (code: string) => {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Replaces the user's recovery codes and returns the new ones. They are shown
+// once. The database generates them and refuses unless the session has passed
+// a TOTP challenge.
+export const generateRecoveryCodes = async (): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('generate_mfa_recovery_codes');
+  if (error) throw error;
+  return data;
+};
+
+export const countRecoveryCodes = async (userId: string): Promise<number> => {
+  const { count, error } = await supabase
+    .from('mfa_recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// The database function marks the code used and removes the user's TOTP
+// factors, so the session drops back to password-only until they re-enroll.
+export const redeemRecoveryCode = async (code: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('redeem_mfa_recovery_code', {
+    code_hash: await hashRecoveryCode(code),
+  });
+  if (error) throw error;
+
+  if (data) {
+    const { error: refreshError } = await supabase.auth.refreshSession();
+    if (refreshError) throw refreshError;
+  }
+  return !!data;
+};
+
+export const fetchMfaRequiredRoles = async (): Promise<UserRole[]> => {
+  const { data, error } = await supabase
+    .from('app_settings')
+    .select('value')
+    .eq('key', MFA_POLICY_KEY)
+    .maybeSingle();
+  if (error) throw error;
+
+  return Array.isArray(data?.value) ? data.value.filter(isUserRole) : [];
+};
+
+export const saveMfaRequiredRoles = async (roles: UserRole[]) => {
+  const { error } = await supabase
+    .from('app_settings')
+    .upsert({ key: MFA_POLICY_KEY, value: roles, updated_at: new Date().toISOString() });
+  if (error) throw error;
+};
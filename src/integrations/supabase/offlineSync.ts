@@ -0,0 +1,129 @@
+import { supabase } from "./backend";
+import { applyOperations } from "./trash";
+import {
+  QueuedOperation,
+  QueuedWrite,
+  removeQueuedWrite,
+  rowVersionKey,
+  updateQueuedWrite,
+} from "@/lib/offlineStore";
+
+// supabase-js reports a failed fetch as an ordinary error whose message names it
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const message = (error as { message?: string } | null)?.message || "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+};
+
+// Table names come from the queue, so the typed client can't narrow them
+const fromTable = (table: QueuedOperation["table"]) => supabase.from(table as "clients");
+
+// Returns why the operation can no longer be applied cleanly, if it can't
+const findConflict = async (operation: QueuedOperation): Promise<string | undefined> => {
+  if (operation.action === "insert" || operation.baseUpdatedAt === undefined) return undefined;
+
+  const { data, error } = await fromTable(operation.table)
+    .select('updated_at')
+    .eq('id', operation.rowId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!data) {
+    return operation.action === "delete" ? undefined : "It was deleted on the server";
+  }
+  if (data.updated_at !== operation.baseUpdatedAt) {
+    return "It was changed on the server after you went offline";
+  }
+  return undefined;
+};
+
+// A delete whose row is already gone has nothing left to do
+const isSettled = async (operation: QueuedOperation) => {
+  if (operation.action !== "delete") return false;
+
+  const { data, error } = await fromTable(operation.table).select('id').eq('id', operation.rowId).maybeSingle();
+  if (error) throw error;
+  return !data;
+};
+
+// Applies a queued write and removes it from the queue. With force, conflicts are ignored.
+// The write's operations run in one transaction (apply_operations), so one
+// that fails part way, such as a PO with its parts, leaves nothing behind.
+export const applyQueuedWrite = async (write: QueuedWrite, force = false): Promise<string | undefined> => {
+  if (!force) {
+    for (const operation of write.operations) {
+      const conflict = await findConflict(operation);
+      if (conflict) return conflict;
+    }
+  }
+
+  const operations: QueuedOperation[] = [];
+  for (const operation of write.operations) {
+    if (!(await isSettled(operation))) operations.push(operation);
+  }
+  if (operations.length > 0) {
+    await applyOperations(operations);
+  }
+
+  if (write.id !== undefined) {
+    await removeQueuedWrite(write.id);
+  }
+  return undefined;
+};
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  // Replay stopped because the connection dropped again
+  interrupted: boolean;
+}
+
+// Replays the queue in order. Writes that conflict, or that Supabase rejects,
+// stay in the queue flagged so the user can overwrite or discard them.
+export const replayQueuedWrites = async (writes: QueuedWrite[]): Promise<ReplayResult> => {
+  const result: ReplayResult = { applied: 0, conflicts: 0, interrupted: false };
+  // Rows touched by a held-back write; later writes to them wait for it to be resolved
+  const heldRows = new Set<string>();
+
+  const holdBack = async (write: QueuedWrite, conflict: string) => {
+    write.operations.forEach(operation => heldRows.add(rowVersionKey(operation.table, operation.rowId)));
+    if (write.conflict !== conflict) {
+      await updateQueuedWrite({ ...write, conflict });
+    }
+    result.conflicts++;
+  };
+
+  for (const write of writes) {
+    if (write.conflict) {
+      await holdBack(write, write.conflict);
+      continue;
+    }
+    // Not a conflict of its own, so it is simply retried on the next replay
+    if (write.operations.some(operation => heldRows.has(rowVersionKey(operation.table, operation.rowId)))) {
+      write.operations.forEach(operation => heldRows.add(rowVersionKey(operation.table, operation.rowId)));
+      continue;
+    }
+
+    try {
+      const conflict = await applyQueuedWrite(write);
+      if (conflict) {
+        await holdBack(write, conflict);
+      } else {
+        result.applied++;
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.interrupted = true;
+        break;
+      }
+
+      console.error("Error replaying queued write:", error);
+      await holdBack(write, (error as { message?: string })?.message || "Supabase rejected the change");
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,36 @@
+import { supabase } from "./backend";
+import type {
+  ClientRow,
+  ExternalLinkRow,
+  PartRow,
+  ProjectRow,
+  PurchaseOrderRow,
+  ShipmentRow,
+  SupplierRow,
+} from "./mappers";
+
+// Client and supplier users can't read the workspace tables. Their portal
+// loads through a database function (see the portal_data migration) that
+// returns only their own records, with the columns they may not see set to
+// null, as rows shaped like the tables' so the usual mappers apply.
+export type PortalRole = "client" | "supplier";
+
+export interface PortalRows {
+  clients: ClientRow[];
+  suppliers: SupplierRow[];
+  projects: ProjectRow[];
+  purchase_orders: PurchaseOrderRow[];
+  parts: PartRow[];
+  external_links: ExternalLinkRow[];
+  shipments: ShipmentRow[];
+}
+
+export const isPortalRole = (role: string | null | undefined): role is PortalRole =>
+  role === "client" || role === "supplier";
+
+export const fetchPortalData = async (role: PortalRole): Promise<PortalRows> => {
+  const { data, error } = await supabase.rpc(role === "client" ? 'client_portal_data' : 'supplier_portal_data');
+  if (error) throw error;
+  // Each row is still checked by its mapper
+  return data as unknown as PortalRows;
+};
@@ -0,0 +1,284 @@
+import { supabase } from "./backend";
+import {
+  mapClientFromDb,
+  mapExternalLinkFromDb,
+  mapProjectFromDb,
+  mapPurchaseOrderFromDb,
+  mapShipmentFromDb,
+  mapSupplierFromDb,
+} from "./mappers";
+import type { ExternalLink, Project, PurchaseOrder, Shipment } from "@/contexts/DataContext";
+import type { EntityFilters, ListPage, ListParams } from "@/lib/queryCache";
+
+// Read-side fetchers behind the query hooks, and behind the DataProvider's
+// writes when its records aren't loaded. Each one asks only for the rows its
+// caller needs, unlike the DataProvider's full load. Rows in the trash
+// (deleted_at set) are always left out.
+
+export const fetchClients = async () => {
+  const { data, error } = await supabase.from('clients').select('*').is('deleted_at', null);
+  if (error) throw error;
+  return data.map(mapClientFromDb);
+};
+
+export const fetchClient = async (id: string) => {
+  const { data, error } = await supabase.from('clients').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+  if (error) throw error;
+  return data ? mapClientFromDb(data) : null;
+};
+
+export const fetchSuppliers = async () => {
+  const { data, error } = await supabase.from('suppliers').select('*').is('deleted_at', null);
+  if (error) throw error;
+  return data.map(mapSupplierFromDb);
+};
+
+export const fetchSupplier = async (id: string) => {
+  const { data, error } = await supabase.from('suppliers').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+  if (error) throw error;
+  return data ? mapSupplierFromDb(data) : null;
+};
+
+export const fetchProjects = async (filters: EntityFilters = {}) => {
+  let query = supabase.from('projects').select('*').is('deleted_at', null);
+  if (filters.clientId) query = query.eq('client_id', filters.clientId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.map(mapProjectFromDb);
+};
+
+export const fetchProject = async (id: string) => {
+  const { data, error } = await supabase.from('projects').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+  if (error) throw error;
+  return data ? mapProjectFromDb(data) : null;
+};
+
+// Parts come back embedded through the parts_po_id_fkey relationship
+export const fetchPurchaseOrders = async (filters: EntityFilters = {}) => {
+  let query = supabase
+    .from('purchase_orders')
+    .select('*, parts(*)')
+    .is('deleted_at', null)
+    .is('parts.deleted_at', null);
+  if (filters.projectId) query = query.eq('project_id', filters.projectId);
+  if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.map(po => mapPurchaseOrderFromDb(po, po.parts));
+};
+
+export const fetchPurchaseOrder = async (id: string) => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, parts(*)')
+    .eq('id', id)
+    .is('deleted_at', null)
+    .is('parts.deleted_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? mapPurchaseOrderFromDb(data, data.parts) : null;
+};
+
+export const fetchExternalLinks = async (filters: EntityFilters = {}) => {
+  let query = supabase.from('external_links').select('*').is('deleted_at', null);
+  if (filters.projectId) query = query.eq('project_id', filters.projectId);
+  if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId);
+  if (filters.poId) query = query.eq('po_id', filters.poId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.map(mapExternalLinkFromDb);
+};
+
+export const fetchShipments = async (filters: EntityFilters = {}) => {
+  let query = supabase.from('shipments').select('*').is('deleted_at', null);
+  if (filters.projectId) query = query.eq('project_id', filters.projectId);
+  if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId);
+  if (filters.poId) query = query.eq('po_id', filters.poId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data.map(mapShipmentFromDb);
+};
+
+export const fetchExternalLink = async (id: string) => {
+  const { data, error } = await supabase.from('external_links').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+  if (error) throw error;
+  return data ? mapExternalLinkFromDb(data) : null;
+};
+
+export const fetchShipment = async (id: string) => {
+  const { data, error } = await supabase.from('shipments').select('*').eq('id', id).is('deleted_at', null).maybeSingle();
+  if (error) throw error;
+  return data ? mapShipmentFromDb(data) : null;
+};
+
+// Fetchers for the rows whose column matches any of a set of ids, for
+// following foreign keys from a few records without loading whole tables.
+// No ids means no rows, without a round trip.
+
+export const fetchPurchaseOrdersIn = async (column: 'id' | 'project_id' | 'supplier_id', ids: string[]) => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, parts(*)')
+    .in(column, ids)
+    .is('deleted_at', null)
+    .is('parts.deleted_at', null);
+  if (error) throw error;
+  return data.map(po => mapPurchaseOrderFromDb(po, po.parts));
+};
+
+export const fetchShipmentsIn = async (column: 'project_id' | 'supplier_id' | 'po_id', ids: string[]) => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from('shipments').select('*').in(column, ids).is('deleted_at', null);
+  if (error) throw error;
+  return data.map(mapShipmentFromDb);
+};
+
+export const fetchExternalLinksIn = async (column: 'project_id' | 'supplier_id' | 'po_id', ids: string[]) => {
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase.from('external_links').select('*').in(column, ids).is('deleted_at', null);
+  if (error) throw error;
+  return data.map(mapExternalLinkFromDb);
+};
+
+// Paged fetchers for the big lists. Sorting is limited to each table's own
+// columns, and text search goes through the search_vector full-text column.
+
+// List sort keys mapped to the columns they order by; the first is the
+// fallback for unknown keys and the column the date range applies to
+const PURCHASE_ORDER_SORTS = {
+  issuedDate: 'issued_date',
+  poNumber: 'po_number',
+  amount: 'amount',
+  deadline: 'deadline',
+  status: 'status',
+  approvalStatus: 'approval_status',
+  progress: 'progress',
+} as const;
+
+const SHIPMENT_SORTS = {
+  etaDate: 'eta_date',
+  shippedDate: 'shipped_date',
+  type: 'type',
+  status: 'status',
+} as const;
+
+const PROJECT_SORTS = {
+  startDate: 'start_date',
+  name: 'name',
+  location: 'location',
+  status: 'status',
+  progress: 'progress',
+} as const;
+
+const EXTERNAL_LINK_SORTS = {
+  date: 'date',
+  title: 'title',
+  type: 'type',
+} as const;
+
+const sortColumn = <T extends Record<string, string>>(sorts: T, key: string): T[keyof T] =>
+  (sorts[key] ?? Object.values(sorts)[0]) as T[keyof T];
+
+const pageRange = ({ page, pageSize }: ListParams) =>
+  [(page - 1) * pageSize, page * pageSize - 1] as const;
+
+const SEARCH_OPTIONS = { type: 'websearch', config: 'english' } as const;
+
+export const fetchPurchaseOrderPage = async (params: ListParams): Promise<ListPage<PurchaseOrder>> => {
+  const column = sortColumn(PURCHASE_ORDER_SORTS, params.sort);
+  let query = supabase
+    .from('purchase_orders')
+    .select('*, parts(*)', { count: 'exact' })
+    .is('deleted_at', null)
+    .is('parts.deleted_at', null);
+
+  if (params.status) query = query.eq('status', params.status);
+  if (params.approval) query = query.eq('approval_status', params.approval);
+  if (params.projectId) query = query.eq('project_id', params.projectId);
+  if (params.supplierId) query = query.eq('supplier_id', params.supplierId);
+  if (params.from) query = query.gte('issued_date', params.from);
+  if (params.to) query = query.lte('issued_date', params.to);
+  if (params.search) query = query.textSearch('search_vector', params.search, SEARCH_OPTIONS);
+
+  const { data, error, count } = await query
+    .order(column, { ascending: params.direction === 'asc' })
+    .order('id')
+    .range(...pageRange(params));
+  if (error) throw error;
+
+  return { rows: data.map(po => mapPurchaseOrderFromDb(po, po.parts)), total: count ?? 0 };
+};
+
+export const fetchShipmentPage = async (params: ListParams): Promise<ListPage<Shipment>> => {
+  const column = sortColumn(SHIPMENT_SORTS, params.sort);
+  let query = supabase
+    .from('shipments')
+    .select('*', { count: 'exact' })
+    .is('deleted_at', null);
+
+  if (params.status) query = query.eq('status', params.status);
+  if (params.type) query = query.eq('type', params.type);
+  if (params.projectId) query = query.eq('project_id', params.projectId);
+  if (params.supplierId) query = query.eq('supplier_id', params.supplierId);
+  if (params.from) query = query.gte('eta_date', params.from);
+  if (params.to) query = query.lte('eta_date', params.to);
+  if (params.search) query = query.textSearch('search_vector', params.search, SEARCH_OPTIONS);
+
+  const { data, error, count } = await query
+    .order(column, { ascending: params.direction === 'asc' })
+    .order('id')
+    .range(...pageRange(params));
+  if (error) throw error;
+
+  return { rows: data.map(mapShipmentFromDb), total: count ?? 0 };
+};
+
+export const fetchProjectPage = async (params: ListParams): Promise<ListPage<Project>> => {
+  const column = sortColumn(PROJECT_SORTS, params.sort);
+  let query = supabase
+    .from('projects')
+    .select('*', { count: 'exact' })
+    .is('deleted_at', null);
+
+  if (params.status) query = query.eq('status', params.status);
+  if (params.clientId) query = query.eq('client_id', params.clientId);
+  if (params.from) query = query.gte('start_date', params.from);
+  if (params.to) query = query.lte('start_date', params.to);
+  if (params.search) query = query.textSearch('search_vector', params.search, SEARCH_OPTIONS);
+
+  const { data, error, count } = await query
+    .order(column, { ascending: params.direction === 'asc' })
+    .order('id')
+    .range(...pageRange(params));
+  if (error) throw error;
+
+  return { rows: data.map(mapProjectFromDb), total: count ?? 0 };
+};
+
+export const fetchExternalLinkPage = async (params: ListParams): Promise<ListPage<ExternalLink>> => {
+  const column = sortColumn(EXTERNAL_LINK_SORTS, params.sort);
+  let query = supabase
+    .from('external_links')
+    .select('*', { count: 'exact' })
+    .is('deleted_at', null);
+
+  if (params.type) query = query.eq('type', params.type);
+  if (params.projectId) query = query.eq('project_id', params.projectId);
+  if (params.supplierId) query = query.eq('supplier_id', params.supplierId);
+  if (params.from) query = query.gte('date', params.from);
+  if (params.to) query = query.lte('date', params.to);
+  if (params.search) query = query.textSearch('search_vector', params.search, SEARCH_OPTIONS);
+
+  const { data, error, count } = await query
+    .order(column, { ascending: params.direction === 'asc' })
+    .order('id')
+    .range(...pageRange(params));
+  if (error) throw error;
+
+  return { rows: data.map(mapExternalLinkFromDb), total: count ?? 0 };
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import type { Client } from "@/contexts/DataContext";
+import { createFixtures } from "@/data/fixtures";
+import type { RowVersions } from "@/lib/offlineStore";
+import {
+  ClientRow,
+  PartRow,
+  PurchaseOrderRow,
+  mapClientFromDb,
+  mapPurchaseOrdersFromDb,
+} from "./mappers";
+import { createMemoryBackend } from "./memoryBackend";
+import {
+  StaleRealtimeStateError,
+  applyPartChange,
+  applyPurchaseOrderChange,
+  applyRowChange,
+  applyVersionChange,
+} from "./realtimePatches";
+
+const fixtures = createFixtures({ clients: 2, suppliers: 1, projects: 1, purchaseOrdersPerProject: 2 });
+const backend = createMemoryBackend(fixtures);
+const clientRows = backend.rows("clients") as unknown as ClientRow[];
+const poRows = backend.rows("purchase_orders") as unknown as PurchaseOrderRow[];
+const partRows = backend.rows("parts") as unknown as PartRow[];
+
+// A postgres_changes payload as Supabase delivers it. Deletes only carry the
+// primary key.
+const insert = <Row extends { [key: string]: unknown }>(row: Row) => payload<Row>("INSERT", row, {});
+const update = <Row extends { [key: string]: unknown }>(row: Row) => payload<Row>("UPDATE", row, { id: row.id });
+const remove = <Row extends { [key: string]: unknown }>(id: string) => payload<Row>("DELETE", {}, { id });
+
+const payload = <Row extends { [key: string]: unknown }>(
+  eventType: "INSERT" | "UPDATE" | "DELETE",
+  next: Record<string, unknown>,
+  old: Record<string, unknown>
+) => ({
+  schema: "public",
+  table: "test",
+  commit_timestamp: "2025-01-01T00:00:00Z",
+  eventType,
+  new: next,
+  old,
+  errors: null,
+}) as unknown as RealtimePostgresChangesPayload<Row>;
+
+const clients = (): Client[] => clientRows.map(mapClientFromDb);
+
+describe("applyRowChange", () => {
+  it("adds an inserted row and treats a repeated insert as an update", () => {
+    const row = { ...clientRows[0], id: "client-new", name: "Harbour Works" };
+
+    const added = applyRowChange(clients(), insert(row), mapClientFromDb);
+    expect(added.map(client => client.name)).toContain("Harbour Works");
+
+    const again = applyRowChange(added, insert({ ...row, name: "Harbour Works Ltd" }), mapClientFromDb);
+    expect(again).toHaveLength(added.length);
+    expect(again.find(client => client.id === "client-new")?.name).toBe("Harbour Works Ltd");
+  });
+
+  it("replaces an updated row in place", () => {
+    const [first, second] = clientRows;
+
+    const patched = applyRowChange(clients(), update({ ...second, phone: "+1 555 0100" }), mapClientFromDb);
+
+    expect(patched.map(client => client.id)).toEqual([first.id, second.id]);
+    expect(patched[1].phone).toBe("+1 555 0100");
+  });
+
+  it("drops a deleted row, and a trashed one that arrives as an update", () => {
+    const [first, second] = clientRows;
+
+    expect(applyRowChange(clients(), remove<ClientRow>(first.id), mapClientFromDb).map(client => client.id))
+      .toEqual([second.id]);
+    expect(
+      applyRowChange(clients(), update({ ...second, deleted_at: "2025-01-02T00:00:00Z" }), mapClientFromDb)
+        .map(client => client.id)
+    ).toEqual([first.id]);
+  });
+
+  it("gives up on a delete without a primary key", () => {
+    expect(() => applyRowChange(clients(), payload<ClientRow>("DELETE", {}, {}), mapClientFromDb))
+      .toThrow(StaleRealtimeStateError);
+  });
+});
+
+describe("applyPurchaseOrderChange", () => {
+  it("keeps the parts it already has when the PO row changes", () => {
+    const purchaseOrders = mapPurchaseOrdersFromDb(poRows, partRows);
+    const [po] = poRows;
+
+    const patched = applyPurchaseOrderChange(purchaseOrders, update({ ...po, amount: 1234 }));
+    const after = patched.find(item => item.id === po.id);
+
+    expect(after.amount).toBe(1234);
+    expect(after.parts).toEqual(purchaseOrders.find(item => item.id === po.id).parts);
+  });
+
+  it("drops a PO moved to the trash", () => {
+    const purchaseOrders = mapPurchaseOrdersFromDb(poRows, partRows);
+    const [po] = poRows;
+
+    const patched = applyPurchaseOrderChange(purchaseOrders, update({ ...po, deleted_at: "2025-01-02T00:00:00Z" }));
+
+    expect(patched.some(item => item.id === po.id)).toBe(false);
+  });
+});
+
+describe("applyPartChange", () => {
+  const [po, otherPo] = poRows;
+  const parts = partRows.filter(part => part.po_id === po.id);
+
+  it("adds an inserted part to its PO", () => {
+    const row = { ...parts[0], id: "part-new", name: "Shackle" };
+
+    const patched = applyPartChange(mapPurchaseOrdersFromDb(poRows, partRows), insert(row));
+
+    expect(patched.find(item => item.id === po.id).parts.at(-1)?.name).toBe("Shackle");
+  });
+
+  it("updates a part where it was in the list", () => {
+    const index = parts.length - 1;
+
+    const patched = applyPartChange(mapPurchaseOrdersFromDb(poRows, partRows), update({ ...parts[index], progress: 55 }));
+
+    const after = patched.find(item => item.id === po.id).parts;
+    expect(after).toHaveLength(parts.length);
+    expect(after[index]).toMatchObject({ id: parts[index].id, progress: 55 });
+  });
+
+  it("moves a part to another PO", () => {
+    const patched = applyPartChange(mapPurchaseOrdersFromDb(poRows, partRows), update({ ...parts[0], po_id: otherPo.id }));
+
+    expect(patched.find(item => item.id === po.id).parts.some(part => part.id === parts[0].id)).toBe(false);
+    expect(patched.find(item => item.id === otherPo.id).parts.some(part => part.id === parts[0].id)).toBe(true);
+  });
+
+  it("removes a deleted or trashed part", () => {
+    const purchaseOrders = mapPurchaseOrdersFromDb(poRows, partRows);
+
+    const deleted = applyPartChange(purchaseOrders, remove<PartRow>(parts[0].id));
+    const trashed = applyPartChange(purchaseOrders, update({ ...parts[0], deleted_at: "2025-01-02T00:00:00Z" }));
+
+    for (const patched of [deleted, trashed]) {
+      expect(patched.find(item => item.id === po.id).parts.map(part => part.id))
+        .toEqual(parts.slice(1).map(part => part.id));
+    }
+  });
+
+  it("gives up on a part for a PO it hasn't seen", () => {
+    expect(() => applyPartChange(mapPurchaseOrdersFromDb(poRows, partRows), insert({ ...parts[0], po_id: "po-unknown" })))
+      .toThrow(StaleRealtimeStateError);
+  });
+});
+
+describe("applyVersionChange", () => {
+  it("tracks the version of a changed row and forgets a removed one", () => {
+    const versions: RowVersions = {};
+    const [client] = clientRows;
+
+    applyVersionChange(versions, { table: "clients", payload: update({ ...client, updated_at: "2025-01-03T00:00:00Z" }) });
+    expect(versions[`clients:${client.id}`]).toBe("2025-01-03T00:00:00Z");
+
+    applyVersionChange(versions, { table: "clients", payload: update({ ...client, deleted_at: "2025-01-04T00:00:00Z" }) });
+    expect(versions).not.toHaveProperty(`clients:${client.id}`);
+  });
+});
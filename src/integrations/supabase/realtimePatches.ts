@@ -0,0 +1,166 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "./backend";
+import {
+  ClientRow,
+  ExternalLinkRow,
+  PartRow,
+  ProjectRow,
+  PurchaseOrderRow,
+  ShipmentRow,
+  SupplierRow,
+  mapPartFromDb,
+  mapPurchaseOrderFromDb,
+} from "./mappers";
+import type { PurchaseOrder } from "@/contexts/DataContext";
+import { OfflineTable, RowVersions, rowVersionKey } from "@/lib/offlineStore";
+
+// Applies postgres_changes payloads to local state as targeted patches, so a
+// single row change doesn't refetch its whole table.
+
+export type RealtimeTable = OfflineTable;
+
+export const REALTIME_TABLES: RealtimeTable[] = [
+  "clients",
+  "suppliers",
+  "projects",
+  "purchase_orders",
+  "parts",
+  "external_links",
+  "shipments",
+];
+
+type TrackedRow = { id: string; deleted_at: string | null };
+type VersionedRow = TrackedRow & { updated_at: string | null };
+
+interface RealtimeRows {
+  clients: ClientRow;
+  suppliers: SupplierRow;
+  projects: ProjectRow;
+  purchase_orders: PurchaseOrderRow;
+  parts: PartRow;
+  external_links: ExternalLinkRow;
+  shipments: ShipmentRow;
+}
+
+export type RealtimeChange<T extends RealtimeTable = RealtimeTable> = {
+  [K in T]: { table: K; payload: RealtimePostgresChangesPayload<RealtimeRows[K]> };
+}[T];
+
+// A patch that can't be applied (say a part for a PO we haven't seen yet)
+// throws this, and the caller reloads the table instead
+export class StaleRealtimeStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaleRealtimeStateError";
+  }
+}
+
+// The row a change leaves behind, or the id of the row it removed. Moving a
+// row to the trash is an update that sets deleted_at, so it counts as a
+// removal too. Deletes only carry the primary key unless the table uses
+// REPLICA IDENTITY FULL.
+const changedRow = <Row extends TrackedRow>(payload: RealtimePostgresChangesPayload<Row>) => {
+  if (payload.eventType === "DELETE") return { id: payload.old.id, row: null };
+  return { id: payload.new.id, row: payload.new.deleted_at ? null : payload.new };
+};
+
+// Inserts and updates are both upserts, so a replayed or out-of-order event is harmless
+export const applyRowChange = <Row extends TrackedRow, T extends { id: string }>(
+  items: T[],
+  payload: RealtimePostgresChangesPayload<Row>,
+  map: (row: Row) => T
+): T[] => {
+  const { id, row } = changedRow(payload);
+  if (!id) throw new StaleRealtimeStateError("Delete event without a primary key");
+
+  if (!row) return items.filter(item => item.id !== id);
+
+  const mapped = map(row);
+  return items.some(item => item.id === id)
+    ? items.map(item => item.id === id ? mapped : item)
+    : [...items, mapped];
+};
+
+// PO rows don't carry their parts, so an update keeps the parts we already have
+export const applyPurchaseOrderChange = (
+  purchaseOrders: PurchaseOrder[],
+  payload: RealtimePostgresChangesPayload<PurchaseOrderRow>
+): PurchaseOrder[] =>
+  applyRowChange(purchaseOrders, payload, row => {
+    const existing = purchaseOrders.find(po => po.id === row.id);
+    return { ...mapPurchaseOrderFromDb(row, []), parts: existing?.parts ?? [] };
+  });
+
+export const applyPartChange = (
+  purchaseOrders: PurchaseOrder[],
+  payload: RealtimePostgresChangesPayload<PartRow>
+): PurchaseOrder[] => {
+  const { id, row } = changedRow(payload);
+  if (!id) throw new StaleRealtimeStateError("Delete event without a primary key");
+
+  // A part can move between POs, so drop it wherever it was first
+  const withoutPart = purchaseOrders.map(po =>
+    po.parts.some(part => part.id === id)
+      ? { ...po, parts: po.parts.filter(part => part.id !== id) }
+      : po
+  );
+  if (!row) return withoutPart;
+
+  if (!withoutPart.some(po => po.id === row.po_id)) {
+    throw new StaleRealtimeStateError(`Part ${id} belongs to unknown purchase order ${row.po_id}`);
+  }
+
+  const mapped = mapPartFromDb(row);
+  const previous = purchaseOrders.find(po => po.id === row.po_id)?.parts ?? [];
+  const index = previous.findIndex(part => part.id === id);
+
+  return withoutPart.map(po => {
+    if (po.id !== row.po_id) return po;
+
+    // Keep the part's position so lists don't jump around on every progress update
+    const parts = [...po.parts];
+    parts.splice(index === -1 ? parts.length : index, 0, mapped);
+    return { ...po, parts };
+  });
+};
+
+// Keeps the conflict-check versions in step with what realtime delivered
+export const applyVersionChange = (versions: RowVersions, change: RealtimeChange) => {
+  const { id, row } = changedRow<VersionedRow>(change.payload);
+  if (!id) return;
+
+  const key = rowVersionKey(change.table, id);
+  if (row) {
+    versions[key] = row.updated_at;
+  } else {
+    delete versions[key];
+  }
+};
+
+// Compares each table's ids and updated_at against what we last saw. Anything
+// that drifted (a dropped event, a reconnect gap) needs a full reload.
+export const findStaleTables = async (
+  tables: RealtimeTable[],
+  versions: RowVersions
+): Promise<RealtimeTable[]> => {
+  const stale: RealtimeTable[] = [];
+
+  for (const table of tables) {
+    // Table names come from the list above, so the typed client can't narrow them
+    const { data, error } = await supabase
+      .from(table as "clients")
+      .select('id, updated_at')
+      .is('deleted_at', null);
+    if (error) throw error;
+
+    const prefix = `${table}:`;
+    const known = Object.keys(versions).filter(key => key.startsWith(prefix));
+    const drifted =
+      known.length !== data.length ||
+      data.some(row => versions[rowVersionKey(table, row.id)] !== row.updated_at);
+
+    if (drifted) stale.push(table);
+  }
+
+  return stale;
+};
@@ -0,0 +1,79 @@
+import type { Fixtures } from "@/data/fixtures";
+import type { OfflineTable } from "@/lib/offlineStore";
+import {
+  mapNewClientToDb,
+  mapNewExternalLinkToDb,
+  mapNewPartToDb,
+  mapNewProjectToDb,
+  mapNewPurchaseOrderToDb,
+  mapNewShipmentToDb,
+  mapNewSupplierToDb,
+} from "./mappers";
+
+export type SeedRow = { id: string } & Record<string, unknown>;
+
+// Parents before children, the order the rows have to be inserted in
+export const SEED_TABLES: OfflineTable[] = [
+  "clients",
+  "suppliers",
+  "projects",
+  "purchase_orders",
+  "parts",
+  "shipments",
+  "external_links",
+];
+
+// Fixtures as database rows, table by table. Going through the mappers means
+// a fixture that doesn't fit the schema fails here rather than in the database.
+export const fixtureRows = (fixtures: Fixtures): Record<OfflineTable, SeedRow[]> => ({
+  clients: fixtures.clients.map(({ id, ...client }) => ({ id, ...mapNewClientToDb(client) })),
+  suppliers: fixtures.suppliers.map(({ id, ...supplier }) => ({ id, ...mapNewSupplierToDb(supplier) })),
+  projects: fixtures.projects.map(({ id, ...project }) => ({ id, ...mapNewProjectToDb(project) })),
+  purchase_orders: fixtures.purchaseOrders.map(({ id, ...po }) => ({ id, ...mapNewPurchaseOrderToDb(po) })),
+  parts: fixtures.purchaseOrders.flatMap(po =>
+    po.parts.map(({ id, ...part }) => ({ id, ...mapNewPartToDb(part, po.id) }))
+  ),
+  shipments: fixtures.shipments.map(({ id, ...shipment }) => ({ id, ...mapNewShipmentToDb(shipment) })),
+  external_links: fixtures.externalLinks.map(({ id, ...link }) => ({ id, ...mapNewExternalLinkToDb(link) })),
+});
+
+const sqlLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "null";
+  if (typeof value === "boolean") return value ? "true" : "false";
+  if (Array.isArray(value) && value.every(item => typeof item === "string")) {
+    return value.length > 0 ? `array[${value.map(sqlLiteral).join(", ")}]` : "'{}'";
+  }
+  if (typeof value === "object") return `${sqlLiteral(JSON.stringify(value))}::jsonb`;
+  return `'${String(value).replace(/'/g, "''")}'`;
+};
+
+// Columns a row leaves out keep the table default
+const insertStatement = (table: OfflineTable, rows: SeedRow[]) => {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const values = rows.map(row =>
+    `  (${columns.map(column => row[column] !== undefined ? sqlLiteral(row[column]) : "default").join(", ")})`
+  );
+
+  return [
+    `insert into public.${table} (${columns.join(", ")}) values`,
+    values.join(",\n"),
+    "on conflict (id) do nothing;",
+  ].join("\n");
+};
+
+// A seed.sql for `supabase db reset`. Existing rows are left alone, so it can
+// be run again against a database that already has the fixtures.
+export const fixturesToSql = (fixtures: Fixtures, header: string[] = []) => {
+  const rows = fixtureRows(fixtures);
+  const statements = SEED_TABLES
+    .filter(table => rows[table].length > 0)
+    .map(table => insertStatement(table, rows[table]));
+
+  return [
+    header.map(line => `-- ${line}`).join("\n"),
+    "begin;",
+    ...statements,
+    "commit;\n",
+  ].filter(Boolean).join("\n\n");
+};
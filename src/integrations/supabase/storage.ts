@@ -0,0 +1,52 @@
+import { supabase } from "./client";
+
+// Generated documents (PO PDFs and the like) and supplier uploads live in one
+// private bucket. Links to them hold the file's path there rather than a URL
+// and are opened through a short-lived signed URL.
+export const DOCUMENTS_BUCKET = "documents";
+
+// The bucket's top-level folders, so a stored document can be told apart
+// from a web link
+const DOCUMENT_FOLDERS = ["purchase-orders", "supplier-uploads"];
+
+// How long a signed link stays valid, in seconds
+const SIGNED_URL_TTL = 60;
+
+// Uploads a file and returns the path to link it by
+export const uploadDocument = async (path: string, file: Blob, contentType: string): Promise<string> => {
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, file, { contentType, upsert: true });
+
+  if (error) throw error;
+  return path;
+};
+
+export const isDocumentPath = (url: string) => DOCUMENT_FOLDERS.some(folder => url.startsWith(`${folder}/`));
+
+export const signedDocumentUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUrl(path, SIGNED_URL_TTL);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Opens a link in a new tab, signing it first if it is a stored document. The
+// tab is opened before the signed URL arrives so popup blockers allow it.
+export const openDocument = async (url: string) => {
+  if (!isDocumentPath(url)) {
+    window.open(url, "_blank", "noopener,noreferrer");
+    return;
+  }
+
+  const tab = window.open("", "_blank");
+  try {
+    const signedUrl = await signedDocumentUrl(url);
+    if (tab) {
+      tab.opener = null;
+      tab.location.href = signedUrl;
+    }
+  } catch (error) {
+    tab?.close();
+    throw error;
+  }
+};
@@ -0,0 +1,185 @@
+import { supabase } from "./backend";
+import type { Json } from "./types";
+import { uploadDocument } from "./storage";
+import type { AuditActor } from "./auditLog";
+import type { Part, Shipment } from "@/contexts/DataContext";
+
+// Changes a supplier submits from their portal. Nothing touches the real
+// records until a staff member approves the request.
+export type SupplierUpdateKind = "partProgress" | "shipment" | "document";
+export type SupplierUpdateStatus = "pending" | "approved" | "rejected";
+
+export interface PartProgressChange {
+  partId: string;
+  // Kept with the change so the request still reads sensibly if the part is renamed
+  partName: string;
+  status: Part["status"];
+  progress: number;
+}
+
+export type SupplierUpdatePayload =
+  | { kind: "partProgress"; parts: PartProgressChange[] }
+  | { kind: "shipment"; shipment: Omit<Shipment, "id"> }
+  // path is the upload's place in the documents bucket, under supplierDocumentFolder
+  | { kind: "document"; title: string; path: string; type?: string };
+
+export interface SupplierUpdate {
+  id: string;
+  supplierId: string;
+  poId: string;
+  payload: SupplierUpdatePayload;
+  status: SupplierUpdateStatus;
+  submittedBy?: string;
+  submittedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+}
+
+export const SUPPLIER_UPDATE_LABELS: Record<SupplierUpdateKind, string> = {
+  partProgress: "Part progress",
+  shipment: "New shipment",
+  document: "Document",
+};
+
+type SupplierUpdateRow = {
+  id: string;
+  supplier_id: string;
+  po_id: string;
+  kind: string;
+  payload: Json;
+  status: string;
+  submitted_by: string | null;
+  submitted_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_note: string | null;
+};
+
+const mapSupplierUpdateFromDb = (row: SupplierUpdateRow): SupplierUpdate => ({
+  id: row.id,
+  supplierId: row.supplier_id,
+  poId: row.po_id,
+  // The kind column mirrors payload.kind so requests can be filtered in SQL
+  payload: { ...(row.payload as object), kind: row.kind } as SupplierUpdatePayload,
+  status: row.status as SupplierUpdateStatus,
+  submittedBy: row.submitted_by || undefined,
+  submittedAt: row.submitted_at,
+  reviewedBy: row.reviewed_by || undefined,
+  reviewedAt: row.reviewed_at || undefined,
+  reviewNote: row.review_note || undefined,
+});
+
+export const fetchSupplierUpdates = async (
+  filters: { status?: SupplierUpdateStatus; supplierId?: string } = {}
+): Promise<SupplierUpdate[]> => {
+  let query = supabase
+    .from('supplier_change_requests')
+    .select('*')
+    .order('submitted_at', { ascending: false });
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.supplierId) query = query.eq('supplier_id', filters.supplierId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return data.map(mapSupplierUpdateFromDb);
+};
+
+export const submitSupplierUpdate = async (
+  actor: AuditActor,
+  supplierId: string,
+  poId: string,
+  payload: SupplierUpdatePayload
+) => {
+  const { error } = await supabase.from('supplier_change_requests').insert({
+    supplier_id: supplierId,
+    po_id: poId,
+    kind: payload.kind,
+    payload: JSON.parse(JSON.stringify(payload)) as Json,
+    submitted_by: actor.email,
+  });
+
+  if (error) throw error;
+};
+
+// Only pending requests can be reviewed; one already handled elsewhere is
+// reported rather than overwritten
+export const reviewSupplierUpdate = async (
+  id: string,
+  status: Exclude<SupplierUpdateStatus, "pending">,
+  reviewer: AuditActor,
+  note?: string
+) => {
+  const { data, error } = await supabase
+    .from('supplier_change_requests')
+    .update({
+      status,
+      reviewed_by: reviewer.email,
+      reviewed_at: new Date().toISOString(),
+      review_note: note || null,
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (data.length === 0) throw new Error("This update has already been reviewed");
+};
+
+// Puts a request claimed for approval back in the queue, for when applying
+// it failed
+export const reopenSupplierUpdate = async (id: string) => {
+  const { error } = await supabase
+    .from('supplier_change_requests')
+    .update({ status: 'pending', reviewed_by: null, reviewed_at: null, review_note: null })
+    .eq('id', id)
+    .eq('status', 'approved');
+
+  if (error) throw error;
+};
+
+// Where a supplier's uploads for one PO go. Storage only lets them write
+// there, and a document request can't point anywhere else.
+export const supplierDocumentFolder = (supplierId: string, poId: string) =>
+  `supplier-uploads/${supplierId}/${poId}/`;
+
+export const isOwnSupplierDocument = (update: Pick<SupplierUpdate, "supplierId" | "poId" | "payload">) =>
+  update.payload.kind === "document" &&
+  typeof update.payload.path === "string" &&
+  update.payload.path.startsWith(supplierDocumentFolder(update.supplierId, update.poId));
+
+// Uploaded files sit in the documents bucket until the request is approved,
+// at which point they become an external link on the PO
+export const uploadSupplierDocument = (supplierId: string, poId: string, file: File) =>
+  uploadDocument(
+    `${supplierDocumentFolder(supplierId, poId)}${Date.now()}-${file.name}`,
+    file,
+    file.type || "application/octet-stream"
+  );
+
+// One-line summary for the review queue and the supplier's own history
+export const describeSupplierUpdate = (payload: SupplierUpdatePayload) => {
+  switch (payload.kind) {
+    case "partProgress":
+      return payload.parts
+        .map(change => `${change.partName}: ${change.status}, ${change.progress}%`)
+        .join("; ");
+    case "shipment": {
+      const reference = payload.shipment.type === "Sea"
+        ? payload.shipment.containerNumber
+        : payload.shipment.trackingNumber;
+      return `${payload.shipment.type} shipment${reference ? ` ${reference}` : ""}, ETA ${new Date(payload.shipment.etaDate).toLocaleDateString()}`;
+    }
+    case "document":
+      return payload.title;
+  }
+};
+
+// The PO's parts with the submitted progress laid over them
+export const applyPartProgress = (parts: Part[], changes: PartProgressChange[]): Part[] =>
+  parts.map(part => {
+    const change = changes.find(item => item.partId === part.id);
+    return change ? { ...part, status: change.status, progress: change.progress } : part;
+  });
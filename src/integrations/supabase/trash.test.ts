@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createFixtures } from "@/data/fixtures";
+import { setDataBackend } from "./backend";
+import { MemoryBackend, createMemoryBackend } from "./memoryBackend";
+import { applyOperations, fetchTrash, purgeFromTrash, restoreFromTrash, trashOperations } from "./trash";
+
+const fixtures = createFixtures({ clients: 2, suppliers: 2, projects: 2, purchaseOrdersPerProject: 2 });
+const po = fixtures.purchaseOrders.find(order => order.parts.length > 1);
+const [removedPart] = po.parts;
+
+let backend: MemoryBackend;
+
+// Takes a part off the PO the way editing it does, with its own timestamp
+const removePart = () =>
+  applyOperations([
+    { table: "parts", action: "update", rowId: removedPart.id, values: { deleted_at: "2025-01-01T00:00:00.000Z" } },
+  ]);
+
+beforeEach(() => {
+  backend = createMemoryBackend(fixtures);
+  setDataBackend(backend);
+});
+
+afterEach(() => {
+  setDataBackend();
+});
+
+describe("trash", () => {
+  it("lists parts removed from a PO under that PO", async () => {
+    await removePart();
+
+    const [item] = await fetchTrash();
+
+    expect(item).toMatchObject({
+      entity: "purchaseOrder",
+      label: `${removedPart.name} (removed from ${po.poNumber})`,
+      rows: [{ table: "parts", id: removedPart.id }],
+    });
+
+    await restoreFromTrash(item);
+    expect(backend.rows("parts").find(row => row.id === removedPart.id)?.deleted_at).toBeNull();
+  });
+
+  it("keeps parts removed earlier out of their PO's item but purges them with it", async () => {
+    await removePart();
+    await applyOperations(trashOperations("purchaseOrder", po.id, "2025-02-01T00:00:00.000Z"));
+
+    const items = await fetchTrash();
+    const poItem = items.find(item => item.id === po.id);
+    expect(poItem.rows).toEqual([{ table: "purchase_orders", id: po.id }]);
+    expect(items.find(item => item.rows.some(row => row.id === removedPart.id))).toBeDefined();
+
+    await purgeFromTrash(poItem);
+
+    expect(backend.rows("purchase_orders").some(row => row.id === po.id)).toBe(false);
+    expect(backend.rows("parts").some(row => row.id === removedPart.id)).toBe(false);
+    expect(await fetchTrash()).toEqual([]);
+  });
+});
@@ -0,0 +1,308 @@
+import { supabase } from "./backend";
+import { Dependents, NO_DEPENDENTS } from "./dependents";
+import type { Json } from "./types";
+import type { OfflineTable, QueuedOperation } from "@/lib/offlineStore";
+
+// Deleting moves a record to the trash by setting deleted_at. Everything that
+// goes with it (a PO's parts, a project's POs, shipments and links) gets the
+// same timestamp, which is how a restore finds the rows that belong to that
+// delete and leaves earlier, separate deletes alone. A purge also takes the
+// separately deleted rows that point at the record, since they can't outlive it.
+export type TrashEntity = "project" | "client" | "supplier" | "purchaseOrder" | "externalLink" | "shipment";
+
+export const TRASH_TABLES: Record<TrashEntity, OfflineTable> = {
+  project: "projects",
+  client: "clients",
+  supplier: "suppliers",
+  purchaseOrder: "purchase_orders",
+  externalLink: "external_links",
+  shipment: "shipments",
+};
+
+// Parents before children, the order restores run in; purges run in reverse
+export const TABLE_ORDER: OfflineTable[] = [
+  "clients",
+  "suppliers",
+  "projects",
+  "purchase_orders",
+  "parts",
+  "shipments",
+  "external_links",
+];
+
+export interface TrashRowRef {
+  table: OfflineTable;
+  id: string;
+}
+
+export interface TrashItem {
+  entity: TrashEntity;
+  id: string;
+  label: string;
+  deletedAt: string;
+  projectId?: string;
+  supplierId?: string;
+  // Rows deleted along with this one, which come back or go with it
+  dependents: number;
+  rows: TrashRowRef[];
+}
+
+// Table names vary at runtime here, so the typed client can't narrow them
+const fromTable = (table: OfflineTable) => supabase.from(table as "clients");
+
+// The row updates that move a record and its dependents to the trash, parent
+// first so a half-finished offline replay still leaves something to restore
+export const trashOperations = (
+  entity: TrashEntity,
+  id: string,
+  deletedAt: string,
+  dependents: Dependents = NO_DEPENDENTS
+): QueuedOperation[] => {
+  const values = { deleted_at: deletedAt };
+  const operation = (table: OfflineTable, rowId: string): QueuedOperation => ({ table, action: "update", rowId, values });
+
+  return [
+    operation(TRASH_TABLES[entity], id),
+    ...dependents.projects.map(project => operation("projects", project.id)),
+    ...dependents.purchaseOrders.map(po => operation("purchase_orders", po.id)),
+    ...dependents.parts.map(part => operation("parts", part.id)),
+    ...dependents.shipments.map(shipment => operation("shipments", shipment.id)),
+    ...dependents.externalLinks.map(link => operation("external_links", link.id)),
+  ];
+};
+
+// Runs the operations in a single database transaction, so a delete that
+// moves or archives other records either happens in full or not at all
+export const applyOperations = async (operations: QueuedOperation[]) => {
+  const { error } = await supabase.rpc('apply_operations', {
+    operations: operations.map(({ table, action, rowId, values }) => ({ table, action, rowId, values })) as Json,
+  });
+  if (error) throw error;
+};
+
+type TrashRow = {
+  id: string;
+  deleted_at: string | null;
+  client_id?: string | null;
+  project_id?: string | null;
+  supplier_id?: string | null;
+  po_id?: string | null;
+};
+
+const labelFor = (entity: TrashEntity, row: Record<string, unknown>) => {
+  switch (entity) {
+    case "purchaseOrder":
+      return String(row.po_number);
+    case "externalLink":
+      return String(row.title);
+    case "shipment":
+      return [row.type, row.tracking_number || row.container_number].filter(Boolean).join(" · ");
+    default:
+      return String(row.name);
+  }
+};
+
+type TrashKind = TrashEntity | "part";
+
+type ParentLink = { entity: TrashEntity; column: keyof TrashRow };
+
+// Where a row can have come from, closest parent first
+const PARENT_LINKS: Partial<Record<TrashKind, ParentLink[]>> = {
+  project: [{ entity: "client", column: "client_id" }],
+  purchaseOrder: [
+    { entity: "project", column: "project_id" },
+    { entity: "supplier", column: "supplier_id" },
+  ],
+  part: [{ entity: "purchaseOrder", column: "po_id" }],
+  shipment: [
+    { entity: "purchaseOrder", column: "po_id" },
+    { entity: "project", column: "project_id" },
+    { entity: "supplier", column: "supplier_id" },
+  ],
+  externalLink: [
+    { entity: "purchaseOrder", column: "po_id" },
+    { entity: "project", column: "project_id" },
+    { entity: "supplier", column: "supplier_id" },
+  ],
+};
+
+const tableOf = (kind: TrashKind): OfflineTable => kind === "part" ? "parts" : TRASH_TABLES[kind];
+
+// Everything in the trash, newest first. Rows that were deleted along with a
+// parent are folded into the parent's item instead of being listed separately.
+export const fetchTrash = async (): Promise<TrashItem[]> => {
+  const rows = {} as Record<TrashKind, (TrashRow & Record<string, unknown>)[]>;
+
+  for (const entity of Object.keys(TRASH_TABLES) as TrashEntity[]) {
+    const { data, error } = await fromTable(TRASH_TABLES[entity])
+      .select('*')
+      .not('deleted_at', 'is', null);
+
+    if (error) throw error;
+    rows[entity] = data as (TrashRow & Record<string, unknown>)[];
+  }
+
+  const { data: parts, error: partsError } = await supabase
+    .from('parts')
+    .select('id, po_id, name, deleted_at')
+    .not('deleted_at', 'is', null);
+
+  if (partsError) throw partsError;
+  rows.part = parts;
+
+  // The parent a row went to the trash with, if any
+  const parentOf = (kind: TrashKind, row: TrashRow) => {
+    for (const link of PARENT_LINKS[kind] ?? []) {
+      const parentId = row[link.column];
+      const parent = parentId ? rows[link.entity].find(candidate => candidate.id === parentId) : undefined;
+      if (parent && parent.deleted_at === row.deleted_at) {
+        return { entity: link.entity, row: parent };
+      }
+    }
+    return undefined;
+  };
+
+  // Climb to the top-level item, so a shipment deleted with a PO that was
+  // itself deleted with its project counts towards the project
+  const rootOf = (kind: TrashKind, row: TrashRow) => {
+    let root = parentOf(kind, row);
+    while (root) {
+      const next = parentOf(root.entity, root.row);
+      if (!next) break;
+      root = next;
+    }
+    return root;
+  };
+
+  const items = new Map<string, TrashItem>();
+  const folded: { key: string; kind: TrashKind; id: string }[] = [];
+  // Parts removed from a PO while it stayed, grouped by PO and removal
+  const removedParts = new Map<string, (TrashRow & Record<string, unknown>)[]>();
+
+  (Object.keys(rows) as TrashKind[]).forEach(kind => {
+    rows[kind].forEach(row => {
+      const parent = rootOf(kind, row);
+      if (parent) {
+        folded.push({ key: `${parent.entity}:${parent.row.id}`, kind, id: row.id });
+        return;
+      }
+      if (kind === "part") {
+        const key = `${row.po_id}:${row.deleted_at}`;
+        removedParts.set(key, [...(removedParts.get(key) || []), row]);
+        return;
+      }
+
+      items.set(`${kind}:${row.id}`, {
+        entity: kind,
+        id: row.id,
+        label: labelFor(kind, row),
+        deletedAt: row.deleted_at as string,
+        projectId: kind === "project" ? row.id : row.project_id || undefined,
+        supplierId: kind === "supplier" ? row.id : row.supplier_id || undefined,
+        dependents: 0,
+        rows: [{ table: TRASH_TABLES[kind], id: row.id }],
+      });
+    });
+  });
+
+  folded.forEach(({ key, kind, id }) => {
+    const item = items.get(key);
+    if (!item) return;
+    item.rows.push({ table: tableOf(kind), id });
+    // Parts come and go with their PO, so they aren't counted separately
+    if (kind !== "part") item.dependents++;
+  });
+
+  if (removedParts.size > 0) {
+    const poIds = [...new Set([...removedParts.values()].map(([part]) => part.po_id))];
+    const { data: orders, error: ordersError } = await supabase
+      .from('purchase_orders')
+      .select('id, po_number, project_id, supplier_id')
+      .in('id', poIds);
+
+    if (ordersError) throw ordersError;
+
+    // Listed under their PO, whose permissions they follow
+    removedParts.forEach(group => {
+      const [first] = group;
+      const po = orders.find(order => order.id === first.po_id);
+      items.set(`purchaseOrder:${first.id}`, {
+        entity: "purchaseOrder",
+        id: first.id,
+        label: `${group.map(part => part.name).join(", ")} (removed from ${po?.po_number ?? "a purchase order"})`,
+        deletedAt: first.deleted_at as string,
+        projectId: po?.project_id || undefined,
+        supplierId: po?.supplier_id || undefined,
+        dependents: 0,
+        rows: group.map(part => ({ table: "parts", id: part.id })),
+      });
+    });
+  }
+
+  return [...items.values()].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+const byTableOrder = (a: TrashRowRef, b: TrashRowRef) =>
+  TABLE_ORDER.indexOf(a.table) - TABLE_ORDER.indexOf(b.table);
+
+// Brings back the record and everything deleted with it, parents first so
+// restored children never point at a row still in the trash
+export const restoreFromTrash = async (item: TrashItem) => {
+  await applyOperations(
+    [...item.rows].sort(byTableOrder).map(row => ({
+      table: row.table,
+      action: "update",
+      rowId: row.id,
+      values: { deleted_at: null },
+    }))
+  );
+};
+
+// The given rows and every trashed row that points at them, whenever it was
+// deleted, following the references down to the last child
+const withTrashedReferences = async (refs: TrashRowRef[]) => {
+  const found = [...refs];
+  let added = refs;
+
+  while (added.length > 0) {
+    const next: TrashRowRef[] = [];
+
+    for (const [kind, links] of Object.entries(PARENT_LINKS) as [TrashKind, ParentLink[]][]) {
+      const table = tableOf(kind);
+
+      for (const link of links) {
+        const parentIds = added.filter(ref => ref.table === TRASH_TABLES[link.entity]).map(ref => ref.id);
+        if (parentIds.length === 0) continue;
+
+        const { data, error } = await fromTable(table)
+          .select('id')
+          .in(link.column as 'id', parentIds)
+          .not('deleted_at', 'is', null);
+
+        if (error) throw error;
+        for (const { id } of data) {
+          if (found.some(ref => ref.table === table && ref.id === id)) continue;
+          found.push({ table, id });
+          next.push({ table, id });
+        }
+      }
+    }
+
+    added = next;
+  }
+
+  return found;
+};
+
+// Removes a trashed record, everything deleted with it and any trashed rows
+// still pointing at it for good. Children go first because of the foreign keys.
+export const purgeFromTrash = async (item: TrashItem) => {
+  const rows = await withTrashedReferences(item.rows);
+  await applyOperations(
+    rows.sort(byTableOrder).reverse().map(row => ({
+      table: row.table,
+      action: "delete",
+      rowId: row.id,
+    }))
+  );
+};
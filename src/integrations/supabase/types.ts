@@ -9,10 +9,74 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          created_at: string
+          entity: string
+          entity_id: string
+          field: string | null
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          project_id: string | null
+          supplier_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          entity: string
+          entity_id: string
+          field?: string | null
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          project_id?: string | null
+          supplier_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          created_at?: string
+          entity?: string
+          entity_id?: string
+          field?: string | null
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          project_id?: string | null
+          supplier_id?: string | null
+        }
+        Relationships: []
+      }
       clients: {
         Row: {
           contact_person: string | null
           created_at: string | null
+          deleted_at: string | null
           email: string | null
           id: string
           location: string | null
@@ -23,6 +87,7 @@ export type Database = {
         Insert: {
           contact_person?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           email?: string | null
           id?: string
           location?: string | null
@@ -33,6 +98,7 @@ export type Database = {
         Update: {
           contact_person?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           email?: string | null
           id?: string
           location?: string | null
@@ -46,9 +112,11 @@ export type Database = {
         Row: {
           created_at: string | null
           date: string
+          deleted_at: string | null
           id: string
           po_id: string | null
           project_id: string | null
+          search_vector: unknown
           supplier_id: string | null
           title: string
           type: string | null
@@ -58,9 +126,11 @@ export type Database = {
         Insert: {
           created_at?: string | null
           date: string
+          deleted_at?: string | null
           id?: string
           po_id?: string | null
           project_id?: string | null
+          search_vector?: unknown
           supplier_id?: string | null
           title: string
           type?: string | null
@@ -70,9 +140,11 @@ export type Database = {
         Update: {
           created_at?: string | null
           date?: string
+          deleted_at?: string | null
           id?: string
           po_id?: string | null
           project_id?: string | null
+          search_vector?: unknown
           supplier_id?: string | null
           title?: string
           type?: string | null
@@ -103,9 +175,34 @@ export type Database = {
           },
         ]
       }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       parts: {
         Row: {
           created_at: string | null
+          deleted_at: string | null
           id: string
           name: string
           po_id: string | null
@@ -116,6 +213,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string | null
+          deleted_at?: string | null
           id?: string
           name: string
           po_id?: string | null
@@ -126,6 +224,7 @@ export type Database = {
         }
         Update: {
           created_at?: string | null
+          deleted_at?: string | null
           id?: string
           name?: string
           po_id?: string | null
@@ -144,10 +243,61 @@ export type Database = {
           },
         ]
       }
+      profiles: {
+        Row: {
+          client_id: string | null
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          role: string | null
+          supplier_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          role?: string | null
+          supplier_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          role?: string | null
+          supplier_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profiles_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
+          budget: number | null
+          budget_categories: Json | null
           client_id: string | null
           created_at: string | null
+          deleted_at: string | null
           description: string | null
           end_date: string
           id: string
@@ -155,13 +305,17 @@ export type Database = {
           name: string
           progress: number | null
           project_manager: string | null
+          search_vector: unknown
           start_date: string
           status: string | null
           updated_at: string | null
         }
         Insert: {
+          budget?: number | null
+          budget_categories?: Json | null
           client_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           description?: string | null
           end_date: string
           id?: string
@@ -169,13 +323,17 @@ export type Database = {
           name: string
           progress?: number | null
           project_manager?: string | null
+          search_vector?: unknown
           start_date: string
           status?: string | null
           updated_at?: string | null
         }
         Update: {
+          budget?: number | null
+          budget_categories?: Json | null
           client_id?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           description?: string | null
           end_date?: string
           id?: string
@@ -183,6 +341,7 @@ export type Database = {
           name?: string
           progress?: number | null
           project_manager?: string | null
+          search_vector?: unknown
           start_date?: string
           status?: string | null
           updated_at?: string | null
@@ -200,43 +359,70 @@ export type Database = {
       purchase_orders: {
         Row: {
           amount: number | null
+          approval_status: string
+          approvals: Json
+          cost_category: string | null
           created_at: string | null
+          currency: string | null
           deadline: string
+          deleted_at: string | null
           description: string | null
           id: string
           issued_date: string
           po_number: string
           progress: number | null
           project_id: string | null
+          revision: string
+          revisions: Json
+          search_vector: unknown
           status: string | null
+          submitted_by: string | null
           supplier_id: string | null
           updated_at: string | null
         }
         Insert: {
           amount?: number | null
+          approval_status?: string
+          approvals?: Json
+          cost_category?: string | null
           created_at?: string | null
+          currency?: string | null
           deadline: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           issued_date: string
           po_number: string
           progress?: number | null
           project_id?: string | null
+          revision?: string
+          revisions?: Json
+          search_vector?: unknown
           status?: string | null
+          submitted_by?: string | null
           supplier_id?: string | null
           updated_at?: string | null
         }
         Update: {
           amount?: number | null
+          approval_status?: string
+          approvals?: Json
+          cost_category?: string | null
           created_at?: string | null
+          currency?: string | null
           deadline?: string
+          deleted_at?: string | null
           description?: string | null
           id?: string
           issued_date?: string
           po_number?: string
           progress?: number | null
           project_id?: string | null
+          revision?: string
+          revisions?: Json
+          search_vector?: unknown
           status?: string | null
+          submitted_by?: string | null
           supplier_id?: string | null
           updated_at?: string | null
         }
@@ -263,6 +449,7 @@ export type Database = {
           container_size: string | null
           container_type: string | null
           created_at: string | null
+          deleted_at: string | null
           eta_date: string
           etd_date: string
           id: string
@@ -270,6 +457,7 @@ export type Database = {
           part_id: string | null
           po_id: string | null
           project_id: string | null
+          search_vector: unknown
           shipped_date: string
           status: string | null
           supplier_id: string | null
@@ -282,6 +470,7 @@ export type Database = {
           container_size?: string | null
           container_type?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           eta_date: string
           etd_date: string
           id?: string
@@ -289,6 +478,7 @@ export type Database = {
           part_id?: string | null
           po_id?: string | null
           project_id?: string | null
+          search_vector?: unknown
           shipped_date: string
           status?: string | null
           supplier_id?: string | null
@@ -301,6 +491,7 @@ export type Database = {
           container_size?: string | null
           container_type?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           eta_date?: string
           etd_date?: string
           id?: string
@@ -308,6 +499,7 @@ export type Database = {
           part_id?: string | null
           po_id?: string | null
           project_id?: string | null
+          search_vector?: unknown
           shipped_date?: string
           status?: string | null
           supplier_id?: string | null
@@ -346,11 +538,69 @@ export type Database = {
           },
         ]
       }
+      supplier_change_requests: {
+        Row: {
+          id: string
+          kind: string
+          payload: Json
+          po_id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string
+          submitted_by: string | null
+          supplier_id: string
+        }
+        Insert: {
+          id?: string
+          kind: string
+          payload: Json
+          po_id: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          supplier_id: string
+        }
+        Update: {
+          id?: string
+          kind?: string
+          payload?: Json
+          po_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string
+          submitted_by?: string | null
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_change_requests_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_change_requests_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           contact_person: string | null
           country: string | null
           created_at: string | null
+          deleted_at: string | null
           email: string | null
           id: string
           location: string | null
@@ -366,6 +616,7 @@ export type Database = {
           contact_person?: string | null
           country?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           email?: string | null
           id?: string
           location?: string | null
@@ -381,6 +632,7 @@ export type Database = {
           contact_person?: string | null
           country?: string | null
           created_at?: string | null
+          deleted_at?: string | null
           email?: string | null
           id?: string
           location?: string | null
@@ -399,7 +651,46 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_operations: {
+        Args: { operations: Json }
+        Returns: undefined
+      }
+      client_portal_data: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      decide_purchase_order: {
+        Args: { po_id: string; decision: string; comment?: string }
+        Returns: undefined
+      }
+      generate_mfa_recovery_codes: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      issue_purchase_order: {
+        Args: { po_id: string }
+        Returns: undefined
+      }
+      portal_row: {
+        Args: { item: Json; hidden?: Json }
+        Returns: Json
+      }
+      redeem_mfa_recovery_code: {
+        Args: { code_hash: string }
+        Returns: boolean
+      }
+      restore_backup: {
+        Args: { operations: Json; records?: Json; replace_all?: boolean }
+        Returns: undefined
+      }
+      submit_purchase_order: {
+        Args: { po_id: string; comment?: string }
+        Returns: undefined
+      }
+      supplier_portal_data: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
+import { completionRate, countByStatus, isInDateRange, spendByProject, spendBySupplier } from "@/lib/analytics";
+
+const project = (id: string, values: Partial<Project> = {}): Project => ({
+  id,
+  name: `Project ${id}`,
+  clientId: "client-1",
+  location: "Rotterdam",
+  status: "In Progress",
+  progress: 0,
+  startDate: "2025-01-01",
+  endDate: "2025-12-31",
+  ...values,
+});
+
+const supplier = (id: string): Supplier => ({ id, name: `Supplier ${id}` });
+
+const order = (id: string, values: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+  id,
+  poNumber: `PO-${id}`,
+  projectId: "project-1",
+  supplierId: "supplier-1",
+  status: "Active",
+  approvalStatus: "Approved",
+  issuedDate: "2025-01-10",
+  deadline: "2025-03-01",
+  progress: 0,
+  amount: 1000,
+  currency: "EUR",
+  description: "",
+  parts: [],
+  ...values,
+});
+
+const amountOf = (po: PurchaseOrder) => po.amount || 0;
+
+describe("isInDateRange", () => {
+  const today = new Date("2025-06-30T12:00:00");
+
+  it("keeps dates within the last 30, 90 or 365 days", () => {
+    expect(isInDateRange("2025-06-05", "month", today)).toBe(true);
+    expect(isInDateRange("2025-05-01", "month", today)).toBe(false);
+    expect(isInDateRange("2025-05-01", "quarter", today)).toBe(true);
+    expect(isInDateRange("2025-01-01", "quarter", today)).toBe(false);
+    expect(isInDateRange("2025-01-01", "year", today)).toBe(true);
+    expect(isInDateRange("2024-01-01", "year", today)).toBe(false);
+  });
+
+  it("takes any date for all time and none for an unknown range", () => {
+    expect(isInDateRange("2000-01-01", "all", today)).toBe(true);
+    expect(isInDateRange("2025-06-29", "decade", today)).toBe(false);
+  });
+});
+
+describe("countByStatus", () => {
+  it("counts the items with each status", () => {
+    expect(countByStatus([{ status: "Active" }, { status: "Delayed" }, { status: "Active" }])).toEqual({
+      Active: 2,
+      Delayed: 1,
+    });
+  });
+});
+
+describe("completionRate", () => {
+  it("rounds the share of completed projects to a whole percentage", () => {
+    expect(completionRate([project("1", { status: "Completed" }), project("2"), project("3")])).toBe(33);
+    expect(completionRate([])).toBe(0);
+  });
+});
+
+describe("spendByProject", () => {
+  it("sets approved spend against each budget, most committed first", () => {
+    const overBudget = project("project-1", { budget: 1500 });
+    const unbudgeted = project("project-2");
+    const idle = project("project-3");
+    const orders = [
+      order("1", { projectId: "project-1", status: "Completed" }),
+      order("2", { projectId: "project-1", amount: 1000 }),
+      order("3", { projectId: "project-1", approvalStatus: "Submitted", amount: 9000 }),
+      order("4", { projectId: "project-2", amount: 3000 }),
+    ];
+
+    expect(spendByProject([overBudget, unbudgeted, idle], orders, amountOf)).toEqual([
+      { project: unbudgeted, budget: 0, committed: 3000, actual: 0 },
+      { project: overBudget, budget: 1500, committed: 2000, actual: 1000 },
+    ]);
+  });
+});
+
+describe("spendBySupplier", () => {
+  it("adds up only approved POs and leaves out suppliers with none", () => {
+    const suppliers = [supplier("1"), supplier("2"), supplier("3")];
+    const orders = [
+      order("1", { supplierId: "1", amount: 500 }),
+      order("2", { supplierId: "1", approvalStatus: "Draft", amount: 5000 }),
+      order("3", { supplierId: "2", approvalStatus: "Issued", amount: 800 }),
+      order("4", { supplierId: "3", approvalStatus: "Rejected", amount: 900 }),
+    ];
+
+    expect(spendBySupplier(suppliers, orders, amountOf)).toEqual([
+      { supplier: suppliers[1], spent: 800 },
+      { supplier: suppliers[0], spent: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import type { Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
+import { PoAmount, getProjectBudget } from "@/lib/budget";
+import { isApproved } from "@/lib/poApprovals";
+
+// The figures on the analytics page, apart from the charts that draw them
+
+const RANGE_DAYS: Record<string, number> = { month: 30, quarter: 90, year: 365 };
+
+// Whether a date falls in the last 30, 90 or 365 days; "all" takes any date
+export const isInDateRange = (date: string, range: string, today = new Date()) => {
+  if (range === "all") return true;
+  if (!RANGE_DAYS[range]) return false;
+
+  const start = new Date(today);
+  start.setDate(today.getDate() - RANGE_DAYS[range]);
+  return new Date(date) >= start;
+};
+
+// How many of the items have each status
+export const countByStatus = (items: { status: string }[]): Record<string, number> =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    counts[item.status] = (counts[item.status] || 0) + 1;
+    return counts;
+  }, {});
+
+// The share of projects completed, as a whole percentage
+export const completionRate = (projects: Project[]) =>
+  projects.length > 0
+    ? Math.round((projects.filter(project => project.status === "Completed").length / projects.length) * 100)
+    : 0;
+
+export interface ProjectSpend {
+  project: Project;
+  budget: number;
+  committed: number;
+  actual: number;
+}
+
+// Budget against committed and actual spend for each project that has either,
+// most committed first
+export const spendByProject = (projects: Project[], purchaseOrders: PurchaseOrder[], amountOf: PoAmount): ProjectSpend[] =>
+  projects
+    .map(project => {
+      const { budget, committed, actual } = getProjectBudget(project, purchaseOrders, amountOf);
+      return { project, budget, committed, actual };
+    })
+    .filter(item => item.budget > 0 || item.committed > 0)
+    .sort((a, b) => b.committed - a.committed);
+
+export interface SupplierSpend {
+  supplier: Supplier;
+  spent: number;
+}
+
+// What each supplier's approved POs add up to, biggest first. Suppliers with
+// nothing approved are left out.
+export const spendBySupplier = (suppliers: Supplier[], purchaseOrders: PurchaseOrder[], amountOf: PoAmount): SupplierSpend[] => {
+  const approved = purchaseOrders.filter(isApproved);
+
+  return suppliers
+    .map(supplier => ({
+      supplier,
+      spent: approved.filter(po => po.supplierId === supplier.id).reduce((sum, po) => sum + amountOf(po), 0),
+    }))
+    .filter(item => item.spent > 0)
+    .sort((a, b) => b.spent - a.spent);
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Project, PurchaseOrder } from "@/contexts/DataContext";
+import { UNCATEGORIZED, getProjectBudget } from "@/lib/budget";
+import { ExchangeRate, convertAmount, isCurrencyCode } from "@/lib/currency";
+
+const project = (overrides: Partial<Project> = {}): Project => ({
+  id: "project-1",
+  name: "Harbour Crane",
+  clientId: "client-1",
+  location: "Rotterdam",
+  status: "In Progress",
+  progress: 0,
+  startDate: "2025-01-01",
+  endDate: "2025-12-31",
+  ...overrides,
+});
+
+let nextId = 1;
+const order = (overrides: Partial<PurchaseOrder> = {}): PurchaseOrder => ({
+  id: `po-${nextId}`,
+  poNumber: `PO-${nextId++}`,
+  projectId: "project-1",
+  supplierId: "supplier-1",
+  status: "Active",
+  issuedDate: "2025-02-01",
+  deadline: "2025-06-01",
+  amount: 1000,
+  currency: "USD",
+  parts: [],
+  approvalStatus: "Issued",
+  ...overrides,
+});
+
+describe("getProjectBudget", () => {
+  it("counts approved and issued POs as committed and leaves the rest out", () => {
+    const summary = getProjectBudget(project({ budget: 10000 }), [
+      order({ approvalStatus: "Draft" }),
+      order({ approvalStatus: "Submitted" }),
+      order({ approvalStatus: "Rejected" }),
+      order({ approvalStatus: "Approved" }),
+      order({ approvalStatus: "Issued", status: "Completed" }),
+      // Recorded before approvals existed, so already issued
+      order({ approvalStatus: undefined }),
+    ]);
+
+    expect(summary.committed).toBe(3000);
+    expect(summary.actual).toBe(1000);
+    expect(summary.remaining).toBe(7000);
+    expect(summary.overBudget).toBe(false);
+  });
+
+  it("ignores other projects' POs", () => {
+    const summary = getProjectBudget(project({ budget: 5000 }), [order(), order({ projectId: "project-2" })]);
+
+    expect(summary.committed).toBe(1000);
+  });
+
+  it("flags a project over its budget, and one close to it", () => {
+    const over = getProjectBudget(project({ budget: 1500 }), [order(), order()]);
+    expect(over).toMatchObject({ overBudget: true, nearLimit: false, remaining: -500 });
+
+    const near = getProjectBudget(project({ budget: 2100 }), [order(), order()]);
+    expect(near).toMatchObject({ overBudget: false, nearLimit: true });
+
+    const unbudgeted = getProjectBudget(project(), [order()]);
+    expect(unbudgeted).toMatchObject({ hasBudget: false, overBudget: false, nearLimit: false });
+  });
+
+  it("flags an over-budget category and keeps unmatched POs under Uncategorized", () => {
+    const summary = getProjectBudget(
+      project({ budgetCategories: [{ name: "Steel", amount: 1500 }, { name: "Freight", amount: 4000 }] }),
+      [
+        order({ costCategory: "Steel" }),
+        order({ costCategory: "Steel" }),
+        order({ costCategory: "Freight" }),
+        order({ costCategory: "Cabling" }),
+      ]
+    );
+
+    // The categories add up to the project budget when it has no total
+    expect(summary.budget).toBe(5500);
+    expect(summary.committed).toBe(4000);
+    expect(summary.categories.map(({ name, committed, overBudget }) => ({ name, committed, overBudget }))).toEqual([
+      { name: "Steel", committed: 2000, overBudget: true },
+      { name: "Freight", committed: 1000, overBudget: false },
+      { name: UNCATEGORIZED, committed: 1000, overBudget: false },
+    ]);
+  });
+
+  it("adds up POs in different currencies in the budget's currency", () => {
+    const rates: ExchangeRate[] = [
+      { id: "eur", currency: "EUR", rate: 1.1, effectiveDate: "2024-01-01" },
+      { id: "myr", currency: "MYR", rate: 0.2, effectiveDate: "2024-01-01" },
+    ];
+    // As CurrencyContext's poAmount: converted on the day the PO was issued
+    const inEur = (po: PurchaseOrder) =>
+      convertAmount(rates, po.amount || 0, isCurrencyCode(po.currency) ? po.currency : "USD", "EUR", po.issuedDate) ?? 0;
+
+    const summary = getProjectBudget(
+      project({ budget: 2000 }),
+      [order({ amount: 1100, currency: "USD" }), order({ amount: 5500, currency: "MYR" }), order({ amount: 500, currency: "EUR" })],
+      inEur
+    );
+
+    expect(summary.committed).toBeCloseTo(2500);
+    expect(summary.overBudget).toBe(true);
+  });
+});
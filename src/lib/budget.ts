@@ -0,0 +1,83 @@
+import { Project, PurchaseOrder } from "@/contexts/DataContext";
+import { isApproved } from "@/lib/poApprovals";
+
+// Share of the budget committed before a project or category is flagged as close to its limit
+export const BUDGET_WARNING_THRESHOLD = 0.9;
+
+export const UNCATEGORIZED = "Uncategorized";
+
+export interface BudgetLine {
+  name: string;
+  budget: number;
+  committed: number;
+  actual: number;
+  remaining: number;
+  overBudget: boolean;
+  nearLimit: boolean;
+}
+
+export interface ProjectBudgetSummary extends BudgetLine {
+  hasBudget: boolean;
+  categories: BudgetLine[];
+}
+
+// Converts a PO's amount into the currency the budget is kept in
+export type PoAmount = (po: PurchaseOrder) => number;
+
+const rawAmount: PoAmount = po => po.amount || 0;
+
+const buildLine = (name: string, budget: number, orders: PurchaseOrder[], amountOf: PoAmount): BudgetLine => {
+  // Every approved PO counts as committed; only completed ones count as actual
+  // spend. Drafts and POs awaiting sign-off don't count at all.
+  const approvedOrders = orders.filter(isApproved);
+  const committed = approvedOrders.reduce((sum, po) => sum + amountOf(po), 0);
+  const actual = approvedOrders
+    .filter(po => po.status === "Completed")
+    .reduce((sum, po) => sum + amountOf(po), 0);
+
+  return {
+    name,
+    budget,
+    committed,
+    actual,
+    remaining: budget - committed,
+    overBudget: budget > 0 && committed > budget,
+    nearLimit: budget > 0 && committed <= budget && committed >= budget * BUDGET_WARNING_THRESHOLD,
+  };
+};
+
+export const getProjectBudget = (
+  project: Project,
+  purchaseOrders: PurchaseOrder[],
+  amountOf: PoAmount = rawAmount
+): ProjectBudgetSummary => {
+  const projectOrders = purchaseOrders.filter(po => po.projectId === project.id);
+  const categoryBudgets = project.budgetCategories || [];
+  const categoryNames = new Set(categoryBudgets.map(category => category.name));
+
+  const categories = categoryBudgets.map(category =>
+    buildLine(
+      category.name,
+      category.amount,
+      projectOrders.filter(po => po.costCategory === category.name),
+      amountOf
+    )
+  );
+
+  // POs without a matching category still count towards the project total
+  const uncategorizedOrders = projectOrders.filter(
+    po => !po.costCategory || !categoryNames.has(po.costCategory)
+  );
+  if (categoryBudgets.length > 0 && uncategorizedOrders.length > 0) {
+    categories.push(buildLine(UNCATEGORIZED, 0, uncategorizedOrders, amountOf));
+  }
+
+  // Without an explicit total, the category budgets add up to the project budget
+  const budget = project.budget ?? categoryBudgets.reduce((sum, category) => sum + category.amount, 0);
+
+  return {
+    ...buildLine(project.name, budget, projectOrders, amountOf),
+    hasBudget: budget > 0,
+    categories,
+  };
+};
@@ -0,0 +1,71 @@
+import type {
+  Client,
+  ExternalLink,
+  Project,
+  PurchaseOrder,
+  Shipment,
+  Supplier,
+} from "@/contexts/DataContext";
+
+export interface ScopedDataset {
+  clients: Client[];
+  suppliers: Supplier[];
+  projects: Project[];
+  purchaseOrders: PurchaseOrder[];
+  externalLinks: ExternalLink[];
+  shipments: Shipment[];
+}
+
+// Narrows the dataset to one client's projects. Supplier identities, budgets,
+// PO amounts and internal notes never leave the database for a client user
+// (client_portal_data), and are stripped here as well so data from anywhere
+// else, such as an offline snapshot, can't show them either.
+export const scopeToClient = (data: ScopedDataset, clientId: string | undefined): ScopedDataset => {
+  const projects = data.projects
+    .filter(project => !!clientId && project.clientId === clientId)
+    .map(project => ({ ...project, budget: undefined, budgetCategories: undefined }));
+  const projectIds = new Set(projects.map(project => project.id));
+
+  return {
+    clients: data.clients.filter(client => client.id === clientId),
+    suppliers: [],
+    projects,
+    purchaseOrders: data.purchaseOrders
+      .filter(po => projectIds.has(po.projectId))
+      .map(po => ({
+        ...po,
+        supplierId: "",
+        amount: undefined,
+        currency: undefined,
+        costCategory: undefined,
+        description: undefined,
+      })),
+    // Links point at internal documents (PO PDFs carry amounts), so none are shared
+    externalLinks: [],
+    shipments: data.shipments
+      .filter(shipment => projectIds.has(shipment.projectId))
+      .map(shipment => ({ ...shipment, supplierId: "", notes: undefined })),
+  };
+};
+
+export interface PurchaseOrderRollup {
+  total: number;
+  completed: number;
+  delayed: number;
+  averageProgress: number;
+}
+
+export const rollupPurchaseOrders = (purchaseOrders: PurchaseOrder[]): PurchaseOrderRollup => ({
+  total: purchaseOrders.length,
+  completed: purchaseOrders.filter(po => po.status === "Completed").length,
+  delayed: purchaseOrders.filter(po => po.status === "Delayed").length,
+  averageProgress: purchaseOrders.length
+    ? Math.round(purchaseOrders.reduce((sum, po) => sum + (po.progress || 0), 0) / purchaseOrders.length)
+    : 0,
+});
+
+// Shipments still on their way, soonest arrival first
+export const upcomingShipments = (shipments: Shipment[]) =>
+  shipments
+    .filter(shipment => shipment.status !== "Delivered")
+    .sort((a, b) => (a.etaDate || "").localeCompare(b.etaDate || ""));
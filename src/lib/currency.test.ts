@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { ExchangeRate, convertAmount, formatCurrency, getRate } from "@/lib/currency";
+
+const rates: ExchangeRate[] = [
+  { id: "eur-2024", currency: "EUR", rate: 1.08, effectiveDate: "2024-01-01" },
+  { id: "eur-2025", currency: "EUR", rate: 1.1, effectiveDate: "2025-01-01" },
+  { id: "myr-2024", currency: "MYR", rate: 0.2, effectiveDate: "2024-01-01" },
+];
+
+describe("getRate", () => {
+  it("uses the latest rate in effect on the day", () => {
+    expect(getRate(rates, "EUR", "2024-12-31")).toBe(1.08);
+    expect(getRate(rates, "EUR", "2025-01-01T09:30:00Z")).toBe(1.1);
+  });
+
+  it("falls back to the earliest rate for days before the table starts", () => {
+    expect(getRate(rates, "EUR", "2020-06-01")).toBe(1.08);
+  });
+
+  it("has no rate for a currency the table doesn't list", () => {
+    expect(getRate(rates, "CNY", "2025-01-01")).toBeNull();
+    expect(getRate([], "USD", "2025-01-01")).toBe(1);
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts through USD using the rates of the day", () => {
+    expect(convertAmount(rates, 100, "EUR", "USD", "2025-02-01")).toBeCloseTo(110);
+    expect(convertAmount(rates, 100, "USD", "MYR", "2025-02-01")).toBeCloseTo(500);
+    expect(convertAmount(rates, 100, "EUR", "MYR", "2024-06-01")).toBeCloseTo(540);
+  });
+
+  it("leaves an amount in its own currency unchanged", () => {
+    expect(convertAmount([], 42.5, "CNY", "CNY", "2025-01-01")).toBe(42.5);
+  });
+
+  it("can't convert without a rate for either side", () => {
+    expect(convertAmount(rates, 100, "CNY", "USD", "2025-01-01")).toBeNull();
+    expect(convertAmount(rates, 100, "USD", "CNY", "2025-01-01")).toBeNull();
+  });
+});
+
+describe("formatCurrency", () => {
+  it("rounds to whole units in the currency's format", () => {
+    expect(formatCurrency(1234.5)).toBe("$1,235");
+    expect(formatCurrency(1234.49, "EUR")).toBe("€1,234");
+    expect(formatCurrency(999.5, "MYR")).toMatch(/^MYR\s1,000$/);
+  });
+});
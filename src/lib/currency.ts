@@ -0,0 +1,83 @@
+export const CURRENCIES = ["USD", "EUR", "CNY", "MYR"] as const;
+
+export type CurrencyCode = typeof CURRENCIES[number];
+
+// Amounts without a currency were entered before currencies existed and are treated as USD
+export const BASE_CURRENCY: CurrencyCode = "USD";
+
+// One unit of `currency` is worth `rate` USD from `effectiveDate` onwards
+export interface ExchangeRate {
+  id: string;
+  currency: CurrencyCode;
+  rate: number;
+  effectiveDate: string;
+}
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRate[] = [
+  { id: "rate-eur-default", currency: "EUR", rate: 1.08, effectiveDate: "2024-01-01" },
+  { id: "rate-cny-default", currency: "CNY", rate: 0.14, effectiveDate: "2024-01-01" },
+  { id: "rate-myr-default", currency: "MYR", rate: 0.21, effectiveDate: "2024-01-01" },
+];
+
+const COUNTRY_CURRENCIES: Record<string, CurrencyCode> = {
+  malaysia: "MYR",
+  china: "CNY",
+  germany: "EUR",
+  france: "EUR",
+  italy: "EUR",
+  spain: "EUR",
+  netherlands: "EUR",
+  belgium: "EUR",
+  austria: "EUR",
+  finland: "EUR",
+  ireland: "EUR",
+  portugal: "EUR",
+};
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" && (CURRENCIES as readonly string[]).includes(value);
+
+// The currency a supplier usually invoices in, based on its country
+export const currencyForCountry = (country: string | undefined): CurrencyCode =>
+  COUNTRY_CURRENCIES[(country || "").trim().toLowerCase()] || BASE_CURRENCY;
+
+// USD value of one unit of `currency` on `date`: the latest rate that had taken
+// effect by then, or the earliest known rate for dates before the table starts.
+// Returns null when the table has no rate at all for the currency.
+export const getRate = (rates: ExchangeRate[], currency: CurrencyCode, date: string): number | null => {
+  if (currency === BASE_CURRENCY) return 1;
+
+  const candidates = rates
+    .filter(rate => rate.currency === currency)
+    .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+
+  if (candidates.length === 0) return null;
+
+  const day = date.substring(0, 10);
+  const effective = candidates.filter(rate => rate.effectiveDate <= day);
+  return (effective.length > 0 ? effective[effective.length - 1] : candidates[0]).rate;
+};
+
+export const convertAmount = (
+  rates: ExchangeRate[],
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: string
+): number | null => {
+  if (from === to) return amount;
+
+  const fromRate = getRate(rates, from, date);
+  const toRate = getRate(rates, to, date);
+  if (fromRate === null || toRate === null) return null;
+
+  return (amount * fromRate) / toRate;
+};
+
+export const formatCurrency = (amount: number, currency: string = BASE_CURRENCY): string =>
+  new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
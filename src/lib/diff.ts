@@ -0,0 +1,7 @@
+// Fields in `update` whose values differ from `current`
+export const changedFields = <T extends object>(current: T | undefined, update: Partial<T>) =>
+  (Object.keys(update) as (keyof T & string)[]).filter(key => {
+    if (update[key] === undefined) return false;
+    if (!current) return true;
+    return JSON.stringify(update[key]) !== JSON.stringify(current[key]);
+  });
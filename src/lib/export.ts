@@ -0,0 +1,173 @@
+import * as XLSX from "xlsx";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | undefined | null;
+}
+
+export interface ExportTable<T = unknown> {
+  title: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export interface ExportOptions {
+  // File name without extension; a date stamp is appended
+  filename: string;
+  title: string;
+  tables: ExportTable[];
+  // Containers holding recharts charts, embedded as images in PDF reports
+  charts?: HTMLElement[];
+}
+
+// Lets callers build heterogeneous table lists without losing row typing
+export const exportTable = <T>(table: ExportTable<T>): ExportTable =>
+  table as unknown as ExportTable;
+
+const toMatrix = ({ columns, rows }: ExportTable) => [
+  columns.map(column => column.header),
+  ...rows.map(row => columns.map(column => column.value(row) ?? "")),
+];
+
+const stampedName = (filename: string, extension: string) =>
+  `${filename}-${format(new Date(), "yyyy-MM-dd")}.${extension}`;
+
+// Excel limits sheet names to 31 characters without []:*?/\
+const sheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, " ").substring(0, 31) || "Sheet";
+
+export const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const exportCsv = ({ filename, tables }: ExportOptions) => {
+  // CSV has no sheets, so multiple tables are separated by a title line
+  const lines = tables.flatMap((table, index) => {
+    const sheet = XLSX.utils.aoa_to_sheet(toMatrix(table));
+    const csv = XLSX.utils.sheet_to_csv(sheet);
+    return tables.length > 1 ? [...(index > 0 ? [""] : []), table.title, csv] : [csv];
+  });
+
+  download(new Blob([lines.join("\n")], { type: "text/csv;charset=utf-8" }), stampedName(filename, "csv"));
+};
+
+const exportXlsx = ({ filename, tables }: ExportOptions) => {
+  const workbook = XLSX.utils.book_new();
+  tables.forEach(table => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(toMatrix(table)), sheetName(table.title));
+  });
+  XLSX.writeFile(workbook, stampedName(filename, "xlsx"));
+};
+
+// Renders the first SVG inside `container` to a PNG data URL
+const chartToImage = (container: HTMLElement): Promise<{ dataUrl: string; width: number; height: number } | null> => {
+  const svg = container.querySelector("svg.recharts-surface") || container.querySelector("svg");
+  if (!svg) return Promise.resolve(null);
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (width === 0 || height === 0) return Promise.resolve(null);
+
+  const clone = svg.cloneNode(true) as SVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+  const source = new XMLSerializer().serializeToString(clone);
+
+  return new Promise(resolve => {
+    const image = new Image();
+    image.onload = () => {
+      // Draw at twice the size so the chart stays sharp in print
+      const canvas = document.createElement("canvas");
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext("2d");
+      if (!context) return resolve(null);
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve({ dataUrl: canvas.toDataURL("image/png"), width, height });
+    };
+    image.onerror = () => resolve(null);
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`;
+  });
+};
+
+const exportPdf = async ({ filename, title, tables, charts = [] }: ExportOptions) => {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 40;
+  let y = margin;
+
+  doc.setFontSize(18);
+  doc.text(title, margin, y);
+  doc.setFontSize(10);
+  doc.setTextColor(120);
+  doc.text(`Generated ${format(new Date(), "MMM d, yyyy HH:mm")}`, margin, y + 16);
+  doc.setTextColor(0);
+  y += 40;
+
+  for (const chart of charts) {
+    const image = await chartToImage(chart);
+    if (!image) continue;
+
+    const chartTitle = chart.querySelector("h3")?.textContent;
+    const width = Math.min(pageWidth - margin * 2, image.width);
+    const height = (image.height / image.width) * width;
+    if (y + height + 20 > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+    if (chartTitle) {
+      doc.setFontSize(12);
+      doc.text(chartTitle, margin, y);
+      y += 10;
+    }
+    doc.addImage(image.dataUrl, "PNG", margin, y, width, height);
+    y += height + 24;
+  }
+
+  tables.forEach(table => {
+    if (y > pageHeight - margin * 3) {
+      doc.addPage();
+      y = margin;
+    }
+    doc.setFontSize(12);
+    doc.text(table.title, margin, y);
+
+    const [head, ...body] = toMatrix(table);
+    autoTable(doc, {
+      startY: y + 8,
+      head: [head.map(String)],
+      body: body.map(row => row.map(String)),
+      margin: { left: margin, right: margin },
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [59, 130, 246] },
+    });
+
+    // autoTable records where it finished on the document
+    y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 28;
+  });
+
+  doc.save(stampedName(filename, "pdf"));
+};
+
+export const exportData = async (exportFormat: ExportFormat, options: ExportOptions) => {
+  switch (exportFormat) {
+    case "csv":
+      return exportCsv(options);
+    case "xlsx":
+      return exportXlsx(options);
+    case "pdf":
+      return exportPdf(options);
+  }
+};
@@ -0,0 +1,163 @@
+import type { Client, ExternalLink, Project, PurchaseOrder, Shipment, Supplier } from "@/contexts/DataContext";
+import type { WorkspaceBackup } from "@/integrations/supabase/backup";
+
+// Tables a queued write can touch
+export type OfflineTable =
+  | "clients"
+  | "suppliers"
+  | "projects"
+  | "purchase_orders"
+  | "parts"
+  | "external_links"
+  | "shipments";
+
+// Last seen updated_at per row, keyed "table:id"
+export type RowVersions = Record<string, string | null>;
+
+export const rowVersionKey = (table: OfflineTable, id: string) => `${table}:${id}`;
+
+export interface OfflineSnapshot {
+  clients: Client[];
+  suppliers: Supplier[];
+  projects: Project[];
+  purchaseOrders: PurchaseOrder[];
+  externalLinks: ExternalLink[];
+  shipments: Shipment[];
+  versions: RowVersions;
+  // When the data last matched Supabase
+  syncedAt: string;
+}
+
+export interface QueuedOperation {
+  table: OfflineTable;
+  action: "insert" | "update" | "delete";
+  rowId: string;
+  // Column values in database (snake_case) form
+  values?: Record<string, unknown>;
+  // updated_at the row had when the change was made; undefined skips the conflict check
+  baseUpdatedAt?: string | null;
+}
+
+export interface QueuedWrite {
+  id?: number;
+  label: string;
+  operations: QueuedOperation[];
+  queuedAt: string;
+  // Set when replay found the rows changed on the server in the meantime
+  conflict?: string;
+}
+
+// A backup kept in the browser, taken automatically before a destructive
+// action or on a schedule
+export interface LocalBackup {
+  id?: number;
+  // What was about to happen, e.g. "Clear all data", or "Daily snapshot"
+  reason: string;
+  scheduled?: boolean;
+  backup: WorkspaceBackup;
+}
+
+const DB_NAME = "aseps-offline";
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = "snapshot";
+const QUEUE_STORE = "queue";
+const BACKUP_STORE = "backups";
+// Older local backups are dropped once there are more than this of a kind,
+// so scheduled ones never push out those taken before an action
+const LOCAL_BACKUP_LIMIT = 5;
+// Each user's snapshot is kept apart, so nobody else signing in on the same
+// browser is ever shown it
+const snapshotKey = (userId: string) => `dataset:${userId}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE);
+        }
+        if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+          db.createObjectStore(QUEUE_STORE, { keyPath: "id", autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(BACKUP_STORE)) {
+          db.createObjectStore(BACKUP_STORE, { keyPath: "id", autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const loadSnapshot = async (userId: string): Promise<OfflineSnapshot | null> =>
+  (await run<OfflineSnapshot | undefined>(SNAPSHOT_STORE, "readonly", store => store.get(snapshotKey(userId)))) ?? null;
+
+export const saveSnapshot = async (userId: string, snapshot: OfflineSnapshot) => {
+  await run(SNAPSHOT_STORE, "readwrite", store => store.put(snapshot, snapshotKey(userId)));
+};
+
+// Drops every cached snapshot and any writes still queued, on signing out
+export const clearOfflineData = async () => {
+  await run(SNAPSHOT_STORE, "readwrite", store => store.clear());
+  await run(QUEUE_STORE, "readwrite", store => store.clear());
+};
+
+// Writes come back in the order they were queued
+export const listQueuedWrites = (): Promise<QueuedWrite[]> =>
+  run<QueuedWrite[]>(QUEUE_STORE, "readonly", store => store.getAll());
+
+export const enqueueWrite = async (write: Omit<QueuedWrite, "id">): Promise<QueuedWrite> => {
+  const id = await run<number>(QUEUE_STORE, "readwrite", store => store.add(write));
+  return { ...write, id };
+};
+
+export const updateQueuedWrite = async (write: QueuedWrite) => {
+  await run(QUEUE_STORE, "readwrite", store => store.put(write));
+};
+
+export const removeQueuedWrite = async (id: number) => {
+  await run(QUEUE_STORE, "readwrite", store => store.delete(id));
+};
+
+// Newest first
+export const listLocalBackups = async (): Promise<LocalBackup[]> =>
+  (await run<LocalBackup[]>(BACKUP_STORE, "readonly", store => store.getAll())).reverse();
+
+export const saveLocalBackup = async (entry: Omit<LocalBackup, "id">): Promise<LocalBackup> => {
+  const id = await run<number>(BACKUP_STORE, "readwrite", store => store.add(entry));
+
+  const backups = (await listLocalBackups()).filter(backup => !!backup.scheduled === !!entry.scheduled);
+  for (const old of backups.slice(LOCAL_BACKUP_LIMIT)) {
+    await removeLocalBackup(old.id as number);
+  }
+
+  return { ...entry, id };
+};
+
+export const removeLocalBackup = async (id: number) => {
+  await run(BACKUP_STORE, "readwrite", store => store.delete(id));
+};
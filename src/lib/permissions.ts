@@ -0,0 +1,117 @@
+import { UserRole } from "@/lib/roles";
+
+export type PermissionEntity =
+  | "project"
+  | "client"
+  | "supplier"
+  | "purchaseOrder"
+  | "externalLink"
+  | "shipment"
+  | "workspace";
+
+// Deleting moves a record to the trash; purging removes it for good.
+// Approving signs off a submitted purchase order.
+export type PermissionAction = "create" | "update" | "delete" | "purge" | "approve";
+
+const ENTITY_LABELS: Record<PermissionEntity, string> = {
+  project: "project",
+  client: "client",
+  supplier: "supplier",
+  purchaseOrder: "purchase order",
+  externalLink: "external link",
+  shipment: "shipment",
+  workspace: "workspace data",
+};
+
+const ALL_ACTIONS: PermissionAction[] = ["create", "update", "delete"];
+// Only admins can empty the trash
+const ADMIN_ACTIONS: PermissionAction[] = [...ALL_ACTIONS, "purge"];
+
+// What each role may write. Anything not listed is read-only for that role,
+// and visitors without a role can't write at all.
+const ROLE_PERMISSIONS: Record<UserRole, Partial<Record<PermissionEntity, PermissionAction[]>>> = {
+  admin: {
+    project: ADMIN_ACTIONS,
+    client: ADMIN_ACTIONS,
+    supplier: ADMIN_ACTIONS,
+    purchaseOrder: [...ADMIN_ACTIONS, "approve"],
+    externalLink: ADMIN_ACTIONS,
+    shipment: ADMIN_ACTIONS,
+    workspace: ALL_ACTIONS,
+  },
+  procurement: {
+    project: ALL_ACTIONS,
+    client: ALL_ACTIONS,
+    supplier: ALL_ACTIONS,
+    purchaseOrder: [...ALL_ACTIONS, "approve"],
+    externalLink: ALL_ACTIONS,
+    shipment: ALL_ACTIONS,
+  },
+  logistics: {
+    purchaseOrder: ["update"],
+    externalLink: ["create", "update"],
+    shipment: ALL_ACTIONS,
+  },
+  viewer: {},
+  client: {},
+  // Suppliers never write directly; their updates wait for staff approval
+  supplier: {},
+};
+
+// Fields a role may not change even on entities it is allowed to update
+const READ_ONLY_FIELDS: Partial<Record<UserRole, Partial<Record<PermissionEntity, string[]>>>> = {
+  logistics: {
+    purchaseOrder: ["poNumber", "projectId", "supplierId", "amount", "currency", "costCategory", "issuedDate", "revision", "revisions", "approvalStatus", "approvals"],
+  },
+};
+
+export class ForbiddenError extends Error {
+  readonly action: PermissionAction;
+  readonly entity: PermissionEntity;
+  readonly field?: string;
+
+  constructor(action: PermissionAction, entity: PermissionEntity, field?: string) {
+    super(
+      field
+        ? `You don't have permission to change ${field} on this ${ENTITY_LABELS[entity]}`
+        : `You don't have permission to ${action} this ${ENTITY_LABELS[entity]}`
+    );
+    this.name = "ForbiddenError";
+    this.action = action;
+    this.entity = entity;
+    this.field = field;
+  }
+}
+
+export const isForbiddenError = (error: unknown): error is ForbiddenError =>
+  error instanceof ForbiddenError;
+
+export const can = (
+  role: UserRole | null | undefined,
+  action: PermissionAction,
+  entity: PermissionEntity
+) => !!role && (ROLE_PERMISSIONS[role][entity] || []).includes(action);
+
+export const canEditField = (
+  role: UserRole | null | undefined,
+  entity: PermissionEntity,
+  field: string
+) => can(role, "update", entity) && !(READ_ONLY_FIELDS[role]?.[entity] || []).includes(field);
+
+// Throws a ForbiddenError unless the role may perform the action. For updates,
+// `changes` lists the fields whose values actually differ from the current record.
+export const assertCan = (
+  role: UserRole | null | undefined,
+  action: PermissionAction,
+  entity: PermissionEntity,
+  changes: string[] = []
+) => {
+  if (!can(role, action, entity)) {
+    throw new ForbiddenError(action, entity);
+  }
+
+  const blockedField = changes.find(field => !canEditField(role, entity, field));
+  if (action === "update" && blockedField) {
+    throw new ForbiddenError(action, entity, blockedField);
+  }
+};
@@ -0,0 +1,113 @@
+import { ApprovalDecision, ApprovalStatus, PurchaseOrder } from "@/contexts/DataContext";
+import type { PoAmount } from "@/lib/budget";
+import { can } from "@/lib/permissions";
+import { STAFF_ROLES, UserRole } from "@/lib/roles";
+
+export const APPROVAL_STATUSES: ApprovalStatus[] = ["Draft", "Submitted", "Approved", "Rejected", "Issued"];
+
+// Who has to sign off a PO. Rules for the PO's own project win over
+// workspace-wide ones, and among those the highest threshold the amount
+// reaches applies. A PO no rule applies to needs no sign-off.
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  // In the reporting currency
+  minAmount: number;
+  projectId?: string;
+  // Approved in this order, one role at a time
+  approvers: UserRole[];
+}
+
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  { id: "standard", name: "Standard", minAmount: 0, approvers: ["procurement"] },
+  { id: "large-orders", name: "Large orders", minAmount: 50000, approvers: ["procurement", "admin"] },
+];
+
+// The roles a chain can ask for a decision
+export const APPROVER_ROLES = STAFF_ROLES.filter(role => can(role, "approve", "purchaseOrder"));
+
+// A workflow step that doesn't apply to the PO as it stands
+export class ApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApprovalError";
+  }
+}
+
+export const isApprovalError = (error: unknown): error is ApprovalError =>
+  error instanceof ApprovalError;
+
+// POs from before the workflow existed had already gone to their suppliers
+export const approvalStatusOf = (po: PurchaseOrder): ApprovalStatus => po.approvalStatus || "Issued";
+
+// Only signed-off POs count towards committed spend
+export const isApproved = (po: PurchaseOrder) => {
+  const status = approvalStatusOf(po);
+  return status === "Approved" || status === "Issued";
+};
+
+export const canSubmit = (po: PurchaseOrder) => {
+  const status = approvalStatusOf(po);
+  return status === "Draft" || status === "Rejected";
+};
+
+export const matchApprovalRule = (
+  po: PurchaseOrder,
+  rules: ApprovalRule[],
+  amountOf: PoAmount
+): ApprovalRule | undefined => {
+  const amount = amountOf(po);
+  return rules
+    .filter(rule => (!rule.projectId || rule.projectId === po.projectId) && amount >= rule.minAmount)
+    .sort((a, b) => Number(!!b.projectId) - Number(!!a.projectId) || b.minAmount - a.minAmount)[0];
+};
+
+// The chain the PO was last submitted with and how many of its steps have approved
+export const approvalProgress = (po: PurchaseOrder) => {
+  const approvals = po.approvals || [];
+  const submitted = approvals.map(decision => decision.action).lastIndexOf("submitted");
+  const chain = submitted === -1 ? [] : approvals[submitted].chain || [];
+  const approved = approvals.slice(submitted + 1).filter(decision => decision.action === "approved").length;
+
+  return { chain, approved };
+};
+
+// The role a submitted PO is waiting on
+export const pendingApprover = (po: PurchaseOrder): UserRole | undefined => {
+  if (approvalStatusOf(po) !== "Submitted") return undefined;
+  const { chain, approved } = approvalProgress(po);
+  return chain[approved];
+};
+
+// Admins can stand in for any step of a chain, but nobody decides on a PO
+// they submitted themselves
+export const canDecide = (role: UserRole | null | undefined, po: PurchaseOrder, userId?: string) => {
+  const step = pendingApprover(po);
+  return !!step && can(role, "approve", "purchaseOrder") && (role === step || role === "admin") &&
+    (!po.submittedBy || po.submittedBy !== userId);
+};
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalDecision["action"], string> = {
+  submitted: "Submitted",
+  approved: "Approved",
+  rejected: "Rejected",
+  issued: "Issued",
+  reopened: "Back to draft",
+};
+
+// One readable line per decision, for the approval history
+export const describeApprovalDecision = (decision: ApprovalDecision) => {
+  switch (decision.action) {
+    case "submitted":
+      return decision.chain && decision.chain.length > 0
+        ? `Submitted for ${decision.chain.join(" → ")} approval${decision.rule ? ` (${decision.rule})` : ""}`
+        : "Submitted; no approval needed";
+    case "approved":
+    case "rejected":
+      return `${APPROVAL_ACTION_LABELS[decision.action]}${decision.approverRole ? ` as ${decision.approverRole}` : ""}`;
+    case "issued":
+      return "Issued to the supplier";
+    case "reopened":
+      return "Changed after submission, back to draft";
+  }
+};
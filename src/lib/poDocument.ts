@@ -0,0 +1,183 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { Client, Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
+import { formatCurrency } from "@/lib/currency";
+import { FIRST_REVISION } from "@/lib/poRevisions";
+
+export interface DocumentSettings {
+  companyName: string;
+  address: string;
+  contact: string;
+  // Image data URL drawn in the top-left corner of the letterhead
+  logo?: string;
+  terms: string;
+  footer: string;
+}
+
+const STORAGE_KEY = "po-document-settings";
+
+export const DEFAULT_DOCUMENT_SETTINGS: DocumentSettings = {
+  companyName: "ASEPS Asia",
+  address: "",
+  contact: "",
+  terms: [
+    "1. Please quote the PO number on all invoices, delivery notes and correspondence.",
+    "2. Goods must be delivered by the deadline stated above.",
+    "3. Notify us immediately of any expected delay.",
+  ].join("\n"),
+  footer: "This purchase order was generated electronically.",
+};
+
+export const loadDocumentSettings = (): DocumentSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (saved && typeof saved === "object") {
+      return { ...DEFAULT_DOCUMENT_SETTINGS, ...saved };
+    }
+  } catch (error) {
+    console.error("Error reading document settings:", error);
+  }
+
+  return DEFAULT_DOCUMENT_SETTINGS;
+};
+
+export const saveDocumentSettings = (settings: DocumentSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+interface PurchaseOrderDocumentData {
+  po: PurchaseOrder;
+  supplier?: Supplier;
+  project?: Project;
+  client?: Client;
+  settings: DocumentSettings;
+}
+
+const formatDate = (date: string) => (date ? format(new Date(date), "MMM d, yyyy") : "-");
+
+export const purchaseOrderFileName = (po: PurchaseOrder) =>
+  `${po.poNumber.replace(/[^a-zA-Z0-9-_]/g, "_")}.pdf`;
+
+export const generatePurchaseOrderPdf = ({
+  po,
+  supplier,
+  project,
+  client,
+  settings,
+}: PurchaseOrderDocumentData): Blob => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 48;
+  let y = margin;
+
+  // Letterhead
+  let textX = margin;
+  if (settings.logo) {
+    try {
+      doc.addImage(settings.logo, margin, y - 12, 64, 64);
+      textX = margin + 80;
+    } catch (error) {
+      console.error("Error adding letterhead logo:", error);
+    }
+  }
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text(settings.companyName, textX, y + 4);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  const letterheadLines = [...settings.address.split("\n"), ...settings.contact.split("\n")].filter(Boolean);
+  doc.text(letterheadLines, textX, y + 20);
+
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text("PURCHASE ORDER", pageWidth - margin, y + 4, { align: "right" });
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(
+    [
+      `PO Number: ${po.poNumber}`,
+      `Revision: ${po.revision || FIRST_REVISION}`,
+      `Issued: ${formatDate(po.issuedDate)}`,
+      `Deliver by: ${formatDate(po.deadline)}`,
+    ],
+    pageWidth - margin,
+    y + 22,
+    { align: "right" }
+  );
+
+  y = Math.max(y + 70, y + 20 + letterheadLines.length * 11 + 16);
+  doc.setDrawColor(200);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 24;
+
+  // Supplier and project blocks
+  const columnWidth = (pageWidth - margin * 2) / 2;
+  doc.setFont("helvetica", "bold");
+  doc.text("Supplier", margin, y);
+  doc.text("Project", margin + columnWidth, y);
+  doc.setFont("helvetica", "normal");
+  const supplierLines = [
+    supplier?.name || "Unknown Supplier",
+    supplier?.contactPerson ? `Attn: ${supplier.contactPerson}` : "",
+    supplier?.email || "",
+    supplier?.phone || "",
+    [supplier?.location, supplier?.country].filter(Boolean).join(", "),
+  ].filter(Boolean);
+  const projectLines = [
+    project?.name || "Unknown Project",
+    client ? `Client: ${client.name}` : "",
+    project?.location || "",
+    project?.projectManager ? `Project Manager: ${project.projectManager}` : "",
+  ].filter(Boolean);
+  doc.text(supplierLines, margin, y + 14);
+  doc.text(projectLines, margin + columnWidth, y + 14);
+  y += 14 + Math.max(supplierLines.length, projectLines.length) * 12 + 16;
+
+  if (po.description) {
+    doc.setFont("helvetica", "bold");
+    doc.text("Description", margin, y);
+    doc.setFont("helvetica", "normal");
+    const description = doc.splitTextToSize(po.description, pageWidth - margin * 2);
+    doc.text(description, margin, y + 14);
+    y += 14 + description.length * 12 + 12;
+  }
+
+  // Parts are priced as a whole on the PO, so the total sits under the table
+  autoTable(doc, {
+    startY: y,
+    head: [["#", "Part", "Quantity"]],
+    body: po.parts.map((part, index) => [String(index + 1), part.name, String(part.quantity)]),
+    foot: [["", "Total PO Value", po.amount ? formatCurrency(po.amount, po.currency) : "-"]],
+    margin: { left: margin, right: margin },
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [59, 130, 246] },
+    footStyles: { fillColor: [241, 245, 249], textColor: 20 },
+    columnStyles: { 0: { cellWidth: 30 }, 2: { halign: "right", cellWidth: 120 } },
+  });
+  y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 28;
+
+  if (settings.terms.trim()) {
+    const terms = doc.splitTextToSize(settings.terms, pageWidth - margin * 2);
+    if (y + 14 + terms.length * 11 > pageHeight - margin * 2) {
+      doc.addPage();
+      y = margin;
+    }
+    doc.setFont("helvetica", "bold");
+    doc.text("Terms and Conditions", margin, y);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.text(terms, margin, y + 14);
+    doc.setFontSize(10);
+  }
+
+  if (settings.footer.trim()) {
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(settings.footer, pageWidth / 2, pageHeight - margin / 2, { align: "center" });
+    doc.setTextColor(0);
+  }
+
+  return doc.output("blob");
+};
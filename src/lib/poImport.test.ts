@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
+import { ImportRow, buildImportPlan, guessColumnMapping, guessDateOrder, parseDate } from "@/lib/poImport";
+
+const project: Project = {
+  id: "project-1",
+  name: "Harbour Crane",
+  clientId: "client-1",
+  location: "Rotterdam",
+  status: "In Progress",
+  progress: 0,
+  startDate: "2025-01-01",
+  endDate: "2025-12-31",
+};
+
+const supplier: Supplier = { id: "supplier-1", name: "Nordic Steel" };
+
+const existing: PurchaseOrder = {
+  id: "po-1",
+  poNumber: "PO-100",
+  projectId: project.id,
+  supplierId: supplier.id,
+  status: "Active",
+  issuedDate: "2025-01-10",
+  deadline: "2025-03-01",
+  progress: 0,
+  amount: 5000,
+  currency: "EUR",
+  description: "",
+  parts: [{ id: "part-1", name: "Beam", quantity: 4, status: "Pending", progress: 0 }],
+};
+
+const headers = ["PO Number", "Project", "Supplier", "Issued Date", "Deadline", "Amount", "Currency", "Part", "Qty"];
+const mapping = guessColumnMapping(headers);
+
+const row = (values: Partial<Record<string, string>>): ImportRow => ({
+  "PO Number": "PO-200",
+  Project: "Harbour Crane",
+  Supplier: "Nordic Steel",
+  "Issued Date": "2025-02-01",
+  Deadline: "2025-04-01",
+  Amount: "1200",
+  Currency: "EUR",
+  Part: "Bolt",
+  Qty: "10",
+  ...values,
+});
+
+const context = { projects: [project], suppliers: [supplier], purchaseOrders: [existing] };
+
+describe("parseDate", () => {
+  it("reads ISO dates with or without a time of day", () => {
+    expect(parseDate("2025-03-04")).toBe("2025-03-04");
+    expect(parseDate("2025-3-4T10:00:00Z")).toBe("2025-03-04");
+  });
+
+  it("reads slashed dates in the chosen order", () => {
+    expect(parseDate("03/02/2025", "mdy")).toBe("2025-03-02");
+    expect(parseDate("03/02/2025", "dmy")).toBe("2025-02-03");
+    expect(parseDate("13/02/2025", "dmy")).toBe("2025-02-13");
+  });
+
+  it("rejects days that don't exist in the chosen order", () => {
+    expect(parseDate("13/02/2025", "mdy")).toBeNull();
+    expect(parseDate("31/02/2025", "dmy")).toBeNull();
+    expect(parseDate("not a date")).toBeNull();
+    expect(parseDate("")).toBeNull();
+  });
+
+  it("reads written-out dates as the same calendar day", () => {
+    expect(parseDate("4 Mar 2025")).toBe("2025-03-04");
+  });
+});
+
+describe("guessDateOrder", () => {
+  it("picks day first only when a date can't be month first", () => {
+    expect(guessDateOrder([row({ Deadline: "03/02/2025" })], mapping)).toBe("mdy");
+    expect(guessDateOrder([row({ Deadline: "03/02/2025" }), row({ Deadline: "13/02/2025" })], mapping)).toBe("dmy");
+  });
+});
+
+describe("buildImportPlan", () => {
+  it("groups rows by PO number into one PO with a part per row", () => {
+    const [po] = buildImportPlan([row({}), row({ Part: "Nut", Qty: "20" })], mapping, context);
+
+    expect(po).toMatchObject({ poNumber: "PO-200", rowNumbers: [2, 3], errors: [] });
+    expect(po.existingId).toBeUndefined();
+    expect(po.data).toMatchObject({
+      projectId: project.id,
+      supplierId: supplier.id,
+      issuedDate: "2025-02-01",
+      deadline: "2025-04-01",
+      amount: 1200,
+      currency: "EUR",
+    });
+    expect(po.data.parts.map(part => [part.name, part.quantity])).toEqual([["Bolt", 10], ["Nut", 20]]);
+  });
+
+  it("reads the dates in the order chosen for the sheet", () => {
+    const sheet = [row({ "Issued Date": "03/02/2025", Deadline: "13/04/2025" })];
+
+    expect(buildImportPlan(sheet, mapping, context, "dmy")[0].data).toMatchObject({
+      issuedDate: "2025-02-03",
+      deadline: "2025-04-13",
+    });
+    expect(buildImportPlan(sheet, mapping, context, "mdy")[0].errors).toContain("Deadline is missing or not a date");
+  });
+
+  it("lists the problems with a row instead of importing it", () => {
+    const [po, noNumber] = buildImportPlan(
+      [row({ Project: "Unknown", Currency: "XYZ", Qty: "0" }), row({ "PO Number": "" })],
+      mapping,
+      context
+    );
+
+    expect(po.errors).toEqual([
+      'Unknown project "Unknown"',
+      'Unsupported currency "XYZ"',
+      "Row 2: quantity must be a whole number above zero",
+    ]);
+    expect(noNumber.errors).toEqual(["Rows 3 have no PO number"]);
+  });
+
+  it("amends an existing PO, merging its parts by name, and leaves an unchanged one alone", () => {
+    const [amended] = buildImportPlan(
+      [row({ "PO Number": "po-100", Part: "beam", Qty: "6" }), row({ "PO Number": "po-100", Part: "Plate", Qty: "2" })],
+      mapping,
+      context
+    );
+
+    expect(amended).toMatchObject({ existingId: existing.id, unchanged: false });
+    expect(amended.data.poNumber).toBe("PO-100");
+    expect(amended.data.parts.map(part => [part.id, part.name, part.quantity])).toEqual([
+      ["part-1", "Beam", 6],
+      [expect.stringMatching(/^part-/), "Plate", 2],
+    ]);
+
+    const [unchanged] = buildImportPlan(
+      [row({
+        "PO Number": "PO-100",
+        "Issued Date": "2025-01-10",
+        Deadline: "2025-03-01",
+        Amount: "5000",
+        Part: "Beam",
+        Qty: "4",
+      })],
+      mapping,
+      context
+    );
+    expect(unchanged).toMatchObject({ existingId: existing.id, unchanged: true });
+  });
+});
@@ -0,0 +1,304 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { Part, Project, PurchaseOrder, Supplier } from "@/contexts/DataContext";
+import { BASE_CURRENCY, isCurrencyCode } from "@/lib/currency";
+import { changedFields } from "@/lib/diff";
+
+export type ImportField =
+  | "poNumber"
+  | "project"
+  | "supplier"
+  | "status"
+  | "issuedDate"
+  | "deadline"
+  | "amount"
+  | "currency"
+  | "costCategory"
+  | "description"
+  | "partName"
+  | "partQuantity"
+  | "partStatus";
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  required: boolean;
+  // Normalised header names that map to this field automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: "poNumber", label: "PO Number", required: true, aliases: ["ponumber", "po", "pono", "purchaseorder"] },
+  { key: "project", label: "Project", required: true, aliases: ["project", "projectname"] },
+  { key: "supplier", label: "Supplier", required: true, aliases: ["supplier", "suppliername", "vendor"] },
+  { key: "status", label: "PO Status", required: false, aliases: ["status", "postatus"] },
+  { key: "issuedDate", label: "Issued Date", required: false, aliases: ["issueddate", "issued", "podate", "date"] },
+  { key: "deadline", label: "Deadline", required: true, aliases: ["deadline", "duedate", "deliverydate"] },
+  { key: "amount", label: "PO Value", required: false, aliases: ["amount", "povalue", "value", "total"] },
+  { key: "currency", label: "Currency", required: false, aliases: ["currency", "ccy"] },
+  { key: "costCategory", label: "Cost Category", required: false, aliases: ["costcategory", "category"] },
+  { key: "description", label: "Description", required: false, aliases: ["description", "podescription", "notes"] },
+  { key: "partName", label: "Part Name", required: true, aliases: ["partname", "part", "item", "itemname"] },
+  { key: "partQuantity", label: "Quantity", required: true, aliases: ["quantity", "qty", "partquantity"] },
+  { key: "partStatus", label: "Part Status", required: false, aliases: ["partstatus", "itemstatus"] },
+];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export type ImportRow = Record<string, string>;
+
+// How slashed dates such as 03/02/2025 are read: day first or month first
+export type DateOrder = "dmy" | "mdy";
+
+export const DATE_ORDERS: { value: DateOrder; label: string }[] = [
+  { value: "dmy", label: "Day first (31/01/2025)" },
+  { value: "mdy", label: "Month first (01/31/2025)" },
+];
+
+const PO_STATUSES = ["Active", "Completed", "Delayed"];
+const PART_STATUSES = ["Pending", "In Progress", "Completed", "Delayed"];
+
+// One PO assembled from every spreadsheet row that shares its PO number
+export interface ImportedPurchaseOrder {
+  poNumber: string;
+  rowNumbers: number[];
+  errors: string[];
+  existingId?: string;
+  // An existing PO the sheet doesn't change, which is left alone
+  unchanged?: boolean;
+  data: Omit<PurchaseOrder, "id">;
+}
+
+interface ImportContext {
+  projects: Project[];
+  suppliers: Supplier[];
+  purchaseOrders: PurchaseOrder[];
+}
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Reads the first sheet of a CSV or XLSX file into rows keyed by header
+export const readSpreadsheet = async (file: File): Promise<{ headers: string[]; rows: ImportRow[] }> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true, dateNF: "yyyy-mm-dd" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const rows = XLSX.utils.sheet_to_json<ImportRow>(sheet, { defval: "", raw: false, dateNF: "yyyy-mm-dd" });
+  const headers = (XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || []).map(String);
+
+  return { headers, rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+
+  IMPORT_FIELDS.forEach(field => {
+    const header = headers.find(h => field.aliases.includes(normalise(h)));
+    if (header) mapping[field.key] = header;
+  });
+
+  return mapping;
+};
+
+// The yyyy-mm-dd of a calendar day, or null if there is no such day
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  const valid = date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  return valid ? date.toISOString().substring(0, 10) : null;
+};
+
+const SLASHED_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+// Dates are calendar days, so they're read from their parts rather than as a
+// moment in the browser's time zone, which would move them a day east of UTC
+export const parseDate = (value: string, order: DateOrder = "mdy"): string | null => {
+  if (!value) return null;
+
+  // yyyy-mm-dd, as XLSX date cells come out, with any time of day after it
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  // Slashed dates can't say which part is the day, so the order is chosen
+  const slashed = value.match(SLASHED_DATE);
+  if (slashed) {
+    const [day, month] = order === "dmy" ? [slashed[1], slashed[2]] : [slashed[2], slashed[1]];
+    return isoDate(Number(slashed[3]), Number(month), Number(day));
+  }
+
+  // Anything else ("4 Mar 2025") is left to Date, and read back as the same local day
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : isoDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+};
+
+const parseNumber = (value: string): number | null => {
+  if (value === "") return null;
+  const number = parseFloat(value.replace(/[^0-9.-]/g, ""));
+  return isNaN(number) ? null : number;
+};
+
+const matchOption = (value: string, options: string[]) =>
+  options.find(option => normalise(option) === normalise(value));
+
+const findByName = <T extends { name: string }>(items: T[], name: string) =>
+  items.find(item => item.name.trim().toLowerCase() === name.trim().toLowerCase());
+
+// Day first when some slashed date in the mapped date columns can only be read
+// that way, as in 13/02/2025, and month first otherwise
+export const guessDateOrder = (rows: ImportRow[], mapping: ColumnMapping): DateOrder => {
+  const columns = [mapping.issuedDate, mapping.deadline].filter(Boolean);
+  const dayFirst = rows.some(row =>
+    columns.some(column => Number(String(row[column] ?? "").trim().match(SLASHED_DATE)?.[1]) > 12)
+  );
+  return dayFirst ? "dmy" : "mdy";
+};
+
+// Existing parts are matched by name so re-importing a sheet updates them in place;
+// parts that are not in the sheet are kept.
+const mergeParts = (existing: Part[], imported: Part[]): Part[] => {
+  const merged = existing.map(part => {
+    const match = imported.find(p => p.name.toLowerCase() === part.name.toLowerCase());
+    return match ? { ...part, quantity: match.quantity, status: match.status } : part;
+  });
+
+  const newParts = imported.filter(
+    p => !existing.some(part => part.name.toLowerCase() === p.name.toLowerCase())
+  );
+
+  return [...merged, ...newParts];
+};
+
+export const buildImportPlan = (
+  rows: ImportRow[],
+  mapping: ColumnMapping,
+  { projects, suppliers, purchaseOrders }: ImportContext,
+  dateOrder: DateOrder = "mdy"
+): ImportedPurchaseOrder[] => {
+  const get = (row: ImportRow, field: ImportField) => {
+    const column = mapping[field];
+    return column ? String(row[column] ?? "").trim() : "";
+  };
+
+  const groups = new Map<string, { rowNumbers: number[]; rows: ImportRow[] }>();
+  const missingNumberRows: number[] = [];
+
+  rows.forEach((row, index) => {
+    // Row numbers as shown in the spreadsheet, after the header row
+    const rowNumber = index + 2;
+    const poNumber = get(row, "poNumber");
+    if (!poNumber) {
+      if (Object.values(row).some(value => String(value).trim() !== "")) {
+        missingNumberRows.push(rowNumber);
+      }
+      return;
+    }
+
+    const group = groups.get(poNumber) || { rowNumbers: [], rows: [] };
+    group.rowNumbers.push(rowNumber);
+    group.rows.push(row);
+    groups.set(poNumber, group);
+  });
+
+  const plan = Array.from(groups.entries()).map(([poNumber, group]): ImportedPurchaseOrder => {
+    const errors: string[] = [];
+    // PO-level values come from the first row of the group
+    const first = group.rows[0];
+    const existing = purchaseOrders.find(po => po.poNumber.toLowerCase() === poNumber.toLowerCase());
+
+    const projectName = get(first, "project");
+    const project = findByName(projects, projectName);
+    if (!project) errors.push(projectName ? `Unknown project "${projectName}"` : "Project is missing");
+
+    const supplierName = get(first, "supplier");
+    const supplier = findByName(suppliers, supplierName);
+    if (!supplier) errors.push(supplierName ? `Unknown supplier "${supplierName}"` : "Supplier is missing");
+
+    const deadline = parseDate(get(first, "deadline"), dateOrder);
+    if (!deadline) errors.push("Deadline is missing or not a date");
+
+    // Without an issued date or status in the sheet, an existing PO keeps its own
+    const issuedValue = get(first, "issuedDate");
+    const issuedDate = issuedValue
+      ? parseDate(issuedValue, dateOrder)
+      : existing?.issuedDate.substring(0, 10) ?? format(new Date(), "yyyy-MM-dd");
+    if (!issuedDate) errors.push(`Issued date "${issuedValue}" is not a date`);
+
+    const statusValue = get(first, "status");
+    const status = statusValue ? matchOption(statusValue, PO_STATUSES) : existing?.status ?? "Active";
+    if (!status) errors.push(`Unknown PO status "${statusValue}"`);
+
+    const amountValue = get(first, "amount");
+    const amount = parseNumber(amountValue);
+    if (amountValue && amount === null) errors.push(`PO value "${amountValue}" is not a number`);
+
+    const currencyValue = get(first, "currency").toUpperCase();
+    if (currencyValue && !isCurrencyCode(currencyValue)) errors.push(`Unsupported currency "${currencyValue}"`);
+
+    const parts: Part[] = group.rows.map((row, index) => {
+      const rowNumber = group.rowNumbers[index];
+      const name = get(row, "partName");
+      if (!name) errors.push(`Row ${rowNumber}: part name is missing`);
+
+      const quantity = parseNumber(get(row, "partQuantity"));
+      if (quantity === null || quantity <= 0 || !Number.isInteger(quantity)) {
+        errors.push(`Row ${rowNumber}: quantity must be a whole number above zero`);
+      }
+
+      const partStatusValue = get(row, "partStatus");
+      const partStatus = partStatusValue ? matchOption(partStatusValue, PART_STATUSES) : "Pending";
+      if (!partStatus) errors.push(`Row ${rowNumber}: unknown part status "${partStatusValue}"`);
+
+      return {
+        id: `part-${Date.now()}-${rowNumber}`,
+        name,
+        quantity: quantity || 0,
+        status: partStatus || "Pending",
+        progress: partStatus === "Completed" ? 100 : 0,
+      };
+    });
+
+    const data: Omit<PurchaseOrder, "id"> = {
+      poNumber: existing?.poNumber || poNumber,
+      projectId: project?.id || "",
+      supplierId: supplier?.id || "",
+      status: status || "Active",
+      issuedDate: issuedDate || "",
+      deadline: deadline || "",
+      progress: existing?.progress || 0,
+      amount: amount ?? existing?.amount ?? 0,
+      currency: isCurrencyCode(currencyValue) ? currencyValue : existing?.currency || BASE_CURRENCY,
+      costCategory: get(first, "costCategory") || existing?.costCategory,
+      description: get(first, "description") || existing?.description || "",
+      parts: existing ? mergeParts(existing.parts, parts) : parts,
+    };
+
+    return {
+      poNumber,
+      rowNumbers: group.rowNumbers,
+      errors,
+      existingId: existing?.id,
+      unchanged: !!existing && changedFields(existing, data).length === 0,
+      data,
+    };
+  });
+
+  if (missingNumberRows.length > 0) {
+    plan.push({
+      poNumber: "—",
+      rowNumbers: missingNumberRows,
+      errors: [`Rows ${missingNumberRows.join(", ")} have no PO number`],
+      data: {
+        poNumber: "",
+        projectId: "",
+        supplierId: "",
+        status: "Active",
+        issuedDate: "",
+        deadline: "",
+        parts: [],
+      },
+    });
+  }
+
+  return plan;
+};
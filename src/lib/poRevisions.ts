@@ -0,0 +1,113 @@
+import { format, parseISO } from "date-fns";
+import { PurchaseOrder, RevisionDiff } from "@/contexts/DataContext";
+import { formatCurrency } from "@/lib/currency";
+
+export const FIRST_REVISION = "A";
+
+// A new PO reusing the number of a live one, which should be amended instead
+export class DuplicatePoNumberError extends Error {
+  readonly poNumber: string;
+
+  constructor(poNumber: string) {
+    super(`Purchase order ${poNumber} already exists. Amend it to create a new revision.`);
+    this.name = "DuplicatePoNumberError";
+    this.poNumber = poNumber;
+  }
+}
+
+export const isDuplicatePoNumberError = (error: unknown): error is DuplicatePoNumberError =>
+  error instanceof DuplicatePoNumberError;
+
+// A, B, ... Z, AA, AB, ... like spreadsheet columns
+export const nextRevision = (revision: string | undefined) => {
+  const letters = (revision || FIRST_REVISION).toUpperCase().split("");
+
+  for (let i = letters.length - 1; i >= 0; i--) {
+    if (letters[i] !== "Z") {
+      letters[i] = String.fromCharCode(letters[i].charCodeAt(0) + 1);
+      return letters.join("");
+    }
+    letters[i] = "A";
+  }
+  return `A${letters.join("")}`;
+};
+
+// Parts are matched by name, since an amended part list is entered afresh
+const quantitiesByName = (parts: PurchaseOrder["parts"]) =>
+  parts.reduce((totals, part) => {
+    const name = part.name.trim();
+    totals.set(name, (totals.get(name) || 0) + part.quantity);
+    return totals;
+  }, new Map<string, number>());
+
+// What changed in the parts, amount and deadline from one revision to the next
+export const diffRevision = (
+  before: Pick<PurchaseOrder, "amount" | "deadline" | "parts">,
+  after: Partial<Pick<PurchaseOrder, "amount" | "deadline" | "parts">>
+): RevisionDiff => {
+  const diff: RevisionDiff = {};
+
+  if (after.amount !== undefined && (after.amount ?? null) !== (before.amount ?? null)) {
+    diff.amount = { from: before.amount ?? null, to: after.amount ?? null };
+  }
+  if (after.deadline !== undefined && after.deadline !== before.deadline) {
+    diff.deadline = { from: before.deadline, to: after.deadline };
+  }
+
+  if (after.parts) {
+    const previous = quantitiesByName(before.parts);
+    const next = quantitiesByName(after.parts);
+    const parts = {
+      added: [...next.keys()].filter(name => !previous.has(name)),
+      removed: [...previous.keys()].filter(name => !next.has(name)),
+      changed: [...next.entries()]
+        .filter(([name, quantity]) => previous.has(name) && previous.get(name) !== quantity)
+        .map(([name, quantity]) => ({ name, quantity: { from: previous.get(name), to: quantity } })),
+    };
+    if (parts.added.length || parts.removed.length || parts.changed.length) diff.parts = parts;
+  }
+
+  return diff;
+};
+
+export const hasChanges = (diff: RevisionDiff) => !!(diff.amount || diff.deadline || diff.parts);
+
+// What an existing PO commits to, besides the parts ordered. Changing any of
+// it, or the parts' names and quantities, takes an amendment.
+export const AMENDED_FIELDS = ["amount", "currency", "projectId", "supplierId", "costCategory", "deadline"] as const;
+
+export const needsAmendment = (
+  before: Omit<PurchaseOrder, "id">,
+  after: Partial<Omit<PurchaseOrder, "id">>
+) =>
+  AMENDED_FIELDS.some(field => after[field] !== undefined && (after[field] || null) !== (before[field] || null)) ||
+  (!!after.parts && !!diffRevision(before, { parts: after.parts }).parts);
+
+const formatDate = (date: string) => {
+  const parsed = parseISO(date);
+  return isNaN(parsed.getTime()) ? date : format(parsed, "MMM d, yyyy");
+};
+
+const formatAmount = (amount: number | null, currency: string | undefined) =>
+  amount === null ? "none" : formatCurrency(amount, currency);
+
+// One readable line per change, for the revision history
+export const describeRevisionDiff = (diff: RevisionDiff, currency?: string): string[] => {
+  const lines: string[] = [];
+
+  if (diff.amount) {
+    lines.push(`Amount: ${formatAmount(diff.amount.from, currency)} → ${formatAmount(diff.amount.to, currency)}`);
+  }
+  if (diff.deadline) {
+    lines.push(`Deadline: ${formatDate(diff.deadline.from)} → ${formatDate(diff.deadline.to)}`);
+  }
+  if (diff.parts) {
+    diff.parts.added.forEach(name => lines.push(`Added part: ${name}`));
+    diff.parts.removed.forEach(name => lines.push(`Removed part: ${name}`));
+    diff.parts.changed.forEach(({ name, quantity }) =>
+      lines.push(`${name}: quantity ${quantity.from} → ${quantity.to}`)
+    );
+  }
+
+  return lines;
+};
@@ -0,0 +1,116 @@
+import { QueryClient } from "@tanstack/react-query";
+
+export type QueryEntity =
+  | "clients"
+  | "suppliers"
+  | "projects"
+  | "purchaseOrders"
+  | "externalLinks"
+  | "shipments";
+
+// Foreign keys a list can be narrowed by; each entity only uses the ones it has
+export interface EntityFilters {
+  clientId?: string;
+  projectId?: string;
+  supplierId?: string;
+  poId?: string;
+}
+
+export type SortDirection = "asc" | "desc";
+
+// One page of a server-side filtered and sorted list. Dates are yyyy-MM-dd and
+// bound whichever date column the list is ordered by default.
+export interface ListParams extends EntityFilters {
+  page: number;
+  pageSize: number;
+  sort: string;
+  direction: SortDirection;
+  search?: string;
+  status?: string;
+  // A purchase order's approval status
+  approval?: string;
+  type?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ListPage<T> {
+  rows: T[];
+  // Rows matching the filters across all pages
+  total: number;
+}
+
+// Keys are [entity, "list", filters], [entity, "page", params] or
+// [entity, "detail", id], so invalidating [entity] reaches every cached
+// query for that entity
+const entityKeys = (entity: QueryEntity) => ({
+  all: [entity] as const,
+  list: (filters: EntityFilters = {}) => [entity, "list", filters] as const,
+  page: (params: ListParams) => [entity, "page", params] as const,
+  detail: (id: string) => [entity, "detail", id] as const,
+});
+
+export const queryKeys = {
+  clients: entityKeys("clients"),
+  suppliers: entityKeys("suppliers"),
+  projects: entityKeys("projects"),
+  purchaseOrders: entityKeys("purchaseOrders"),
+  externalLinks: entityKeys("externalLinks"),
+  shipments: entityKeys("shipments"),
+};
+
+// Realtime keeps cached data current, so refetching on window focus would only
+// add load. Queries still run offline, where the hooks answer them from the
+// offline copy of the data.
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+      refetchOnWindowFocus: false,
+      networkMode: "offlineFirst",
+    },
+  },
+});
+
+export const matchesFilters = (row: object, filters: EntityFilters = {}) =>
+  Object.entries(filters).every(([key, value]) =>
+    value === undefined || (row as Record<string, unknown>)[key] === value
+  );
+
+// Offline fallback for paged lists: the same filters, search and sort applied
+// to the offline copy of the full list. Sort keys are the model's own field names, and the
+// date range bounds dateField.
+export const pageLocally = <T extends object>(
+  rows: T[],
+  params: ListParams,
+  dateField: keyof T & string,
+  searchFields: (keyof T & string)[]
+): ListPage<T> => {
+  const field = (row: T, key: string) => (row as Record<string, unknown>)[key];
+  const term = params.search?.trim().toLowerCase();
+
+  const matching = rows.filter(row =>
+    matchesFilters(row, {
+      clientId: params.clientId,
+      projectId: params.projectId,
+      supplierId: params.supplierId,
+    }) &&
+    (!params.status || field(row, "status") === params.status) &&
+    (!params.approval || (field(row, "approvalStatus") ?? "Issued") === params.approval) &&
+    (!params.type || field(row, "type") === params.type) &&
+    (!params.from || String(field(row, dateField)) >= params.from) &&
+    (!params.to || String(field(row, dateField)).slice(0, 10) <= params.to) &&
+    (!term || searchFields.some(key => String(field(row, key) ?? "").toLowerCase().includes(term)))
+  );
+
+  const sortKey = params.sort in (rows[0] ?? {}) ? params.sort : dateField;
+  const sign = params.direction === "asc" ? 1 : -1;
+  const sorted = [...matching].sort((a, b) => {
+    const left = field(a, sortKey) ?? "";
+    const right = field(b, sortKey) ?? "";
+    return (left < right ? -1 : left > right ? 1 : 0) * sign;
+  });
+
+  const start = (params.page - 1) * params.pageSize;
+  return { rows: sorted.slice(start, start + params.pageSize), total: matching.length };
+};
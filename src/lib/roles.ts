@@ -0,0 +1,43 @@
+export type UserRole = "admin" | "procurement" | "logistics" | "viewer" | "client" | "supplier";
+
+// Every role that is allowed into the admin panel at all
+export const STAFF_ROLES: UserRole[] = ["admin", "procurement", "logistics", "viewer"];
+
+// Client and supplier users only ever see their portal, scoped to their own
+// Client or Supplier record
+export const ALL_ROLES: UserRole[] = [...STAFF_ROLES, "client", "supplier"];
+
+// Which roles can open each admin section (keyed by the path under /admin)
+export const ADMIN_ROUTE_ROLES: Record<string, UserRole[]> = {
+  dashboard: STAFF_ROLES,
+  projects: ["admin", "procurement", "viewer"],
+  clients: ["admin", "procurement", "viewer"],
+  suppliers: ["admin", "procurement", "viewer"],
+  "purchase-orders": ["admin", "procurement", "logistics", "viewer"],
+  // The roles that can sign off purchase orders
+  approvals: ["admin", "procurement"],
+  shipments: ["admin", "procurement", "logistics", "viewer"],
+  "external-links": ["admin", "procurement", "logistics", "viewer"],
+  "supplier-updates": ["admin", "procurement", "logistics", "viewer"],
+  "audit-log": ["admin", "procurement"],
+  trash: ["admin", "procurement", "logistics"],
+  settings: ["admin"],
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === "string" && (ALL_ROLES as string[]).includes(value);
+
+export const hasRole = (role: UserRole | null | undefined, allowed: UserRole[]) =>
+  !!role && allowed.includes(role);
+
+// Where a user lands after signing in
+export const homePathForRole = (role: UserRole) => {
+  switch (role) {
+    case "client":
+      return "/portal";
+    case "supplier":
+      return "/supplier-portal";
+    default:
+      return "/admin/dashboard";
+  }
+};
@@ -0,0 +1,23 @@
+import type { ScopedDataset } from "@/lib/clientScope";
+
+// Narrows the dataset to one supplier's purchase orders. Their own POs are
+// shown in full, but the projects they belong to lose the client and budget,
+// and other suppliers' records are dropped entirely. supplier_portal_data
+// already loads no more than this; it is applied again to anything else,
+// such as an offline snapshot.
+export const scopeToSupplier = (data: ScopedDataset, supplierId: string | undefined): ScopedDataset => {
+  const purchaseOrders = data.purchaseOrders.filter(po => !!supplierId && po.supplierId === supplierId);
+  const poIds = new Set(purchaseOrders.map(po => po.id));
+  const projectIds = new Set(purchaseOrders.map(po => po.projectId));
+
+  return {
+    clients: [],
+    suppliers: data.suppliers.filter(supplier => supplier.id === supplierId),
+    projects: data.projects
+      .filter(project => projectIds.has(project.id))
+      .map(project => ({ ...project, clientId: "", budget: undefined, budgetCategories: undefined })),
+    purchaseOrders,
+    externalLinks: data.externalLinks.filter(link => !!link.poId && poIds.has(link.poId)),
+    shipments: data.shipments.filter(shipment => !!supplierId && shipment.supplierId === supplierId),
+  };
+};
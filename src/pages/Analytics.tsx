@@ -1,6 +1,6 @@
 
-import { useState, useMemo } from "react";
-import { useData } from "@/contexts/DataContext";
+import { useState, useMemo, useRef } from "react";
+import { useProjects, usePurchaseOrders, useSuppliers } from "@/hooks/use-data-queries";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   BarChart,
@@ -19,38 +19,23 @@ import { ProjectFilter } from "@/components/analytics/ProjectFilter";
 import { StatusPieChart } from "@/components/analytics/StatusPieChart";
 import { BudgetSpentChart } from "@/components/analytics/BudgetSpentChart";
 import { SupplierSpendingChart } from "@/components/analytics/SupplierSpendingChart";
+import { completionRate as completionRateOf, countByStatus, isInDateRange, spendByProject } from "@/lib/analytics";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { ExportColumn, exportTable } from "@/lib/export";
 
 export default function Analytics() {
-  const { projects, suppliers, purchaseOrders } = useData();
+  const { data: projects = [] } = useProjects();
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
+  const { poAmount, formatReporting } = useCurrency();
   const [dateRange, setDateRange] = useState("all");
   const [selectedProject, setSelectedProject] = useState("all");
-  
-  // Filter data based on date range
-  const filterByDateRange = (date: string) => {
-    if (dateRange === "all") return true;
-    
-    const itemDate = new Date(date);
-    const today = new Date();
-    
-    if (dateRange === "month") {
-      // Last 30 days
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(today.getDate() - 30);
-      return itemDate >= thirtyDaysAgo;
-    } else if (dateRange === "quarter") {
-      // Last 90 days
-      const ninetyDaysAgo = new Date();
-      ninetyDaysAgo.setDate(today.getDate() - 90);
-      return itemDate >= ninetyDaysAgo;
-    } else if (dateRange === "year") {
-      // Last 365 days
-      const yearAgo = new Date();
-      yearAgo.setDate(today.getDate() - 365);
-      return itemDate >= yearAgo;
-    }
-    
-    return false;
-  };
+  const projectStatusChartRef = useRef<HTMLDivElement>(null);
+  const poStatusChartRef = useRef<HTMLDivElement>(null);
+  const supplierPerformanceChartRef = useRef<HTMLDivElement>(null);
+  const budgetChartRef = useRef<HTMLDivElement>(null);
+  const supplierSpendingChartRef = useRef<HTMLDivElement>(null);
   
   // Filter by project
   const filterByProject = (projectId: string) => {
@@ -59,42 +44,29 @@ export default function Analytics() {
   };
   
   // Filter projects
-  const filteredProjects = projects.filter(project => filterByDateRange(project.startDate));
+  const filteredProjects = projects.filter(project => isInDateRange(project.startDate, dateRange));
   
   // Filter POs by date range and project
   const filteredPOs = purchaseOrders.filter(po => 
-    filterByDateRange(po.issuedDate) && filterByProject(po.projectId)
+    isInDateRange(po.issuedDate, dateRange) && filterByProject(po.projectId)
   );
   
   // Project status data for chart
+  const projectCounts = countByStatus(filteredProjects);
   const projectStatusData = [
-    { name: "In Progress", value: filteredProjects.filter(p => p.status === "In Progress").length, color: "#3b82f6" },
-    { name: "Completed", value: filteredProjects.filter(p => p.status === "Completed").length, color: "#22c55e" },
-    { name: "Pending", value: filteredProjects.filter(p => p.status === "Pending").length, color: "#f59e0b" },
-    { name: "Delayed", value: filteredProjects.filter(p => p.status === "Delayed").length, color: "#ef4444" },
+    { name: "In Progress", value: projectCounts["In Progress"] || 0, color: "#3b82f6" },
+    { name: "Completed", value: projectCounts.Completed || 0, color: "#22c55e" },
+    { name: "Pending", value: projectCounts.Pending || 0, color: "#f59e0b" },
+    { name: "Delayed", value: projectCounts.Delayed || 0, color: "#ef4444" },
   ].filter(item => item.value > 0);
   
   // Purchase Order status data for chart
   const poStatusData = useMemo(() => {
-    // Calculate the number of POs with different statuses
-    const statusCounts = {
-      "Completed": 0,
-      "Active": 0, // "In Progress" equivalent
-      "Delayed": 0
-    };
-    
-    // Count POs by status
-    filteredPOs.forEach(po => {
-      if (statusCounts.hasOwnProperty(po.status)) {
-        statusCounts[po.status as keyof typeof statusCounts]++;
-      }
-    });
-    
-    // Format data for chart
+    const poCounts = countByStatus(filteredPOs);
     return [
-      { name: "Completed", value: statusCounts.Completed, color: "#22c55e" },
-      { name: "Active", value: statusCounts.Active, color: "#3b82f6" },
-      { name: "Delayed", value: statusCounts.Delayed, color: "#ef4444" },
+      { name: "Completed", value: poCounts.Completed || 0, color: "#22c55e" },
+      { name: "Active", value: poCounts.Active || 0, color: "#3b82f6" },
+      { name: "Delayed", value: poCounts.Delayed || 0, color: "#ef4444" },
     ].filter(item => item.value > 0);
   }, [filteredPOs]);
   
@@ -107,41 +79,19 @@ export default function Analytics() {
       onTimeDelivery: supplier.onTimeDelivery,
     }));
   
-  // Calculate spent by project from POs
+  // Budget vs committed and actual spend per project, from the filtered POs
   const spentByProject = useMemo(() => {
-    const projectSpentMap = new Map<string, number>();
-    
-    // Initialize with all projects (even if they have no POs)
-    projects.forEach(project => {
-      projectSpentMap.set(project.id, 0);
-    });
-    
-    // Calculate spent for each project based on POs
-    filteredPOs.forEach(po => {
-      // Sum up all parts in the PO
-      const poTotal = po.parts.reduce((sum, part) => {
-        return sum + (part.quantity * (Math.floor(Math.random() * 1000) + 100)); // Random cost per part for demo
-      }, 0);
-      
-      // Add to the project's total
-      const currentSpent = projectSpentMap.get(po.projectId) || 0;
-      projectSpentMap.set(po.projectId, currentSpent + poTotal);
-    });
-    
-    // Convert to chart data format
-    return Array.from(projectSpentMap.entries())
-      .filter(([_, spent]) => spent > 0) // Only include projects with spent > 0
-      .map(([projectId, spent]) => {
-        const project = projects.find(p => p.id === projectId);
-        return {
-          name: project ? project.name.substring(0, 15) + (project.name.length > 15 ? "..." : "") : "Unknown",
-          projectId,
-          spent,
-        };
-      })
-      .sort((a, b) => b.spent - a.spent) // Sort by spent in descending order
-      .slice(0, 8); // Show top 8 projects
-  }, [filteredPOs, projects]);
+    const shownProjects = projects.filter(project => selectedProject === "all" || project.id === selectedProject);
+    return spendByProject(shownProjects, filteredPOs, poAmount)
+      .slice(0, 8) // Show top 8 projects
+      .map(({ project, budget, committed, actual }) => ({
+        name: project.name.substring(0, 15) + (project.name.length > 15 ? "..." : ""),
+        projectId: project.id,
+        budget,
+        spent: committed,
+        actual,
+      }));
+  }, [filteredPOs, projects, selectedProject, poAmount]);
   
   // Generate colors for budget chart
   const budgetColors = [
@@ -149,10 +99,36 @@ export default function Analytics() {
     "#F97316", "#0EA5E9", "#D946EF", "#33C3F0"
   ];
   
-  // Calculate completion rate
-  const completionRate = filteredProjects.length > 0 
-    ? Math.round((filteredProjects.filter(p => p.status === "Completed").length / filteredProjects.length) * 100)
-    : 0;
+  const completionRate = completionRateOf(filteredProjects);
+  
+  const statusColumns: ExportColumn<{ name: string; value: number }>[] = [
+    { header: "Status", value: item => item.name },
+    { header: "Count", value: item => item.value },
+  ];
+  
+  const exportTables = [
+    exportTable({ title: "Project Status", rows: projectStatusData, columns: statusColumns }),
+    exportTable({ title: "Purchase Order Status", rows: poStatusData, columns: statusColumns }),
+    exportTable({
+      title: "Supplier Performance",
+      rows: supplierPerformanceData,
+      columns: [
+        { header: "Supplier", value: item => item.name },
+        { header: "Rating", value: item => item.rating },
+        { header: "On-Time Delivery (%)", value: item => item.onTimeDelivery },
+      ],
+    }),
+    exportTable({
+      title: "Budget vs Spent",
+      rows: spentByProject,
+      columns: [
+        { header: "Project", value: item => projects.find(p => p.id === item.projectId)?.name || item.name },
+        { header: "Budget", value: item => item.budget },
+        { header: "Committed", value: item => item.spent },
+        { header: "Actual", value: item => item.actual },
+      ],
+    }),
+  ];
   
   return (
     <div className="space-y-6">
@@ -169,6 +145,18 @@ export default function Analytics() {
             setSelectedProject={setSelectedProject}
             projects={projects}
           />
+          <ExportMenu
+            filename="analytics"
+            title="Analytics Report"
+            tables={exportTables}
+            charts={[
+              projectStatusChartRef,
+              poStatusChartRef,
+              supplierPerformanceChartRef,
+              budgetChartRef,
+              supplierSpendingChartRef,
+            ]}
+          />
         </div>
       </div>
       
@@ -188,21 +176,25 @@ export default function Analytics() {
         />
         <StatCard
           title="Total Spent"
-          value={`$${spentByProject.reduce((sum, item) => sum + item.spent, 0).toLocaleString()}`}
+          value={formatReporting(spentByProject.reduce((sum, item) => sum + item.spent, 0))}
         />
       </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Project Status Distribution */}
-        <StatusPieChart title="Project Status Distribution" data={projectStatusData} />
+        <div ref={projectStatusChartRef}>
+          <StatusPieChart title="Project Status Distribution" data={projectStatusData} />
+        </div>
         
         {/* Purchase Order Status Chart */}
-        <StatusPieChart title="Purchase Order Status" data={poStatusData} />
+        <div ref={poStatusChartRef}>
+          <StatusPieChart title="Purchase Order Status" data={poStatusData} />
+        </div>
       </div>
       
       <div className="grid grid-cols-1 gap-6">
         {/* Supplier Performance */}
-        <Card className="card-hover">
+        <Card className="card-hover" ref={supplierPerformanceChartRef}>
           <CardHeader>
             <CardTitle>Supplier Performance</CardTitle>
           </CardHeader>
@@ -232,11 +224,15 @@ export default function Analytics() {
           </CardContent>
         </Card>
         
-        {/* Budget Spent Analysis - Single bar per project */}
-        <BudgetSpentChart spentByProject={spentByProject} budgetColors={budgetColors} />
+        {/* Budget vs committed and actual spend per project */}
+        <div ref={budgetChartRef}>
+          <BudgetSpentChart spentByProject={spentByProject} budgetColors={budgetColors} />
+        </div>
         
         {/* New: Amount Spent by Supplier */}
-        <SupplierSpendingChart purchaseOrders={purchaseOrders} suppliers={suppliers} />
+        <div ref={supplierSpendingChartRef}>
+          <SupplierSpendingChart purchaseOrders={purchaseOrders} suppliers={suppliers} />
+        </div>
       </div>
     </div>
   );
@@ -1,6 +1,6 @@
 
 import { useState } from "react";
-import { useData } from "@/contexts/DataContext";
+import { useClients, useProjects } from "@/hooks/use-data-queries";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   Table,
@@ -12,9 +12,12 @@ import {
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Users, Search } from "lucide-react";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportTable } from "@/lib/export";
 
 export default function Clients() {
-  const { clients, projects } = useData();
+  const { data: clients = [] } = useClients();
+  const { data: projects = [] } = useProjects();
   const [search, setSearch] = useState("");
   
   // Filter clients based on search
@@ -35,6 +38,22 @@ export default function Clients() {
     return projects.filter(p => p.clientId === clientId && p.status === "In Progress").length;
   };
   
+  const exportTables = [
+    exportTable({
+      title: "Clients",
+      rows: filteredClients,
+      columns: [
+        { header: "Client Name", value: client => client.name },
+        { header: "Contact Person", value: client => client.contactPerson },
+        { header: "Email", value: client => client.email },
+        { header: "Phone", value: client => client.phone },
+        { header: "Location", value: client => client.location },
+        { header: "Projects", value: client => getClientProjectCount(client.id) },
+        { header: "Active Projects", value: client => getActiveProjectCount(client.id) },
+      ],
+    }),
+  ];
+  
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
@@ -43,15 +62,19 @@ export default function Clients() {
           Clients
         </h1>
         
-        <div className="relative">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search clients..."
-            className="pl-8 w-[300px]"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-          />
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search clients..."
+              className="pl-8 w-[300px]"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          
+          <ExportMenu filename="clients" title="Clients" tables={exportTables} />
         </div>
       </div>
       
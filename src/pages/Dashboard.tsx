@@ -1,5 +1,5 @@
 
-import { useData } from "@/contexts/DataContext";
+import { useClients, useProjects, usePurchaseOrders, useSuppliers } from "@/hooks/use-data-queries";
 import { StatCard } from "@/components/dashboard/StatCard";
 import { ProjectStatusChart } from "@/components/dashboard/ProjectStatusChart";
 import { UpcomingDeadlines } from "@/components/dashboard/UpcomingDeadlines";
@@ -8,23 +8,19 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ChartBar, Package, File, Users } from "lucide-react";
 
 export default function Dashboard() {
-  const { projects, suppliers, clients, purchaseOrders } = useData();
+  const { data: projects = [] } = useProjects();
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: clients = [] } = useClients();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
   
   // Calculate dashboard metrics
   const activeProjects = projects.filter(p => p.status === "In Progress").length;
   const completedProjects = projects.filter(p => p.status === "Completed").length;
   
-  // Count unique PO numbers for each status
-  const uniquePONumbers = [...new Set(purchaseOrders.map(po => po.poNumber))];
-  const activePOCount = uniquePONumbers.filter(poNumber => 
-    purchaseOrders.some(po => po.poNumber === poNumber && po.status === "Active")
-  ).length;
-  const completedPOCount = uniquePONumbers.filter(poNumber => 
-    purchaseOrders.every(po => po.poNumber === poNumber && po.status === "Completed")
-  ).length;
-  const delayedPOCount = uniquePONumbers.filter(poNumber => 
-    purchaseOrders.some(po => po.poNumber === poNumber && po.status === "Delayed")
-  ).length;
+  // Each PO is its current revision, so POs are counted directly
+  const activePOCount = purchaseOrders.filter(po => po.status === "Active").length;
+  const completedPOCount = purchaseOrders.filter(po => po.status === "Completed").length;
+  const delayedPOCount = purchaseOrders.filter(po => po.status === "Delayed").length;
   
   const activeSuppliers = suppliers.length;
   
@@ -1,6 +1,5 @@
 
-import { useState } from "react";
-import { useData } from "@/contexts/DataContext";
+import { useExternalLinkPage, useProjects, useSuppliers } from "@/hooks/use-data-queries";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -10,7 +9,6 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -21,28 +19,27 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ExternalLink, Search, File } from "lucide-react";
+import { ExternalLink, File } from "lucide-react";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportTable } from "@/lib/export";
 import { useNavigate } from "react-router-dom";
+import { useListParams } from "@/hooks/use-list-params";
+import { ListPagination } from "@/components/lists/ListPagination";
+import { ListSearchInput } from "@/components/lists/ListSearchInput";
+import { ListDateRange } from "@/components/lists/ListDateRange";
+import { SortableTableHead } from "@/components/lists/SortableTableHead";
+import { openDocument } from "@/integrations/supabase/storage";
+import { toast } from "sonner";
 
 export default function ExternalLinks() {
-  const { externalLinks, projects, suppliers } = useData();
-  const [search, setSearch] = useState("");
-  const [typeFilter, setTypeFilter] = useState<string | null>(null);
-  const [projectFilter, setProjectFilter] = useState<string | null>(null);
-  const [supplierFilter, setSupplierFilter] = useState<string | null>(null);
+  const { data: projects = [] } = useProjects();
+  const { data: suppliers = [] } = useSuppliers();
+  const { params, setParams, sortProps } = useListParams({ sort: "date", direction: "desc" });
+  const { data: page, isPending } = useExternalLinkPage(params);
   const navigate = useNavigate();
   
-  // Filter external links based on search and filters
-  const filteredLinks = externalLinks.filter(link => {
-    const matchesSearch = search === "" || 
-      link.title.toLowerCase().includes(search.toLowerCase());
-    
-    const matchesType = typeFilter === null || link.type === typeFilter;
-    const matchesProject = projectFilter === null || link.projectId === projectFilter;
-    const matchesSupplier = supplierFilter === null || (link.supplierId && link.supplierId === supplierFilter);
-    
-    return matchesSearch && matchesType && matchesProject && matchesSupplier;
-  });
+  // Search and filters run on the server; this is the current page
+  const filteredLinks = page?.rows ?? [];
   
   // Function to get type badge color
   const getTypeBadgeColor = (type: string) => {
@@ -53,6 +50,8 @@ export default function ExternalLinks() {
         return "bg-green-500";
       case "Tracking":
         return "bg-amber-500";
+      case "Document":
+        return "bg-purple-500";
       default:
         return "bg-gray-500";
     }
@@ -71,13 +70,27 @@ export default function ExternalLinks() {
     return supplier ? supplier.name : "Unknown Supplier";
   };
   
+  const exportTables = [
+    exportTable({
+      title: "External Links",
+      rows: filteredLinks,
+      columns: [
+        { header: "Title", value: link => link.title },
+        { header: "Type", value: link => link.type },
+        { header: "Project", value: link => link.projectId ? getProjectName(link.projectId) : "N/A" },
+        { header: "Supplier", value: link => getSupplierName(link.supplierId) },
+        { header: "Date", value: link => link.date },
+        { header: "URL", value: link => link.url },
+      ],
+    }),
+  ];
+  
   // Simulate opening local file
   const handleOpenFile = (url: string) => {
-    console.log(`Opening file at: ${url}`);
-    
-    // In a real app, this might link to a file server or cloud storage
-    // For demo, show a notification
-    alert(`Opening file: ${url}`);
+    openDocument(url).catch(error => {
+      console.error("Error opening file:", error);
+      toast.error("Failed to open file");
+    });
   };
   
   return (
@@ -87,29 +100,26 @@ export default function ExternalLinks() {
           <ExternalLink className="h-6 w-6 mr-2" />
           External Links
         </h1>
+        
+        <ExportMenu filename="external-links" title="External Links" tables={exportTables} />
       </div>
       
       {/* Filters */}
       <Card>
         <CardContent className="py-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div>
               <label className="text-sm font-medium mb-2 block">Search</label>
-              <div className="relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  type="search"
-                  placeholder="Search files..."
-                  className="pl-8"
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                />
-              </div>
+              <ListSearchInput
+                placeholder="Search files..."
+                value={params.search}
+                onSearch={(search) => setParams({ search })}
+              />
             </div>
             
             <div>
               <label className="text-sm font-medium mb-2 block">Type</label>
-              <Select value={typeFilter || "all"} onValueChange={(value) => setTypeFilter(value === "all" ? null : value)}>
+              <Select value={params.type || "all"} onValueChange={(value) => setParams({ type: value === "all" ? undefined : value })}>
                 <SelectTrigger>
                   <SelectValue placeholder="All Types" />
                 </SelectTrigger>
@@ -118,13 +128,14 @@ export default function ExternalLinks() {
                   <SelectItem value="Report">Reports</SelectItem>
                   <SelectItem value="Photo">Photos</SelectItem>
                   <SelectItem value="Tracking">Tracking</SelectItem>
+                  <SelectItem value="Document">Documents</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             
             <div>
               <label className="text-sm font-medium mb-2 block">Project</label>
-              <Select value={projectFilter || "all"} onValueChange={(value) => setProjectFilter(value === "all" ? null : value)}>
+              <Select value={params.projectId || "all"} onValueChange={(value) => setParams({ projectId: value === "all" ? undefined : value })}>
                 <SelectTrigger>
                   <SelectValue placeholder="All Projects" />
                 </SelectTrigger>
@@ -141,7 +152,7 @@ export default function ExternalLinks() {
             
             <div>
               <label className="text-sm font-medium mb-2 block">Supplier</label>
-              <Select value={supplierFilter || "all"} onValueChange={(value) => setSupplierFilter(value === "all" ? null : value)}>
+              <Select value={params.supplierId || "all"} onValueChange={(value) => setParams({ supplierId: value === "all" ? undefined : value })}>
                 <SelectTrigger>
                   <SelectValue placeholder="All Suppliers" />
                 </SelectTrigger>
@@ -155,6 +166,11 @@ export default function ExternalLinks() {
                 </SelectContent>
               </Select>
             </div>
+            
+            <div>
+              <label className="text-sm font-medium mb-2 block">Date</label>
+              <ListDateRange label="Date" from={params.from} to={params.to} onChange={setParams} />
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -168,11 +184,11 @@ export default function ExternalLinks() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Title</TableHead>
-                <TableHead>Type</TableHead>
+                <SortableTableHead label="Title" column="title" {...sortProps} />
+                <SortableTableHead label="Type" column="type" {...sortProps} />
                 <TableHead>Project</TableHead>
                 <TableHead>Supplier</TableHead>
-                <TableHead>Date</TableHead>
+                <SortableTableHead label="Date" column="date" {...sortProps} />
                 <TableHead>Action</TableHead>
               </TableRow>
             </TableHeader>
@@ -227,12 +243,20 @@ export default function ExternalLinks() {
               ) : (
                 <TableRow>
                   <TableCell colSpan={6} className="h-24 text-center">
-                    No files found matching the selected filters.
+                    {isPending ? "Loading files..." : "No files found matching the selected filters."}
                   </TableCell>
                 </TableRow>
               )}
             </TableBody>
           </Table>
+          
+          <ListPagination
+            page={params.page}
+            pageSize={params.pageSize}
+            total={page?.total ?? 0}
+            onPageChange={(target) => setParams({ page: target })}
+            onPageSizeChange={(pageSize) => setParams({ pageSize })}
+          />
         </CardContent>
       </Card>
     </div>
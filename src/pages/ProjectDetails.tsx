@@ -1,6 +1,12 @@
 
 import { useParams, useNavigate } from "react-router-dom";
-import { useData } from "@/contexts/DataContext";
+import {
+  useClient,
+  useProject,
+  usePurchaseOrdersForProject,
+  useShipmentsForProject,
+  useSuppliers,
+} from "@/hooks/use-data-queries";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
@@ -14,14 +20,31 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { ChevronLeft, Ship, Package } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/audit/AuditHistory";
+import { useAuth } from "@/contexts/AuthContext";
+import { getProjectBudget } from "@/lib/budget";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { BudgetWarnings, ProjectBudgetCard } from "@/components/budget/ProjectBudgetCard";
 
 export default function ProjectDetails() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
-  const { projects, clients, suppliers, purchaseOrders, shipments } = useData();
+  const { data: project, isPending } = useProject(projectId);
+  const { data: client } = useClient(project?.clientId);
+  const { data: projectPOs = [] } = usePurchaseOrdersForProject(projectId);
+  const { data: shipments = [] } = useShipmentsForProject(projectId);
+  const { data: suppliers = [] } = useSuppliers();
+  const { isStaff } = useAuth();
+  const { poAmount } = useCurrency();
   
-  // Find the project
-  const project = projects.find(p => p.id === projectId);
+  if (isPending && projectId) {
+    return (
+      <div className="flex items-center justify-center h-[50vh] text-muted-foreground">
+        Loading project...
+      </div>
+    );
+  }
   
   // If project not found, show error and return to projects list
   if (!project) {
@@ -33,21 +56,13 @@ export default function ProjectDetails() {
     );
   }
   
-  // Get client details
-  const client = clients.find(c => c.id === project.clientId);
+  // Amendments are revisions of the same PO, so each PO counts once
+  const activePOs = projectPOs.filter(po => po.status === "Active").length;
+  const completedPOs = projectPOs.filter(po => po.status === "Completed").length;
+  const delayedPOs = projectPOs.filter(po => po.status === "Delayed").length;
   
-  // Get POs related to this project and count unique PO numbers
-  const projectPOs = purchaseOrders.filter(po => po.projectId === project.id);
-  const uniquePONumbers = [...new Set(projectPOs.map(po => po.poNumber))];
-  const activePOs = uniquePONumbers.filter(poNumber => 
-    projectPOs.some(po => po.poNumber === poNumber && po.status === "Active")
-  ).length;
-  const completedPOs = uniquePONumbers.filter(poNumber => 
-    projectPOs.every(po => po.poNumber === poNumber && po.status === "Completed")
-  ).length;
-  const delayedPOs = uniquePONumbers.filter(poNumber => 
-    projectPOs.some(po => po.poNumber === poNumber && po.status === "Delayed")
-  ).length;
+  // Budget vs committed/actual spend from this project's POs
+  const budgetSummary = getProjectBudget(project, projectPOs, poAmount);
   
   // Get total parts count
   const totalParts = projectPOs.reduce((total, po) => total + po.parts.length, 0);
@@ -62,7 +77,7 @@ export default function ProjectDetails() {
     .sort((a, b) => new Date(a.deadline).getTime() - new Date(b.deadline).getTime());
   
   // Get shipments for this project
-  const projectShipments = shipments.filter(s => s.projectId === project.id)
+  const projectShipments = [...shipments]
     .sort((a, b) => new Date(a.etaDate).getTime() - new Date(b.etaDate).getTime());
   
   // Calculate days remaining
@@ -130,287 +145,308 @@ export default function ProjectDetails() {
         </div>
       </div>
       
-      {/* Project Progress */}
-      <Card className="card-hover">
-        <CardHeader className="pb-2">
-          <CardTitle className="text-lg font-medium">Project Progress</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-1">
-            <div className="flex items-center justify-between">
-              <span className="font-medium">{project.progress}% Complete</span>
-              <span className="text-sm text-muted-foreground">
-                Target: {new Date(project.endDate).toLocaleDateString()}
-              </span>
-            </div>
-            <Progress value={project.progress} className="h-2" />
-          </div>
-        </CardContent>
-      </Card>
-      
-      {/* Project Details */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Client and Project Info */}
-        <Card className="card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg font-medium">Project Information</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <dl className="space-y-4">
-              <div className="flex flex-col">
-                <dt className="text-sm font-medium text-muted-foreground">Client</dt>
-                <dd className="font-medium">{client?.name || "Unknown Client"}</dd>
+      <Tabs defaultValue="overview" className="space-y-6">
+        {isStaff && (
+          <TabsList>
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+        )}
+        
+        <TabsContent value="overview" className="space-y-6 mt-0">
+          <BudgetWarnings summary={budgetSummary} />
+          
+          {/* Project Progress */}
+          <Card className="card-hover">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg font-medium">Project Progress</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{project.progress}% Complete</span>
+                  <span className="text-sm text-muted-foreground">
+                    Target: {new Date(project.endDate).toLocaleDateString()}
+                  </span>
+                </div>
+                <Progress value={project.progress} className="h-2" />
               </div>
+            </CardContent>
+          </Card>
+      
+          <ProjectBudgetCard summary={budgetSummary} />
+      
+          {/* Project Details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Client and Project Info */}
+            <Card className="card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Project Information</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="space-y-4">
+                  <div className="flex flex-col">
+                    <dt className="text-sm font-medium text-muted-foreground">Client</dt>
+                    <dd className="font-medium">{client?.name || "Unknown Client"}</dd>
+                  </div>
               
-              <div className="flex flex-col">
-                <dt className="text-sm font-medium text-muted-foreground">Contact Person</dt>
-                <dd>{client?.contactPerson || "N/A"}</dd>
-              </div>
+                  <div className="flex flex-col">
+                    <dt className="text-sm font-medium text-muted-foreground">Contact Person</dt>
+                    <dd>{client?.contactPerson || "N/A"}</dd>
+                  </div>
               
-              <div className="flex flex-col">
-                <dt className="text-sm font-medium text-muted-foreground">Contact Info</dt>
-                <dd>{client?.email || "N/A"}</dd>
-                <dd>{client?.phone || "N/A"}</dd>
-              </div>
+                  <div className="flex flex-col">
+                    <dt className="text-sm font-medium text-muted-foreground">Contact Info</dt>
+                    <dd>{client?.email || "N/A"}</dd>
+                    <dd>{client?.phone || "N/A"}</dd>
+                  </div>
               
-              <div className="flex flex-col">
-                <dt className="text-sm font-medium text-muted-foreground">Project Manager</dt>
-                <dd>{project.projectManager}</dd>
-              </div>
+                  <div className="flex flex-col">
+                    <dt className="text-sm font-medium text-muted-foreground">Project Manager</dt>
+                    <dd>{project.projectManager}</dd>
+                  </div>
               
-              <div className="flex flex-col">
-                <dt className="text-sm font-medium text-muted-foreground">Description</dt>
-                <dd>{project.description || "No description available"}</dd>
-              </div>
-            </dl>
-          </CardContent>
-        </Card>
+                  <div className="flex flex-col">
+                    <dt className="text-sm font-medium text-muted-foreground">Description</dt>
+                    <dd>{project.description || "No description available"}</dd>
+                  </div>
+                </dl>
+              </CardContent>
+            </Card>
         
-        {/* PO Summary */}
-        <Card className="card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg font-medium">PO Summary</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              <div className="stat-card">
-                <div>
-                  <p className="text-sm text-muted-foreground">Total POs</p>
-                  <p className="text-xl font-bold">{uniquePONumbers.length}</p>
-                </div>
-              </div>
+            {/* PO Summary */}
+            <Card className="card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">PO Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                  <div className="stat-card">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Total POs</p>
+                      <p className="text-xl font-bold">{projectPOs.length}</p>
+                    </div>
+                  </div>
               
-              <div className="stat-card">
-                <div>
-                  <p className="text-sm text-muted-foreground">Active POs</p>
-                  <p className="text-xl font-bold">{activePOs}</p>
-                </div>
-              </div>
+                  <div className="stat-card">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Active POs</p>
+                      <p className="text-xl font-bold">{activePOs}</p>
+                    </div>
+                  </div>
               
-              <div className="stat-card">
-                <div>
-                  <p className="text-sm text-muted-foreground">Completed POs</p>
-                  <p className="text-xl font-bold">{completedPOs}</p>
-                </div>
-              </div>
+                  <div className="stat-card">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Completed POs</p>
+                      <p className="text-xl font-bold">{completedPOs}</p>
+                    </div>
+                  </div>
               
-              <div className="stat-card">
-                <div>
-                  <p className="text-sm text-muted-foreground">Total Parts</p>
-                  <p className="text-xl font-bold">{totalParts}</p>
+                  <div className="stat-card">
+                    <div>
+                      <p className="text-sm text-muted-foreground">Total Parts</p>
+                      <p className="text-xl font-bold">{totalParts}</p>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
             
-            <div>
-              <h4 className="font-medium mb-2">Suppliers Involved</h4>
-              <div className="space-y-2">
-                {projectSuppliers.map(supplier => (
-                  <div key={supplier.id} className="flex items-center justify-between text-sm p-2 bg-secondary rounded-md">
-                    <span>{supplier.name}</span>
-                    <span className="text-xs text-muted-foreground">{supplier.country}</span>
+                <div>
+                  <h4 className="font-medium mb-2">Suppliers Involved</h4>
+                  <div className="space-y-2">
+                    {projectSuppliers.map(supplier => (
+                      <div key={supplier.id} className="flex items-center justify-between text-sm p-2 bg-secondary rounded-md">
+                        <span>{supplier.name}</span>
+                        <span className="text-xs text-muted-foreground">{supplier.country}</span>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
       
-      {/* PO Details */}
-      <div className="grid grid-cols-1 gap-6">
-        <Card className="card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg font-medium">Purchase Orders</CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>PO Number</TableHead>
-                  <TableHead>Description</TableHead>
-                  <TableHead>Supplier</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Parts</TableHead>
-                  <TableHead>Deadline</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {projectPOs.length > 0 ? (
-                  projectPOs.map((po) => (
-                    <TableRow key={po.id} className="hover:bg-secondary/50 transition-colors animate-fade-in">
-                      <TableCell className="font-medium">{po.poNumber}</TableCell>
-                      <TableCell>{po.description || "No description"}</TableCell>
-                      <TableCell>{getSupplierName(po.supplierId)}</TableCell>
-                      <TableCell>
-                        <Badge className={getStatusColor(po.status)}>
-                          {po.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>{po.parts.length} parts</TableCell>
-                      <TableCell>
-                        <div className="flex flex-col">
-                          <span>{new Date(po.deadline).toLocaleDateString()}</span>
-                          {po.status !== "Completed" && (
-                            <span className={`text-xs ${calculateDaysRemaining(po.deadline) < 7 ? 'text-red-500' : 'text-muted-foreground'}`}>
-                              {calculateDaysRemaining(po.deadline)} days remaining
-                            </span>
-                          )}
-                        </div>
-                      </TableCell>
+          {/* PO Details */}
+          <div className="grid grid-cols-1 gap-6">
+            <Card className="card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Purchase Orders</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>PO Number</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Parts</TableHead>
+                      <TableHead>Deadline</TableHead>
                     </TableRow>
-                  ))
-                ) : (
-                  <TableRow>
-                    <TableCell colSpan={6} className="h-24 text-center">
-                      No purchase orders found.
-                    </TableCell>
-                  </TableRow>
-                )}
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
-        
-        {/* Upcoming Deadlines */}
-        <Card className="card-hover">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-lg font-medium">Upcoming PO Deadlines</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {upcomingDeadlines.length > 0 ? (
-              <div className="space-y-4">
-                {upcomingDeadlines.slice(0, 5).map((po) => {
-                  const daysRemaining = calculateDaysRemaining(po.deadline);
-                  return (
-                    <div key={po.id} className="flex items-center justify-between border-b pb-2">
-                      <div>
-                        <p className="font-medium">
-                          {po.poNumber} - {getSupplierName(po.supplierId)}
-                        </p>
-                        <div className="flex flex-col space-y-1">
-                          {po.parts.map(part => (
-                            <div key={part.id} className="flex items-center text-sm">
-                              <Badge variant="outline" className="mr-2">
-                                {part.name}
-                              </Badge>
-                              <Badge className={getStatusColor(part.status)}>
-                                {part.status}
-                              </Badge>
+                  </TableHeader>
+                  <TableBody>
+                    {projectPOs.length > 0 ? (
+                      projectPOs.map((po) => (
+                        <TableRow key={po.id} className="hover:bg-secondary/50 transition-colors animate-fade-in">
+                          <TableCell className="font-medium">{po.poNumber}</TableCell>
+                          <TableCell>{po.description || "No description"}</TableCell>
+                          <TableCell>{getSupplierName(po.supplierId)}</TableCell>
+                          <TableCell>
+                            <Badge className={getStatusColor(po.status)}>
+                              {po.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{po.parts.length} parts</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{new Date(po.deadline).toLocaleDateString()}</span>
+                              {po.status !== "Completed" && (
+                                <span className={`text-xs ${calculateDaysRemaining(po.deadline) < 7 ? 'text-red-500' : 'text-muted-foreground'}`}>
+                                  {calculateDaysRemaining(po.deadline)} days remaining
+                                </span>
+                              )}
                             </div>
-                          ))}
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <p className="text-sm">{new Date(po.deadline).toLocaleDateString()}</p>
-                        <Badge className={
-                          daysRemaining < 7 ? "bg-red-500" : 
-                          daysRemaining < 14 ? "bg-amber-500" : 
-                          "bg-green-500"
-                        }>
-                          {daysRemaining} days left
-                        </Badge>
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            ) : (
-              <div className="text-center py-4 text-muted-foreground">
-                No upcoming deadlines
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                          No purchase orders found.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
         
-        {/* Shipments Section */}
-        <Card className="card-hover">
-          <CardHeader className="pb-2 flex items-center">
-            <Ship className="h-5 w-5 mr-2 text-primary" />
-            <CardTitle className="text-lg font-medium">Project Shipments</CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Type</TableHead>
-                  <TableHead>Supplier</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Tracking/Container</TableHead>
-                  <TableHead>Shipped Date</TableHead>
-                  <TableHead>ETD</TableHead>
-                  <TableHead>ETA</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {projectShipments.length > 0 ? (
-                  projectShipments.map((shipment) => (
-                    <TableRow key={shipment.id} className="hover:bg-secondary/50 transition-colors animate-fade-in">
-                      <TableCell>
-                        <div className="flex items-center">
-                          <Package className="h-4 w-4 mr-2" />
-                          {shipment.type}
-                        </div>
-                      </TableCell>
-                      <TableCell>{getSupplierName(shipment.supplierId)}</TableCell>
-                      <TableCell>
-                        <Badge className={getStatusColor(shipment.status)}>
-                          {shipment.status}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {shipment.type === "Sea" 
-                          ? shipment.containerNumber || "N/A" 
-                          : shipment.trackingNumber || "N/A"}
-                      </TableCell>
-                      <TableCell>{new Date(shipment.shippedDate).toLocaleDateString()}</TableCell>
-                      <TableCell>{new Date(shipment.etdDate).toLocaleDateString()}</TableCell>
-                      <TableCell>
-                        <div className="flex flex-col">
-                          <span>{new Date(shipment.etaDate).toLocaleDateString()}</span>
-                          {shipment.status !== "Delivered" && (
-                            <span className={`text-xs ${
-                              calculateDaysRemaining(shipment.etaDate) < 7 ? 'text-red-500' : 'text-muted-foreground'
-                            }`}>
-                              {calculateDaysRemaining(shipment.etaDate)} days remaining
-                            </span>
-                          )}
+            {/* Upcoming Deadlines */}
+            <Card className="card-hover">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg font-medium">Upcoming PO Deadlines</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {upcomingDeadlines.length > 0 ? (
+                  <div className="space-y-4">
+                    {upcomingDeadlines.slice(0, 5).map((po) => {
+                      const daysRemaining = calculateDaysRemaining(po.deadline);
+                      return (
+                        <div key={po.id} className="flex items-center justify-between border-b pb-2">
+                          <div>
+                            <p className="font-medium">
+                              {po.poNumber} - {getSupplierName(po.supplierId)}
+                            </p>
+                            <div className="flex flex-col space-y-1">
+                              {po.parts.map(part => (
+                                <div key={part.id} className="flex items-center text-sm">
+                                  <Badge variant="outline" className="mr-2">
+                                    {part.name}
+                                  </Badge>
+                                  <Badge className={getStatusColor(part.status)}>
+                                    {part.status}
+                                  </Badge>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <p className="text-sm">{new Date(po.deadline).toLocaleDateString()}</p>
+                            <Badge className={
+                              daysRemaining < 7 ? "bg-red-500" : 
+                              daysRemaining < 14 ? "bg-amber-500" : 
+                              "bg-green-500"
+                            }>
+                              {daysRemaining} days left
+                            </Badge>
+                          </div>
                         </div>
-                      </TableCell>
-                    </TableRow>
-                  ))
+                      );
+                    })}
+                  </div>
                 ) : (
-                  <TableRow>
-                    <TableCell colSpan={7} className="h-24 text-center">
-                      No shipments found for this project.
-                    </TableCell>
-                  </TableRow>
+                  <div className="text-center py-4 text-muted-foreground">
+                    No upcoming deadlines
+                  </div>
                 )}
-              </TableBody>
-            </Table>
-          </CardContent>
-        </Card>
-      </div>
+              </CardContent>
+            </Card>
+        
+            {/* Shipments Section */}
+            <Card className="card-hover">
+              <CardHeader className="pb-2 flex items-center">
+                <Ship className="h-5 w-5 mr-2 text-primary" />
+                <CardTitle className="text-lg font-medium">Project Shipments</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Tracking/Container</TableHead>
+                      <TableHead>Shipped Date</TableHead>
+                      <TableHead>ETD</TableHead>
+                      <TableHead>ETA</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {projectShipments.length > 0 ? (
+                      projectShipments.map((shipment) => (
+                        <TableRow key={shipment.id} className="hover:bg-secondary/50 transition-colors animate-fade-in">
+                          <TableCell>
+                            <div className="flex items-center">
+                              <Package className="h-4 w-4 mr-2" />
+                              {shipment.type}
+                            </div>
+                          </TableCell>
+                          <TableCell>{getSupplierName(shipment.supplierId)}</TableCell>
+                          <TableCell>
+                            <Badge className={getStatusColor(shipment.status)}>
+                              {shipment.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {shipment.type === "Sea" 
+                              ? shipment.containerNumber || "N/A" 
+                              : shipment.trackingNumber || "N/A"}
+                          </TableCell>
+                          <TableCell>{new Date(shipment.shippedDate).toLocaleDateString()}</TableCell>
+                          <TableCell>{new Date(shipment.etdDate).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{new Date(shipment.etaDate).toLocaleDateString()}</span>
+                              {shipment.status !== "Delivered" && (
+                                <span className={`text-xs ${
+                                  calculateDaysRemaining(shipment.etaDate) < 7 ? 'text-red-500' : 'text-muted-foreground'
+                                }`}>
+                                  {calculateDaysRemaining(shipment.etaDate)} days remaining
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          No shipments found for this project.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+        
+        {isStaff && (
+          <TabsContent value="history" className="mt-0">
+            <AuditHistory projectId={project.id} />
+          </TabsContent>
+        )}
+      </Tabs>
     </div>
   );
 }
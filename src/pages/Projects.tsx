@@ -1,9 +1,7 @@
 
-import { useState } from "react";
-import { useData } from "@/contexts/DataContext";
+import { useClients, useProjectPage } from "@/hooks/use-data-queries";
 import { Link } from "react-router-dom";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import {
   Table,
   TableBody,
@@ -21,12 +19,27 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { File, Search, ChevronDown } from "lucide-react";
+import { File, ChevronDown } from "lucide-react";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportTable } from "@/lib/export";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useListParams } from "@/hooks/use-list-params";
+import { ListPagination } from "@/components/lists/ListPagination";
+import { ListSearchInput } from "@/components/lists/ListSearchInput";
+import { ListDateRange } from "@/components/lists/ListDateRange";
+import { SortableTableHead } from "@/components/lists/SortableTableHead";
 
 export default function Projects() {
-  const { projects, clients } = useData();
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const { data: clients = [] } = useClients();
+  const { params, setParams, sortProps } = useListParams({ sort: "startDate", direction: "desc" });
+  const { data: page, isPending } = useProjectPage(params);
+  const statusFilter = params.status;
   
   // Get client name
   const getClientName = (clientId: string): string => {
@@ -34,17 +47,25 @@ export default function Projects() {
     return client ? client.name : "Unknown Client";
   };
   
-  // Filter projects based on search and status
-  const filteredProjects = projects.filter(project => {
-    const matchesSearch = search === "" || 
-      project.name.toLowerCase().includes(search.toLowerCase()) ||
-      getClientName(project.clientId).toLowerCase().includes(search.toLowerCase()) ||
-      project.location.toLowerCase().includes(search.toLowerCase());
-    
-    const matchesStatus = statusFilter === null || project.status === statusFilter;
-    
-    return matchesSearch && matchesStatus;
-  });
+  // Search, status and date filters run on the server; this is the current page
+  const filteredProjects = page?.rows ?? [];
+  
+  const exportTables = [
+    exportTable({
+      title: statusFilter ? `${statusFilter} Projects` : "Projects",
+      rows: filteredProjects,
+      columns: [
+        { header: "Project Name", value: project => project.name },
+        { header: "Client", value: project => getClientName(project.clientId) },
+        { header: "Location", value: project => project.location },
+        { header: "Status", value: project => project.status },
+        { header: "Progress (%)", value: project => project.progress },
+        { header: "Start Date", value: project => project.startDate },
+        { header: "End Date", value: project => project.endDate },
+        { header: "Project Manager", value: project => project.projectManager },
+      ],
+    }),
+  ];
   
   // Function to get badge color based on status
   const getStatusColor = (status: string) => {
@@ -71,16 +92,12 @@ export default function Projects() {
         </h1>
         
         <div className="flex items-center gap-2">
-          <div className="relative">
-            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-              type="search"
-              placeholder="Search projects..."
-              className="pl-8 w-[200px] md:w-[300px]"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-            />
-          </div>
+          <ListSearchInput
+            placeholder="Search projects..."
+            className="w-[200px] md:w-[300px]"
+            value={params.search}
+            onSearch={(search) => setParams({ search })}
+          />
           
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -89,36 +106,59 @@ export default function Projects() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent>
-              <DropdownMenuItem onClick={() => setStatusFilter(null)}>
+              <DropdownMenuItem onClick={() => setParams({ status: undefined })}>
                 All Statuses
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("In Progress")}>
+              <DropdownMenuItem onClick={() => setParams({ status: "In Progress" })}>
                 In Progress
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("Completed")}>
+              <DropdownMenuItem onClick={() => setParams({ status: "Completed" })}>
                 Completed
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("Pending")}>
+              <DropdownMenuItem onClick={() => setParams({ status: "Pending" })}>
                 Pending
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={() => setStatusFilter("Delayed")}>
+              <DropdownMenuItem onClick={() => setParams({ status: "Delayed" })}>
                 Delayed
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          
+          <ExportMenu filename="projects" title="Projects" tables={exportTables} />
         </div>
       </div>
       
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={params.clientId || "all"}
+          onValueChange={(value) => setParams({ clientId: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Client" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Clients</SelectItem>
+            {clients.map(client => (
+              <SelectItem key={client.id} value={client.id}>
+                {client.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <ListDateRange label="Start date" from={params.from} to={params.to} onChange={setParams} />
+      </div>
+      
       <Card>
         <CardContent className="p-0">
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Project Name</TableHead>
+                <SortableTableHead label="Project Name" column="name" {...sortProps} />
                 <TableHead>Client</TableHead>
-                <TableHead>Location</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Progress</TableHead>
+                <SortableTableHead label="Location" column="location" {...sortProps} />
+                <SortableTableHead label="Status" column="status" {...sortProps} />
+                <SortableTableHead label="Progress" column="progress" {...sortProps} />
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -148,12 +188,20 @@ export default function Projects() {
               ) : (
                 <TableRow>
                   <TableCell colSpan={5} className="h-24 text-center">
-                    No projects found.
+                    {isPending ? "Loading projects..." : "No projects found."}
                   </TableCell>
                 </TableRow>
               )}
             </TableBody>
           </Table>
+          
+          <ListPagination
+            page={params.page}
+            pageSize={params.pageSize}
+            total={page?.total ?? 0}
+            onPageChange={(target) => setParams({ page: target })}
+            onPageSizeChange={(pageSize) => setParams({ pageSize })}
+          />
         </CardContent>
       </Card>
     </div>
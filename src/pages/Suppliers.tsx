@@ -1,7 +1,7 @@
 
 import { useState } from "react";
 import { Link } from "react-router-dom";
-import { useData } from "@/contexts/DataContext";
+import { useProjects, usePurchaseOrders, useSuppliers } from "@/hooks/use-data-queries";
 import { Card, CardContent } from "@/components/ui/card";
 import {
   Table,
@@ -13,9 +13,13 @@ import {
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Package, Search, Star } from "lucide-react";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportTable } from "@/lib/export";
 
 export default function Suppliers() {
-  const { suppliers, purchaseOrders, projects } = useData();
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
+  const { data: projects = [] } = useProjects();
   const [search, setSearch] = useState("");
   
   // Filter suppliers based on search
@@ -37,6 +41,23 @@ export default function Suppliers() {
     return projectIds.length;
   };
   
+  const exportTables = [
+    exportTable({
+      title: "Suppliers",
+      rows: filteredSuppliers,
+      columns: [
+        { header: "Supplier Name", value: supplier => supplier.name },
+        { header: "Country", value: supplier => supplier.country },
+        { header: "Contact Person", value: supplier => supplier.contactPerson },
+        { header: "Email", value: supplier => supplier.email },
+        { header: "Phone", value: supplier => supplier.phone },
+        { header: "Rating", value: supplier => supplier.rating },
+        { header: "On-Time Delivery (%)", value: supplier => supplier.onTimeDelivery },
+        { header: "Active Projects", value: supplier => getActiveProjectCount(supplier.id) },
+      ],
+    }),
+  ];
+  
   // Render stars for rating
   const renderRating = (rating: number) => {
     const stars = [];
@@ -61,15 +82,19 @@ export default function Suppliers() {
           Suppliers
         </h1>
         
-        <div className="relative">
-          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="search"
-            placeholder="Search suppliers..."
-            className="pl-8 w-[300px]"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-          />
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search suppliers..."
+              className="pl-8 w-[300px]"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          
+          <ExportMenu filename="suppliers" title="Suppliers" tables={exportTables} />
         </div>
       </div>
       
@@ -1,6 +1,7 @@
 
 import { useState } from "react";
-import { useData, Project, PurchaseOrder } from "@/contexts/DataContext";
+import { Project, PurchaseOrder } from "@/contexts/DataContext";
+import { useProjects, usePurchaseOrders } from "@/hooks/use-data-queries";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Select,
@@ -15,7 +16,8 @@ import { Badge } from "@/components/ui/badge";
 import { Calendar } from "lucide-react";
 
 export default function Timeline() {
-  const { projects, purchaseOrders } = useData();
+  const { data: projects = [] } = useProjects();
+  const { data: purchaseOrders = [] } = usePurchaseOrders();
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(projects.length > 0 ? projects[0].id : null);
   const [selectedPOId, setSelectedPOId] = useState<string | null>(null);
   
@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { PurchaseOrder, useData } from "@/contexts/DataContext";
+import { useCurrency } from "@/contexts/CurrencyContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, ClipboardCheck, X } from "lucide-react";
+import { formatCurrency } from "@/lib/currency";
+import {
+  APPROVAL_ACTION_LABELS,
+  approvalProgress,
+  approvalStatusOf,
+  canDecide,
+  pendingApprover,
+} from "@/lib/poApprovals";
+import { PurchaseOrderApprovals } from "@/components/admin/PurchaseOrderApprovals";
+import { PurchaseOrderDecision, PurchaseOrderDecisionAction } from "@/components/admin/PurchaseOrderDecision";
+
+type InboxView = "mine" | "submitted";
+
+// How many of the latest decisions the history shows
+const HISTORY_LIMIT = 50;
+
+const lastSubmittedAt = (po: PurchaseOrder) =>
+  [...(po.approvals || [])].reverse().find(decision => decision.action === "submitted")?.decidedAt || "";
+
+export default function AdminApprovals() {
+  const { user } = useAuth();
+  const { purchaseOrders, projects, suppliers } = useData();
+  const { poAmount, formatReporting } = useCurrency();
+  const [view, setView] = useState<InboxView>("mine");
+  const [deciding, setDeciding] = useState<{ po: PurchaseOrder; action: PurchaseOrderDecisionAction } | null>(null);
+  const [historyPO, setHistoryPO] = useState<PurchaseOrder | undefined>(undefined);
+
+  const getProjectName = (projectId: string) =>
+    projects.find(p => p.id === projectId)?.name || "Unknown Project";
+
+  const getSupplierName = (supplierId: string) =>
+    suppliers.find(s => s.id === supplierId)?.name || "Unknown Supplier";
+
+  // Oldest submissions first, since they've waited longest
+  const inbox = useMemo(() =>
+    purchaseOrders
+      .filter(po => approvalStatusOf(po) === "Submitted")
+      .filter(po => view === "submitted" || canDecide(user?.role, po, user?.id))
+      .sort((a, b) => lastSubmittedAt(a).localeCompare(lastSubmittedAt(b))),
+    [purchaseOrders, view, user?.role, user?.id]
+  );
+
+  // Every approval and rejection across all POs, newest first
+  const decisions = useMemo(() =>
+    purchaseOrders
+      .flatMap(po => (po.approvals || [])
+        .filter(decision => decision.action === "approved" || decision.action === "rejected")
+        .map(decision => ({ po, decision })))
+      .sort((a, b) => b.decision.decidedAt.localeCompare(a.decision.decidedAt))
+      .slice(0, HISTORY_LIMIT),
+    [purchaseOrders]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center">
+          <ClipboardCheck className="h-6 w-6 mr-2" />
+          Approvals
+        </h1>
+
+        <Select value={view} onValueChange={(value) => setView(value as InboxView)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Show" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mine">Awaiting My Approval</SelectItem>
+            <SelectItem value="submitted">All Submitted</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Purchase Orders Awaiting Approval</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Submitted</TableHead>
+                <TableHead>PO</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Waiting On</TableHead>
+                <TableHead className="text-right">Decision</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {inbox.length > 0 ? (
+                inbox.map(po => {
+                  const { chain, approved } = approvalProgress(po);
+                  const submittedAt = lastSubmittedAt(po);
+
+                  return (
+                    <TableRow key={po.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {submittedAt ? new Date(submittedAt).toLocaleString() : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <button
+                          type="button"
+                          className="hover:underline"
+                          onClick={() => setHistoryPO(po)}
+                          title="Approval history"
+                        >
+                          {po.poNumber}
+                        </button>
+                        {po.description && (
+                          <div className="text-xs text-muted-foreground truncate max-w-[200px]">{po.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{getProjectName(po.projectId)}</TableCell>
+                      <TableCell>{getSupplierName(po.supplierId)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        <div>{po.amount ? formatCurrency(po.amount, po.currency) : "-"}</div>
+                        <div className="text-xs text-muted-foreground">{formatReporting(poAmount(po))}</div>
+                      </TableCell>
+                      <TableCell>
+                        <span className="capitalize">{pendingApprover(po)}</span>
+                        <div className="text-xs text-muted-foreground">Step {approved + 1} of {chain.length}</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canDecide(user?.role, po, user?.id) && (
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" onClick={() => setDeciding({ po, action: "approve" })}>
+                              <Check className="mr-1 h-4 w-4" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDeciding({ po, action: "reject" })}
+                            >
+                              <X className="mr-1 h-4 w-4" />
+                              Reject
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    {view === "mine" ? "Nothing is waiting for your approval." : "No purchase orders are awaiting approval."}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Recent Decisions</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Decided</TableHead>
+                <TableHead>PO</TableHead>
+                <TableHead>Decision</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Comment</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {decisions.length > 0 ? (
+                decisions.map(({ po, decision }) => (
+                  <TableRow key={`${po.id}-${decision.decidedAt}`}>
+                    <TableCell className="whitespace-nowrap">{new Date(decision.decidedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <button type="button" className="hover:underline" onClick={() => setHistoryPO(po)}>
+                        {po.poNumber}
+                      </button>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={decision.action === "approved" ? "default" : "destructive"}>
+                        {APPROVAL_ACTION_LABELS[decision.action]}
+                      </Badge>
+                      {decision.approverRole && (
+                        <div className="text-xs text-muted-foreground mt-1 capitalize">as {decision.approverRole}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{decision.decidedBy || "-"}</TableCell>
+                    <TableCell className="max-w-md">{decision.comment || "-"}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No decisions yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderDecision
+        purchaseOrder={deciding?.po}
+        action={deciding?.action ?? "approve"}
+        onClose={() => setDeciding(null)}
+      />
+
+      <PurchaseOrderApprovals purchaseOrder={historyPO} onClose={() => setHistoryPO(undefined)} />
+    </div>
+  );
+}
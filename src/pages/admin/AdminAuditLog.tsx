@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { History, Search } from "lucide-react";
+import { toast } from "sonner";
+import { AuditLogTable } from "@/components/audit/AuditLogTable";
+import {
+  AUDIT_ENTITY_LABELS,
+  AuditAction,
+  AuditEntity,
+  AuditEntry,
+  fetchAuditLog,
+} from "@/integrations/supabase/auditLog";
+
+export default function AdminAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [entityFilter, setEntityFilter] = useState<AuditEntity | null>(null);
+  const [actionFilter, setActionFilter] = useState<AuditAction | null>(null);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Entity, action and date filters run in the query; text search runs locally
+  useEffect(() => {
+    const loadEntries = async () => {
+      setLoading(true);
+      try {
+        const data = await fetchAuditLog({
+          entity: entityFilter || undefined,
+          action: actionFilter || undefined,
+          from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+          to: toDate ? new Date(`${toDate}T23:59:59`).toISOString() : undefined,
+        });
+        setEntries(data);
+      } catch (error) {
+        console.error("Error loading audit log:", error);
+        toast.error("Failed to load audit log");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [entityFilter, actionFilter, fromDate, toDate]);
+
+  const filteredEntries = entries.filter(entry => {
+    if (search === "") return true;
+    const term = search.toLowerCase();
+    return (
+      (entry.actorEmail || "").toLowerCase().includes(term) ||
+      (entry.field || "").toLowerCase().includes(term) ||
+      entry.entityId.toLowerCase().includes(term) ||
+      JSON.stringify(entry.oldValue ?? "").toLowerCase().includes(term) ||
+      JSON.stringify(entry.newValue ?? "").toLowerCase().includes(term)
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center">
+          <History className="h-6 w-6 mr-2" />
+          Audit Log
+        </h1>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Search user, field, value..."
+              className="pl-8 w-[220px]"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          <Select
+            value={entityFilter || "all"}
+            onValueChange={(value) => setEntityFilter(value === "all" ? null : value as AuditEntity)}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Record type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Records</SelectItem>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntity[]).map(entity => (
+                <SelectItem key={entity} value={entity}>{AUDIT_ENTITY_LABELS[entity]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={actionFilter || "all"}
+            onValueChange={(value) => setActionFilter(value === "all" ? null : value as AuditAction)}
+          >
+            <SelectTrigger className="w-[130px]">
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              <SelectItem value="create">Created</SelectItem>
+              <SelectItem value="update">Updated</SelectItem>
+              <SelectItem value="delete">Deleted</SelectItem>
+              <SelectItem value="restore">Restored</SelectItem>
+              <SelectItem value="purge">Purged</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="date"
+            className="w-[150px]"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            aria-label="From date"
+          />
+          <Input
+            type="date"
+            className="w-[150px]"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            aria-label="To date"
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Recorded Changes</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">Loading audit log...</div>
+          ) : (
+            <AuditLogTable entries={filteredEntries} emptyMessage="No matching changes found." />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ClientForm } from "@/components/admin/ClientForm";
+import { DeleteWithDependentsDialog } from "@/components/admin/DeleteWithDependentsDialog";
 import {
   Dialog,
   DialogContent,
@@ -22,12 +23,17 @@ import {
 } from "@/components/ui/table";
 import { toast } from "sonner";
 import { Plus, Search, Pencil, Trash } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import type { DependentResolution } from "@/integrations/supabase/dependents";
 
 export default function AdminClients() {
   const { clients, deleteClient, projects } = useData();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
   const [isEditing, setIsEditing] = useState(false);
   const [selectedClientId, setSelectedClientId] = useState<string | null>(null);
+  const [deleteClientId, setDeleteClientId] = useState<string | null>(null);
   
   const filteredClients = clients.filter(client =>
     client.name.toLowerCase().includes(search.toLowerCase()) ||
@@ -36,18 +42,14 @@ export default function AdminClients() {
     client.location.toLowerCase().includes(search.toLowerCase())
   );
   
-  const handleDeleteClient = (clientId: string) => {
-    // Check if client has associated projects
-    const clientProjects = projects.filter(p => p.clientId === clientId);
+  const handleDeleteClient = async (resolution: DependentResolution) => {
+    if (!deleteClientId) return;
     
-    if (clientProjects.length > 0) {
-      toast.error("Cannot delete client with associated projects");
-      return;
-    }
-    
-    if (confirm("Are you sure you want to delete this client?")) {
-      deleteClient(clientId);
+    try {
+      await deleteClient(deleteClientId, resolution);
       toast.success("Client deleted successfully");
+    } catch (error) {
+      toast.error(isForbiddenError(error) ? error.message : "Failed to delete client");
     }
   };
   
@@ -73,25 +75,27 @@ export default function AdminClients() {
             />
           </div>
           
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Client
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[600px]">
-              <DialogHeader>
-                <DialogTitle>Add New Client</DialogTitle>
-              </DialogHeader>
-              <ClientForm 
-                onSuccess={() => {
-                  toast.success("Client created successfully");
-                  document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
-                }}
-              />
-            </DialogContent>
-          </Dialog>
+          {can("create", "client") && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Client
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[600px]">
+                <DialogHeader>
+                  <DialogTitle>Add New Client</DialogTitle>
+                </DialogHeader>
+                <ClientForm 
+                  onSuccess={() => {
+                    toast.success("Client created successfully");
+                    document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
       
@@ -122,37 +126,41 @@ export default function AdminClients() {
                     <TableCell>{getClientProjectCount(client.id)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="outline" 
-                              size="icon"
-                              onClick={() => setSelectedClientId(client.id)}
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="sm:max-w-[600px]">
-                            <DialogHeader>
-                              <DialogTitle>Edit Client</DialogTitle>
-                            </DialogHeader>
-                            <ClientForm 
-                              clientId={client.id}
-                              onSuccess={() => {
-                                toast.success("Client updated successfully");
-                                document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
-                              }}
-                            />
-                          </DialogContent>
-                        </Dialog>
+                        {can("update", "client") && (
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button 
+                                variant="outline" 
+                                size="icon"
+                                onClick={() => setSelectedClientId(client.id)}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="sm:max-w-[600px]">
+                              <DialogHeader>
+                                <DialogTitle>Edit Client</DialogTitle>
+                              </DialogHeader>
+                              <ClientForm 
+                                clientId={client.id}
+                                onSuccess={() => {
+                                  toast.success("Client updated successfully");
+                                  document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
+                                }}
+                              />
+                            </DialogContent>
+                          </Dialog>
+                        )}
                         
-                        <Button
-                          variant="destructive"
-                          size="icon"
-                          onClick={() => handleDeleteClient(client.id)}
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {can("delete", "client") && (
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => setDeleteClientId(client.id)}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -168,6 +176,13 @@ export default function AdminClients() {
           </Table>
         </CardContent>
       </Card>
+      
+      <DeleteWithDependentsDialog
+        entity="client"
+        recordId={deleteClientId}
+        onClose={() => setDeleteClientId(null)}
+        onConfirm={handleDeleteClient}
+      />
     </div>
   );
 }
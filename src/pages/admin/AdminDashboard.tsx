@@ -3,10 +3,19 @@ import { useState, useEffect } from "react";
 import { useData } from "@/contexts/DataContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { StatCard } from "@/components/dashboard/StatCard";
 import { Loader2, Database, File as FileIcon, Users as UsersIcon, Package as PackageIcon } from "lucide-react";
 import { toast } from "sonner";
 import { checkSupabaseConnection } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import { SCENARIO_PRESETS, ScenarioPreset } from "@/data/fixtures";
 
 export default function AdminDashboard() {
   const { 
@@ -20,6 +29,7 @@ export default function AdminDashboard() {
     loadFromSupabase,
     isLoading: dataLoading 
   } = useData();
+  const { can } = useAuth();
   
   const [isSyncing, setIsSyncing] = useState(false);
   const [isLoadingData, setIsLoadingData] = useState(false);
@@ -44,7 +54,7 @@ export default function AdminDashboard() {
       toast.success("Data synchronized successfully!");
     } catch (error) {
       console.error("Error syncing with Supabase:", error);
-      toast.error("Failed to sync with Supabase");
+      toast.error(isForbiddenError(error) ? error.message : "Failed to sync with Supabase");
     } finally {
       setIsSyncing(false);
     }
@@ -69,9 +79,9 @@ export default function AdminDashboard() {
     }
   };
   
-  const handleGenerateDummyData = () => {
-    generateDummyData();
-    toast.success("Demo data generated successfully!");
+  const handleGenerateDummyData = (preset: ScenarioPreset) => {
+    generateDummyData(preset);
+    toast.success(`${SCENARIO_PRESETS[preset].label} demo data generated successfully!`);
   };
   
   return (
@@ -80,13 +90,30 @@ export default function AdminDashboard() {
         <h1 className="text-2xl font-bold">Admin Dashboard</h1>
         
         <div className="flex items-center gap-2">
-          <Button 
-            variant="outline"
-            disabled={isLoadingData || isSyncing || dataLoading}
-            onClick={handleGenerateDummyData}
-          >
-            Generate Demo Data
-          </Button>
+          {can("create", "workspace") && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button 
+                  variant="outline"
+                  disabled={isLoadingData || isSyncing || dataLoading}
+                >
+                  Generate Demo Data
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72">
+                {(Object.keys(SCENARIO_PRESETS) as ScenarioPreset[]).map(preset => (
+                  <DropdownMenuItem
+                    key={preset}
+                    className="flex-col items-start"
+                    onClick={() => handleGenerateDummyData(preset)}
+                  >
+                    <span className="font-medium">{SCENARIO_PRESETS[preset].label}</span>
+                    <span className="text-xs text-muted-foreground">{SCENARIO_PRESETS[preset].description}</span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           
           <Button 
             variant="outline"
@@ -106,22 +133,24 @@ export default function AdminDashboard() {
             )}
           </Button>
           
-          <Button 
-            disabled={isSyncing || dataLoading || !isConnected} 
-            onClick={handleSyncWithSupabase}
-          >
-            {isSyncing ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Syncing...
-              </>
-            ) : (
-              <>
-                <Database className="mr-2 h-4 w-4" />
-                Sync with Supabase
-              </>
-            )}
-          </Button>
+          {can("create", "workspace") && (
+            <Button 
+              disabled={isSyncing || dataLoading || !isConnected} 
+              onClick={handleSyncWithSupabase}
+            >
+              {isSyncing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Syncing...
+                </>
+              ) : (
+                <>
+                  <Database className="mr-2 h-4 w-4" />
+                  Sync with Supabase
+                </>
+              )}
+            </Button>
+          )}
         </div>
       </div>
       
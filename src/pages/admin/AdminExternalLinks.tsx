@@ -21,11 +21,15 @@ import {
 } from "@/components/ui/table";
 import { toast } from "sonner";
 import { Plus, Search, Pencil, Trash, ExternalLink as ExternalLinkIcon } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
 import { ExternalLink } from "@/contexts/DataContext";
 import ExternalLinkForm from "@/components/admin/ExternalLinkForm";
+import { DocumentLink } from "@/components/documents/DocumentLink";
 
 export default function AdminExternalLinks() {
   const { externalLinks, projects, suppliers, deleteExternalLink } = useData();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
   const [typeFilter, setTypeFilter] = useState<string | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
@@ -42,10 +46,14 @@ export default function AdminExternalLinks() {
     return matchesSearch && matchesType;
   });
   
-  const handleDeleteLink = (linkId: string) => {
+  const handleDeleteLink = async (linkId: string) => {
     if (confirm("Are you sure you want to delete this external link?")) {
-      deleteExternalLink(linkId);
-      toast.success("External link deleted successfully");
+      try {
+        await deleteExternalLink(linkId);
+        toast.success("External link deleted successfully");
+      } catch (error) {
+        toast.error(isForbiddenError(error) ? error.message : "Failed to delete external link");
+      }
     }
   };
   
@@ -106,13 +114,16 @@ export default function AdminExternalLinks() {
               <SelectItem value="Report">Reports</SelectItem>
               <SelectItem value="Photo">Photos</SelectItem>
               <SelectItem value="Tracking">Tracking</SelectItem>
+              <SelectItem value="Document">Documents</SelectItem>
             </SelectContent>
           </Select>
           
-          <Button onClick={handleAddLink}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Link
-          </Button>
+          {can("create", "externalLink") && (
+            <Button onClick={handleAddLink}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Link
+            </Button>
+          )}
         </div>
       </div>
       
@@ -143,6 +154,7 @@ export default function AdminExternalLinks() {
                           link.type === "Report" ? "bg-blue-100 text-blue-800 dark:bg-blue-800/20 dark:text-blue-300" :
                           link.type === "Photo" ? "bg-green-100 text-green-800 dark:bg-green-800/20 dark:text-green-300" :
                           link.type === "Tracking" ? "bg-amber-100 text-amber-800 dark:bg-amber-800/20 dark:text-amber-300" :
+                          link.type === "Document" ? "bg-purple-100 text-purple-800 dark:bg-purple-800/20 dark:text-purple-300" :
                           "bg-gray-100 text-gray-800 dark:bg-gray-800/20 dark:text-gray-300"
                         }`}
                       >
@@ -152,33 +164,32 @@ export default function AdminExternalLinks() {
                     <TableCell>{getProjectName(link.projectId)}</TableCell>
                     <TableCell>{getSupplierName(link.supplierId)}</TableCell>
                     <TableCell className="max-w-[200px] truncate">
-                      <a 
-                        href={link.url} 
-                        target="_blank" 
-                        rel="noreferrer"
-                        className="text-primary hover:underline flex items-center"
-                      >
+                      <DocumentLink url={link.url} className="text-primary hover:underline flex items-center">
                         <span className="truncate">{link.url}</span>
                         <ExternalLinkIcon className="ml-1 h-3 w-3" />
-                      </a>
+                      </DocumentLink>
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        <Button 
-                          variant="outline" 
-                          size="icon"
-                          onClick={() => handleEditLink(link)}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
+                        {can("update", "externalLink") && (
+                          <Button 
+                            variant="outline" 
+                            size="icon"
+                            onClick={() => handleEditLink(link)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
                         
-                        <Button
-                          variant="destructive"
-                          size="icon"
-                          onClick={() => handleDeleteLink(link.id)}
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {can("delete", "externalLink") && (
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => handleDeleteLink(link.id)}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
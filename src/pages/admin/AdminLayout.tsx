@@ -3,19 +3,24 @@ import { useEffect } from "react";
 import { Outlet, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { AdminNav } from "@/components/admin/AdminNav";
+import { TwoFactorSettings } from "@/components/admin/TwoFactorSettings";
+import { DataLoadGate } from "@/components/layout/DataLoadGate";
+import { useScheduledSnapshots } from "@/hooks/use-scheduled-snapshots";
+import { homePathForRole } from "@/lib/roles";
 
 export default function AdminLayout() {
-  const { user, isAdmin, isLoading } = useAuth();
+  const { user, isStaff, isLoading, mfaEnrollmentRequired } = useAuth();
   const navigate = useNavigate();
+  useScheduledSnapshots();
   
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!isLoading && !user) {
       navigate("/admin/login");
-    } else if (!isLoading && user && !isAdmin) {
-      navigate("/");
+    } else if (!isLoading && user && !isStaff) {
+      navigate(homePathForRole(user.role));
     }
-  }, [user, isAdmin, isLoading, navigate]);
+  }, [user, isStaff, isLoading, navigate]);
   
   // Show loading state while checking auth
   if (isLoading) {
@@ -26,11 +31,25 @@ export default function AdminLayout() {
     );
   }
   
-  // Only render if authenticated and admin
-  if (!user || !isAdmin) {
+  // Only render if authenticated with a staff role
+  if (!user || !isStaff) {
     return null;
   }
   
+  // The 2FA policy covers this role, so nothing else opens until it's set up
+  if (mfaEnrollmentRequired) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-secondary/30">
+        <div className="w-full max-w-lg p-4 space-y-4 animate-fade-in">
+          <p className="text-sm text-muted-foreground text-center">
+            Your role requires two-factor authentication. Set it up to continue to the admin panel.
+          </p>
+          <TwoFactorSettings />
+        </div>
+      </div>
+    );
+  }
+  
   return (
     <div className="flex min-h-screen">
       {/* Sidebar */}
@@ -41,7 +60,9 @@ export default function AdminLayout() {
       {/* Main Content */}
       <div className="flex-1">
         <main className="p-6">
-          <Outlet />
+          <DataLoadGate>
+            <Outlet />
+          </DataLoadGate>
         </main>
       </div>
     </div>
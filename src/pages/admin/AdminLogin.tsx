@@ -11,23 +11,57 @@ import {
 } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, ArrowLeft } from "lucide-react";
+import { Settings, ArrowLeft, Building2, Factory, Mail, ShieldCheck } from "lucide-react";
 import { Link } from "react-router-dom";
 
-export default function AdminLogin() {
+type LoginVariant = "admin" | "portal" | "supplier";
+
+// The client and supplier portals sign in through the same form with their own wording
+const LOGIN_VARIANTS: Record<LoginVariant, { icon: typeof Settings; title: string; description: string; homePath: string }> = {
+  admin: {
+    icon: Settings,
+    title: "Admin Login",
+    description: "Sign in with your staff account to access the admin panel",
+    homePath: "/admin/dashboard",
+  },
+  portal: {
+    icon: Building2,
+    title: "Client Portal",
+    description: "Sign in to follow the progress of your projects",
+    homePath: "/portal",
+  },
+  supplier: {
+    icon: Factory,
+    title: "Supplier Portal",
+    description: "Sign in to update progress and shipments on your purchase orders",
+    homePath: "/supplier-portal",
+  },
+};
+
+interface AdminLoginProps {
+  variant?: LoginVariant;
+}
+
+export default function AdminLogin({ variant = "admin" }: AdminLoginProps) {
+  const isPortal = variant !== "admin";
+  const { icon: VariantIcon, title, description, homePath } = LOGIN_VARIANTS[variant];
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const [code, setCode] = useState("");
+  const [isRecoveryMode, setIsRecoveryMode] = useState(false);
+  const { login, sendMagicLink, mfaChallengePending, verifyMfaCode, signInWithRecoveryCode, cancelMfaChallenge } = useAuth();
   const { toast } = useToast();
   
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!password) {
+    if (!email || !password) {
       toast({
         title: "Validation Error",
-        description: "Please enter the password",
+        description: "Please enter your email and password",
         variant: "destructive",
       });
       return;
@@ -36,7 +70,7 @@ export default function AdminLogin() {
     setIsLoading(true);
     
     try {
-      await login("admin@asepsasia.com", password);
+      await login(email, password);
       // Successful login will be handled in the auth context (redirect)
     } catch (error) {
       // Error handling is in the auth context
@@ -45,6 +79,122 @@ export default function AdminLogin() {
     }
   };
   
+  // Portal users can skip the password and get an expiring link by email
+  const handleMagicLink = async () => {
+    if (!email) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter your email first",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setIsLoading(true);
+    
+    try {
+      await sendMagicLink(email, homePath);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    if (!code.trim()) return;
+    
+    setIsLoading(true);
+    
+    try {
+      if (isRecoveryMode) {
+        await signInWithRecoveryCode(code);
+      } else {
+        await verifyMfaCode(code);
+      }
+    } finally {
+      setCode("");
+      setIsLoading(false);
+    }
+  };
+  
+  const handleCancel = async () => {
+    setCode("");
+    setIsRecoveryMode(false);
+    await cancelMfaChallenge();
+  };
+  
+  if (mfaChallengePending) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-secondary/30">
+        <div className="w-full max-w-md p-4 animate-fade-in">
+          <Card className="border shadow-lg">
+            <CardHeader className="space-y-1 text-center">
+              <div className="flex justify-center mb-4">
+                <div className="h-12 w-12 rounded-full bg-primary flex items-center justify-center">
+                  <ShieldCheck className="h-6 w-6 text-primary-foreground" />
+                </div>
+              </div>
+              <CardTitle className="text-2xl">Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                {isRecoveryMode
+                  ? "Enter one of the recovery codes you saved when setting up 2FA"
+                  : "Enter the 6-digit code from your authenticator app"}
+              </CardDescription>
+            </CardHeader>
+            <form onSubmit={handleVerify}>
+              <CardContent className="flex justify-center">
+                {isRecoveryMode ? (
+                  <Input
+                    id="recovery-code"
+                    value={code}
+                    autoComplete="off"
+                    placeholder="xxxxx-xxxxx"
+                    onChange={(e) => setCode(e.target.value)}
+                    autoFocus
+                  />
+                ) : (
+                  <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                )}
+              </CardContent>
+              <CardFooter className="flex flex-col space-y-3">
+                <Button
+                  className="w-full"
+                  type="submit"
+                  disabled={isLoading || (!isRecoveryMode && code.length < 6)}
+                >
+                  {isLoading ? "Verifying..." : "Verify"}
+                </Button>
+                
+                <Button
+                  type="button"
+                  variant="link"
+                  onClick={() => {
+                    setCode("");
+                    setIsRecoveryMode(!isRecoveryMode);
+                  }}
+                >
+                  {isRecoveryMode ? "Use your authenticator app" : "Use a recovery code"}
+                </Button>
+                
+                <Button type="button" variant="outline" className="w-full" onClick={handleCancel}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back to Login
+                </Button>
+              </CardFooter>
+            </form>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+  
   return (
     <div className="min-h-screen flex items-center justify-center bg-secondary/30">
       <div className="w-full max-w-md p-4 animate-fade-in">
@@ -52,16 +202,26 @@ export default function AdminLogin() {
           <CardHeader className="space-y-1 text-center">
             <div className="flex justify-center mb-4">
               <div className="h-12 w-12 rounded-full bg-primary flex items-center justify-center">
-                <Settings className="h-6 w-6 text-primary-foreground" />
+                <VariantIcon className="h-6 w-6 text-primary-foreground" />
               </div>
             </div>
-            <CardTitle className="text-2xl">Admin Login</CardTitle>
-            <CardDescription>
-              Enter the password to access the admin panel
-            </CardDescription>
+            <CardTitle className="text-2xl">{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
           </CardHeader>
           <form onSubmit={handleSubmit}>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium" htmlFor="email">Email</label>
+                <Input
+                  id="email"
+                  type="email"
+                  autoComplete="username"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoFocus
+                />
+              </div>
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <label className="text-sm font-medium" htmlFor="password">Password</label>
@@ -70,9 +230,9 @@ export default function AdminLogin() {
                   id="password"
                   type="password"
                   value={password}
+                  autoComplete="current-password"
                   onChange={(e) => setPassword(e.target.value)}
                   required
-                  autoFocus
                 />
               </div>
             </CardContent>
@@ -81,12 +241,19 @@ export default function AdminLogin() {
                 {isLoading ? "Signing in..." : "Sign in"}
               </Button>
               
-              <Button asChild variant="outline" className="w-full">
-                <Link to="/" className="flex items-center justify-center">
-                  <ArrowLeft className="mr-2 h-4 w-4" />
-                  Back to Dashboard
-                </Link>
-              </Button>
+              {isPortal ? (
+                <Button type="button" variant="outline" className="w-full" onClick={handleMagicLink} disabled={isLoading}>
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email Me a Sign-in Link
+                </Button>
+              ) : (
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/" className="flex items-center justify-center">
+                    <ArrowLeft className="mr-2 h-4 w-4" />
+                    Back to Dashboard
+                  </Link>
+                </Button>
+              )}
             </CardFooter>
           </form>
         </Card>
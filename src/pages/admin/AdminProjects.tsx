@@ -20,26 +20,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
 import { ProjectForm } from "@/components/admin/ProjectForm";
+import { DeleteWithDependentsDialog } from "@/components/admin/DeleteWithDependentsDialog";
 import { File, Plus, Search, Pencil, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import type { DependentResolution } from "@/integrations/supabase/dependents";
 
 export default function AdminProjects() {
   const { projects, clients, deleteProject } = useData();
   const { toast } = useToast();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
   const [openDialog, setOpenDialog] = useState(false);
-  const [openDeleteAlert, setOpenDeleteAlert] = useState(false);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [deleteProjectId, setDeleteProjectId] = useState<string | null>(null);
   
@@ -78,32 +72,25 @@ export default function AdminProjects() {
     setOpenDialog(true);
   };
   
-  // Handle delete project
-  const handleDelete = (projectId: string) => {
-    setDeleteProjectId(projectId);
-    setOpenDeleteAlert(true);
-  };
-  
   // Confirm delete project
-  const confirmDelete = () => {
+  const confirmDelete = async (resolution: DependentResolution) => {
     if (deleteProjectId) {
-      deleteProject(deleteProjectId);
-      toast({
-        title: "Project deleted",
-        description: "The project has been deleted successfully",
-      });
-      setOpenDeleteAlert(false);
-      setDeleteProjectId(null);
+      try {
+        await deleteProject(deleteProjectId, resolution);
+        toast({
+          title: "Project deleted",
+          description: "The project has been moved to the trash",
+        });
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: isForbiddenError(error) ? error.message : "There was an error deleting the project",
+          variant: "destructive",
+        });
+      }
     }
   };
   
-  // Get project name for delete confirmation
-  const getDeleteProjectName = () => {
-    if (!deleteProjectId) return "";
-    const project = projects.find(p => p.id === deleteProjectId);
-    return project ? project.name : "";
-  };
-  
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -124,14 +111,16 @@ export default function AdminProjects() {
             />
           </div>
           
-          <Button
-            onClick={() => {
-              setEditingProjectId(null);
-              setOpenDialog(true);
-            }}
-          >
-            <Plus className="h-4 w-4 mr-2" /> Add Project
-          </Button>
+          {can("create", "project") && (
+            <Button
+              onClick={() => {
+                setEditingProjectId(null);
+                setOpenDialog(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" /> Add Project
+            </Button>
+          )}
         </div>
       </div>
       
@@ -168,20 +157,24 @@ export default function AdminProjects() {
                     <TableCell>{project.location}</TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleEdit(project.id)}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDelete(project.id)}
-                        >
-                          <Trash2 className="h-4 w-4 text-red-500" />
-                        </Button>
+                        {can("update", "project") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(project.id)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("delete", "project") && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDeleteProjectId(project.id)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -213,21 +206,12 @@ export default function AdminProjects() {
       </Dialog>
       
       {/* Delete Confirmation Dialog */}
-      <AlertDialog open={openDeleteAlert} onOpenChange={setOpenDeleteAlert}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This will permanently delete the project "{getDeleteProjectName()}".
-              This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <DeleteWithDependentsDialog
+        entity="project"
+        recordId={deleteProjectId}
+        onClose={() => setDeleteProjectId(null)}
+        onConfirm={confirmDelete}
+      />
     </div>
   );
 }
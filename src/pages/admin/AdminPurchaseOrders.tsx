@@ -1,9 +1,7 @@
 
 import { useState } from "react";
-import { useData } from "@/contexts/DataContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -20,30 +18,48 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { toast } from "sonner";
-import { Plus, Search, Pencil, Trash } from "lucide-react";
+import { FilePen, PackageCheck, Plus, Pencil, Send, Trash, Upload } from "lucide-react";
 import { format } from "date-fns";
 import PurchaseOrderForm from "@/components/admin/PurchaseOrderForm";
+import PurchaseOrderImport from "@/components/admin/PurchaseOrderImport";
+import { PurchaseOrderRevisions } from "@/components/admin/PurchaseOrderRevisions";
+import { ApprovalStatusBadge, PurchaseOrderApprovals } from "@/components/admin/PurchaseOrderApprovals";
+import { PurchaseOrderDecision } from "@/components/admin/PurchaseOrderDecision";
+import { PurchaseOrderDocumentButton } from "@/components/admin/PurchaseOrderDocumentButton";
+import { formatCurrency } from "@/lib/currency";
+import { FIRST_REVISION } from "@/lib/poRevisions";
+import { APPROVAL_STATUSES, approvalStatusOf, canSubmit, isApprovalError } from "@/lib/poApprovals";
+import { ExportMenu } from "@/components/export/ExportMenu";
+import { exportTable } from "@/lib/export";
 import { PurchaseOrder } from "@/contexts/DataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import { useProjects, usePurchaseOrderPage, useSuppliers } from "@/hooks/use-data-queries";
+import { useDeletePurchaseOrder, useIssuePurchaseOrder } from "@/hooks/use-data-mutations";
+import { useListParams } from "@/hooks/use-list-params";
+import { ListPagination } from "@/components/lists/ListPagination";
+import { ListSearchInput } from "@/components/lists/ListSearchInput";
+import { ListDateRange } from "@/components/lists/ListDateRange";
+import { SortableTableHead } from "@/components/lists/SortableTableHead";
 
 export default function AdminPurchaseOrders() {
-  const { purchaseOrders, suppliers, projects, deletePurchaseOrder } = useData();
-  const [search, setSearch] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: projects = [] } = useProjects();
+  const { mutateAsync: deletePurchaseOrder } = useDeletePurchaseOrder();
+  const { mutateAsync: issuePurchaseOrder } = useIssuePurchaseOrder();
+  const { can, canEditField } = useAuth();
+  const { params, setParams, sortProps } = useListParams({ sort: "issuedDate", direction: "desc" });
+  const { data: page, isPending } = usePurchaseOrderPage(params);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [selectedPO, setSelectedPO] = useState<PurchaseOrder | undefined>(undefined);
+  const [isAmending, setIsAmending] = useState(false);
+  const [historyPO, setHistoryPO] = useState<PurchaseOrder | undefined>(undefined);
+  const [approvalsPO, setApprovalsPO] = useState<PurchaseOrder | undefined>(undefined);
+  const [submittingPO, setSubmittingPO] = useState<PurchaseOrder | undefined>(undefined);
   
-  const filteredPOs = purchaseOrders.filter(po => {
-    const matchesSearch = 
-      search === "" ||
-      po.poNumber.toLowerCase().includes(search.toLowerCase()) ||
-      getSupplierName(po.supplierId).toLowerCase().includes(search.toLowerCase()) ||
-      getProjectName(po.projectId).toLowerCase().includes(search.toLowerCase()) ||
-      (po.description && po.description.toLowerCase().includes(search.toLowerCase()));
-    
-    const matchesStatus = statusFilter ? po.status === statusFilter : true;
-    
-    return matchesSearch && matchesStatus;
-  });
+  // Filtering, sorting and paging happen on the server; this is the current page
+  const pagePOs = page?.rows ?? [];
   
   const handleDeletePO = async (poId: string) => {
     if (confirm("Are you sure you want to delete this purchase order?")) {
@@ -52,24 +68,47 @@ export default function AdminPurchaseOrders() {
         toast.success("Purchase order deleted successfully");
       } catch (error) {
         console.error("Error deleting purchase order:", error);
-        toast.error("Failed to delete purchase order");
+        toast.error(isForbiddenError(error) ? error.message : "Failed to delete purchase order");
+      }
+    }
+  };
+  
+  // Only an approved PO can go out to its supplier
+  const handleIssuePO = async (po: PurchaseOrder) => {
+    if (confirm(`Issue ${po.poNumber} to the supplier?`)) {
+      try {
+        await issuePurchaseOrder(po.id);
+        toast.success("Purchase order issued");
+      } catch (error) {
+        console.error("Error issuing purchase order:", error);
+        toast.error(isForbiddenError(error) || isApprovalError(error) ? error.message : "Failed to issue purchase order");
       }
     }
   };
   
   const handleEditPO = (po: PurchaseOrder) => {
     setSelectedPO(po);
+    setIsAmending(false);
+    setIsFormOpen(true);
+  };
+  
+  // Changes to what was ordered become the PO's next revision
+  const handleAmendPO = (po: PurchaseOrder) => {
+    setSelectedPO(po);
+    setIsAmending(true);
     setIsFormOpen(true);
   };
   
   const handleAddPO = () => {
     setSelectedPO(undefined);
+    setIsAmending(false);
     setIsFormOpen(true);
   };
   
   const closeForm = () => {
     setIsFormOpen(false);
     setSelectedPO(undefined);
+    setIsAmending(false);
   };
   
   // Helper functions to get names
@@ -83,56 +122,143 @@ export default function AdminPurchaseOrders() {
     return project ? project.name : "Unknown Project";
   };
   
-  // Format currency
-  const formatCurrency = (amount: number | undefined): string => {
-    if (!amount) return "-";
-    return new Intl.NumberFormat('en-US', { 
-      style: 'currency', 
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
+  // Format currency in the PO's own currency
+  const formatAmount = (po: PurchaseOrder): string => {
+    if (!po.amount) return "-";
+    return formatCurrency(po.amount, po.currency);
   };
   
+  const exportTables = [
+    exportTable({
+      title: "Purchase Orders",
+      rows: pagePOs,
+      columns: [
+        { header: "PO Number", value: po => po.poNumber },
+        { header: "Revision", value: po => po.revision || FIRST_REVISION },
+        { header: "Supplier", value: po => getSupplierName(po.supplierId) },
+        { header: "Project", value: po => getProjectName(po.projectId) },
+        { header: "Value", value: po => po.amount },
+        { header: "Currency", value: po => po.currency },
+        { header: "Issue Date", value: po => po.issuedDate },
+        { header: "Deadline", value: po => po.deadline },
+        { header: "Status", value: po => po.status },
+        { header: "Approval", value: po => approvalStatusOf(po) },
+        { header: "Progress (%)", value: po => po.progress },
+        { header: "Parts", value: po => po.parts.length },
+      ],
+    }),
+    exportTable({
+      title: "Parts",
+      rows: pagePOs.flatMap(po => po.parts.map(part => ({ po, part }))),
+      columns: [
+        { header: "PO Number", value: ({ po }) => po.poNumber },
+        { header: "Part Name", value: ({ part }) => part.name },
+        { header: "Quantity", value: ({ part }) => part.quantity },
+        { header: "Status", value: ({ part }) => part.status },
+        { header: "Progress (%)", value: ({ part }) => part.progress },
+      ],
+    }),
+  ];
+  
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
         <h1 className="text-2xl font-bold">Manage Purchase Orders</h1>
         
         <div className="flex items-center gap-2">
-          <div className="relative">
-            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-            <Input
-              type="search"
-              placeholder="Search POs..."
-              className="pl-8 w-[200px]"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-            />
-          </div>
+          <ExportMenu filename="purchase-orders" title="Purchase Orders" tables={exportTables} />
           
-          <Select
-            value={statusFilter || "all"}
-            onValueChange={(value) => setStatusFilter(value === "all" ? null : value)}
-          >
-            <SelectTrigger className="w-[130px]">
-              <SelectValue placeholder="Status" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Status</SelectItem>
-              <SelectItem value="Active">Active</SelectItem>
-              <SelectItem value="Completed">Completed</SelectItem>
-              <SelectItem value="Delayed">Delayed</SelectItem>
-            </SelectContent>
-          </Select>
+          {can("create", "purchaseOrder") && (
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+          )}
           
-          <Button onClick={handleAddPO}>
-            <Plus className="mr-2 h-4 w-4" />
-            New PO
-          </Button>
+          {can("create", "purchaseOrder") && (
+            <Button onClick={handleAddPO}>
+              <Plus className="mr-2 h-4 w-4" />
+              New PO
+            </Button>
+          )}
         </div>
       </div>
       
+      <div className="flex flex-wrap items-center gap-2">
+        <ListSearchInput
+          placeholder="Search PO number, description..."
+          className="w-[240px]"
+          value={params.search}
+          onSearch={(search) => setParams({ search })}
+        />
+        
+        <Select
+          value={params.status || "all"}
+          onValueChange={(value) => setParams({ status: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-[130px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            <SelectItem value="Active">Active</SelectItem>
+            <SelectItem value="Completed">Completed</SelectItem>
+            <SelectItem value="Delayed">Delayed</SelectItem>
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.approval || "all"}
+          onValueChange={(value) => setParams({ approval: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Approval" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Approvals</SelectItem>
+            {APPROVAL_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.supplierId || "all"}
+          onValueChange={(value) => setParams({ supplierId: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Suppliers</SelectItem>
+            {suppliers.map(supplier => (
+              <SelectItem key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.projectId || "all"}
+          onValueChange={(value) => setParams({ projectId: value === "all" ? undefined : value })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <ListDateRange label="Issue date" from={params.from} to={params.to} onChange={setParams} />
+      </div>
+      
       <Card>
         <CardHeader className="pb-2">
           <CardTitle>Purchase Order List</CardTitle>
@@ -141,23 +267,34 @@ export default function AdminPurchaseOrders() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>PO Number</TableHead>
+                <SortableTableHead label="PO Number" column="poNumber" {...sortProps} />
                 <TableHead>Supplier</TableHead>
                 <TableHead>Project</TableHead>
-                <TableHead>Value</TableHead>
-                <TableHead>Issue Date</TableHead>
-                <TableHead>Status</TableHead>
+                <SortableTableHead label="Value" column="amount" {...sortProps} />
+                <SortableTableHead label="Issue Date" column="issuedDate" {...sortProps} />
+                <SortableTableHead label="Status" column="status" {...sortProps} />
+                <SortableTableHead label="Approval" column="approvalStatus" {...sortProps} />
                 <TableHead>Parts</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredPOs.length > 0 ? (
-                filteredPOs.map((po) => (
+              {pagePOs.length > 0 ? (
+                pagePOs.map((po) => (
                   <TableRow key={po.id}>
                     <TableCell className="font-medium">
                       <div className="flex flex-col">
-                        <span>{po.poNumber}</span>
+                        <span className="flex items-center gap-2">
+                          {po.poNumber}
+                          <button
+                            type="button"
+                            className="text-xs font-normal text-muted-foreground hover:underline"
+                            onClick={() => setHistoryPO(po)}
+                            title="Revision history"
+                          >
+                            Rev {po.revision || FIRST_REVISION}
+                          </button>
+                        </span>
                         {po.description && (
                           <span className="text-xs text-muted-foreground truncate max-w-[200px]">
                             {po.description}
@@ -167,7 +304,7 @@ export default function AdminPurchaseOrders() {
                     </TableCell>
                     <TableCell>{getSupplierName(po.supplierId)}</TableCell>
                     <TableCell>{getProjectName(po.projectId)}</TableCell>
-                    <TableCell>{formatCurrency(po.amount)}</TableCell>
+                    <TableCell>{formatAmount(po)}</TableCell>
                     <TableCell>{format(new Date(po.issuedDate), "MMM d, yyyy")}</TableCell>
                     <TableCell>
                       <span 
@@ -181,45 +318,120 @@ export default function AdminPurchaseOrders() {
                         {po.status}
                       </span>
                     </TableCell>
+                    <TableCell>
+                      <button type="button" onClick={() => setApprovalsPO(po)} title="Approval history">
+                        <ApprovalStatusBadge purchaseOrder={po} />
+                      </button>
+                    </TableCell>
                     <TableCell>{po.parts.length}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        <Button 
-                          variant="outline" 
-                          size="icon"
-                          onClick={() => handleEditPO(po)}
-                        >
-                          <Pencil className="h-4 w-4" />
-                        </Button>
+                        {canEditField("purchaseOrder", "approvalStatus") && canSubmit(po) && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setSubmittingPO(po)}
+                            title="Submit for approval"
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                        )}
+                        
+                        {canEditField("purchaseOrder", "approvalStatus") && approvalStatusOf(po) === "Approved" && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleIssuePO(po)}
+                            title="Issue to supplier"
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        
+                        {can("create", "externalLink") && (
+                          <PurchaseOrderDocumentButton purchaseOrder={po} />
+                        )}
+                        
+                        {can("update", "purchaseOrder") && (
+                          <Button 
+                            variant="outline" 
+                            size="icon"
+                            onClick={() => handleEditPO(po)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
                         
-                        <Button
-                          variant="destructive"
-                          size="icon"
-                          onClick={() => handleDeletePO(po.id)}
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {canEditField("purchaseOrder", "revision") && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => handleAmendPO(po)}
+                            title="Amend"
+                          >
+                            <FilePen className="h-4 w-4" />
+                          </Button>
+                        )}
+                        
+                        {can("delete", "purchaseOrder") && (
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => handleDeletePO(po.id)}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={8} className="h-24 text-center">
-                    No purchase orders found.
+                  <TableCell colSpan={9} className="h-24 text-center">
+                    {isPending ? "Loading purchase orders..." : "No purchase orders found."}
                   </TableCell>
                 </TableRow>
               )}
             </TableBody>
           </Table>
+          
+          <ListPagination
+            page={params.page}
+            pageSize={params.pageSize}
+            total={page?.total ?? 0}
+            onPageChange={(target) => setParams({ page: target })}
+            onPageSizeChange={(pageSize) => setParams({ pageSize })}
+          />
         </CardContent>
       </Card>
       
-      <PurchaseOrderForm 
-        open={isFormOpen}
-        onClose={closeForm}
-        purchaseOrder={selectedPO}
+      {/* The forms read the full dataset, so they're only mounted while open */}
+      {isFormOpen && (
+        <PurchaseOrderForm 
+          open={isFormOpen}
+          onClose={closeForm}
+          purchaseOrder={selectedPO}
+          amend={isAmending}
+        />
+      )}
+      
+      <PurchaseOrderRevisions purchaseOrder={historyPO} onClose={() => setHistoryPO(undefined)} />
+      
+      <PurchaseOrderApprovals purchaseOrder={approvalsPO} onClose={() => setApprovalsPO(undefined)} />
+      
+      <PurchaseOrderDecision
+        purchaseOrder={submittingPO}
+        action="submit"
+        onClose={() => setSubmittingPO(undefined)}
       />
+      
+      {isImportOpen && (
+        <PurchaseOrderImport
+          open={isImportOpen}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
     </div>
   );
 }
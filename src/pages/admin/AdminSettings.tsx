@@ -11,11 +11,18 @@ import { Separator } from "@/components/ui/separator";
 import { Moon, Sun, Database, RefreshCw, Save, Trash } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
+import { CurrencySettings } from "@/components/admin/CurrencySettings";
+import { DocumentSettings } from "@/components/admin/DocumentSettings";
+import { TwoFactorSettings } from "@/components/admin/TwoFactorSettings";
+import { TwoFactorPolicySettings } from "@/components/admin/TwoFactorPolicySettings";
+import { BackupSettings } from "@/components/admin/BackupSettings";
+import { ApprovalRulesSettings } from "@/components/admin/ApprovalRulesSettings";
+import { snapshotBeforeDestructiveAction } from "@/integrations/supabase/backup";
 
 export default function AdminSettings() {
   const { theme, toggleTheme } = useTheme();
   const { syncWithSupabase, clearAllData } = useData();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
   const [isAdvancedMode, setIsAdvancedMode] = useState(false);
   const [isEmailNotifications, setIsEmailNotifications] = useState(true);
   const [apiEndpoint, setApiEndpoint] = useState("https://api.asepsasia.com");
@@ -35,13 +42,22 @@ export default function AdminSettings() {
   };
   
   const handleClearAllData = async () => {
-    if (confirm("Are you sure you want to clear all data? This action cannot be undone.")) {
+    if (confirm("Are you sure you want to permanently delete every record, including the trash? A snapshot is saved first and can be restored under Backup & Restore.")) {
       setIsClearing(true);
+      try {
+        await snapshotBeforeDestructiveAction(user, "Clear all data");
+      } catch (error) {
+        console.error("Error taking snapshot:", error);
+        toast.error("Couldn't save a snapshot first, so nothing was cleared");
+        setIsClearing(false);
+        return;
+      }
       try {
         await clearAllData();
         toast.success("All data has been cleared");
       } catch (error) {
-        toast.error("Failed to clear data");
+        console.error("Error clearing data:", error);
+        toast.error("Failed to clear data. Nothing was deleted.");
       } finally {
         setIsClearing(false);
       }
@@ -137,6 +153,19 @@ export default function AdminSettings() {
         </Card>
       </div>
       
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <TwoFactorSettings />
+        <TwoFactorPolicySettings />
+      </div>
+      
+      <CurrencySettings />
+      
+      <ApprovalRulesSettings />
+      
+      <DocumentSettings />
+      
+      <BackupSettings />
+      
       <Card>
         <CardHeader>
           <CardTitle>Data Management</CardTitle>
@@ -172,7 +201,7 @@ export default function AdminSettings() {
             <div className="space-y-2">
               <h3 className="text-lg font-medium">Clear Data</h3>
               <p className="text-sm text-muted-foreground">
-                Clear all application data. This action cannot be undone.
+                Permanently delete every record in the database, including the trash. The audit log and settings are kept. A snapshot is saved first.
               </p>
               <Button
                 variant="destructive"
@@ -1,16 +1,33 @@
 
 import React, { useState } from 'react';
-import { useData } from '@/contexts/DataContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Plus, FileEdit, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from "sonner";
+import { useAuth } from '@/contexts/AuthContext';
+import { isForbiddenError } from '@/lib/permissions';
+import ShipmentForm from '@/components/admin/ShipmentForm';
+import { ExportMenu } from '@/components/export/ExportMenu';
+import { exportTable } from '@/lib/export';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useProjects, useShipmentPage, useSuppliers } from '@/hooks/use-data-queries';
+import { useDeleteShipment } from '@/hooks/use-data-mutations';
+import { useListParams } from '@/hooks/use-list-params';
+import { ListPagination } from '@/components/lists/ListPagination';
+import { ListSearchInput } from '@/components/lists/ListSearchInput';
+import { ListDateRange } from '@/components/lists/ListDateRange';
+import { SortableTableHead } from '@/components/lists/SortableTableHead';
 
 export default function AdminShipments() {
-  const { shipments, suppliers, projects } = useData();
+  const { data: suppliers = [] } = useSuppliers();
+  const { data: projects = [] } = useProjects();
+  const { mutateAsync: deleteShipment } = useDeleteShipment();
+  const { can } = useAuth();
+  const { params, setParams, sortProps } = useListParams({ sort: 'etaDate', direction: 'desc' });
+  const { data: page, isPending } = useShipmentPage(params);
+  const shipments = page?.rows ?? [];
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingShipment, setEditingShipment] = useState<null | string>(null);
 
@@ -24,10 +41,15 @@ export default function AdminShipments() {
     setIsFormOpen(true);
   };
 
-  const handleDeleteShipment = (id: string) => {
-    toast.error("Delete functionality not yet implemented", {
-      description: "This feature will be available soon."
-    });
+  const handleDeleteShipment = async (id: string) => {
+    if (confirm("Are you sure you want to delete this shipment?")) {
+      try {
+        await deleteShipment(id);
+        toast.success("Shipment deleted successfully");
+      } catch (error) {
+        toast.error(isForbiddenError(error) ? error.message : "Failed to delete shipment");
+      }
+    }
   };
   
   const getProjectName = (projectId: string) => {
@@ -40,13 +62,112 @@ export default function AdminShipments() {
     return supplier ? supplier.name : 'Unknown Supplier';
   };
 
+  const exportTables = [
+    exportTable({
+      title: 'Shipments',
+      rows: shipments,
+      columns: [
+        { header: 'Type', value: shipment => shipment.type },
+        { header: 'Project', value: shipment => getProjectName(shipment.projectId) },
+        { header: 'Supplier', value: shipment => getSupplierName(shipment.supplierId) },
+        { header: 'Shipped Date', value: shipment => shipment.shippedDate },
+        { header: 'ETD', value: shipment => shipment.etdDate },
+        { header: 'ETA', value: shipment => shipment.etaDate },
+        { header: 'Tracking Number', value: shipment => shipment.trackingNumber },
+        { header: 'Container Number', value: shipment => shipment.containerNumber },
+        { header: 'Status', value: shipment => shipment.status },
+      ],
+    }),
+  ];
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold">Shipments</h1>
-        <Button onClick={handleOpenNewForm}>
-          <Plus className="mr-2 h-4 w-4" /> Add Shipment
-        </Button>
+        <div className="flex items-center gap-2">
+          <ExportMenu filename="shipments" title="Shipments" tables={exportTables} />
+          {can("create", "shipment") && (
+            <Button onClick={handleOpenNewForm}>
+              <Plus className="mr-2 h-4 w-4" /> Add Shipment
+            </Button>
+          )}
+        </div>
+      </div>
+      
+      <div className="flex flex-wrap items-center gap-2">
+        <ListSearchInput
+          placeholder="Search tracking, container, notes..."
+          className="w-[260px]"
+          value={params.search}
+          onSearch={(search) => setParams({ search })}
+        />
+        
+        <Select
+          value={params.status || 'all'}
+          onValueChange={(value) => setParams({ status: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            <SelectItem value="In Transit">In Transit</SelectItem>
+            <SelectItem value="Delivered">Delivered</SelectItem>
+            <SelectItem value="Delayed">Delayed</SelectItem>
+            <SelectItem value="Cancelled">Cancelled</SelectItem>
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.type || 'all'}
+          onValueChange={(value) => setParams({ type: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[130px]">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            <SelectItem value="Sea">Sea</SelectItem>
+            <SelectItem value="Air">Air</SelectItem>
+            <SelectItem value="Land">Land</SelectItem>
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.supplierId || 'all'}
+          onValueChange={(value) => setParams({ supplierId: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Supplier" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Suppliers</SelectItem>
+            {suppliers.map(supplier => (
+              <SelectItem key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <Select
+          value={params.projectId || 'all'}
+          onValueChange={(value) => setParams({ projectId: value === 'all' ? undefined : value })}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Projects</SelectItem>
+            {projects.map(project => (
+              <SelectItem key={project.id} value={project.id}>
+                {project.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        
+        <ListDateRange label="ETA" from={params.from} to={params.to} onChange={setParams} />
       </div>
       
       <Card>
@@ -57,18 +178,18 @@ export default function AdminShipments() {
         <CardContent>
           {shipments.length === 0 ? (
             <div className="text-center py-6 text-muted-foreground">
-              No shipments found. Add a shipment to get started.
+              {isPending ? 'Loading shipments...' : 'No shipments found.'}
             </div>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead>Type</TableHead>
+                  <SortableTableHead label="Type" column="type" {...sortProps} />
                   <TableHead>Project</TableHead>
                   <TableHead>Supplier</TableHead>
-                  <TableHead>Shipped Date</TableHead>
-                  <TableHead>ETA</TableHead>
-                  <TableHead>Status</TableHead>
+                  <SortableTableHead label="Shipped Date" column="shippedDate" {...sortProps} />
+                  <SortableTableHead label="ETA" column="etaDate" {...sortProps} />
+                  <SortableTableHead label="Status" column="status" {...sortProps} />
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -83,12 +204,16 @@ export default function AdminShipments() {
                     <TableCell>{shipment.status}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
-                        <Button variant="ghost" size="icon" onClick={() => handleOpenEditForm(shipment.id)}>
-                          <FileEdit className="h-4 w-4" />
-                        </Button>
-                        <Button variant="ghost" size="icon" onClick={() => handleDeleteShipment(shipment.id)}>
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {can("update", "shipment") && (
+                          <Button variant="ghost" size="icon" onClick={() => handleOpenEditForm(shipment.id)}>
+                            <FileEdit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {can("delete", "shipment") && (
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteShipment(shipment.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -97,18 +222,23 @@ export default function AdminShipments() {
             </Table>
           )}
         </CardContent>
+        <ListPagination
+          page={params.page}
+          pageSize={params.pageSize}
+          total={page?.total ?? 0}
+          onPageChange={(target) => setParams({ page: target })}
+          onPageSizeChange={(pageSize) => setParams({ pageSize })}
+        />
       </Card>
       
-      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-        <DialogContent className="max-w-3xl">
-          <DialogHeader>
-            <DialogTitle>{editingShipment ? 'Edit Shipment' : 'Add New Shipment'}</DialogTitle>
-          </DialogHeader>
-          <div className="py-4">
-            <p className="text-center text-muted-foreground">Shipment form will be implemented soon.</p>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* The form reads the full dataset, so it's only mounted while open */}
+      {isFormOpen && (
+        <ShipmentForm
+          open={isFormOpen}
+          onClose={() => setIsFormOpen(false)}
+          shipmentId={editingShipment || undefined}
+        />
+      )}
     </div>
   );
 }
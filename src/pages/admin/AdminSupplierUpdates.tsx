@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { PurchaseOrder, useData } from "@/contexts/DataContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Check, Inbox, X } from "lucide-react";
+import { toast } from "sonner";
+import { isForbiddenError, PermissionAction, PermissionEntity } from "@/lib/permissions";
+import { DocumentLink } from "@/components/documents/DocumentLink";
+import {
+  SUPPLIER_UPDATE_LABELS,
+  SupplierUpdate,
+  SupplierUpdateKind,
+  SupplierUpdateStatus,
+  applyPartProgress,
+  describeSupplierUpdate,
+  fetchSupplierUpdates,
+  isOwnSupplierDocument,
+  reopenSupplierUpdate,
+  reviewSupplierUpdate,
+} from "@/integrations/supabase/supplierUpdates";
+
+// Approving a request goes through the normal mutation, so the reviewer needs
+// the same permission they'd need to make the change by hand
+const REQUIRED_PERMISSION: Record<SupplierUpdateKind, [PermissionAction, PermissionEntity]> = {
+  partProgress: ["update", "purchaseOrder"],
+  shipment: ["create", "shipment"],
+  document: ["create", "externalLink"],
+};
+
+export default function AdminSupplierUpdates() {
+  const { user, can } = useAuth();
+  const { suppliers, purchaseOrders, updatePurchaseOrder, addShipment, addExternalLink } = useData();
+  const [updates, setUpdates] = useState<SupplierUpdate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<SupplierUpdateStatus | null>("pending");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadUpdates = useCallback(async () => {
+    setLoading(true);
+    try {
+      setUpdates(await fetchSupplierUpdates({ status: statusFilter || undefined }));
+    } catch (error) {
+      console.error("Error loading supplier updates:", error);
+      toast.error("Failed to load supplier updates");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadUpdates();
+  }, [loadUpdates]);
+
+  const getSupplierName = (supplierId: string) =>
+    suppliers.find(s => s.id === supplierId)?.name || "Unknown Supplier";
+
+  // The PO a request is for, as long as it is still with the supplier who sent it
+  const requestedPurchaseOrder = (update: SupplierUpdate) => {
+    const po = purchaseOrders.find(item => item.id === update.poId);
+    if (!po) throw new Error("The purchase order no longer exists");
+    if (po.supplierId !== update.supplierId) throw new Error("The purchase order is no longer with this supplier");
+    if (update.payload.kind === "document" && !isOwnSupplierDocument(update)) {
+      throw new Error("The document isn't one this supplier uploaded");
+    }
+    return po;
+  };
+
+  // Which records a request touches comes from its row and its PO, never from
+  // the payload the supplier wrote
+  const applyUpdate = async (update: SupplierUpdate, po: PurchaseOrder) => {
+    switch (update.payload.kind) {
+      case "partProgress":
+        await updatePurchaseOrder(po.id, { parts: applyPartProgress(po.parts, update.payload.parts) });
+        break;
+      case "shipment": {
+        const { shipment } = update.payload;
+        await addShipment({
+          ...shipment,
+          projectId: po.projectId,
+          supplierId: update.supplierId,
+          poId: po.id,
+          partId: po.parts.some(part => part.id === shipment.partId) ? shipment.partId : undefined,
+        });
+        break;
+      }
+      case "document":
+        await addExternalLink({
+          title: update.payload.title,
+          url: update.payload.path,
+          type: update.payload.type,
+          date: new Date().toISOString().substring(0, 10),
+          supplierId: update.supplierId,
+          projectId: po.projectId,
+          poId: po.id,
+        });
+        break;
+    }
+  };
+
+  const handleApprove = async (update: SupplierUpdate) => {
+    if (!user) return;
+
+    setReviewingId(update.id);
+    try {
+      const po = requestedPurchaseOrder(update);
+      // Claimed before it is applied, so two reviewers can't both apply it
+      await reviewSupplierUpdate(update.id, "approved", user);
+      try {
+        await applyUpdate(update, po);
+      } catch (error) {
+        await reopenSupplierUpdate(update.id).catch(reopenError =>
+          console.error("Error returning supplier update to the queue:", reopenError)
+        );
+        throw error;
+      }
+      toast.success("Update approved and applied");
+      await loadUpdates();
+    } catch (error) {
+      console.error("Error approving supplier update:", error);
+      toast.error(isForbiddenError(error) ? error.message : "Failed to approve update");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleReject = async (update: SupplierUpdate) => {
+    if (!user) return;
+
+    const note = prompt("Reason for rejecting (shown to the supplier):");
+    if (note === null) return;
+
+    setReviewingId(update.id);
+    try {
+      await reviewSupplierUpdate(update.id, "rejected", user, note);
+      toast.success("Update rejected");
+      await loadUpdates();
+    } catch (error) {
+      console.error("Error rejecting supplier update:", error);
+      toast.error("Failed to reject update");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center">
+          <Inbox className="h-6 w-6 mr-2" />
+          Supplier Updates
+        </h1>
+
+        <Select
+          value={statusFilter || "all"}
+          onValueChange={(value) => setStatusFilter(value === "all" ? null : value as SupplierUpdateStatus)}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Awaiting Approval</SelectItem>
+            <SelectItem value="approved">Approved</SelectItem>
+            <SelectItem value="rejected">Rejected</SelectItem>
+            <SelectItem value="all">All Updates</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Submitted by Suppliers</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">Loading supplier updates...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>PO</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Review</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {updates.length > 0 ? (
+                  updates.map(update => {
+                    const [action, entity] = REQUIRED_PERMISSION[update.payload.kind];
+
+                    return (
+                      <TableRow key={update.id}>
+                        <TableCell className="whitespace-nowrap">
+                          <div>{new Date(update.submittedAt).toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground">{update.submittedBy}</div>
+                        </TableCell>
+                        <TableCell>{getSupplierName(update.supplierId)}</TableCell>
+                        <TableCell>
+                          {purchaseOrders.find(po => po.id === update.poId)?.poNumber || "Unknown PO"}
+                        </TableCell>
+                        <TableCell>{SUPPLIER_UPDATE_LABELS[update.payload.kind]}</TableCell>
+                        <TableCell className="max-w-md">
+                          {update.payload.kind === "document" && isOwnSupplierDocument(update) ? (
+                            <DocumentLink url={update.payload.path} className="text-primary hover:underline">
+                              {update.payload.title}
+                            </DocumentLink>
+                          ) : (
+                            describeSupplierUpdate(update.payload)
+                          )}
+                          {update.reviewNote && (
+                            <div className="text-xs text-muted-foreground">Note: {update.reviewNote}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {update.status === "pending" ? (
+                            can(action, entity) && (
+                              <div className="flex justify-end gap-2">
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleApprove(update)}
+                                  disabled={reviewingId === update.id}
+                                >
+                                  <Check className="mr-1 h-4 w-4" />
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleReject(update)}
+                                  disabled={reviewingId === update.id}
+                                >
+                                  <X className="mr-1 h-4 w-4" />
+                                  Reject
+                                </Button>
+                              </div>
+                            )
+                          ) : (
+                            <div>
+                              <Badge variant={update.status === "approved" ? "default" : "destructive"}>
+                                {update.status}
+                              </Badge>
+                              {update.reviewedBy && (
+                                <div className="text-xs text-muted-foreground mt-1">{update.reviewedBy}</div>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="h-24 text-center">
+                      No supplier updates found.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { SupplierForm } from "@/components/admin/SupplierForm";
+import { DeleteWithDependentsDialog } from "@/components/admin/DeleteWithDependentsDialog";
 import {
   Dialog,
   DialogContent,
@@ -22,10 +23,15 @@ import {
 } from "@/components/ui/table";
 import { toast } from "sonner";
 import { Plus, Search, Pencil, Trash } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { isForbiddenError } from "@/lib/permissions";
+import type { DependentResolution } from "@/integrations/supabase/dependents";
 
 export default function AdminSuppliers() {
   const { suppliers, deleteSupplier, purchaseOrders } = useData();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
+  const [deleteSupplierId, setDeleteSupplierId] = useState<string | null>(null);
   
   const filteredSuppliers = suppliers.filter(supplier =>
     supplier.name.toLowerCase().includes(search.toLowerCase()) ||
@@ -34,18 +40,14 @@ export default function AdminSuppliers() {
     supplier.country.toLowerCase().includes(search.toLowerCase())
   );
   
-  const handleDeleteSupplier = (supplierId: string) => {
-    // Check if supplier has associated purchase orders
-    const supplierPOs = purchaseOrders.filter(po => po.supplierId === supplierId);
+  const handleDeleteSupplier = async (resolution: DependentResolution) => {
+    if (!deleteSupplierId) return;
     
-    if (supplierPOs.length > 0) {
-      toast.error("Cannot delete supplier with associated purchase orders");
-      return;
-    }
-    
-    if (confirm("Are you sure you want to delete this supplier?")) {
-      deleteSupplier(supplierId);
+    try {
+      await deleteSupplier(deleteSupplierId, resolution);
       toast.success("Supplier deleted successfully");
+    } catch (error) {
+      toast.error(isForbiddenError(error) ? error.message : "Failed to delete supplier");
     }
   };
   
@@ -71,25 +73,27 @@ export default function AdminSuppliers() {
             />
           </div>
           
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Supplier
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[600px]">
-              <DialogHeader>
-                <DialogTitle>Add New Supplier</DialogTitle>
-              </DialogHeader>
-              <SupplierForm 
-                onSuccess={() => {
-                  toast.success("Supplier created successfully");
-                  document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
-                }}
-              />
-            </DialogContent>
-          </Dialog>
+          {can("create", "supplier") && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Supplier
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[600px]">
+                <DialogHeader>
+                  <DialogTitle>Add New Supplier</DialogTitle>
+                </DialogHeader>
+                <SupplierForm 
+                  onSuccess={() => {
+                    toast.success("Supplier created successfully");
+                    document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
       
@@ -120,36 +124,40 @@ export default function AdminSuppliers() {
                     <TableCell>{getSupplierPOCount(supplier.id)}</TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
-                        <Dialog>
-                          <DialogTrigger asChild>
-                            <Button 
-                              variant="outline" 
-                              size="icon"
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                          </DialogTrigger>
-                          <DialogContent className="sm:max-w-[600px]">
-                            <DialogHeader>
-                              <DialogTitle>Edit Supplier</DialogTitle>
-                            </DialogHeader>
-                            <SupplierForm 
-                              supplierId={supplier.id}
-                              onSuccess={() => {
-                                toast.success("Supplier updated successfully");
-                                document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
-                              }}
-                            />
-                          </DialogContent>
-                        </Dialog>
+                        {can("update", "supplier") && (
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Button 
+                                variant="outline" 
+                                size="icon"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            </DialogTrigger>
+                            <DialogContent className="sm:max-w-[600px]">
+                              <DialogHeader>
+                                <DialogTitle>Edit Supplier</DialogTitle>
+                              </DialogHeader>
+                              <SupplierForm 
+                                supplierId={supplier.id}
+                                onSuccess={() => {
+                                  toast.success("Supplier updated successfully");
+                                  document.querySelector<HTMLButtonElement>("[data-state='open'] button[aria-label='Close']")?.click();
+                                }}
+                              />
+                            </DialogContent>
+                          </Dialog>
+                        )}
                         
-                        <Button
-                          variant="destructive"
-                          size="icon"
-                          onClick={() => handleDeleteSupplier(supplier.id)}
-                        >
-                          <Trash className="h-4 w-4" />
-                        </Button>
+                        {can("delete", "supplier") && (
+                          <Button
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => setDeleteSupplierId(supplier.id)}
+                          >
+                            <Trash className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -165,6 +173,13 @@ export default function AdminSuppliers() {
           </Table>
         </CardContent>
       </Card>
+      
+      <DeleteWithDependentsDialog
+        entity="supplier"
+        recordId={deleteSupplierId}
+        onClose={() => setDeleteSupplierId(null)}
+        onConfirm={handleDeleteSupplier}
+      />
     </div>
   );
 }
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDataStatus } from "@/contexts/DataContext";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { AUDIT_ENTITY_LABELS } from "@/integrations/supabase/auditLog";
+import { snapshotBeforeDestructiveAction } from "@/integrations/supabase/backup";
+import {
+  TRASH_TABLES,
+  TrashEntity,
+  TrashItem,
+  fetchTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+} from "@/integrations/supabase/trash";
+
+const itemKey = (item: TrashItem) => `${item.entity}:${item.id}`;
+
+export default function AdminTrash() {
+  const { user, can } = useAuth();
+  const { loadFromSupabase } = useDataStatus();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [entityFilter, setEntityFilter] = useState<TrashEntity | null>(null);
+  const [workingKey, setWorkingKey] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      setItems(await fetchTrash());
+    } catch (error) {
+      console.error("Error loading trash:", error);
+      toast.error("Failed to load the trash");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const visibleItems = items.filter(item => !entityFilter || item.entity === entityFilter);
+
+  const handleRestore = async (item: TrashItem) => {
+    setWorkingKey(itemKey(item));
+    try {
+      await restoreFromTrash(item);
+      // Bring the restored rows back into every open view without waiting for realtime
+      await loadFromSupabase();
+      toast.success(`${AUDIT_ENTITY_LABELS[item.entity]} restored`);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error restoring from trash:", error);
+      toast.error("Failed to restore");
+    } finally {
+      setWorkingKey(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    const related = item.dependents > 0 ? ` and ${item.dependents} related record${item.dependents === 1 ? "" : "s"}` : "";
+    if (!confirm(`Permanently delete "${item.label}"${related}? This cannot be undone.`)) return;
+
+    setWorkingKey(itemKey(item));
+    try {
+      await snapshotBeforeDestructiveAction(user, `Permanently delete ${item.label}`);
+    } catch (error) {
+      console.error("Error taking snapshot:", error);
+      toast.error("Couldn't save a snapshot first, so nothing was deleted");
+      setWorkingKey(null);
+      return;
+    }
+    try {
+      await purgeFromTrash(item);
+      toast.success(`${AUDIT_ENTITY_LABELS[item.entity]} permanently deleted`);
+      await loadTrash();
+    } catch (error) {
+      console.error("Error purging from trash:", error);
+      toast.error("Failed to delete permanently. Other records may still refer to it.");
+    } finally {
+      setWorkingKey(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center">
+          <Trash2 className="h-6 w-6 mr-2" />
+          Trash
+        </h1>
+
+        <Select
+          value={entityFilter || "all"}
+          onValueChange={(value) => setEntityFilter(value === "all" ? null : value as TrashEntity)}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Types</SelectItem>
+            {(Object.keys(TRASH_TABLES) as TrashEntity[]).map(entity => (
+              <SelectItem key={entity} value={entity}>
+                {AUDIT_ENTITY_LABELS[entity]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Deleted Records</CardTitle>
+          <CardDescription>
+            Restoring a record also restores everything that was deleted along with it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="text-center py-6 text-muted-foreground">Loading trash...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Deleted With It</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.length > 0 ? (
+                  visibleItems.map(item => (
+                    <TableRow key={itemKey(item)}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(item.deletedAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>{AUDIT_ENTITY_LABELS[item.entity]}</TableCell>
+                      <TableCell className="font-medium">{item.label}</TableCell>
+                      <TableCell>
+                        {item.dependents > 0
+                          ? `${item.dependents} related record${item.dependents === 1 ? "" : "s"}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          {can("delete", item.entity) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={workingKey === itemKey(item)}
+                              onClick={() => handleRestore(item)}
+                            >
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Restore
+                            </Button>
+                          )}
+                          {can("purge", item.entity) && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              disabled={workingKey === itemKey(item)}
+                              onClick={() => handlePurge(item)}
+                            >
+                              <X className="mr-1 h-4 w-4" />
+                              Delete Forever
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      The trash is empty.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
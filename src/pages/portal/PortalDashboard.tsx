@@ -0,0 +1,99 @@
+import { Link } from "react-router-dom";
+import { useData } from "@/contexts/DataContext";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { ShipmentEtaTable } from "@/components/portal/ShipmentEtaTable";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { File, Ship, Truck } from "lucide-react";
+import { rollupPurchaseOrders, upcomingShipments } from "@/lib/clientScope";
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "In Progress":
+      return "bg-blue-500";
+    case "Completed":
+      return "bg-green-500";
+    case "Pending":
+      return "bg-amber-500";
+    case "Delayed":
+      return "bg-red-500";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+export default function PortalDashboard() {
+  // Already scoped to the signed-in client by DataContext
+  const { projects, purchaseOrders, shipments } = useData();
+
+  const activeProjects = projects.filter(p => p.status === "In Progress").length;
+  const averageProgress = projects.length
+    ? Math.round(projects.reduce((sum, p) => sum + p.progress, 0) / projects.length)
+    : 0;
+  const inTransit = upcomingShipments(shipments);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Your Projects</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <StatCard title="Active Projects" value={activeProjects} icon={<File className="h-6 w-6" />} />
+        <StatCard title="Overall Progress" value={`${averageProgress}%`} icon={<Truck className="h-6 w-6" />} />
+        <StatCard title="Shipments on the Way" value={inTransit.length} icon={<Ship className="h-6 w-6" />} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {projects.length > 0 ? (
+          projects.map(project => {
+            const rollup = rollupPurchaseOrders(purchaseOrders.filter(po => po.projectId === project.id));
+
+            return (
+              <Link key={project.id} to={`/portal/projects/${project.id}`}>
+                <Card className="card-hover h-full">
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-lg">{project.name}</CardTitle>
+                      <Badge className={getStatusColor(project.status)}>{project.status}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{project.location}</p>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span>Progress</span>
+                        <span>{project.progress}%</span>
+                      </div>
+                      <Progress value={project.progress} className="h-2" />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {rollup.completed} of {rollup.total} purchase orders complete
+                      {rollup.delayed > 0 && `, ${rollup.delayed} delayed`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Due {new Date(project.endDate).toLocaleDateString()}
+                    </p>
+                  </CardContent>
+                </Card>
+              </Link>
+            );
+          })
+        ) : (
+          <p className="text-muted-foreground">No projects to show yet.</p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium flex items-center">
+            <Ship className="h-5 w-5 mr-2 text-primary" />
+            Upcoming Deliveries
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ShipmentEtaTable shipments={inTransit} projects={projects} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
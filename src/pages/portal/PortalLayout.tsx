@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { Link, Outlet, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useData } from "@/contexts/DataContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { Button } from "@/components/ui/button";
+import { LogOut, Moon, Sun } from "lucide-react";
+import { homePathForRole } from "@/lib/roles";
+import { DataLoadGate } from "@/components/layout/DataLoadGate";
+
+export default function PortalLayout() {
+  const { user, isClient, isLoading, logout } = useAuth();
+  const { clients, loading } = useData();
+  const { theme, toggleTheme } = useTheme();
+  const navigate = useNavigate();
+
+  // Only client users belong here; staff are sent to their own home page
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/portal/login");
+    } else if (!isLoading && user && !isClient) {
+      navigate(homePathForRole(user.role));
+    }
+  }, [user, isClient, isLoading, navigate]);
+
+  if (isLoading || loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user || !isClient) {
+    return null;
+  }
+
+  // The data is already scoped, so the only client left is the user's own
+  const client = clients[0];
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="h-[60px] border-b border-border bg-card flex items-center justify-between px-4 sticky top-0 z-10">
+        <Link to="/portal" className="flex flex-col">
+          <span className="font-semibold">ASEPS Asia Client Portal</span>
+          {client && <span className="text-xs text-muted-foreground">{client.name}</span>}
+        </Link>
+
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+            {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+          </Button>
+          <Button variant="ghost" onClick={logout}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 md:p-6 animate-fade-in">
+        {user.clientId ? (
+          <DataLoadGate>
+            <Outlet />
+          </DataLoadGate>
+        ) : (
+          <div className="text-center py-16 text-muted-foreground">
+            Your account isn't linked to a client yet. Please contact your ASEPS Asia project manager.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
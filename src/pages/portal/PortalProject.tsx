@@ -0,0 +1,160 @@
+import { Link, useParams } from "react-router-dom";
+import { useData } from "@/contexts/DataContext";
+import { ShipmentEtaTable } from "@/components/portal/ShipmentEtaTable";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Calendar, File, MapPin, Ship } from "lucide-react";
+import { rollupPurchaseOrders } from "@/lib/clientScope";
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "In Progress":
+    case "Active":
+      return "bg-blue-500";
+    case "Completed":
+      return "bg-green-500";
+    case "Pending":
+      return "bg-amber-500";
+    case "Delayed":
+      return "bg-red-500";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+export default function PortalProject() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { projects, purchaseOrders, shipments } = useData();
+
+  // Projects outside the client's scope simply aren't in the dataset
+  const project = projects.find(p => p.id === projectId);
+
+  if (!project) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <p className="text-muted-foreground">Project not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/portal">Back to Projects</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const projectPOs = purchaseOrders.filter(po => po.projectId === project.id);
+  const projectShipments = shipments.filter(s => s.projectId === project.id);
+  const rollup = rollupPurchaseOrders(projectPOs);
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/portal">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Projects
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-2xl">{project.name}</CardTitle>
+            <Badge className={getStatusColor(project.status)}>{project.status}</Badge>
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center">
+              <MapPin className="h-4 w-4 mr-1" />
+              {project.location}
+            </span>
+            <span className="flex items-center">
+              <Calendar className="h-4 w-4 mr-1" />
+              {new Date(project.startDate).toLocaleDateString()} – {new Date(project.endDate).toLocaleDateString()}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {project.description && <p className="text-sm">{project.description}</p>}
+          <div>
+            <div className="flex justify-between text-sm mb-1">
+              <span>Overall Progress</span>
+              <span>{project.progress}%</span>
+            </div>
+            <Progress value={project.progress} className="h-2" />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {rollup.completed} of {rollup.total} purchase orders complete
+            {rollup.delayed > 0 && `, ${rollup.delayed} delayed`}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium flex items-center">
+            <File className="h-5 w-5 mr-2 text-primary" />
+            Purchase Orders
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead>Parts</TableHead>
+                <TableHead className="w-[200px]">Progress</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {projectPOs.length > 0 ? (
+                projectPOs.map(po => (
+                  <TableRow key={po.id}>
+                    <TableCell className="font-medium">{po.poNumber}</TableCell>
+                    <TableCell>
+                      <Badge className={getStatusColor(po.status)}>{po.status}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(po.deadline).toLocaleDateString()}</TableCell>
+                    <TableCell>{po.parts.length}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Progress value={po.progress || 0} className="h-2" />
+                        <span className="text-xs w-10 text-right">{po.progress || 0}%</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    No purchase orders yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium flex items-center">
+            <Ship className="h-5 w-5 mr-2 text-primary" />
+            Shipments
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ShipmentEtaTable shipments={projectShipments} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
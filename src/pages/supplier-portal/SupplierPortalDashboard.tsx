@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useData } from "@/contexts/DataContext";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Calendar, Clock, Ship } from "lucide-react";
+import { SupplierUpdate, fetchSupplierUpdates } from "@/integrations/supabase/supplierUpdates";
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case "Active":
+      return "bg-blue-500";
+    case "Completed":
+      return "bg-green-500";
+    case "Delayed":
+      return "bg-red-500";
+    default:
+      return "bg-gray-500";
+  }
+};
+
+export default function SupplierPortalDashboard() {
+  const { user } = useAuth();
+  // Already scoped to the signed-in supplier by DataContext
+  const { projects, purchaseOrders, shipments } = useData();
+  const [pendingUpdates, setPendingUpdates] = useState<SupplierUpdate[]>([]);
+
+  const supplierId = user?.supplierId;
+
+  const loadPendingUpdates = useCallback(async () => {
+    if (!supplierId) return;
+
+    try {
+      setPendingUpdates(await fetchSupplierUpdates({ supplierId, status: "pending" }));
+    } catch (error) {
+      console.error("Error loading submitted updates:", error);
+    }
+  }, [supplierId]);
+
+  useEffect(() => {
+    loadPendingUpdates();
+  }, [loadPendingUpdates]);
+
+  const getProjectName = (projectId: string) =>
+    projects.find(p => p.id === projectId)?.name || "Unknown Project";
+
+  const openOrders = purchaseOrders.filter(po => po.status !== "Completed");
+  const inTransit = shipments.filter(s => s.status !== "Delivered");
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold">Your Purchase Orders</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <StatCard title="Open Orders" value={openOrders.length} icon={<Calendar className="h-6 w-6" />} />
+        <StatCard title="Awaiting Approval" value={pendingUpdates.length} icon={<Clock className="h-6 w-6" />} />
+        <StatCard title="Shipments in Transit" value={inTransit.length} icon={<Ship className="h-6 w-6" />} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium">Purchase Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>PO Number</TableHead>
+                <TableHead>Project</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Deadline</TableHead>
+                <TableHead className="w-[200px]">Progress</TableHead>
+                <TableHead>Pending</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchaseOrders.length > 0 ? (
+                purchaseOrders.map(po => {
+                  const pending = pendingUpdates.filter(update => update.poId === po.id).length;
+
+                  return (
+                    <TableRow key={po.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/supplier-portal/orders/${po.id}`} className="text-primary hover:underline">
+                          {po.poNumber}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{getProjectName(po.projectId)}</TableCell>
+                      <TableCell>
+                        <Badge className={getStatusColor(po.status)}>{po.status}</Badge>
+                      </TableCell>
+                      <TableCell>{new Date(po.deadline).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Progress value={po.progress || 0} className="h-2" />
+                          <span className="text-xs w-10 text-right">{po.progress || 0}%</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {pending > 0 && <Badge variant="outline">{pending} awaiting approval</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No purchase orders yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect } from "react";
+import { Link, Outlet, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useData } from "@/contexts/DataContext";
+import { useTheme } from "@/contexts/ThemeContext";
+import { Button } from "@/components/ui/button";
+import { LogOut, Moon, Sun } from "lucide-react";
+import { homePathForRole } from "@/lib/roles";
+import { DataLoadGate } from "@/components/layout/DataLoadGate";
+
+export default function SupplierPortalLayout() {
+  const { user, isSupplier, isLoading, logout } = useAuth();
+  const { suppliers, loading } = useData();
+  const { theme, toggleTheme } = useTheme();
+  const navigate = useNavigate();
+
+  // Only supplier users belong here; everyone else goes to their own home page
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate("/supplier-portal/login");
+    } else if (!isLoading && user && !isSupplier) {
+      navigate(homePathForRole(user.role));
+    }
+  }, [user, isSupplier, isLoading, navigate]);
+
+  if (isLoading || loading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="animate-pulse text-primary">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user || !isSupplier) {
+    return null;
+  }
+
+  // The data is already scoped, so the only supplier left is the user's own
+  const supplier = suppliers[0];
+
+  return (
+    <div className="min-h-screen bg-secondary/30">
+      <header className="h-[60px] border-b border-border bg-card flex items-center justify-between px-4 sticky top-0 z-10">
+        <Link to="/supplier-portal" className="flex flex-col">
+          <span className="font-semibold">ASEPS Asia Supplier Portal</span>
+          {supplier && <span className="text-xs text-muted-foreground">{supplier.name}</span>}
+        </Link>
+
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" onClick={toggleTheme} aria-label="Toggle theme">
+            {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+          </Button>
+          <Button variant="ghost" onClick={logout}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out
+          </Button>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-4 md:p-6 animate-fade-in">
+        {user.supplierId ? (
+          <DataLoadGate>
+            <Outlet />
+          </DataLoadGate>
+        ) : (
+          <div className="text-center py-16 text-muted-foreground">
+            Your account isn't linked to a supplier yet. Please contact ASEPS Asia procurement.
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { useData } from "@/contexts/DataContext";
+import { ShipmentEtaTable } from "@/components/portal/ShipmentEtaTable";
+import { PartProgressUpdate } from "@/components/supplier-portal/PartProgressUpdate";
+import { ShipmentRequestForm } from "@/components/supplier-portal/ShipmentRequestForm";
+import { DocumentUploadForm } from "@/components/supplier-portal/DocumentUploadForm";
+import { SupplierUpdateList } from "@/components/supplier-portal/SupplierUpdateList";
+import { DocumentLink } from "@/components/documents/DocumentLink";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Clock, ExternalLink as ExternalLinkIcon, FileUp, Package, Plus, Ship } from "lucide-react";
+import { SupplierUpdate, fetchSupplierUpdates } from "@/integrations/supabase/supplierUpdates";
+
+export default function SupplierPortalOrder() {
+  const { poId } = useParams<{ poId: string }>();
+  const { user } = useAuth();
+  const { projects, purchaseOrders, shipments, externalLinks } = useData();
+  const [updates, setUpdates] = useState<SupplierUpdate[]>([]);
+  const [isShipmentFormOpen, setIsShipmentFormOpen] = useState(false);
+  const [isDocumentFormOpen, setIsDocumentFormOpen] = useState(false);
+
+  const supplierId = user?.supplierId;
+
+  const loadUpdates = useCallback(async () => {
+    if (!supplierId || !poId) return;
+
+    try {
+      const supplierUpdates = await fetchSupplierUpdates({ supplierId });
+      setUpdates(supplierUpdates.filter(update => update.poId === poId));
+    } catch (error) {
+      console.error("Error loading submitted updates:", error);
+    }
+  }, [supplierId, poId]);
+
+  useEffect(() => {
+    loadUpdates();
+  }, [loadUpdates]);
+
+  // Other suppliers' orders aren't in the scoped dataset
+  const po = purchaseOrders.find(item => item.id === poId);
+
+  if (!po) {
+    return (
+      <div className="text-center py-16 space-y-4">
+        <p className="text-muted-foreground">Purchase order not found.</p>
+        <Button variant="outline" asChild>
+          <Link to="/supplier-portal">Back to Orders</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const project = projects.find(p => p.id === po.projectId);
+  const poShipments = shipments.filter(s => s.poId === po.id);
+  const poLinks = externalLinks.filter(link => link.poId === po.id);
+  const hasPendingProgress = updates.some(update => update.status === "pending" && update.payload.kind === "partProgress");
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/supplier-portal">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Orders
+        </Link>
+      </Button>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <CardTitle className="text-2xl">{po.poNumber}</CardTitle>
+              <p className="text-sm text-muted-foreground">{project?.name || "Unknown Project"}</p>
+            </div>
+            <Badge>{po.status}</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm">
+            Issued {new Date(po.issuedDate).toLocaleDateString()}, due {new Date(po.deadline).toLocaleDateString()}
+          </p>
+          <div className="flex justify-between text-sm">
+            <span>Progress</span>
+            <span>{po.progress || 0}%</span>
+          </div>
+          <Progress value={po.progress || 0} className="h-2" />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium flex items-center">
+            <Package className="h-5 w-5 mr-2 text-primary" />
+            Part Progress
+            {hasPendingProgress && (
+              <Badge variant="outline" className="ml-2">
+                <Clock className="mr-1 h-3 w-3" />
+                Update awaiting approval
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PartProgressUpdate key={po.id} purchaseOrder={po} onSubmitted={loadUpdates} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg font-medium flex items-center">
+            <Ship className="h-5 w-5 mr-2 text-primary" />
+            Shipments
+          </CardTitle>
+          <Button size="sm" onClick={() => setIsShipmentFormOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Shipment
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <ShipmentEtaTable shipments={poShipments} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg font-medium flex items-center">
+            <FileUp className="h-5 w-5 mr-2 text-primary" />
+            Documents
+          </CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setIsDocumentFormOpen(true)}>
+            <FileUp className="mr-2 h-4 w-4" />
+            Upload
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {poLinks.length > 0 ? (
+            <ul className="space-y-2">
+              {poLinks.map(link => (
+                <li key={link.id}>
+                  <DocumentLink url={link.url} className="text-primary hover:underline flex items-center">
+                    <ExternalLinkIcon className="h-4 w-4 mr-2" />
+                    {link.title}
+                  </DocumentLink>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No documents yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg font-medium">Submitted Updates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SupplierUpdateList updates={updates} />
+        </CardContent>
+      </Card>
+
+      <ShipmentRequestForm
+        key={`shipment-${po.id}`}
+        open={isShipmentFormOpen}
+        onClose={() => setIsShipmentFormOpen(false)}
+        purchaseOrder={po}
+        onSubmitted={loadUpdates}
+      />
+      <DocumentUploadForm
+        open={isDocumentFormOpen}
+        onClose={() => setIsDocumentFormOpen(false)}
+        purchaseOrder={po}
+        onSubmitted={loadUpdates}
+      />
+    </div>
+  );
+}
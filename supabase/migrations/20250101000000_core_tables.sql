@@ -0,0 +1,195 @@
+-- The seven workspace tables the app reads and writes. Column names and
+-- nullability match src/integrations/supabase/types.ts, which is regenerated
+-- from this schema with `npm run db:types`.
+--
+-- Every table carries deleted_at: deleting moves a row to the trash, and the
+-- app filters trashed rows out of every query.
+
+create extension if not exists pgcrypto;
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create table public.clients (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_person text,
+  email text,
+  phone text,
+  location text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+create table public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  contact_person text,
+  email text,
+  phone text,
+  country text,
+  location text,
+  rating numeric(2, 1) check (rating between 0 and 5),
+  on_time_delivery numeric(5, 2) check (on_time_delivery between 0 and 100),
+  positive_comments text[] default '{}',
+  negative_comments text[] default '{}',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+create table public.projects (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  client_id uuid constraint fk_projects_clients references public.clients (id),
+  location text,
+  status text default 'Pending',
+  progress integer default 0 check (progress between 0 and 100),
+  start_date date not null,
+  end_date date not null,
+  project_manager text,
+  description text,
+  budget numeric(14, 2),
+  -- [{ "name": "Steel", "amount": 120000 }, ...]
+  budget_categories jsonb,
+  search_vector tsvector generated always as (
+    to_tsvector('english', coalesce(name, '') || ' ' || coalesce(location, '') || ' ' || coalesce(description, ''))
+  ) stored,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz,
+  check (end_date >= start_date)
+);
+
+create table public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  po_number text not null,
+  project_id uuid references public.projects (id),
+  supplier_id uuid references public.suppliers (id),
+  status text default 'Active',
+  issued_date date not null,
+  deadline date not null,
+  progress integer default 0 check (progress between 0 and 100),
+  amount numeric(14, 2),
+  currency text default 'USD',
+  cost_category text,
+  description text,
+  search_vector tsvector generated always as (
+    to_tsvector('english', coalesce(po_number, '') || ' ' || coalesce(description, ''))
+  ) stored,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+create table public.parts (
+  id uuid primary key default gen_random_uuid(),
+  po_id uuid references public.purchase_orders (id),
+  name text not null,
+  quantity integer not null check (quantity > 0),
+  status text default 'Pending',
+  progress integer default 0 check (progress between 0 and 100),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+create table public.external_links (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,
+  url text not null,
+  type text,
+  date date not null,
+  supplier_id uuid references public.suppliers (id),
+  project_id uuid references public.projects (id),
+  po_id uuid references public.purchase_orders (id),
+  search_vector tsvector generated always as (to_tsvector('english', coalesce(title, ''))) stored,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+create table public.shipments (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  project_id uuid references public.projects (id),
+  supplier_id uuid references public.suppliers (id),
+  po_id uuid references public.purchase_orders (id),
+  -- Editing a PO replaces its parts, so a shipment outlives the part it named
+  part_id uuid references public.parts (id) on delete set null,
+  shipped_date date not null,
+  etd_date date not null,
+  eta_date date not null,
+  tracking_number text,
+  container_number text,
+  container_size text,
+  container_type text,
+  status text default 'In Transit',
+  notes text,
+  search_vector tsvector generated always as (
+    to_tsvector('english', coalesce(tracking_number, '') || ' ' || coalesce(container_number, '') || ' ' || coalesce(notes, ''))
+  ) stored,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  deleted_at timestamptz
+);
+
+-- Foreign keys the list pages and dependency checks filter on
+create index projects_client_id_idx on public.projects (client_id);
+create index purchase_orders_project_id_idx on public.purchase_orders (project_id);
+create index purchase_orders_supplier_id_idx on public.purchase_orders (supplier_id);
+create index parts_po_id_idx on public.parts (po_id);
+create index external_links_supplier_id_idx on public.external_links (supplier_id);
+create index external_links_project_id_idx on public.external_links (project_id);
+create index external_links_po_id_idx on public.external_links (po_id);
+create index shipments_project_id_idx on public.shipments (project_id);
+create index shipments_supplier_id_idx on public.shipments (supplier_id);
+create index shipments_po_id_idx on public.shipments (po_id);
+
+-- The server-side list search (websearch_to_tsquery on search_vector)
+create index projects_search_vector_idx on public.projects using gin (search_vector);
+create index purchase_orders_search_vector_idx on public.purchase_orders using gin (search_vector);
+create index external_links_search_vector_idx on public.external_links using gin (search_vector);
+create index shipments_search_vector_idx on public.shipments using gin (search_vector);
+
+-- The trash page only ever looks at deleted rows
+create index clients_deleted_at_idx on public.clients (deleted_at) where deleted_at is not null;
+create index suppliers_deleted_at_idx on public.suppliers (deleted_at) where deleted_at is not null;
+create index projects_deleted_at_idx on public.projects (deleted_at) where deleted_at is not null;
+create index purchase_orders_deleted_at_idx on public.purchase_orders (deleted_at) where deleted_at is not null;
+create index parts_deleted_at_idx on public.parts (deleted_at) where deleted_at is not null;
+create index external_links_deleted_at_idx on public.external_links (deleted_at) where deleted_at is not null;
+create index shipments_deleted_at_idx on public.shipments (deleted_at) where deleted_at is not null;
+
+create trigger clients_set_updated_at before update on public.clients
+  for each row execute function public.set_updated_at();
+create trigger suppliers_set_updated_at before update on public.suppliers
+  for each row execute function public.set_updated_at();
+create trigger projects_set_updated_at before update on public.projects
+  for each row execute function public.set_updated_at();
+create trigger purchase_orders_set_updated_at before update on public.purchase_orders
+  for each row execute function public.set_updated_at();
+create trigger parts_set_updated_at before update on public.parts
+  for each row execute function public.set_updated_at();
+create trigger external_links_set_updated_at before update on public.external_links
+  for each row execute function public.set_updated_at();
+create trigger shipments_set_updated_at before update on public.shipments
+  for each row execute function public.set_updated_at();
+
+-- DataContext applies inserts, updates and deletes from these as they happen
+alter publication supabase_realtime add table
+  public.clients,
+  public.suppliers,
+  public.projects,
+  public.purchase_orders,
+  public.parts,
+  public.external_links,
+  public.shipments;
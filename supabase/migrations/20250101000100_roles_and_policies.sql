@@ -0,0 +1,329 @@
+-- Roles and row level security. The app checks the same rules before it
+-- writes (src/lib/permissions.ts); these policies are what actually holds
+-- when someone talks to the API directly.
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  role text not null default 'viewer'
+    check (role in ('admin', 'procurement', 'logistics', 'viewer', 'client', 'supplier')),
+  email text,
+  full_name text,
+  -- Portal users are scoped to one client or supplier record
+  client_id uuid references public.clients (id),
+  supplier_id uuid references public.suppliers (id),
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (role <> 'client' or client_id is not null),
+  check (role <> 'supplier' or supplier_id is not null)
+);
+
+create trigger profiles_set_updated_at before update on public.profiles
+  for each row execute function public.set_updated_at();
+
+-- Workspace-wide settings, such as which roles must use 2FA
+create table public.app_settings (
+  key text primary key,
+  value jsonb not null,
+  updated_at timestamptz default now()
+);
+
+-- Users without a profile row get the least privileged role, as in AuthContext
+create or replace function public.current_role_name()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select role from public.profiles where id = auth.uid()), 'viewer');
+$$;
+
+create or replace function public.current_client_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select client_id from public.profiles where id = auth.uid();
+$$;
+
+create or replace function public.current_supplier_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select supplier_id from public.profiles where id = auth.uid();
+$$;
+
+-- Whether the session may see workspace data: roles listed in the
+-- mfa_required_roles setting need a session that has passed a TOTP challenge
+create or replace function public.meets_mfa_policy()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or not exists (
+      select 1 from public.app_settings
+      where key = 'mfa_required_roles'
+        and value ? public.current_role_name()
+    );
+$$;
+
+create or replace function public.has_role(roles text[])
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select auth.uid() is not null
+    and public.current_role_name() = any (roles)
+    and public.meets_mfa_policy();
+$$;
+
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select public.has_role(array['admin', 'procurement', 'logistics', 'viewer']);
+$$;
+
+-- The projects and POs a portal user can reach. These read the tables
+-- directly, so the projects and purchase_orders policies can refer to each
+-- other without recursing.
+create or replace function public.client_project_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.projects where client_id = public.current_client_id();
+$$;
+
+create or replace function public.supplier_project_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select project_id from public.purchase_orders where supplier_id = public.current_supplier_id();
+$$;
+
+create or replace function public.supplier_po_ids()
+returns setof uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.purchase_orders where supplier_id = public.current_supplier_id();
+$$;
+
+-- Logistics may update POs, but not the commercial fields (READ_ONLY_FIELDS)
+create or replace function public.guard_purchase_order_fields()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_role_name() = 'logistics' and (
+    new.po_number is distinct from old.po_number
+    or new.project_id is distinct from old.project_id
+    or new.supplier_id is distinct from old.supplier_id
+    or new.amount is distinct from old.amount
+    or new.currency is distinct from old.currency
+    or new.cost_category is distinct from old.cost_category
+    or new.issued_date is distinct from old.issued_date
+  ) then
+    raise exception 'Logistics users cannot change commercial fields on a purchase order'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger purchase_orders_guard_fields before update on public.purchase_orders
+  for each row execute function public.guard_purchase_order_fields();
+
+-- Moving a row to or from the trash is an update, so it needs its own check:
+-- only the roles that may delete the entity may set or clear deleted_at
+create or replace function public.guard_trash()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at
+    and not public.has_role(tg_argv::text[]) then
+    raise exception 'You don''t have permission to delete this record'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger clients_guard_trash before update on public.clients
+  for each row execute function public.guard_trash('admin', 'procurement');
+create trigger suppliers_guard_trash before update on public.suppliers
+  for each row execute function public.guard_trash('admin', 'procurement');
+create trigger projects_guard_trash before update on public.projects
+  for each row execute function public.guard_trash('admin', 'procurement');
+create trigger purchase_orders_guard_trash before update on public.purchase_orders
+  for each row execute function public.guard_trash('admin', 'procurement');
+-- Parts go to the trash with their PO, and logistics can replace a PO's parts
+create trigger parts_guard_trash before update on public.parts
+  for each row execute function public.guard_trash('admin', 'procurement', 'logistics');
+create trigger external_links_guard_trash before update on public.external_links
+  for each row execute function public.guard_trash('admin', 'procurement');
+create trigger shipments_guard_trash before update on public.shipments
+  for each row execute function public.guard_trash('admin', 'procurement', 'logistics');
+
+alter table public.profiles enable row level security;
+alter table public.app_settings enable row level security;
+alter table public.clients enable row level security;
+alter table public.suppliers enable row level security;
+alter table public.projects enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.parts enable row level security;
+alter table public.external_links enable row level security;
+alter table public.shipments enable row level security;
+
+-- Profiles and settings are read before the 2FA challenge, so no aal check
+create policy "Users read their own profile" on public.profiles
+  for select to authenticated
+  using (id = auth.uid() or public.current_role_name() = 'admin');
+
+create policy "Signed-in users read settings" on public.app_settings
+  for select to authenticated
+  using (true);
+
+create policy "Admins write settings" on public.app_settings
+  for all to authenticated
+  using (public.has_role(array['admin']))
+  with check (public.has_role(array['admin']));
+
+-- Reads: staff see everything; portal users see their own slice
+
+create policy "Staff and own client read clients" on public.clients
+  for select to authenticated
+  using (public.is_staff() or (public.has_role(array['client']) and id = public.current_client_id()));
+
+create policy "Staff and own supplier read suppliers" on public.suppliers
+  for select to authenticated
+  using (public.is_staff() or (public.has_role(array['supplier']) and id = public.current_supplier_id()));
+
+create policy "Staff and portal users read projects" on public.projects
+  for select to authenticated
+  using (
+    public.is_staff()
+    or (public.has_role(array['client']) and client_id = public.current_client_id())
+    or (public.has_role(array['supplier']) and id in (select public.supplier_project_ids()))
+  );
+
+create policy "Staff and portal users read purchase orders" on public.purchase_orders
+  for select to authenticated
+  using (
+    public.is_staff()
+    or (public.has_role(array['supplier']) and supplier_id = public.current_supplier_id())
+    or (public.has_role(array['client']) and project_id in (select public.client_project_ids()))
+  );
+
+-- Parts are visible to whoever can see their PO
+create policy "Readers of the PO read its parts" on public.parts
+  for select to authenticated
+  using (exists (select 1 from public.purchase_orders po where po.id = parts.po_id));
+
+create policy "Staff and own supplier read external links" on public.external_links
+  for select to authenticated
+  using (
+    public.is_staff()
+    or (public.has_role(array['supplier']) and po_id in (select public.supplier_po_ids()))
+  );
+
+create policy "Staff and portal users read shipments" on public.shipments
+  for select to authenticated
+  using (
+    public.is_staff()
+    or (public.has_role(array['supplier']) and supplier_id = public.current_supplier_id())
+    or (public.has_role(array['client']) and project_id in (select public.client_project_ids()))
+  );
+
+-- Writes follow ROLE_PERMISSIONS. Portal users never write directly.
+-- Hard deletes are purges from the trash, which only admins may do.
+
+create policy "Admin and procurement insert clients" on public.clients
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement']));
+create policy "Admin and procurement update clients" on public.clients
+  for update to authenticated using (public.has_role(array['admin', 'procurement']));
+create policy "Admins purge clients" on public.clients
+  for delete to authenticated using (public.has_role(array['admin']));
+
+create policy "Admin and procurement insert suppliers" on public.suppliers
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement']));
+create policy "Admin and procurement update suppliers" on public.suppliers
+  for update to authenticated using (public.has_role(array['admin', 'procurement']));
+create policy "Admins purge suppliers" on public.suppliers
+  for delete to authenticated using (public.has_role(array['admin']));
+
+create policy "Admin and procurement insert projects" on public.projects
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement']));
+-- Logistics edits roll PO progress up into the project
+create policy "Staff with write access update projects" on public.projects
+  for update to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Admins purge projects" on public.projects
+  for delete to authenticated using (public.has_role(array['admin']));
+
+create policy "Admin and procurement insert purchase orders" on public.purchase_orders
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement']));
+create policy "Staff with write access update purchase orders" on public.purchase_orders
+  for update to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Admins purge purchase orders" on public.purchase_orders
+  for delete to authenticated using (public.has_role(array['admin']));
+
+-- Saving a PO replaces its parts, so whoever may update POs writes parts
+create policy "PO editors insert parts" on public.parts
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "PO editors update parts" on public.parts
+  for update to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "PO editors delete parts" on public.parts
+  for delete to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+
+create policy "Staff with write access insert external links" on public.external_links
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Staff with write access update external links" on public.external_links
+  for update to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Admins purge external links" on public.external_links
+  for delete to authenticated using (public.has_role(array['admin']));
+
+create policy "Staff with write access insert shipments" on public.shipments
+  for insert to authenticated with check (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Staff with write access update shipments" on public.shipments
+  for update to authenticated using (public.has_role(array['admin', 'procurement', 'logistics']));
+create policy "Admins purge shipments" on public.shipments
+  for delete to authenticated using (public.has_role(array['admin']));
+
+-- Every new sign-up gets a profile with the default role; an admin promotes it
+create or replace function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.profiles (id, email, full_name)
+  values (new.id, new.email, new.raw_user_meta_data ->> 'full_name');
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created after insert on auth.users
+  for each row execute function public.handle_new_user();
@@ -0,0 +1,87 @@
+-- Who changed what. Rows are append-only and outlive the records they
+-- describe, so the ids here are deliberately not foreign keys.
+create table public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid,
+  actor_email text,
+  entity text not null,
+  entity_id text not null,
+  action text not null,
+  field text,
+  old_value jsonb,
+  new_value jsonb,
+  project_id uuid,
+  supplier_id uuid,
+  created_at timestamptz not null default now()
+);
+
+create index audit_log_created_at_idx on public.audit_log (created_at desc);
+create index audit_log_project_id_idx on public.audit_log (project_id);
+create index audit_log_supplier_id_idx on public.audit_log (supplier_id);
+
+alter table public.audit_log enable row level security;
+
+-- Staff record their own changes; nobody edits or removes history
+create policy "Staff append their own audit entries" on public.audit_log
+  for insert to authenticated
+  with check (public.is_staff() and actor_id = auth.uid());
+
+create policy "Staff read the audit log" on public.audit_log
+  for select to authenticated
+  using (public.is_staff());
+
+-- One-time codes for getting back in without the authenticator app. Only
+-- SHA-256 hashes are stored; the codes themselves are shown once.
+create table public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  created_at timestamptz not null default now(),
+  used_at timestamptz
+);
+
+create index mfa_recovery_codes_user_id_idx on public.mfa_recovery_codes (user_id);
+
+alter table public.mfa_recovery_codes enable row level security;
+
+create policy "Users manage their own recovery codes" on public.mfa_recovery_codes
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Spends an unused code and removes the caller's TOTP factors, which drops
+-- the session back to password-only until they enroll again. Runs as the
+-- owner because auth.mfa_factors isn't writable by signed-in users.
+create or replace function public.redeem_mfa_recovery_code(code_hash text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  redeemed_id uuid;
+begin
+  update public.mfa_recovery_codes codes
+  set used_at = now()
+  where codes.id = (
+    select id from public.mfa_recovery_codes
+    where user_id = auth.uid()
+      and mfa_recovery_codes.code_hash = redeem_mfa_recovery_code.code_hash
+      and used_at is null
+    limit 1
+  )
+  returning codes.id into redeemed_id;
+
+  if redeemed_id is null then
+    return false;
+  end if;
+
+  delete from auth.mfa_factors
+  where user_id = auth.uid() and factor_type = 'totp';
+
+  return true;
+end;
+$$;
+
+revoke execute on function public.redeem_mfa_recovery_code(text) from public, anon;
+grant execute on function public.redeem_mfa_recovery_code(text) to authenticated;
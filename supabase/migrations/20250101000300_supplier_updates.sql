@@ -0,0 +1,68 @@
+-- Updates suppliers send from their portal (progress, dates, documents).
+-- Nothing touches the PO until staff approve the request.
+create table public.supplier_change_requests (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references public.suppliers (id),
+  po_id uuid not null references public.purchase_orders (id),
+  -- Mirrors payload.kind so requests can be filtered in SQL
+  kind text not null,
+  payload jsonb not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  submitted_by text,
+  submitted_at timestamptz not null default now(),
+  reviewed_by text,
+  reviewed_at timestamptz,
+  review_note text
+);
+
+create index supplier_change_requests_status_idx on public.supplier_change_requests (status, submitted_at desc);
+create index supplier_change_requests_supplier_id_idx on public.supplier_change_requests (supplier_id);
+
+alter table public.supplier_change_requests enable row level security;
+
+create policy "Staff and the submitting supplier read change requests" on public.supplier_change_requests
+  for select to authenticated
+  using (
+    public.is_staff()
+    or (public.has_role(array['supplier']) and supplier_id = public.current_supplier_id())
+  );
+
+-- Suppliers can only file pending requests against their own POs
+create policy "Suppliers submit change requests for their POs" on public.supplier_change_requests
+  for insert to authenticated
+  with check (
+    public.has_role(array['supplier'])
+    and supplier_id = public.current_supplier_id()
+    and po_id in (select public.supplier_po_ids())
+    and status = 'pending'
+    and reviewed_at is null
+  );
+
+create policy "Staff with write access review change requests" on public.supplier_change_requests
+  for update to authenticated
+  using (public.has_role(array['admin', 'procurement', 'logistics']));
+
+-- Generated PO documents and supplier uploads. The bucket is public so the
+-- links stored on external_links open without a session.
+insert into storage.buckets (id, name, public)
+values ('documents', 'documents', true)
+on conflict (id) do nothing;
+
+create policy "Staff upload documents" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'documents' and public.has_role(array['admin', 'procurement', 'logistics']));
+
+create policy "Staff replace documents" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'documents' and public.has_role(array['admin', 'procurement', 'logistics']));
+
+-- supplier-uploads/{supplierId}/{poId}/{file}
+create policy "Suppliers upload to their own folder" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'documents'
+    and public.has_role(array['supplier'])
+    and (storage.foldername(name))[1] = 'supplier-uploads'
+    and (storage.foldername(name))[2] = public.current_supplier_id()::text
+    and (storage.foldername(name))[3]::uuid in (select public.supplier_po_ids())
+  );
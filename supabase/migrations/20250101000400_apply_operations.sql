@@ -0,0 +1,76 @@
+-- Runs a batch of row operations in one transaction, so a delete that
+-- archives or reassigns dependents happens in full or not at all. Operations
+-- have the offline queue's shape (src/lib/offlineStore.ts):
+--   [{ "table": "projects", "action": "update", "rowId": "...", "values": { ... } }, ...]
+--
+-- Runs as the caller, so row level security and the guard triggers apply to
+-- every operation exactly as if it had been sent on its own.
+create or replace function public.apply_operations(operations jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  operation jsonb;
+  target text;
+  row_values jsonb;
+  column_list text;
+  affected integer;
+begin
+  for operation in select value from jsonb_array_elements(operations) loop
+    target := operation ->> 'table';
+
+    if target is null or target not in (
+      'clients', 'suppliers', 'projects', 'purchase_orders', 'parts', 'external_links', 'shipments'
+    ) then
+      raise exception 'apply_operations: unknown table %', target;
+    end if;
+
+    -- Inserts always take the id from rowId
+    row_values := case operation ->> 'action'
+      when 'insert' then coalesce(operation -> 'values', '{}') || jsonb_build_object('id', operation ->> 'rowId')
+      else operation -> 'values'
+    end;
+
+    if operation ->> 'action' in ('insert', 'update') then
+      select string_agg(format('%I', key), ', ')
+      into column_list
+      from jsonb_object_keys(row_values) as key;
+
+      if column_list is null then
+        raise exception 'apply_operations: % on % has no values', operation ->> 'action', target;
+      end if;
+    end if;
+
+    case operation ->> 'action'
+      when 'insert' then
+        execute format(
+          'insert into public.%1$I (%2$s) select %2$s from jsonb_populate_record(null::public.%1$I, $1)',
+          target, column_list
+        ) using row_values;
+      when 'update' then
+        execute format(
+          'update public.%1$I set (%2$s) = (select %2$s from jsonb_populate_record(null::public.%1$I, $1)) where id = $2',
+          target, column_list
+        ) using row_values, (operation ->> 'rowId')::uuid;
+      when 'delete' then
+        execute format('delete from public.%I where id = $1', target)
+        using (operation ->> 'rowId')::uuid;
+      else
+        raise exception 'apply_operations: unknown action %', operation ->> 'action';
+    end case;
+
+    -- A row that is missing, or hidden from the caller by a policy, fails the
+    -- whole batch rather than leaving it half applied
+    get diagnostics affected = row_count;
+    if affected = 0 then
+      raise exception 'apply_operations: % on %.% matched no rows', operation ->> 'action', target, operation ->> 'rowId'
+        using errcode = '42501';
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function public.apply_operations(jsonb) from public, anon;
+grant execute on function public.apply_operations(jsonb) to authenticated;
@@ -0,0 +1,130 @@
+-- Purchase order revisions. A PO number has exactly one live row, its current
+-- revision; amending it bumps the revision letter (A, B, C...) and appends
+-- the reason and what changed to the revisions history on the same row.
+alter table public.purchase_orders
+  add column revision text not null default 'A',
+  add column revisions jsonb not null default '[]';
+
+-- Earlier data has live duplicates of the same PO number. The newest row of
+-- each becomes the current revision, with one history entry per older row
+-- after the first, and the older rows go to the trash along with their parts.
+create temporary table po_duplicates as
+select
+  id,
+  po_number,
+  amount,
+  deadline,
+  coalesce(created_at, now()) as created_at,
+  row_number() over w as revision_number,
+  count(*) over (partition by po_number) as total,
+  last_value(id) over (w rows between unbounded preceding and unbounded following) as current_id,
+  lag(amount) over w as previous_amount,
+  lag(deadline) over w as previous_deadline
+from public.purchase_orders
+where deleted_at is null
+window w as (partition by po_number order by issued_date, created_at, id);
+
+delete from po_duplicates where total < 2;
+
+-- 1 -> A, 26 -> Z, 27 -> AA, as nextRevision in src/lib/poRevisions.ts counts
+create or replace function pg_temp.revision_letter(revision_number bigint)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when revision_number <= 26 then chr(64 + revision_number::int)
+    else chr(64 + ((revision_number - 1) / 26)::int) || chr(65 + ((revision_number - 1) % 26)::int)
+  end
+$$;
+
+update public.purchase_orders po
+set
+  revision = pg_temp.revision_letter(history.total),
+  revisions = history.entries
+from (
+  select
+    current_id,
+    max(total) as total,
+    jsonb_agg(
+      jsonb_build_object(
+        'revision', pg_temp.revision_letter(revision_number),
+        'reason', 'Merged from a duplicate PO row',
+        'changes', jsonb_strip_nulls(jsonb_build_object(
+          'amount', case when amount is distinct from previous_amount
+            then jsonb_build_object('from', previous_amount, 'to', amount) end,
+          'deadline', case when deadline is distinct from previous_deadline
+            then jsonb_build_object('from', previous_deadline, 'to', deadline) end
+        )),
+        'createdAt', created_at
+      )
+      order by revision_number
+    ) filter (where revision_number > 1) as entries
+  from po_duplicates
+  group by current_id
+) history
+where po.id = history.current_id;
+
+-- Anything pointing at a superseded row follows the PO to its current revision
+update public.shipments s
+set po_id = d.current_id
+from po_duplicates d
+where s.po_id = d.id and d.id <> d.current_id;
+
+update public.external_links l
+set po_id = d.current_id
+from po_duplicates d
+where l.po_id = d.id and d.id <> d.current_id;
+
+update public.supplier_change_requests r
+set po_id = d.current_id
+from po_duplicates d
+where r.po_id = d.id and d.id <> d.current_id;
+
+-- The trash guards only let signed-in staff soft-delete, and a migration has no user
+alter table public.parts disable trigger parts_guard_trash;
+alter table public.purchase_orders disable trigger purchase_orders_guard_trash;
+
+update public.parts p
+set deleted_at = now()
+from po_duplicates d
+where p.po_id = d.id and d.id <> d.current_id and p.deleted_at is null;
+
+update public.purchase_orders po
+set deleted_at = now()
+from po_duplicates d
+where po.id = d.id and d.id <> d.current_id;
+
+alter table public.parts enable trigger parts_guard_trash;
+alter table public.purchase_orders enable trigger purchase_orders_guard_trash;
+
+drop table po_duplicates;
+
+create unique index purchase_orders_po_number_live_key
+  on public.purchase_orders (po_number)
+  where deleted_at is null;
+
+-- Amending is a commercial change, so logistics can't touch the revision either
+create or replace function public.guard_purchase_order_fields()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_role_name() = 'logistics' and (
+    new.po_number is distinct from old.po_number
+    or new.project_id is distinct from old.project_id
+    or new.supplier_id is distinct from old.supplier_id
+    or new.amount is distinct from old.amount
+    or new.currency is distinct from old.currency
+    or new.cost_category is distinct from old.cost_category
+    or new.issued_date is distinct from old.issued_date
+    or new.revision is distinct from old.revision
+    or new.revisions is distinct from old.revisions
+  ) then
+    raise exception 'Logistics users cannot change commercial fields on a purchase order'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
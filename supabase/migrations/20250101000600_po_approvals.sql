@@ -0,0 +1,45 @@
+-- Purchase order approvals. A PO starts as a Draft, is Submitted to the
+-- approval chain its amount and project call for (po_approval_rules in
+-- app_settings), is Approved once every step has signed off, or Rejected back
+-- to its buyer, and is then Issued to the supplier. Each submission and
+-- decision is appended to approvals. The fulfillment status is unchanged.
+alter table public.purchase_orders
+  add column approval_status text not null default 'Issued'
+    check (approval_status in ('Draft', 'Submitted', 'Approved', 'Rejected', 'Issued')),
+  add column approvals jsonb not null default '[]';
+
+-- Existing POs had already gone out to their suppliers; new ones start as drafts
+alter table public.purchase_orders
+  alter column approval_status set default 'Draft';
+
+create index purchase_orders_approval_status_idx
+  on public.purchase_orders (approval_status)
+  where deleted_at is null;
+
+-- Approving is a commercial decision too. Only admin and procurement, the
+-- roles that can approve, are left able to move a PO through the workflow.
+create or replace function public.guard_purchase_order_fields()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.current_role_name() = 'logistics' and (
+    new.po_number is distinct from old.po_number
+    or new.project_id is distinct from old.project_id
+    or new.supplier_id is distinct from old.supplier_id
+    or new.amount is distinct from old.amount
+    or new.currency is distinct from old.currency
+    or new.cost_category is distinct from old.cost_category
+    or new.issued_date is distinct from old.issued_date
+    or new.revision is distinct from old.revision
+    or new.revisions is distinct from old.revisions
+    or new.approval_status is distinct from old.approval_status
+    or new.approvals is distinct from old.approvals
+  ) then
+    raise exception 'Logistics users cannot change commercial fields on a purchase order'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,17 @@
+-- An account has no access until an admin gives it a role. Users without a
+-- profile row, and new sign-ups, used to be treated as viewers, which is a
+-- staff role that can read everything.
+alter table public.profiles
+  alter column role drop default,
+  alter column role drop not null;
+
+-- Null for users without a profile or role, which no policy accepts
+create or replace function public.current_role_name()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where id = auth.uid();
+$$;
@@ -0,0 +1,88 @@
+-- The audit log is written by the database itself, so every change is
+-- recorded whichever way it arrives (the app, an offline replay, a direct
+-- API call) and nobody can add entries of their own.
+drop policy "Staff append their own audit entries" on public.audit_log;
+revoke insert, update, delete on public.audit_log from anon, authenticated;
+
+-- Column names are logged as the app's field names, e.g. po_number as poNumber
+create or replace function public.audit_field_name(column_name text)
+returns text
+language sql
+immutable
+as $$
+  select string_agg(case when position = 1 then part else initcap(part) end, '' order by position)
+  from unnest(string_to_array(column_name, '_')) with ordinality as words(part, position);
+$$;
+
+-- One entry for an insert, a move to or from the trash or a purge, and one
+-- per changed column for other updates. tg_argv[0] is the app's entity name.
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb := case when tg_op <> 'INSERT' then to_jsonb(old) end;
+  new_row jsonb := case when tg_op <> 'DELETE' then to_jsonb(new) end;
+  current_row jsonb := coalesce(new_row, old_row);
+  entry_project_id uuid;
+  entry_supplier_id uuid;
+  column_name text;
+begin
+  if tg_table_name = 'projects' then
+    entry_project_id := (current_row ->> 'id')::uuid;
+  elsif tg_table_name = 'suppliers' then
+    entry_supplier_id := (current_row ->> 'id')::uuid;
+  elsif tg_table_name = 'parts' then
+    select project_id, supplier_id into entry_project_id, entry_supplier_id
+    from public.purchase_orders where id = (current_row ->> 'po_id')::uuid;
+  else
+    entry_project_id := (current_row ->> 'project_id')::uuid;
+    entry_supplier_id := (current_row ->> 'supplier_id')::uuid;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into public.audit_log (actor_id, actor_email, entity, entity_id, action, new_value, project_id, supplier_id)
+    values (auth.uid(), auth.jwt() ->> 'email', tg_argv[0], current_row ->> 'id', 'create', new_row, entry_project_id, entry_supplier_id);
+  elsif tg_op = 'DELETE' then
+    insert into public.audit_log (actor_id, actor_email, entity, entity_id, action, old_value, project_id, supplier_id)
+    values (auth.uid(), auth.jwt() ->> 'email', tg_argv[0], current_row ->> 'id', 'purge', old_row, entry_project_id, entry_supplier_id);
+  elsif old.deleted_at is null and new.deleted_at is not null then
+    insert into public.audit_log (actor_id, actor_email, entity, entity_id, action, old_value, project_id, supplier_id)
+    values (auth.uid(), auth.jwt() ->> 'email', tg_argv[0], current_row ->> 'id', 'delete', old_row, entry_project_id, entry_supplier_id);
+  elsif old.deleted_at is not null and new.deleted_at is null then
+    insert into public.audit_log (actor_id, actor_email, entity, entity_id, action, new_value, project_id, supplier_id)
+    values (auth.uid(), auth.jwt() ->> 'email', tg_argv[0], current_row ->> 'id', 'restore', new_row, entry_project_id, entry_supplier_id);
+  else
+    for column_name in select key from jsonb_object_keys(new_row) as key loop
+      continue when column_name in ('id', 'created_at', 'updated_at', 'deleted_at', 'search_vector');
+      continue when (new_row -> column_name) is not distinct from (old_row -> column_name);
+
+      insert into public.audit_log (actor_id, actor_email, entity, entity_id, action, field, old_value, new_value, project_id, supplier_id)
+      values (
+        auth.uid(), auth.jwt() ->> 'email', tg_argv[0], current_row ->> 'id', 'update',
+        public.audit_field_name(column_name), old_row -> column_name, new_row -> column_name,
+        entry_project_id, entry_supplier_id
+      );
+    end loop;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger clients_audit after insert or update or delete on public.clients
+  for each row execute function public.audit_row_change('client');
+create trigger suppliers_audit after insert or update or delete on public.suppliers
+  for each row execute function public.audit_row_change('supplier');
+create trigger projects_audit after insert or update or delete on public.projects
+  for each row execute function public.audit_row_change('project');
+create trigger purchase_orders_audit after insert or update or delete on public.purchase_orders
+  for each row execute function public.audit_row_change('purchaseOrder');
+create trigger parts_audit after insert or update or delete on public.parts
+  for each row execute function public.audit_row_change('part');
+create trigger external_links_audit after insert or update or delete on public.external_links
+  for each row execute function public.audit_row_change('externalLink');
+create trigger shipments_audit after insert or update or delete on public.shipments
+  for each row execute function public.audit_row_change('shipment');
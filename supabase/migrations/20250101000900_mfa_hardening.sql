@@ -0,0 +1,68 @@
+-- Recovery codes could be written straight from the browser, so a session that
+-- had only passed the password step could mint itself codes and redeem one to
+-- strip the account's TOTP factor. Users may now only read their own codes;
+-- new ones come from generate_mfa_recovery_codes, which needs an aal2 session.
+drop policy "Users manage their own recovery codes" on public.mfa_recovery_codes;
+revoke insert, update, delete on public.mfa_recovery_codes from anon, authenticated;
+
+create policy "Users read their own recovery codes" on public.mfa_recovery_codes
+  for select to authenticated
+  using (user_id = auth.uid());
+
+-- Replaces the caller's recovery codes and returns the new ones, which are
+-- shown once. Only their SHA-256 hashes are kept, of the code without its dash
+-- as redeem_mfa_recovery_code expects.
+create or replace function public.generate_mfa_recovery_codes()
+returns text[]
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  codes text[] := '{}';
+  code text;
+begin
+  if auth.uid() is null or coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' then
+    raise exception 'Recovery codes can only be generated after passing a 2FA challenge'
+      using errcode = '42501';
+  end if;
+
+  delete from public.mfa_recovery_codes where user_id = auth.uid();
+
+  for i in 1..10 loop
+    code := encode(gen_random_bytes(5), 'hex');
+    insert into public.mfa_recovery_codes (user_id, code_hash)
+    values (auth.uid(), encode(digest(code, 'sha256'), 'hex'));
+    codes := codes || (substr(code, 1, 5) || '-' || substr(code, 6));
+  end loop;
+
+  return codes;
+end;
+$$;
+
+revoke execute on function public.generate_mfa_recovery_codes() from public, anon;
+grant execute on function public.generate_mfa_recovery_codes() to authenticated;
+
+-- Anyone with a verified factor has to use it, whether or not their role is
+-- on the mfa_required_roles list. Otherwise a stolen password alone would
+-- still open an account its owner had protected.
+create or replace function public.meets_mfa_policy()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+    or (
+      not exists (
+        select 1 from auth.mfa_factors
+        where user_id = auth.uid() and status = 'verified'
+      )
+      and not exists (
+        select 1 from public.app_settings
+        where key = 'mfa_required_roles'
+          and value ? public.current_role_name()
+      )
+    );
+$$;
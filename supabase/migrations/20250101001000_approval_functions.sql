@@ -0,0 +1,313 @@
+-- PO approvals move to the server. Submitting, deciding and issuing are
+-- database functions that check the step a PO is waiting on, the caller's
+-- role and that nobody decides on a PO they submitted themselves. The
+-- approval columns can't be written any other way.
+alter table public.purchase_orders
+  add column submitted_by uuid references auth.users (id) on delete set null;
+
+-- Rules are matched in the reporting currency, so the rates live in
+-- app_settings next to the rules instead of in each browser. Both start out
+-- with the app's defaults (src/lib/currency.ts and src/lib/poApprovals.ts).
+insert into public.app_settings (key, value) values
+  ('currency_settings', '{
+    "reportingCurrency": "USD",
+    "exchangeRates": [
+      { "id": "rate-eur-default", "currency": "EUR", "rate": 1.08, "effectiveDate": "2024-01-01" },
+      { "id": "rate-cny-default", "currency": "CNY", "rate": 0.14, "effectiveDate": "2024-01-01" },
+      { "id": "rate-myr-default", "currency": "MYR", "rate": 0.21, "effectiveDate": "2024-01-01" }
+    ]
+  }'),
+  ('po_approval_rules', '[
+    { "id": "standard", "name": "Standard", "minAmount": 0, "approvers": ["procurement"] },
+    { "id": "large-orders", "name": "Large orders", "minAmount": 50000, "approvers": ["procurement", "admin"] }
+  ]')
+on conflict (key) do nothing;
+
+-- USD value of one unit of currency on a day, as getRate in src/lib/currency.ts:
+-- the latest rate in effect by then, else the earliest one, else null
+create or replace function public.usd_rate(currency text, on_date date)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select case when usd_rate.currency = 'USD' then 1 else (
+    select (rate ->> 'rate')::numeric
+    from public.app_settings settings,
+      jsonb_array_elements(settings.value -> 'exchangeRates') rate
+    where settings.key = 'currency_settings'
+      and rate ->> 'currency' = usd_rate.currency
+    order by (rate ->> 'effectiveDate')::date <= on_date desc,
+      case when (rate ->> 'effectiveDate')::date <= on_date then (rate ->> 'effectiveDate')::date end desc,
+      (rate ->> 'effectiveDate')::date
+    limit 1
+  ) end;
+$$;
+
+-- The PO's amount in the reporting currency. Without a rate it stays
+-- unconverted, as the app reports it.
+create or replace function public.po_reporting_amount(po public.purchase_orders)
+returns numeric
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(po.amount, 0) * coalesce(
+    public.usd_rate(coalesce(po.currency, 'USD'), po.issued_date)
+      / nullif(public.usd_rate(reporting.currency, po.issued_date), 0),
+    1
+  )
+  from (
+    select coalesce(
+      (select value ->> 'reportingCurrency' from public.app_settings where key = 'currency_settings'),
+      'USD'
+    ) as currency
+  ) as reporting;
+$$;
+
+-- The rule matchApprovalRule would pick: the PO's project's rules before
+-- workspace-wide ones, then the highest minimum its amount reaches
+create or replace function public.match_approval_rule(po public.purchase_orders)
+returns jsonb
+language sql
+stable
+set search_path = public
+as $$
+  select rule
+  from public.app_settings settings,
+    jsonb_array_elements(settings.value) rule
+  where settings.key = 'po_approval_rules'
+    and (rule ->> 'projectId' is null or rule ->> 'projectId' = po.project_id::text)
+    and public.po_reporting_amount(po) >= (rule ->> 'minAmount')::numeric
+  order by rule ->> 'projectId' is not null desc, (rule ->> 'minAmount')::numeric desc
+  limit 1;
+$$;
+
+-- One entry of purchase_orders.approvals, shaped like ApprovalDecision
+create or replace function public.approval_entry(action text, details jsonb default '{}')
+returns jsonb
+language sql
+stable
+as $$
+  select jsonb_strip_nulls(jsonb_build_object(
+    'action', action,
+    'decidedAt', to_char(now() at time zone 'utc', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+    'decidedBy', auth.jwt() ->> 'email'
+  ) || details);
+$$;
+
+-- Approval columns only change inside the functions below, which set
+-- app.approval_workflow for their transaction, or when a backup is restored.
+-- Changing what a submitted or approved PO commits to sends it back to draft.
+create or replace function public.guard_purchase_order_approval()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_setting('app.approval_workflow', true) = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.approval_status <> 'Draft' or new.approvals <> '[]'::jsonb or new.submitted_by is not null then
+      raise exception 'New purchase orders start as drafts' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.approval_status is distinct from old.approval_status
+    or new.approvals is distinct from old.approvals
+    or new.submitted_by is distinct from old.submitted_by
+  then
+    raise exception 'Approvals can only change through submit, decide and issue' using errcode = '42501';
+  end if;
+
+  if old.approval_status in ('Submitted', 'Approved') and (
+    new.amount is distinct from old.amount
+    or new.currency is distinct from old.currency
+    or new.project_id is distinct from old.project_id
+    or new.supplier_id is distinct from old.supplier_id
+    or new.cost_category is distinct from old.cost_category
+  ) then
+    new.approval_status := 'Draft';
+    new.approvals := old.approvals || jsonb_build_array(public.approval_entry('reopened'));
+    new.submitted_by := null;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger purchase_orders_guard_approval before insert or update on public.purchase_orders
+  for each row execute function public.guard_purchase_order_approval();
+
+-- Sends a draft or rejected PO to the approvers its rule names. With no rule
+-- it needs no sign-off and is approved straight away.
+create or replace function public.submit_purchase_order(po_id uuid, comment text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  po public.purchase_orders;
+  rule jsonb;
+  chain jsonb;
+begin
+  if not public.has_role(array['admin', 'procurement']) then
+    raise exception 'Only admin and procurement users can submit purchase orders' using errcode = '42501';
+  end if;
+
+  select * into po from public.purchase_orders where id = po_id and deleted_at is null for update;
+  if not found then
+    raise exception 'Purchase order not found' using errcode = 'P0002';
+  end if;
+  if po.approval_status not in ('Draft', 'Rejected') then
+    raise exception '% has already been submitted', po.po_number;
+  end if;
+
+  rule := public.match_approval_rule(po);
+  chain := coalesce(rule -> 'approvers', '[]');
+
+  perform set_config('app.approval_workflow', 'on', true);
+  update public.purchase_orders
+  set approval_status = case when jsonb_array_length(chain) > 0 then 'Submitted' else 'Approved' end,
+    approvals = approvals || jsonb_build_array(public.approval_entry('submitted', jsonb_build_object(
+      'chain', chain,
+      'rule', rule ->> 'name',
+      'comment', nullif(trim(comment), '')
+    ))),
+    submitted_by = auth.uid()
+  where id = po_id;
+  perform set_config('app.approval_workflow', 'off', true);
+end;
+$$;
+
+-- Records a decision on the step a submitted PO is waiting for. Admins can
+-- stand in for any step, but nobody decides on their own submission.
+create or replace function public.decide_purchase_order(po_id uuid, decision text, comment text default null)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  po public.purchase_orders;
+  submitted_at bigint;
+  chain jsonb;
+  approved integer;
+  step text;
+begin
+  if decision not in ('approved', 'rejected') then
+    raise exception 'Unknown decision %', decision;
+  end if;
+  if not public.has_role(array['admin', 'procurement']) then
+    raise exception 'Only admin and procurement users can approve purchase orders' using errcode = '42501';
+  end if;
+
+  select * into po from public.purchase_orders where id = po_id and deleted_at is null for update;
+  if not found then
+    raise exception 'Purchase order not found' using errcode = 'P0002';
+  end if;
+
+  -- The chain comes from the latest submission, as in approvalProgress
+  select entries.position, entries.entry -> 'chain'
+  into submitted_at, chain
+  from jsonb_array_elements(po.approvals) with ordinality as entries(entry, position)
+  where entries.entry ->> 'action' = 'submitted'
+  order by entries.position desc
+  limit 1;
+
+  select count(*) into approved
+  from jsonb_array_elements(po.approvals) with ordinality as entries(entry, position)
+  where entries.position > submitted_at and entries.entry ->> 'action' = 'approved';
+
+  step := chain ->> approved;
+  if po.approval_status <> 'Submitted' or step is null then
+    raise exception '% isn''t waiting for approval', po.po_number;
+  end if;
+  if public.current_role_name() not in (step, 'admin') then
+    raise exception '% is waiting for % approval', po.po_number, step using errcode = '42501';
+  end if;
+  if po.submitted_by = auth.uid() then
+    raise exception 'Purchase orders can''t be approved or rejected by the person who submitted them'
+      using errcode = '42501';
+  end if;
+  if decision = 'rejected' and nullif(trim(comment), '') is null then
+    raise exception 'A reason is required to reject a purchase order';
+  end if;
+
+  perform set_config('app.approval_workflow', 'on', true);
+  update public.purchase_orders
+  set approval_status = case
+      when decision = 'rejected' then 'Rejected'
+      when approved + 1 < jsonb_array_length(chain) then 'Submitted'
+      else 'Approved'
+    end,
+    approvals = approvals || jsonb_build_array(public.approval_entry(decision, jsonb_build_object(
+      'approverRole', step,
+      'comment', nullif(trim(comment), '')
+    )))
+  where id = po_id;
+  perform set_config('app.approval_workflow', 'off', true);
+end;
+$$;
+
+create or replace function public.issue_purchase_order(po_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  po public.purchase_orders;
+begin
+  if not public.has_role(array['admin', 'procurement']) then
+    raise exception 'Only admin and procurement users can issue purchase orders' using errcode = '42501';
+  end if;
+
+  select * into po from public.purchase_orders where id = po_id and deleted_at is null for update;
+  if not found then
+    raise exception 'Purchase order not found' using errcode = 'P0002';
+  end if;
+  if po.approval_status <> 'Approved' then
+    raise exception '% has to be approved before it''s issued', po.po_number;
+  end if;
+
+  perform set_config('app.approval_workflow', 'on', true);
+  update public.purchase_orders
+  set approval_status = 'Issued',
+    approvals = approvals || jsonb_build_array(public.approval_entry('issued'))
+  where id = po_id;
+  perform set_config('app.approval_workflow', 'off', true);
+end;
+$$;
+
+-- A backup brings POs back with the approval state they were saved in.
+-- Otherwise it is apply_operations, run as the caller.
+create or replace function public.restore_backup(operations jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not public.has_role(array['admin']) then
+    raise exception 'Only admins can restore a backup' using errcode = '42501';
+  end if;
+
+  perform set_config('app.approval_workflow', 'on', true);
+  perform public.apply_operations(operations);
+  perform set_config('app.approval_workflow', 'off', true);
+end;
+$$;
+
+revoke execute on function public.submit_purchase_order(uuid, text) from public, anon;
+revoke execute on function public.decide_purchase_order(uuid, text, text) from public, anon;
+revoke execute on function public.issue_purchase_order(uuid) from public, anon;
+revoke execute on function public.restore_backup(jsonb) from public, anon;
+grant execute on function public.submit_purchase_order(uuid, text) to authenticated;
+grant execute on function public.decide_purchase_order(uuid, text, text) to authenticated;
+grant execute on function public.issue_purchase_order(uuid) to authenticated;
+grant execute on function public.restore_backup(jsonb) to authenticated;
@@ -0,0 +1,150 @@
+-- Portal users could select whole rows from the workspace tables, so PO
+-- amounts, shipment notes and project budgets reached their browsers and were
+-- only dropped there (src/lib/clientScope.ts, src/lib/supplierScope.ts). The
+-- tables are now staff-only; portal users load their slice through the
+-- functions below, which leave out what their portal doesn't show. Realtime
+-- follows the same policies, so portals no longer get live updates.
+drop policy "Staff and portal users read projects" on public.projects;
+drop policy "Staff and portal users read purchase orders" on public.purchase_orders;
+drop policy "Staff and own supplier read external links" on public.external_links;
+drop policy "Staff and portal users read shipments" on public.shipments;
+
+create policy "Staff read projects" on public.projects
+  for select to authenticated
+  using (public.is_staff());
+
+create policy "Staff read purchase orders" on public.purchase_orders
+  for select to authenticated
+  using (public.is_staff());
+
+create policy "Staff read external links" on public.external_links
+  for select to authenticated
+  using (public.is_staff());
+
+create policy "Staff read shipments" on public.shipments
+  for select to authenticated
+  using (public.is_staff());
+
+-- A row as the app reads it, with the given columns blanked out
+create or replace function public.portal_row(item jsonb, hidden jsonb default '{}')
+returns jsonb
+language sql
+immutable
+as $$
+  select (item - 'search_vector') || hidden;
+$$;
+
+-- The caller's client record and its projects, their POs with parts and the
+-- shipments for them. Budgets, suppliers, PO amounts and descriptions, the
+-- revision and approval history, shipment notes and links all stay behind.
+create or replace function public.client_portal_data()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  portal_client_id uuid := public.current_client_id();
+begin
+  if not public.has_role(array['client']) then
+    raise exception 'Only client users can load the client portal' using errcode = '42501';
+  end if;
+
+  return (
+    with own_projects as (
+      select * from public.projects p where p.client_id = portal_client_id and p.deleted_at is null
+    ), own_orders as (
+      select * from public.purchase_orders po
+      where po.project_id in (select id from own_projects) and po.deleted_at is null
+    )
+    select jsonb_build_object(
+      'clients', (
+        select coalesce(jsonb_agg(to_jsonb(c)), '[]') from public.clients c
+        where c.id = portal_client_id and c.deleted_at is null
+      ),
+      'suppliers', '[]'::jsonb,
+      'projects', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(p), '{"budget": null, "budget_categories": null}')), '[]')
+        from own_projects p
+      ),
+      'purchase_orders', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(po), '{
+          "supplier_id": null, "amount": null, "currency": null, "cost_category": null, "description": null,
+          "revisions": [], "approvals": [], "submitted_by": null
+        }')), '[]')
+        from own_orders po
+      ),
+      'parts', (
+        select coalesce(jsonb_agg(to_jsonb(part)), '[]') from public.parts part
+        where part.po_id in (select id from own_orders) and part.deleted_at is null
+      ),
+      'external_links', '[]'::jsonb,
+      'shipments', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(s), '{"supplier_id": null, "notes": null}')), '[]')
+        from public.shipments s
+        where s.project_id in (select id from own_projects) and s.deleted_at is null
+      )
+    )
+  );
+end;
+$$;
+
+-- The caller's supplier record, its own POs with parts, links and shipments,
+-- and the projects those POs belong to without their client or budget. Who
+-- signed a PO off and what they said stays internal.
+create or replace function public.supplier_portal_data()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  portal_supplier_id uuid := public.current_supplier_id();
+begin
+  if not public.has_role(array['supplier']) then
+    raise exception 'Only supplier users can load the supplier portal' using errcode = '42501';
+  end if;
+
+  return (
+    with own_orders as (
+      select * from public.purchase_orders po
+      where po.supplier_id = portal_supplier_id and po.deleted_at is null
+    )
+    select jsonb_build_object(
+      'clients', '[]'::jsonb,
+      'suppliers', (
+        select coalesce(jsonb_agg(to_jsonb(sup)), '[]') from public.suppliers sup
+        where sup.id = portal_supplier_id and sup.deleted_at is null
+      ),
+      'projects', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(p), '{"client_id": null, "budget": null, "budget_categories": null}')), '[]')
+        from public.projects p
+        where p.id in (select project_id from own_orders) and p.deleted_at is null
+      ),
+      'purchase_orders', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(po), '{"approvals": [], "submitted_by": null}')), '[]')
+        from own_orders po
+      ),
+      'parts', (
+        select coalesce(jsonb_agg(to_jsonb(part)), '[]') from public.parts part
+        where part.po_id in (select id from own_orders) and part.deleted_at is null
+      ),
+      'external_links', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(l))), '[]') from public.external_links l
+        where l.po_id in (select id from own_orders) and l.deleted_at is null
+      ),
+      'shipments', (
+        select coalesce(jsonb_agg(public.portal_row(to_jsonb(s))), '[]') from public.shipments s
+        where s.supplier_id = portal_supplier_id and s.deleted_at is null
+      )
+    )
+  );
+end;
+$$;
+
+revoke execute on function public.client_portal_data() from public, anon;
+revoke execute on function public.supplier_portal_data() from public, anon;
+grant execute on function public.client_portal_data() to authenticated;
+grant execute on function public.supplier_portal_data() to authenticated;
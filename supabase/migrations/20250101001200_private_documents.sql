@@ -0,0 +1,46 @@
+-- The documents bucket was public, so anyone holding a link could read PO
+-- PDFs and supplier uploads without signing in. It is private now: links keep
+-- the file's path in the bucket, and the app opens them through a short-lived
+-- signed URL, which only the readers below can get.
+update storage.buckets set public = false where id = 'documents';
+
+create policy "Staff read documents" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'documents' and public.is_staff());
+
+-- Suppliers read their own uploads and the documents of their own POs
+create policy "Suppliers read their own documents" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'documents'
+    and public.has_role(array['supplier'])
+    and (
+      (
+        (storage.foldername(name))[1] = 'supplier-uploads'
+        and (storage.foldername(name))[2] = public.current_supplier_id()::text
+      )
+      or (
+        (storage.foldername(name))[1] = 'purchase-orders'
+        and (storage.foldername(name))[2] in (select po_id::text from public.supplier_po_ids() as po_id)
+      )
+    )
+  );
+
+-- Links saved as public URLs become paths in the bucket
+update public.external_links
+set url = substring(url from '/storage/v1/object/public/documents/(.+)$')
+where url ~ '/storage/v1/object/public/documents/.+$';
+
+update public.supplier_change_requests
+set payload = (payload - 'url')
+  || jsonb_build_object('path', substring(payload ->> 'url' from '/storage/v1/object/public/documents/(.+)$'))
+where kind = 'document' and payload ? 'url';
+
+-- A document request may only name a file the supplier uploaded for that PO,
+-- under supplier-uploads/{supplierId}/{poId}/. Older requests that don't are
+-- left for staff to reject.
+alter table public.supplier_change_requests
+  add constraint supplier_change_requests_document_path check (
+    kind <> 'document'
+    or (payload ->> 'path') like ('supplier-uploads/' || supplier_id || '/' || po_id || '/%')
+  ) not valid;
@@ -0,0 +1,71 @@
+-- Backups now also hold the supplier change requests, the audit log and the
+-- app settings (approval rules, exchange rates, the 2FA policy), which
+-- apply_operations doesn't write. restore_backup takes them next to the
+-- record operations and writes them itself. Only the database may add to the
+-- audit log and only suppliers file change requests, so the function runs as
+-- its owner and its admin check is what guards it.
+drop function public.restore_backup(jsonb);
+
+-- Change requests are matched by id and, on a replace, the ones the backup
+-- doesn't have are dropped. Settings are matched by key; those missing from
+-- the backup keep their value. Audit entries are only ever added.
+create or replace function public.restore_backup(
+  operations jsonb,
+  records jsonb default '{}',
+  replace_all boolean default false
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_role(array['admin']) then
+    raise exception 'Only admins can restore a backup' using errcode = '42501';
+  end if;
+
+  perform set_config('app.approval_workflow', 'on', true);
+
+  -- Before the operations delete the POs they point at
+  if replace_all and records ? 'supplier_change_requests' then
+    delete from public.supplier_change_requests
+    where id not in (
+      select request.id
+      from jsonb_populate_recordset(null::public.supplier_change_requests, records -> 'supplier_change_requests') request
+    );
+  end if;
+
+  perform public.apply_operations(operations);
+
+  insert into public.supplier_change_requests
+  select * from jsonb_populate_recordset(
+    null::public.supplier_change_requests,
+    coalesce(records -> 'supplier_change_requests', '[]')
+  )
+  on conflict (id) do update set
+    supplier_id = excluded.supplier_id,
+    po_id = excluded.po_id,
+    kind = excluded.kind,
+    payload = excluded.payload,
+    status = excluded.status,
+    submitted_by = excluded.submitted_by,
+    submitted_at = excluded.submitted_at,
+    reviewed_by = excluded.reviewed_by,
+    reviewed_at = excluded.reviewed_at,
+    review_note = excluded.review_note;
+
+  insert into public.app_settings (key, value, updated_at)
+  select setting.key, setting.value, coalesce(setting.updated_at, now())
+  from jsonb_populate_recordset(null::public.app_settings, coalesce(records -> 'app_settings', '[]')) setting
+  on conflict (key) do update set value = excluded.value, updated_at = excluded.updated_at;
+
+  insert into public.audit_log
+  select * from jsonb_populate_recordset(null::public.audit_log, coalesce(records -> 'audit_log', '[]'))
+  on conflict (id) do nothing;
+
+  perform set_config('app.approval_workflow', 'off', true);
+end;
+$$;
+
+revoke execute on function public.restore_backup(jsonb, jsonb, boolean) from public, anon;
+grant execute on function public.restore_backup(jsonb, jsonb, boolean) to authenticated;
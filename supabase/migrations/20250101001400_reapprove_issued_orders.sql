@@ -0,0 +1,41 @@
+-- An issued PO still counts as committed spend, so changing what it commits
+-- to has to go back through approval like a submitted or approved one.
+create or replace function public.guard_purchase_order_approval()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_setting('app.approval_workflow', true) = 'on' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.approval_status <> 'Draft' or new.approvals <> '[]'::jsonb or new.submitted_by is not null then
+      raise exception 'New purchase orders start as drafts' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if new.approval_status is distinct from old.approval_status
+    or new.approvals is distinct from old.approvals
+    or new.submitted_by is distinct from old.submitted_by
+  then
+    raise exception 'Approvals can only change through submit, decide and issue' using errcode = '42501';
+  end if;
+
+  if old.approval_status in ('Submitted', 'Approved', 'Issued') and (
+    new.amount is distinct from old.amount
+    or new.currency is distinct from old.currency
+    or new.project_id is distinct from old.project_id
+    or new.supplier_id is distinct from old.supplier_id
+    or new.cost_category is distinct from old.cost_category
+  ) then
+    new.approval_status := 'Draft';
+    new.approvals := old.approvals || jsonb_build_array(public.approval_entry('reopened'));
+    new.submitted_by := null;
+  end if;
+
+  return new;
+end;
+$$;
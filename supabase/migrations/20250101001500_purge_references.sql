@@ -0,0 +1,25 @@
+-- Purging a record from the trash deletes it for good, so nothing may be
+-- left pointing at it. Parts and supplier change requests only exist for
+-- their PO (and supplier) and go with it. A portal account is only for its
+-- client or supplier, so it loses its profile, and with it any access, when
+-- that record is purged.
+alter table public.parts
+  drop constraint parts_po_id_fkey,
+  add constraint parts_po_id_fkey foreign key (po_id)
+    references public.purchase_orders (id) on delete cascade;
+
+alter table public.supplier_change_requests
+  drop constraint supplier_change_requests_po_id_fkey,
+  add constraint supplier_change_requests_po_id_fkey foreign key (po_id)
+    references public.purchase_orders (id) on delete cascade,
+  drop constraint supplier_change_requests_supplier_id_fkey,
+  add constraint supplier_change_requests_supplier_id_fkey foreign key (supplier_id)
+    references public.suppliers (id) on delete cascade;
+
+alter table public.profiles
+  drop constraint profiles_client_id_fkey,
+  add constraint profiles_client_id_fkey foreign key (client_id)
+    references public.clients (id) on delete cascade,
+  drop constraint profiles_supplier_id_fkey,
+  add constraint profiles_supplier_id_fkey foreign key (supplier_id)
+    references public.suppliers (id) on delete cascade;
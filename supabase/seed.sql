@@ -0,0 +1,142 @@
+-- Generated by `npm run db:seed`. Do not edit by hand.
+-- Options: {"seed":1,"clients":4,"suppliers":6,"projects":8,"purchaseOrdersPerProject":3,"delayRate":0.15,"countries":["China","Malaysia","Germany","Vietnam","Taiwan","Mexico","Italy","India"],"referenceDate":"2025-01-06"}
+
+begin;
+
+insert into public.clients (id, name, contact_person, email, phone, location) values
+  ('87fbf747-9cb8-4dfe-b47d-23673f277d11', 'Northwind Energy', 'Aisha Thompson', 'aisha@northwindenergy.com', '+1 45 7903 3572', 'New York, NY'),
+  ('97cc4b34-a88b-4231-b874-c5fe3dc12752', 'Harbor Logistics', 'Alex Okafor', 'alex@harborlogistics.com', '+1 47 3242 2368', 'Denver, CO'),
+  ('430c9fdd-3dfd-4766-8dad-f3ecb1ebd5ef', 'Summit Health', 'David Garcia', 'david@summithealth.com', '+1 20 1355 8818', 'Austin, TX'),
+  ('efb42aad-f221-4a29-a31e-6653a8828813', 'Bluewater Utilities', 'Kenji Rossi', 'kenji@bluewaterutilities.com', '+1 82 8688 3455', 'New York, NY')
+on conflict (id) do nothing;
+
+insert into public.suppliers (id, name, contact_person, email, phone, country, location, rating, on_time_delivery, positive_comments, negative_comments) values
+  ('4a24a78c-531e-4411-8dac-a61d828536ca', 'Parts & Components Co.', 'Priya Tanaka', 'priya@partscomponentsco.com', '+86 32 9924 9586', 'China', 'Shenzhen', 4.8, 72, array['Fast delivery'], '{}'),
+  ('26688a49-e24f-48dc-a2ab-3c624e3443ee', 'Precision Castings', 'James Garcia', 'james@precisioncastings.com', '+60 96 2438 3966', 'Malaysia', 'Penang', 3.1, 73, array['Responsive', 'Good quality'], array['Slow to quote']),
+  ('c3cb0c35-a1a5-4753-addf-a65b5a9903ec', 'Apex Electrical', 'James Rossi', 'james@apexelectrical.com', '+49 58 6112 6782', 'Germany', 'Stuttgart', 3.2, 73, array['Fast delivery', 'Responsive'], array['Communication issues']),
+  ('8761c743-15ff-4a03-9c1c-649b8662b622', 'Delta Steelworks', 'Lucas Thompson', 'lucas@deltasteelworks.com', '+84 35 9693 6568', 'Vietnam', 'Ho Chi Minh City', 4.1, 73, array['Responsive'], '{}'),
+  ('a5acf505-deeb-46d2-8a90-5f1b15af6003', 'Orient Cable Systems', 'Aisha Hughes', 'aisha@orientcablesystems.com', '+886 55 5955 7175', 'Taiwan', 'Taipei', 4.8, 85, array['Fast delivery', 'Competitive prices'], array['Slow to quote']),
+  ('56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Nordic Valves', 'Hannah Silva', 'hannah@nordicvalves.com', '+52 95 3456 1112', 'Mexico', 'Monterrey', 4, 81, array['Responsive', 'Clear documentation'], array['Communication issues'])
+on conflict (id) do nothing;
+
+insert into public.projects (id, budget, budget_categories, name, client_id, location, status, progress, start_date, end_date, project_manager, description) values
+  ('91c8df64-c2b7-4d28-a462-f481a46e1cc2', 321266, '[{"name":"Logistics","amount":62000},{"name":"Electrical","amount":62000},{"name":"Structural","amount":82258},{"name":"Controls","amount":115008}]'::jsonb, 'Lakeside Plant Retrofit', '87fbf747-9cb8-4dfe-b47d-23673f277d11', 'Boston, MA', 'In Progress', 38, '2024-09-15', '2025-07-08', 'Maria Thompson', 'Procurement and delivery for the Lakeside site'),
+  ('ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', 139030, '[{"name":"Structural","amount":10494},{"name":"Logistics","amount":4536},{"name":"Equipment","amount":65000},{"name":"Controls","amount":59000}]'::jsonb, 'Bay Area Cold Storage Fit-out', '97cc4b34-a88b-4231-b874-c5fe3dc12752', 'Denver, CO', 'Completed', 100, '2024-04-19', '2024-09-02', 'Aisha Kim', 'Procurement and delivery for the Bay Area site'),
+  ('cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', 455146, '[{"name":"Electrical","amount":709},{"name":"Equipment","amount":375898},{"name":"Structural","amount":78539}]'::jsonb, 'Lakeside Plant Retrofit', '430c9fdd-3dfd-4766-8dad-f3ecb1ebd5ef', 'San Francisco, CA', 'Completed', 100, '2024-01-17', '2024-10-14', 'David Schmidt', 'Procurement and delivery for the Lakeside site'),
+  ('2bc88a34-7c01-455a-95fa-609b84676411', 1361494, '[{"name":"Equipment","amount":46763},{"name":"Logistics","amount":1314731}]'::jsonb, 'Riverside Plant Retrofit', 'efb42aad-f221-4a29-a31e-6653a8828813', 'Denver, CO', 'In Progress', 32, '2024-10-02', '2025-07-25', 'David Thompson', 'Procurement and delivery for the Riverside site'),
+  ('ed0c58d6-dc64-41d2-9f2e-0e2da07b8274', 341736, '[{"name":"Structural","amount":280236},{"name":"Logistics","amount":61500}]'::jsonb, 'Riverside Cold Storage Fit-out', '87fbf747-9cb8-4dfe-b47d-23673f277d11', 'Denver, CO', 'In Progress', 9, '2024-12-13', '2025-09-07', 'Hannah Hughes', 'Procurement and delivery for the Riverside site'),
+  ('d938e46a-bf22-4b52-b15e-817856b5b2fb', 2773934, '[{"name":"Controls","amount":56000},{"name":"Electrical","amount":59000},{"name":"Structural","amount":2658934}]'::jsonb, 'Westfield Substation Upgrade', '97cc4b34-a88b-4231-b874-c5fe3dc12752', 'Atlanta, GA', 'In Progress', 93, '2024-06-07', '2025-01-21', 'Priya Garcia', 'Procurement and delivery for the Westfield site'),
+  ('534a2c88-0d12-4469-88ab-3a0ba78cfacd', 691762, '[{"name":"Structural","amount":393120},{"name":"Electrical","amount":298642}]'::jsonb, 'Riverside Data Hall Expansion', '430c9fdd-3dfd-4766-8dad-f3ecb1ebd5ef', 'Chicago, IL', 'Pending', 0, '2025-01-31', '2026-01-10', 'Aisha Kim', 'Procurement and delivery for the Riverside site'),
+  ('d8d3706a-37e5-4c0c-bfd6-a0c401a4940c', 265048, '[{"name":"Structural","amount":57500},{"name":"Equipment","amount":4868},{"name":"Electrical","amount":115983},{"name":"Controls","amount":86697}]'::jsonb, 'Harborview Cold Storage Fit-out', 'efb42aad-f221-4a29-a31e-6653a8828813', 'San Francisco, CA', 'In Progress', 63, '2024-05-31', '2025-05-14', 'Lucas Thompson', 'Procurement and delivery for the Harborview site')
+on conflict (id) do nothing;
+
+insert into public.purchase_orders (id, progress, currency, cost_category, po_number, project_id, supplier_id, status, issued_date, deadline, amount, description, approval_status, approvals) values
+  ('5c726297-79be-42b6-8e71-6b6cdab436f5', 100, 'USD', 'Structural', 'PO-2024-0001', '91c8df64-c2b7-4d28-a462-f481a46e1cc2', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Completed', '2024-10-13', '2024-11-20', 29180, 'Steel I-Beam, Control Cabinet for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-10-13T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-10-13T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-10-13T14:00:00.000Z"}]'::jsonb),
+  ('7c65246b-7439-42fa-8c0a-fe89af04c7cf', 73, 'USD', 'Controls', 'PO-2024-0002', '91c8df64-c2b7-4d28-a462-f481a46e1cc2', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Delayed', '2024-09-20', '2025-02-14', 95840, 'Steel I-Beam, Gate Valve DN150 for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-09-20T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-09-20T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-09-20T14:00:00.000Z"}]'::jsonb),
+  ('fdb114a8-4479-42fc-8168-f31367cdf417', 78, 'USD', 'Structural', 'PO-2024-0003', '91c8df64-c2b7-4d28-a462-f481a46e1cc2', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Delayed', '2024-10-12', '2025-01-30', 45600, 'Control Cabinet, LED High Bay Fixture, Cable Tray Section for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-10-12T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-10-12T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-10-12T14:00:00.000Z"}]'::jsonb),
+  ('04acfdb7-652a-4557-943c-c52ead055c49', 81, 'MYR', 'Logistics', 'PO-2024-0004', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', '26688a49-e24f-48dc-a2ab-3c624e3443ee', 'Delayed', '2024-05-18', '2024-07-02', 4200, 'Steel I-Beam for Bay Area Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-05-18T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-05-18T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-05-18T14:00:00.000Z"}]'::jsonb),
+  ('dbac7135-37da-4338-9404-eac2d9964aed', 100, 'USD', 'Structural', 'PO-2024-0005', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'Completed', '2024-04-21', '2024-07-13', 9000, 'Cable Tray Section for Bay Area Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-04-21T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-04-21T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-04-21T14:00:00.000Z"}]'::jsonb),
+  ('7ef969e8-876a-465f-b850-849df85000b4', 100, 'USD', 'Structural', 'PO-2024-0006', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', '8761c743-15ff-4a03-9c1c-649b8662b622', 'Completed', '2024-04-22', '2024-08-17', 900, 'Cable Tray Section for Bay Area Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-04-22T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-04-22T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-04-22T14:00:00.000Z"}]'::jsonb),
+  ('4dd2da9c-1c03-4598-90bb-7b91e459772f', 100, 'CNY', 'Equipment', 'PO-2024-0007', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Completed', '2024-02-13', '2024-06-28', 321280, 'Copper Cable Drum, Centrifugal Pump for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-02-13T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-02-13T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-02-13T14:00:00.000Z"}]'::jsonb),
+  ('742436d7-90f3-435a-a825-e50a1e09c867', 100, 'USD', 'Structural', 'PO-2024-0008', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '8761c743-15ff-4a03-9c1c-649b8662b622', 'Completed', '2024-02-01', '2024-03-27', 68894, 'Cable Tray Section, Control Cabinet for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-02-01T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-02-01T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-02-01T14:00:00.000Z"}]'::jsonb),
+  ('9e27e677-11f8-4ebc-a3d6-dd9c9ff1ec41', 100, 'USD', 'Electrical', 'PO-2024-0009', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '8761c743-15ff-4a03-9c1c-649b8662b622', 'Completed', '2024-01-26', '2024-03-24', 650, 'LED High Bay Fixture, Cable Tray Section for Lakeside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-01-26T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-01-26T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-01-26T14:00:00.000Z"}]'::jsonb),
+  ('da91af3b-99f3-4e98-bc1f-b57214bd5e4d', 52, 'CNY', 'Logistics', 'PO-2024-0010', '2bc88a34-7c01-455a-95fa-609b84676411', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Active', '2024-11-01', '2025-03-09', 1231125, 'Cooling Unit, Control Cabinet, LED High Bay Fixture for Riverside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-11-01T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-11-01T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-11-01T14:00:00.000Z"}]'::jsonb),
+  ('66be2266-e4ff-44a7-8968-0af5cbc46d6e', 76, 'USD', 'Logistics', 'PO-2024-0011', '2bc88a34-7c01-455a-95fa-609b84676411', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Active', '2024-10-05', '2025-02-04', 21000, 'Steel I-Beam for Riverside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-10-05T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-10-05T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-10-05T14:00:00.000Z"}]'::jsonb),
+  ('f2f35bb1-8761-4f8d-857d-bba41eeeb762', 60, 'EUR', 'Equipment', 'PO-2024-0012', '2bc88a34-7c01-455a-95fa-609b84676411', 'c3cb0c35-a1a5-4753-addf-a65b5a9903ec', 'Delayed', '2024-10-29', '2025-01-04', 36250, 'LED High Bay Fixture for Riverside Plant Retrofit', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-10-29T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-10-29T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-10-29T14:00:00.000Z"}]'::jsonb),
+  ('2ae843bb-5d4b-44ce-b949-905169188a20', 30, 'USD', 'Structural', 'PO-2024-0013', 'ed0c58d6-dc64-41d2-9f2e-0e2da07b8274', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Active', '2024-12-27', '2025-01-29', 38400, 'Copper Cable Drum, Centrifugal Pump for Riverside Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-12-27T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-12-27T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-12-27T14:00:00.000Z"}]'::jsonb),
+  ('95acfa21-a02d-4baa-b77f-61bf2d53139d', 17, 'CNY', 'Structural', 'PO-2024-0014', 'ed0c58d6-dc64-41d2-9f2e-0e2da07b8274', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Active', '2024-12-20', '2025-03-29', 106360, 'Cable Tray Section, Steel I-Beam, Copper Cable Drum for Riverside Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-12-20T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-12-20T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-12-20T14:00:00.000Z"}]'::jsonb),
+  ('4837d196-b3b0-48ae-9eee-a07b568a04a0', 19, 'USD', 'Structural', 'PO-2024-0015', 'ed0c58d6-dc64-41d2-9f2e-0e2da07b8274', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Active', '2024-12-19', '2025-03-25', 88770, 'Gate Valve DN150, Control Cabinet, Circuit Breaker Panel for Riverside Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-12-19T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-12-19T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-12-19T14:00:00.000Z"}]'::jsonb),
+  ('482d87d4-308b-43ee-b08c-9d04b6e8aafb', 100, 'CNY', 'Structural', 'PO-2024-0016', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Completed', '2024-07-03', '2024-10-23', 57610, 'Circuit Breaker Panel, Cable Tray Section, Control Cabinet for Westfield Substation Upgrade', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-07-03T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-07-03T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-07-03T14:00:00.000Z"}]'::jsonb),
+  ('9f65642c-67d7-40f4-8fdd-a22e08f102a5', 100, 'CNY', 'Structural', 'PO-2024-0017', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Completed', '2024-07-02', '2024-08-22', 1859125, 'Control Cabinet, LED High Bay Fixture, Transformer 500kVA for Westfield Substation Upgrade', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-07-02T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-07-02T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-07-02T14:00:00.000Z"}]'::jsonb),
+  ('c50a6ef7-2c2d-4167-accd-114ed8e678db', 71, 'USD', 'Structural', 'PO-2024-0018', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'Delayed', '2024-07-05', '2024-10-21', 245000, 'Centrifugal Pump, Steel I-Beam, Copper Cable Drum for Westfield Substation Upgrade', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-07-05T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-07-05T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-07-05T14:00:00.000Z"}]'::jsonb),
+  ('8d5604e0-dc44-4e67-99de-eee17e6af7c5', 0, 'USD', 'Structural', 'PO-2025-0019', '534a2c88-0d12-4469-88ab-3a0ba78cfacd', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'Active', '2025-02-06', '2025-06-24', 320000, 'Centrifugal Pump for Riverside Data Hall Expansion', 'Draft', '{}'),
+  ('b52898e8-ba49-48dd-ab7c-0bd4c7be52af', 0, 'CNY', 'Electrical', 'PO-2025-0020', '534a2c88-0d12-4469-88ab-3a0ba78cfacd', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Active', '2025-02-28', '2025-07-06', 276520, 'Control Cabinet, Gate Valve DN150 for Riverside Data Hall Expansion', 'Submitted', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2025-01-06T09:00:00.000Z"}]'::jsonb),
+  ('ad0a0580-9348-4c9a-9d38-1fbbb94301f2', 0, 'MYR', 'Structural', 'PO-2025-0021', '534a2c88-0d12-4469-88ab-3a0ba78cfacd', '26688a49-e24f-48dc-a2ab-3c624e3443ee', 'Active', '2025-02-18', '2025-06-20', 16000, 'Copper Cable Drum for Riverside Data Hall Expansion', 'Submitted', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2025-01-06T09:00:00.000Z"}]'::jsonb),
+  ('99744c56-a917-419e-92be-01dc481eb9c4', 100, 'USD', 'Controls', 'PO-2024-0022', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'Completed', '2024-06-02', '2024-08-31', 76050, 'Centrifugal Pump, Cable Tray Section, Control Cabinet for Harborview Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-06-02T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-06-02T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-06-02T14:00:00.000Z"}]'::jsonb),
+  ('6b2fd836-02ec-4155-aa88-beb25f0ddad9', 60, 'USD', 'Electrical', 'PO-2024-0023', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'Delayed', '2024-06-20', '2024-07-23', 92050, 'Cooling Unit, LED High Bay Fixture, Cable Tray Section for Harborview Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-06-20T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-06-20T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-06-20T14:00:00.000Z"}]'::jsonb),
+  ('78ac2839-5888-47fa-888f-56c89f464659', 100, 'CNY', 'Equipment', 'PO-2024-0024', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '4a24a78c-531e-4411-8dac-a61d828536ca', 'Completed', '2024-06-11', '2024-10-10', 3990, 'Circuit Breaker Panel, LED High Bay Fixture for Harborview Cold Storage Fit-out', 'Issued', '[{"action":"submitted","chain":["procurement"],"rule":"Standard","decidedAt":"2024-06-11T09:00:00.000Z"},{"action":"approved","approverRole":"procurement","decidedAt":"2024-06-11T11:00:00.000Z"},{"action":"issued","decidedAt":"2024-06-11T14:00:00.000Z"}]'::jsonb)
+on conflict (id) do nothing;
+
+insert into public.parts (id, progress, po_id, name, quantity, status) values
+  ('df20c617-8e5c-4a18-b168-8e23f1540c71', 100, '5c726297-79be-42b6-8e71-6b6cdab436f5', 'Steel I-Beam', 4, 'Completed'),
+  ('5800a3f5-f93b-498d-bfe3-0e130f66d3a9', 100, '5c726297-79be-42b6-8e71-6b6cdab436f5', 'Control Cabinet', 10, 'Completed'),
+  ('172445b0-d17a-49fe-8112-f41e34899098', 78, '7c65246b-7439-42fa-8c0a-fe89af04c7cf', 'Steel I-Beam', 2, 'Delayed'),
+  ('b05886b5-f6a6-48c0-bf53-e1cb7f55cdf0', 84, '7c65246b-7439-42fa-8c0a-fe89af04c7cf', 'Gate Valve DN150', 250, 'Delayed'),
+  ('621a0967-0fa2-4a4c-b3dc-8df65e5f814c', 76, 'fdb114a8-4479-42fc-8168-f31367cdf417', 'Control Cabinet', 10, 'In Progress'),
+  ('7e1e4690-0a25-4c9c-9b0c-ef0b16da2e22', 86, 'fdb114a8-4479-42fc-8168-f31367cdf417', 'LED High Bay Fixture', 100, 'In Progress'),
+  ('39ae58f4-c23d-4155-85a9-0041fe6f4dac', 84, 'fdb114a8-4479-42fc-8168-f31367cdf417', 'Cable Tray Section', 100, 'Delayed'),
+  ('42f56aa7-4acd-46be-9bad-cd44574ebca3', 87, '04acfdb7-652a-4557-943c-c52ead055c49', 'Steel I-Beam', 10, 'In Progress'),
+  ('60d5a63a-a699-4ffe-b0c9-e096b1a6d9e7', 100, 'dbac7135-37da-4338-9404-eac2d9964aed', 'Cable Tray Section', 250, 'Completed'),
+  ('e6d03d99-322a-4117-aa95-4365abe351e7', 100, '7ef969e8-876a-465f-b850-849df85000b4', 'Cable Tray Section', 25, 'Completed'),
+  ('f51e0381-a5a8-4605-90d2-d77a1c2e1384', 100, '4dd2da9c-1c03-4598-90bb-7b91e459772f', 'Copper Cable Drum', 2, 'Completed'),
+  ('8a83ca30-cc57-4067-a3ea-5b6e7ad3d3be', 100, '4dd2da9c-1c03-4598-90bb-7b91e459772f', 'Centrifugal Pump', 100, 'Completed'),
+  ('5affd33e-c171-4a1e-a846-83483f861f3a', 100, '742436d7-90f3-435a-a825-e50a1e09c867', 'Cable Tray Section', 4, 'Completed'),
+  ('d222c7c6-2339-4d0c-bf52-c04d946c538f', 100, '742436d7-90f3-435a-a825-e50a1e09c867', 'Control Cabinet', 25, 'Completed'),
+  ('6404bb09-b4c4-4ebe-aa4e-d9febc3f3407', 100, '9e27e677-11f8-4ebc-a3d6-dd9c9ff1ec41', 'LED High Bay Fixture', 2, 'Completed'),
+  ('f9525337-4d26-4444-8af1-65c4288893eb', 100, '9e27e677-11f8-4ebc-a3d6-dd9c9ff1ec41', 'Cable Tray Section', 10, 'Completed'),
+  ('f7a4d1c0-a61f-4458-8206-c82b2e839b4f', 47, 'da91af3b-99f3-4e98-bc1f-b57214bd5e4d', 'Cooling Unit', 100, 'Completed'),
+  ('447e7140-8908-47b6-8920-4022c0cb712a', 56, 'da91af3b-99f3-4e98-bc1f-b57214bd5e4d', 'Control Cabinet', 250, 'In Progress'),
+  ('bf164b20-5a69-477f-9f3f-23eeef57ee75', 50, 'da91af3b-99f3-4e98-bc1f-b57214bd5e4d', 'LED High Bay Fixture', 25, 'Completed'),
+  ('13e7a46f-a070-48a2-83c4-24040a14a71f', 74, '66be2266-e4ff-44a7-8968-0af5cbc46d6e', 'Steel I-Beam', 50, 'Completed'),
+  ('b84db57c-a886-4716-9dbd-e0c3fb1c740e', 47, 'f2f35bb1-8761-4f8d-857d-bba41eeeb762', 'LED High Bay Fixture', 250, 'Delayed'),
+  ('76c459f6-ca8a-426a-8ca5-55c4a746a89c', 28, '2ae843bb-5d4b-44ce-b949-905169188a20', 'Copper Cable Drum', 10, 'In Progress'),
+  ('de0ffcda-3468-45a4-9f7b-3a7db26fb5d1', 39, '2ae843bb-5d4b-44ce-b949-905169188a20', 'Centrifugal Pump', 10, 'Completed'),
+  ('90105e9a-a192-4309-9329-9ec512ff1933', 19, '95acfa21-a02d-4baa-b77f-61bf2d53139d', 'Cable Tray Section', 10, 'In Progress'),
+  ('644e5bd9-73a9-4caf-aaa2-9ccbe8c4a99c', 4, '95acfa21-a02d-4baa-b77f-61bf2d53139d', 'Steel I-Beam', 100, 'In Progress'),
+  ('d5a2ea08-0ddb-4af6-8cf5-3d989f5cd677', 4, '95acfa21-a02d-4baa-b77f-61bf2d53139d', 'Copper Cable Drum', 100, 'Completed'),
+  ('61f5b4cb-8ceb-45bb-9df5-8fccd3274b9a', 33, '4837d196-b3b0-48ae-9eee-a07b568a04a0', 'Gate Valve DN150', 4, 'In Progress'),
+  ('80b9aeaf-4480-46eb-8e08-5acee63422ed', 13, '4837d196-b3b0-48ae-9eee-a07b568a04a0', 'Control Cabinet', 25, 'In Progress'),
+  ('83de51c0-188a-4079-952c-31c16d2a44a5', 6, '4837d196-b3b0-48ae-9eee-a07b568a04a0', 'Circuit Breaker Panel', 10, 'Completed'),
+  ('7bd79b51-416c-4b73-99d7-148cd62b0441', 100, '482d87d4-308b-43ee-b08c-9d04b6e8aafb', 'Circuit Breaker Panel', 25, 'Completed'),
+  ('56f006e9-2f97-4da1-bdcc-cfe516866718', 100, '482d87d4-308b-43ee-b08c-9d04b6e8aafb', 'Cable Tray Section', 10, 'Completed'),
+  ('cd3b392f-57fe-4c8e-84a1-8e4c97550b51', 100, '482d87d4-308b-43ee-b08c-9d04b6e8aafb', 'Control Cabinet', 4, 'Completed'),
+  ('85011e6c-7a60-4b99-9b00-a113c4fc5879', 100, '9f65642c-67d7-40f4-8fdd-a22e08f102a5', 'Control Cabinet', 2, 'Completed'),
+  ('8f2607f3-3ba1-4804-bd56-084f21c105b0', 100, '9f65642c-67d7-40f4-8fdd-a22e08f102a5', 'LED High Bay Fixture', 25, 'Completed'),
+  ('45d56c07-8bd7-4f86-8508-bf3275622759', 100, '9f65642c-67d7-40f4-8fdd-a22e08f102a5', 'Transformer 500kVA', 100, 'Completed'),
+  ('4bb9b8fc-8f7a-403d-bb52-219920bac41c', 75, 'c50a6ef7-2c2d-4167-accd-114ed8e678db', 'Centrifugal Pump', 50, 'In Progress'),
+  ('11a64d36-71d9-43b3-a858-370b7d531df3', 65, 'c50a6ef7-2c2d-4167-accd-114ed8e678db', 'Steel I-Beam', 50, 'In Progress'),
+  ('8cb1b40a-7ab8-4c2e-870d-b31f4fa69185', 65, 'c50a6ef7-2c2d-4167-accd-114ed8e678db', 'Copper Cable Drum', 100, 'In Progress'),
+  ('42a5978c-214e-490d-9474-2895be3329d0', 7, '8d5604e0-dc44-4e67-99de-eee17e6af7c5', 'Centrifugal Pump', 100, 'Pending'),
+  ('0c273d34-ff10-476d-bc7f-55140ca9b52b', 2, 'b52898e8-ba49-48dd-ab7c-0bd4c7be52af', 'Control Cabinet', 100, 'Pending'),
+  ('280a6666-3830-4460-b374-093cc046e895', 3, 'b52898e8-ba49-48dd-ab7c-0bd4c7be52af', 'Gate Valve DN150', 4, 'Pending'),
+  ('792fab3c-ef04-4936-b538-ec38336895e1', 2, 'ad0a0580-9348-4c9a-9d38-1fbbb94301f2', 'Copper Cable Drum', 25, 'Pending'),
+  ('d36ecacb-1967-4315-9431-9fddfb3e68d4', 100, '99744c56-a917-419e-92be-01dc481eb9c4', 'Centrifugal Pump', 2, 'Completed'),
+  ('46992873-8136-4187-afa6-7676066125e6', 100, '99744c56-a917-419e-92be-01dc481eb9c4', 'Cable Tray Section', 25, 'Completed'),
+  ('3dac8fbe-3d50-4bf1-a3f2-c35c8d18c18c', 100, '99744c56-a917-419e-92be-01dc481eb9c4', 'Control Cabinet', 25, 'Completed'),
+  ('a4cf1554-f2d8-453e-9346-6c433fe7cfe5', 61, '6b2fd836-02ec-4155-aa88-beb25f0ddad9', 'Cooling Unit', 10, 'Delayed'),
+  ('d059b1f4-abfd-4373-9bce-e1a61c18e17d', 62, '6b2fd836-02ec-4155-aa88-beb25f0ddad9', 'LED High Bay Fixture', 250, 'Delayed'),
+  ('a9e7f9b6-b870-4880-b32b-547b15293a55', 52, '6b2fd836-02ec-4155-aa88-beb25f0ddad9', 'Cable Tray Section', 50, 'Delayed'),
+  ('8c1d74a8-8843-468f-96eb-86a72d417476', 100, '78ac2839-5888-47fa-888f-56c89f464659', 'Circuit Breaker Panel', 2, 'Completed'),
+  ('0c141125-c58b-4afb-8983-def2e0f358cc', 100, '78ac2839-5888-47fa-888f-56c89f464659', 'LED High Bay Fixture', 2, 'Completed')
+on conflict (id) do nothing;
+
+insert into public.shipments (id, type, project_id, supplier_id, po_id, part_id, shipped_date, etd_date, eta_date, tracking_number, status, container_number, container_size, container_type) values
+  ('38e79a12-0705-4fc6-94d3-42efd2958e36', 'Air', '91c8df64-c2b7-4d28-a462-f481a46e1cc2', '56e9d9a0-7799-4f34-a5f0-a50b99972827', '5c726297-79be-42b6-8e71-6b6cdab436f5', 'df20c617-8e5c-4a18-b168-8e23f1540c71', '2024-11-18', '2024-11-18', '2024-11-23', 'TRK73750451', 'Delivered', default, default, default),
+  ('5b1b556c-afff-4880-a3fc-dba11f87a99d', 'Sea', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', '26688a49-e24f-48dc-a2ab-3c624e3443ee', '04acfdb7-652a-4557-943c-c52ead055c49', '42f56aa7-4acd-46be-9bad-cd44574ebca3', '2024-06-28', '2024-06-28', '2024-07-22', 'TRK68651576', 'Delivered', 'SLEA8074822', '20ft', 'Dry'),
+  ('7b67fa21-9833-4ff9-8368-d74488ec1260', 'Sea', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'dbac7135-37da-4338-9404-eac2d9964aed', '60d5a63a-a699-4ffe-b0c9-e096b1a6d9e7', '2024-06-07', '2024-06-07', '2024-07-12', 'TRK99325687', 'Delivered', 'PKYP5584648', '40ft HC', 'Dry'),
+  ('763b4115-7f54-476a-99ba-4c7dd67dd0fd', 'Sea', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', '8761c743-15ff-4a03-9c1c-649b8662b622', '7ef969e8-876a-465f-b850-849df85000b4', 'e6d03d99-322a-4117-aa95-4365abe351e7', '2024-07-16', '2024-07-16', '2024-08-21', 'TRK38925336', 'Delivered', 'FLKY4322712', '40ft HC', 'Dry'),
+  ('a9ccef3b-232b-4d59-8a6c-16206d3fb9c5', 'Sea', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '4a24a78c-531e-4411-8dac-a61d828536ca', '4dd2da9c-1c03-4598-90bb-7b91e459772f', 'f51e0381-a5a8-4605-90d2-d77a1c2e1384', '2024-05-23', '2024-05-23', '2024-06-25', 'TRK18029476', 'Delivered', 'CZQV1304812', '40ft HC', 'Dry'),
+  ('1ffbbc8d-f2ac-435a-b0c6-76872a059434', 'Sea', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '8761c743-15ff-4a03-9c1c-649b8662b622', '742436d7-90f3-435a-a825-e50a1e09c867', '5affd33e-c171-4a1e-a846-83483f861f3a', '2024-02-24', '2024-02-24', '2024-04-01', 'TRK77276405', 'Delivered', 'RCHU3217254', '40ft', 'Dry'),
+  ('f1d49060-1fc7-49a0-b1b1-c0c8a33a060b', 'Sea', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '8761c743-15ff-4a03-9c1c-649b8662b622', '9e27e677-11f8-4ebc-a3d6-dd9c9ff1ec41', '6404bb09-b4c4-4ebe-aa4e-d9febc3f3407', '2024-02-27', '2024-02-27', '2024-03-27', 'TRK38053210', 'Delivered', 'QNRV3850755', '40ft', 'Dry'),
+  ('8eb91260-631e-4460-99d6-1f34f2c7a9dc', 'Sea', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', '4a24a78c-531e-4411-8dac-a61d828536ca', '482d87d4-308b-43ee-b08c-9d04b6e8aafb', '7bd79b51-416c-4b73-99d7-148cd62b0441', '2024-09-19', '2024-09-19', '2024-10-14', 'TRK99357817', 'Delivered', 'PIZM7303009', '40ft HC', 'Dry'),
+  ('bc4acc56-759f-4003-b4b3-6caeb3e38b76', 'Air', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', '4a24a78c-531e-4411-8dac-a61d828536ca', '9f65642c-67d7-40f4-8fdd-a22e08f102a5', '85011e6c-7a60-4b99-9b00-a113c4fc5879', '2024-08-15', '2024-08-15', '2024-08-21', 'TRK54933991', 'Delivered', default, default, default),
+  ('a71b9503-1f5a-4596-a832-6fdd4588dca5', 'Sea', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'c50a6ef7-2c2d-4167-accd-114ed8e678db', '4bb9b8fc-8f7a-403d-bb52-219920bac41c', '2024-10-07', '2024-10-07', '2024-11-04', 'TRK13767764', 'Delivered', 'UTEO6055052', '40ft HC', 'Dry'),
+  ('30dc4c2c-0c61-4fd0-a8e7-0c89bb64c619', 'Land', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', '99744c56-a917-419e-92be-01dc481eb9c4', 'd36ecacb-1967-4315-9431-9fddfb3e68d4', '2024-08-26', '2024-08-26', '2024-09-04', 'TRK31738353', 'Delivered', default, default, default),
+  ('95b66834-c435-4186-90d6-75a572eaad1c', 'Air', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '56e9d9a0-7799-4f34-a5f0-a50b99972827', '6b2fd836-02ec-4155-aa88-beb25f0ddad9', 'a4cf1554-f2d8-453e-9346-6c433fe7cfe5', '2024-08-17', '2024-08-17', '2024-08-20', 'TRK83588869', 'Delivered', default, default, default),
+  ('13e0fed8-ec72-4392-9488-cf697d527b21', 'Land', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '4a24a78c-531e-4411-8dac-a61d828536ca', '78ac2839-5888-47fa-888f-56c89f464659', '8c1d74a8-8843-468f-96eb-86a72d417476', '2024-09-30', '2024-09-30', '2024-10-09', 'TRK66082405', 'Delivered', default, default, default)
+on conflict (id) do nothing;
+
+insert into public.external_links (id, title, url, type, date, supplier_id, project_id, po_id) values
+  ('9124b6bd-d77e-4339-a512-67e311dce101', 'PO-2024-0001 photo', 'https://example.com/photos/po-2024-0001', 'Photo', '2024-11-03', '56e9d9a0-7799-4f34-a5f0-a50b99972827', '91c8df64-c2b7-4d28-a462-f481a46e1cc2', '5c726297-79be-42b6-8e71-6b6cdab436f5'),
+  ('dd77d8a0-2960-4a00-8851-39c62252bb3f', 'PO-2024-0005 photo', 'https://example.com/photos/po-2024-0005', 'Photo', '2024-04-25', 'a5acf505-deeb-46d2-8a90-5f1b15af6003', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', 'dbac7135-37da-4338-9404-eac2d9964aed'),
+  ('05c6d128-be33-4029-9201-e30bea5cbd76', 'PO-2024-0006 report', 'https://example.com/reports/po-2024-0006', 'Report', '2024-05-22', '8761c743-15ff-4a03-9c1c-649b8662b622', 'ef5068ab-24a4-4ba9-b81a-68ea76e8ff9b', '7ef969e8-876a-465f-b850-849df85000b4'),
+  ('b71d38a0-f14c-4f56-87d1-bbdd6fb93bef', 'PO-2024-0007 photo', 'https://example.com/photos/po-2024-0007', 'Photo', '2024-02-22', '4a24a78c-531e-4411-8dac-a61d828536ca', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '4dd2da9c-1c03-4598-90bb-7b91e459772f'),
+  ('6998f0da-7b53-494c-b17c-174038636616', 'PO-2024-0008 tracking', 'https://example.com/trackings/po-2024-0008', 'Tracking', '2024-02-16', '8761c743-15ff-4a03-9c1c-649b8662b622', 'cb4ecfe8-6c2f-4d89-9ff6-a6837c0a6631', '742436d7-90f3-435a-a825-e50a1e09c867'),
+  ('ad8f34d4-3abc-4b57-a157-bc4b45824438', 'PO-2024-0011 tracking', 'https://example.com/trackings/po-2024-0011', 'Tracking', '2024-10-06', '56e9d9a0-7799-4f34-a5f0-a50b99972827', '2bc88a34-7c01-455a-95fa-609b84676411', '66be2266-e4ff-44a7-8968-0af5cbc46d6e'),
+  ('75f05251-7ded-4fa3-8f89-fcce4cd63da5', 'PO-2024-0012 document', 'https://example.com/documents/po-2024-0012', 'Document', '2024-11-24', 'c3cb0c35-a1a5-4753-addf-a65b5a9903ec', '2bc88a34-7c01-455a-95fa-609b84676411', 'f2f35bb1-8761-4f8d-857d-bba41eeeb762'),
+  ('f600f157-fddf-486d-8204-c2784f35cbd4', 'PO-2024-0017 tracking', 'https://example.com/trackings/po-2024-0017', 'Tracking', '2024-07-06', '4a24a78c-531e-4411-8dac-a61d828536ca', 'd938e46a-bf22-4b52-b15e-817856b5b2fb', '9f65642c-67d7-40f4-8fdd-a22e08f102a5'),
+  ('71db807c-f371-40c0-b490-364a0209f959', 'PO-2024-0023 photo', 'https://example.com/photos/po-2024-0023', 'Photo', '2024-07-07', '56e9d9a0-7799-4f34-a5f0-a50b99972827', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '6b2fd836-02ec-4155-aa88-beb25f0ddad9'),
+  ('c29fb51e-c4dc-40c3-a55b-8c815775077a', 'PO-2024-0024 report', 'https://example.com/reports/po-2024-0024', 'Report', '2024-06-22', '4a24a78c-531e-4411-8dac-a61d828536ca', 'd8d3706a-37e5-4c0c-bfd6-a0c401a4940c', '78ac2839-5888-47fa-888f-56c89f464659')
+on conflict (id) do nothing;
+
+commit;